@@ -5,8 +5,14 @@ import Profile from "./pages/Profile";
 import Calendar from "./pages/Calendar";
 import Chat from "./pages/Chat";
 import Groups from "./pages/Groups";
+import GroupSettings from "./pages/GroupSettings";
 import Timer from "./pages/Timer";
+import Matches from "./pages/Matches";
+import Analytics from "./pages/Analytics";
+import Search from "./pages/Search";
+import Messages from "./pages/Messages";
 import { Nav } from "./components/Nav";
+import CommandPalette from "./components/CommandPalette";
 
 export function App() {
   return (
@@ -19,10 +25,16 @@ export function App() {
           <Route path="/profile" element={<Profile />} />
           <Route path="/calendar" element={<Calendar />} />
           <Route path="/chat" element={<Chat />} />
+          <Route path="/messages" element={<Messages />} />
           <Route path="/groups" element={<Groups />} />
+          <Route path="/groups/:id/settings" element={<GroupSettings />} />
+          <Route path="/matches" element={<Matches />} />
           <Route path="/timer" element={<Timer />} />
+          <Route path="/analytics" element={<Analytics />} />
+          <Route path="/search" element={<Search />} />
         </Routes>
       </main>
+      <CommandPalette />
     </div>
   );
 }
@@ -0,0 +1,70 @@
+import { useEffect, useMemo, useRef } from "react";
+import { SLOT_MINUTES, SLOTS_PER_DAY, cellsToSlots, slotsToCells, weeklyHours, type WeeklySlot } from "../lib/availability";
+import { minutesToTime } from "../lib/timeGrid";
+
+/**
+ * Weekly availability picker for the profile. Click or drag over the
+ * half-hour cells to mark (or, starting on a marked cell, unmark) when
+ * you are usually free. Times are in the profile's time zone.
+ */
+type Props = {
+  value: WeeklySlot[];
+  onChange: (slots: WeeklySlot[]) => void;
+};
+
+// Monday first; values are weekday numbers (0 = Sunday)
+export const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+export const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const CELL_PX = 9;
+
+export function AvailabilityEditor({ value, onChange }: Props) {
+  const cells = useMemo(() => slotsToCells(value), [value]);
+  // Paint mode while the pointer is down: true marks, false clears
+  const paint = useRef<boolean | null>(null);
+
+  useEffect(() => {
+    const stop = () => { paint.current = null; };
+    window.addEventListener("pointerup", stop);
+    return () => window.removeEventListener("pointerup", stop);
+  }, []);
+
+  function set(weekday: number, slot: number, on: boolean) {
+    if (cells[weekday][slot] === on) return;
+    const next = cells.map(d => [...d]);
+    next[weekday][slot] = on;
+    onChange(cellsToSlots(next));
+  }
+
+  return (
+    <div>
+      <div className="flex select-none" style={{ touchAction: "none" }}>
+        <div className="w-10 shrink-0 pt-5">
+          {Array.from({ length: 24 }, (_, h) => (
+            <div key={h} className="text-right text-[9px] leading-none text-white/50" style={{ height: CELL_PX * 2 }}>
+              {h % 3 === 0 ? minutesToTime(h * 60) : ""}
+            </div>
+          ))}
+        </div>
+        {WEEK_ORDER.map(wd => (
+          <div key={wd} className="flex-1">
+            <div className="h-5 text-center text-xs text-white/70">{WEEKDAY_NAMES[wd]}</div>
+            {Array.from({ length: SLOTS_PER_DAY }, (_, i) => (
+              <div
+                key={i}
+                onPointerDown={(e) => { e.preventDefault(); paint.current = !cells[wd][i]; set(wd, i, paint.current); }}
+                onPointerEnter={() => { if (paint.current !== null) set(wd, i, paint.current); }}
+                className={"mx-px cursor-pointer " + (cells[wd][i] ? "bg-emerald-500/70" : "bg-white/5 hover:bg-white/15") + (i % 2 ? " mb-px" : "")}
+                style={{ height: CELL_PX - (i % 2 ? 1 : 0) }}
+                title={`${WEEKDAY_NAMES[wd]} ${minutesToTime(i * SLOT_MINUTES)}–${minutesToTime((i + 1) * SLOT_MINUTES)}`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 flex items-center justify-between text-xs text-white/60">
+        <span>{weeklyHours(value)} h per week</span>
+        {value.length ? <button type="button" className="underline hover:text-white" onClick={() => onChange([])}>Clear</button> : null}
+      </div>
+    </div>
+  );
+}
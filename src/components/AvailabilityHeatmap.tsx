@@ -0,0 +1,102 @@
+import { useEffect, useMemo, useState } from "react";
+import { toastError } from "../lib/supabase";
+import { Button } from "./ui/Button";
+import { SLOT_MINUTES, SLOTS_PER_DAY, loadGroupAvailability, overlapHeatmap, type MemberAvailability } from "../lib/availability";
+import { minutesToTime, weekDays } from "../lib/timeGrid";
+import { addDays, weekdayOf } from "../lib/tz";
+import { WEEKDAY_NAMES } from "./AvailabilityEditor";
+
+/**
+ * "When can everyone meet?" for one group: a heatmap of the week in the
+ * viewer's zone where darker half-hours have more members free. Clicking
+ * a slot proposes a one-hour session starting there.
+ */
+type Props = {
+  groupId: string;
+  tz: string;
+  /** Initial week (any day key in it). */
+  day: string;
+  onPick: (day: string, start: string, end: string) => void;
+};
+
+const CELL_PX = 9;
+
+export function AvailabilityHeatmap({ groupId, tz, day, onPick }: Props) {
+  const [members, setMembers] = useState<MemberAvailability[]>([]);
+  const [anchor, setAnchor] = useState(day);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let alive = true;
+    setLoading(true);
+    (async () => {
+      try {
+        const list = await loadGroupAvailability(groupId);
+        if (alive) setMembers(list);
+      } catch (e) { toastError(e); }
+      if (alive) setLoading(false);
+    })();
+    return () => { alive = false; };
+  }, [groupId]);
+
+  const days = weekDays(anchor);
+  const heat = useMemo(() => overlapHeatmap(members, days, tz), [members, anchor, tz]);
+  const known = members.filter(m => m.slots.length);
+  const missing = members.filter(m => !m.slots.length);
+  const best = Math.max(0, ...heat.flat().map(c => c.free.length));
+
+  function pick(di: number, slot: number) {
+    const from = slot * SLOT_MINUTES;
+    onPick(days[di], minutesToTime(from), minutesToTime(Math.min(from + 60, 24 * 60 - 1)));
+  }
+
+  if (loading) return <div className="text-sm text-white/70">Loading availability…</div>;
+  if (!known.length) {
+    return <div className="text-sm text-white/70">Nobody in this group has set their weekly availability yet (Profile → Weekly availability).</div>;
+  }
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center justify-between text-sm text-white/80">
+        <span>{days[0]} – {days[6]} <span className="text-xs text-white/50">({tz})</span></span>
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant="ghost" onClick={() => setAnchor(a => addDays(a, -7))}>Prev</Button>
+          <Button size="sm" variant="ghost" onClick={() => setAnchor(a => addDays(a, 7))}>Next</Button>
+        </div>
+      </div>
+      <div className="flex select-none">
+        <div className="w-10 shrink-0 pt-5">
+          {Array.from({ length: 24 }, (_, h) => (
+            <div key={h} className="text-right text-[9px] leading-none text-white/50" style={{ height: CELL_PX * 2 }}>
+              {h % 3 === 0 ? minutesToTime(h * 60) : ""}
+            </div>
+          ))}
+        </div>
+        {days.map((d, di) => (
+          <div key={d} className="flex-1">
+            <div className="h-5 text-center text-xs text-white/70">{WEEKDAY_NAMES[weekdayOf(d)]} {Number(d.slice(8))}</div>
+            {Array.from({ length: SLOTS_PER_DAY }, (_, i) => {
+              const free = heat[di][i].free;
+              const share = free.length / known.length;
+              return (
+                <button
+                  key={i}
+                  type="button"
+                  onClick={() => pick(di, i)}
+                  className={"mx-px block w-[calc(100%-2px)] hover:ring-1 hover:ring-white/60" + (i % 2 ? " mb-px" : "")
+                    + (best && free.length === best ? " outline outline-1 outline-emerald-300" : "")}
+                  style={{ height: CELL_PX - (i % 2 ? 1 : 0), background: free.length ? `rgba(16,185,129,${0.15 + share * 0.8})` : "rgba(255,255,255,0.05)" }}
+                  title={`${minutesToTime(i * SLOT_MINUTES)}: ${free.length}/${known.length} free${free.length ? ` — ${free.join(", ")}` : ""}`}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="text-xs text-white/60">
+        Best: {best}/{known.length} free (outlined). Click a slot to schedule a session there.
+        {missing.length ? ` No availability set: ${missing.map(m => m.name).join(", ")}.` : ""}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import type { KeyboardEvent } from "react";
+import { SmilePlus } from "lucide-react";
+import { EMOJIS, summarize, type Reaction } from "../lib/reactions";
+
+/**
+ * Pieces shared by group chat (pages/Chat.tsx) and direct messages
+ * (pages/Messages.tsx): composer key handling and sizing, message
+ * timestamps and the reaction chips with their emoji picker.
+ */
+
+// Enter sends, Shift+Enter (or Enter while composing text in an IME) starts a new line
+export function enterSends(e: KeyboardEvent) {
+  if (e.key !== "Enter" || e.shiftKey || e.nativeEvent.isComposing) return false;
+  e.preventDefault();
+  return true;
+}
+
+// Composer height follows the text, up to a few lines
+export function rowsFor(text: string) {
+  return Math.min(6, text.split("\n").length);
+}
+
+// Format message timestamp with relative dates
+export function formatTimestamp(date: string) {
+  const d = new Date(date);
+  const now = new Date();
+  const diffMs = now.getTime() - d.getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  if (diffMins < 1) return "Just now";
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays === 1) return "Yesterday";
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return d.toLocaleDateString();
+}
+
+/** Counted chips for a message's reactions plus the "add reaction" button. */
+export function ReactionChips({ reactions, onReact, onPicker }: {
+  reactions: Reaction[];
+  onReact: (emoji: string) => void;
+  onPicker: () => void;
+}) {
+  return (
+    <>
+      {summarize(reactions, (window as any).__uid || null).map(r => (
+        <button
+          key={r.emoji}
+          title={r.names.join(", ")}
+          onClick={() => onReact(r.emoji)}
+          className={"badge hover:bg-white/20 " + (r.mine ? "border-cyan-400/60 bg-cyan-500/20" : "")}
+        >
+          {r.emoji} {r.count}
+        </button>
+      ))}
+      <button title="Add reaction" className="badge opacity-60 hover:bg-white/20 hover:opacity-100" onClick={onPicker}>
+        <SmilePlus size={14} />
+      </button>
+    </>
+  );
+}
+
+export function EmojiPicker({ onPick }: { onPick: (emoji: string) => void }) {
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-1">
+      {EMOJIS.map(e => <button key={e} className="badge hover:bg-white/20" onClick={() => onPick(e)}>{e}</button>)}
+    </div>
+  );
+}
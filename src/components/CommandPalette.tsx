@@ -1,63 +1,274 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import Modal from "./Modal";
 import { useNavigate } from "react-router-dom";
+import { getUserOrNull, supabase, toastError } from "../lib/supabase";
+import { BUILTIN_PRESETS, describeSteps, listCustomPresets, type Preset } from "../lib/presets";
+import { searchAll, hitLink, KIND_NAMES, MIN_QUERY, type SearchHit } from "../lib/search";
+import {
+  OPEN_PALETTE_EVENT, commandScore, noteRecentCommand, onCommandsChange, parseWhen, recentCommandIds, registeredCommands,
+  type Command,
+} from "../lib/commands";
+import { formatWhen } from "../lib/sessions";
+import { browserTimeZone, isValidTimeZone, zonedTimeToUtc } from "../lib/tz";
+import { SearchSnippet } from "./SearchSnippet";
 
-type Action = { id: string; label: string; hint?: string; to: string };
+type Group = { id: string; name: string; unique_key: string | null };
+type Upcoming = { id: string; title: string | null; start_at: string; group_id: string };
+// Full-text hits carry their highlighted snippet alongside
+type Row = Command & { snippet?: string };
 
-const ACTIONS: Action[] = [
-  { id: "home",     label: "Home",            hint: "Go to landing",    to: "/" },
-  { id: "calendar", label: "Calendar",        hint: "Plan sessions",    to: "/calendar" },
-  { id: "timer",    label: "Pomodoro",        hint: "Focus mode",       to: "/timer" },
-  { id: "groups",   label: "Groups",          hint: "Find your squad",  to: "/groups" },
-  { id: "chat",     label: "Chat & Video",    hint: "Coordinate fast",  to: "/chat" },
-];
+const NAV: Command[] = [
+  { id: "home",      label: "Home",          hint: "Go to landing",       to: "/" },
+  { id: "calendar",  label: "Calendar",      hint: "Plan sessions",       to: "/calendar" },
+  { id: "timer",     label: "Pomodoro",      hint: "Focus mode",          to: "/timer", keywords: ["timer"] },
+  { id: "groups",    label: "Groups",        hint: "Find your squad",     to: "/groups" },
+  { id: "chat",      label: "Chat & Video",  hint: "Coordinate fast",     to: "/chat" },
+  { id: "messages",  label: "Messages",      hint: "Direct messages",     to: "/messages", keywords: ["dm", "inbox"] },
+  { id: "matches",   label: "Matches",       hint: "Groups and partners", to: "/matches" },
+  { id: "analytics", label: "Stats",         hint: "Your focus history",  to: "/analytics", keywords: ["analytics"] },
+  { id: "search",    label: "Search",        hint: "Messages, groups and sessions", to: "/search" },
+  { id: "profile",   label: "Profile",       hint: "Courses, availability, time zone", to: "/profile" },
+].map(c => ({ ...c, section: "Navigate" }));
 
-export default function CommandPalette({ open, onClose }:{ open:boolean; onClose:()=>void }){
+const TIMER: Command[] = [
+  { id: "focus-25", label: "Start 25-min focus", hint: "Classic 25/5", to: "/timer?preset=classic-25&start=1", keywords: ["pomodoro"] },
+  { id: "focus-50", label: "Start 50-min focus", hint: "Long 50/10", to: "/timer?preset=classic-50&start=1", keywords: ["pomodoro"] },
+  { id: "schedule", label: "Schedule session", hint: "Try “schedule session tomorrow 6pm”", to: "/calendar?new=" },
+].map(c => ({ ...c, section: "Actions" }));
+
+// "Timer: <preset>" entries open the Timer page with that program selected
+function presetActions(list: Preset[]): Command[] {
+  return list.map(p => ({
+    id: `preset-${p.id}`,
+    label: `Timer: ${p.name}`,
+    hint: p.description || describeSteps(p.steps),
+    to: `/timer?preset=${encodeURIComponent(p.id)}`,
+    section: "Timer programs",
+  }));
+}
+
+function groupActions(groups: Group[]): Command[] {
+  return groups.flatMap(g => [
+    { id: `group-${g.id}`, label: `Switch to group ${g.name}`, hint: "Open its chat", to: `/chat?group=${g.id}`, section: "Groups" },
+    { id: `video-${g.id}`, label: `Open video room: ${g.name}`, to: `/chat?group=${g.id}&video=1`, section: "Groups" },
+    { id: `settings-${g.id}`, label: `Group settings: ${g.name}`, hint: "Members, roles and requests", to: `/groups/${g.id}/settings`, section: "Groups" },
+    ...(g.unique_key ? [{
+      id: `code-${g.id}`,
+      label: `Copy join code: ${g.name}`,
+      hint: g.unique_key,
+      section: "Groups",
+      run: async () => {
+        await navigator.clipboard.writeText(g.unique_key!);
+        (window as any).notify?.("Join code copied");
+      },
+    }] : []),
+  ]);
+}
+
+function sessionActions(list: Upcoming[], groups: Group[], tz: string): Command[] {
+  return list.map(s => {
+    const group = groups.find(g => g.id === s.group_id)?.name || "Group";
+    return {
+      id: `session-${s.id}`,
+      label: `${s.title || `Study: ${group}`} · ${formatWhen(s.start_at, tz)}`,
+      hint: group,
+      to: `/calendar?session=${s.id}`,
+      section: "Upcoming sessions",
+    };
+  });
+}
+
+// "schedule session tomorrow 6pm [group]": one entry per matching group
+function scheduleActions(q: string, groups: Group[], tz: string): Command[] {
+  const m = q.match(/^\s*sched\w*(?:\s+(?:a\s+)?session)?\s+(.+)$/i);
+  if (!m) return [];
+  const when = parseWhen(m[1], tz);
+  if (!when) return [];
+  const rest = m[1].toLowerCase();
+  const named = groups.filter(g => rest.includes(g.name.toLowerCase()));
+  const label = formatWhen(zonedTimeToUtc(when.date, when.time, tz), tz);
+  return (named.length ? named : groups).slice(0, 5).map(g => ({
+    id: `schedule-${g.id}`,
+    label: `Schedule session ${label} · ${g.name}`,
+    to: `/calendar?new=${when.date}&at=${when.time}&group=${g.id}`,
+    section: "Actions",
+  }));
+}
+
+/**
+ * Command palette, mounted once in App (see lib/commands.ts). Ctrl/Cmd+K
+ * or `openPalette()` opens it. With an empty query it lists recent
+ * commands, the open page's commands and everything else by section;
+ * typing ranks all of them by fuzzy match and adds full-text search hits
+ * once the query is long enough. Arrow keys move, Enter runs.
+ */
+export default function CommandPalette(){
   const nav = useNavigate();
+  const [open, setOpen] = useState(false);
   const [q, setQ] = useState("");
+  const [active, setActive] = useState(0);
+  const [custom, setCustom] = useState<Preset[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [upcoming, setUpcoming] = useState<Upcoming[]>([]);
+  const [tz, setTz] = useState(() => browserTimeZone());
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [pageCommands, setPageCommands] = useState<Command[]>(() => registeredCommands());
+  const listRef = useRef<HTMLDivElement>(null);
+
+  function close(){ setOpen(false); setQ(""); setActive(0); }
+
+  useEffect(()=> onCommandsChange(()=> setPageCommands(registeredCommands())),[]);
+
+  // Fetch the user's presets, groups and upcoming sessions each time the palette opens
+  useEffect(()=>{
+    if(!open) return;
+    let alive = true;
+    (async ()=>{
+      const user = await getUserOrNull(); if(!user) return;
+      try {
+        const [list, prof, gm] = await Promise.all([
+          listCustomPresets(user.id),
+          supabase.from("profiles").select("time_zone").eq("id", user.id).maybeSingle(),
+          supabase.from("group_members").select("study_groups(id, name, unique_key)").eq("user_id", user.id),
+        ]);
+        const gs = (gm.data || []).map((r: any) => r.study_groups).filter(Boolean) as Group[];
+        const { data: ss } = gs.length
+          ? await supabase
+            .from("study_sessions")
+            .select("id, title, start_at, group_id")
+            .in("group_id", gs.map(g => g.id))
+            .eq("kind", "scheduled")
+            .gte("start_at", new Date().toISOString())
+            .order("start_at", { ascending: true })
+            .limit(10)
+          : { data: [] };
+        if(!alive) return;
+        setCustom(list);
+        setGroups(gs);
+        setUpcoming((ss || []) as Upcoming[]);
+        if(isValidTimeZone(prof.data?.time_zone)) setTz(prof.data!.time_zone);
+      } catch { /* palette still works without them */ }
+    })();
+    return () => { alive = false; };
+  },[open]);
+
+  // Full-text hits for the query, once typing pauses
+  useEffect(()=>{
+    const s = q.trim();
+    if(!open || s.length < MIN_QUERY){ setHits([]); return; }
+    let alive = true;
+    const t = setTimeout(async ()=>{
+      try { const found = await searchAll(s, { limit: 8 }); if(alive) setHits(found); } catch { if(alive) setHits([]); }
+    }, 250);
+    return () => { alive = false; clearTimeout(t); };
+  },[q, open]);
 
   useEffect(()=>{
     function onKey(e: KeyboardEvent){
       if((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k"){
         e.preventDefault();
-        if(open) onClose();
-        else (document.getElementById("open-cmd") as HTMLButtonElement | null)?.click();
+        if(open) close(); else setOpen(true);
       }
     }
+    function onOpen(e: Event){
+      setQ((e as CustomEvent<string>).detail || "");
+      setActive(0);
+      setOpen(true);
+    }
     document.addEventListener("keydown", onKey);
-    return ()=> document.removeEventListener("keydown", onKey);
-  },[open, onClose]);
+    window.addEventListener(OPEN_PALETTE_EVENT, onOpen);
+    return ()=> { document.removeEventListener("keydown", onKey); window.removeEventListener(OPEN_PALETTE_EVENT, onOpen); };
+  },[open]);
+
+  const rows = useMemo((): Row[] => {
+    const page = pageCommands.map(c => ({ ...c, section: c.section || "This page" }));
+    const all = [
+      ...page, ...TIMER, ...NAV,
+      ...groupActions(groups), ...sessionActions(upcoming, groups, tz),
+      ...presetActions([...BUILTIN_PRESETS, ...custom]),
+    ];
+    const s = q.trim();
+    if(!s){
+      const byId = new Map(all.map(c => [c.id, c]));
+      const recent = recentCommandIds().map(id => byId.get(id)).filter((c): c is Command => !!c);
+      return [...recent.map(c => ({ ...c, section: "Recent" })), ...all.filter(c => !recent.includes(c))];
+    }
+    const ranked = all
+      .map(c => ({ c, score: commandScore(s, c) }))
+      .filter((x): x is { c: Command; score: number } => x.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 30)
+      .map(x => x.c);
+    const found: Row[] = hits.map(h => ({
+      id: `hit-${h.kind}-${h.id}`,
+      label: `${h.title || h.group_name || "Untitled"}${h.kind === "message" && h.author_name ? ` · ${h.author_name}` : ""}`,
+      section: `Search: ${KIND_NAMES[h.kind]}`,
+      to: hitLink(h),
+      snippet: h.snippet,
+    }));
+    const everything: Row[] = s.length >= MIN_QUERY
+      ? [{ id: "search-all", label: `Search everything for “${s}”`, hint: "Messages, groups and sessions, with filters", to: `/search?q=${encodeURIComponent(s)}` }]
+      : [];
+    return [...scheduleActions(s, groups, tz), ...ranked, ...found, ...everything];
+  },[q, custom, groups, upcoming, tz, hits, pageCommands]);
+
+  useEffect(()=>{ setActive(0); },[q]);
+  useEffect(()=>{
+    listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: "nearest" });
+  },[active]);
+
+  async function runRow(r: Row){
+    // Search hits and one-off schedule entries aren't worth remembering
+    if(!r.id.startsWith("hit-") && !r.id.startsWith("schedule-") && r.id !== "search-all") noteRecentCommand(r.id);
+    close();
+    try {
+      await r.run?.();
+      if(r.to) nav(r.to);
+    } catch(e){ toastError(e); }
+  }
 
-  const results = useMemo(()=>{
-    const s = q.trim().toLowerCase();
-    if(!s) return ACTIONS;
-    return ACTIONS.filter(a => a.label.toLowerCase().includes(s) || (a.hint||"").toLowerCase().includes(s));
-  },[q]);
+  function onInputKey(e: React.KeyboardEvent<HTMLInputElement>){
+    if(e.key === "ArrowDown"){ e.preventDefault(); setActive(i => Math.min(i + 1, rows.length - 1)); }
+    else if(e.key === "ArrowUp"){ e.preventDefault(); setActive(i => Math.max(i - 1, 0)); }
+    else if(e.key === "Enter" && rows[active]){ e.preventDefault(); runRow(rows[active]); }
+  }
 
   return (
-    <Modal open={open} onClose={onClose} title="Command Palette">
+    <Modal open={open} onClose={close} title="Command Palette">
       <div className="space-y-3">
         <input
           autoFocus
           value={q}
           onChange={e=>setQ(e.target.value)}
-          placeholder="Type to search…"
+          onKeyDown={onInputKey}
+          placeholder="Type a command or search…"
           className="w-full px-3 py-2 rounded-md bg-white/10 border border-white/20 text-white focus:outline-none focus:ring-2 focus:ring-white/30"
         />
-        <div className="max-h-72 overflow-y-auto rounded-md border border-white/10 divide-y divide-white/10">
-          {results.map(r => (
-            <button
-              key={r.id}
-              onClick={()=>{ onClose(); nav(r.to); }}
-              className="w-full text-left px-3 py-2 hover:bg-white/10 transition"
-            >
-              <div className="font-medium">{r.label}</div>
-              {r.hint && <div className="text-xs text-white/60">{r.hint}</div>}
-            </button>
+        <div ref={listRef} className="max-h-80 overflow-y-auto rounded-md border border-white/10 divide-y divide-white/10">
+          {rows.map((r, i) => (
+            <div key={r.id}>
+              {(!q.trim() && r.section && r.section !== rows[i - 1]?.section) && (
+                <div className="px-3 pt-2 pb-1 text-[11px] uppercase tracking-wide text-white/40">{r.section}</div>
+              )}
+              <button
+                data-index={i}
+                onClick={()=>runRow(r)}
+                onMouseMove={()=>setActive(i)}
+                className={"w-full text-left px-3 py-2 transition " + (i === active ? "bg-white/10" : "hover:bg-white/10")}
+              >
+                <div className="flex items-baseline gap-2">
+                  <span className="font-medium">{r.label}</span>
+                  {q.trim() && r.section && <span className="ml-auto shrink-0 text-[11px] text-white/40">{r.section}</span>}
+                </div>
+                {r.snippet
+                  ? <SearchSnippet text={r.snippet} className="text-xs text-white/60 truncate" />
+                  : r.hint && <div className="text-xs text-white/60">{r.hint}</div>}
+              </button>
+            </div>
           ))}
-          {results.length === 0 && <div className="px-3 py-2 text-sm text-white/60">No matches</div>}
+          {rows.length === 0 && <div className="px-3 py-2 text-sm text-white/60">No matches</div>}
         </div>
-        <div className="text-xs text-white/60">Tip: Press <kbd className="px-1 rounded bg-white/10 border border-white/20">Ctrl</kbd>+<kbd className="px-1 rounded bg-white/10 border border-white/20">K</kbd> to open quickly.</div>
+        <div className="text-xs text-white/60">Tip: Press <kbd className="px-1 rounded bg-white/10 border border-white/20">Ctrl</kbd>+<kbd className="px-1 rounded bg-white/10 border border-white/20">K</kbd> to open quickly, <kbd className="px-1 rounded bg-white/10 border border-white/20">↑</kbd><kbd className="px-1 rounded bg-white/10 border border-white/20">↓</kbd> and <kbd className="px-1 rounded bg-white/10 border border-white/20">Enter</kbd> to pick.</div>
       </div>
     </Modal>
   );
@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { Modal } from "./ui/Dialog";
+import { Button } from "./ui/Button";
+import { Input, Textarea } from "./ui/Input";
+
+/**
+ * Dialog for the tags on a focus session: course, group, the goal set
+ * before it and the reflection written after it. Used both for the
+ * "how did it go?" prompt when a focus phase ends and for editing rows
+ * in the Timer history. Saving is left to the parent.
+ */
+export type FocusTags = {
+  course: string | null;
+  group_id: string | null;
+  goal: string | null;
+  reflection: string | null;
+};
+
+type Props = {
+  open: boolean;
+  onOpenChange: (o: boolean) => void;
+  title: string;
+  value: FocusTags;
+  courses: string[];
+  groups: { id: string; name: string }[];
+  /** Show only the reflection field (end-of-focus prompt). */
+  reflectOnly?: boolean;
+  onSave: (v: FocusTags) => Promise<void>;
+};
+
+export function FocusSessionEditor({ open, onOpenChange, title, value, courses, groups, reflectOnly, onSave }: Props) {
+  const [v, setV] = useState<FocusTags>(value);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => { if (open) setV(value); }, [open, value]);
+
+  async function save() {
+    setSaving(true);
+    try {
+      await onSave({
+        course: v.course || null,
+        group_id: v.group_id || null,
+        goal: v.goal?.trim() || null,
+        reflection: v.reflection?.trim() || null,
+      });
+      onOpenChange(false);
+    } finally { setSaving(false); }
+  }
+
+  return (
+    <Modal open={open} onOpenChange={onOpenChange} title={title}>
+      <div className="grid gap-3">
+        {!reflectOnly ? (
+          <>
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="grid gap-1">
+                <label className="text-sm text-white/80">Course</label>
+                <select className="select bg-white/10 text-white" value={v.course || ""} onChange={e => setV({ ...v, course: e.target.value || null })}>
+                  <option value="">No course</option>
+                  {courses.map(c => <option key={c} value={c}>{c}</option>)}
+                  {v.course && !courses.includes(v.course) ? <option value={v.course}>{v.course}</option> : null}
+                </select>
+              </div>
+              <div className="grid gap-1">
+                <label className="text-sm text-white/80">Group</label>
+                <select className="select bg-white/10 text-white" value={v.group_id || ""} onChange={e => setV({ ...v, group_id: e.target.value || null })}>
+                  <option value="">Solo</option>
+                  {groups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+                </select>
+              </div>
+            </div>
+            <div className="grid gap-1">
+              <label className="text-sm text-white/80">Goal</label>
+              <Input value={v.goal || ""} onChange={e => setV({ ...v, goal: e.target.value })} placeholder="Finish problem set 3" />
+            </div>
+          </>
+        ) : v.goal ? (
+          <div className="text-sm text-white/70">Goal: <span className="text-white/90">{v.goal}</span></div>
+        ) : null}
+        <div className="grid gap-1">
+          <label className="text-sm text-white/80">Reflection</label>
+          <Textarea className="min-h-20 bg-white/10 text-white" value={v.reflection || ""} onChange={e => setV({ ...v, reflection: e.target.value })} placeholder="What went well? What got in the way?" />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>{reflectOnly ? "Skip" : "Cancel"}</Button>
+          <Button onClick={save} loading={saving}>Save</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { FileText, Image as ImageIcon, Paperclip } from "lucide-react";
+import { toastError } from "../lib/supabase";
+import { formatBytes, isImage, isPdf, listGroupFiles, signedUrls, type Attachment } from "../lib/attachments";
+
+type Filter = "all" | "images" | "pdfs" | "other";
+
+/**
+ * The "Files" tab of a group chat: every attachment ever shared in the
+ * group, newest first, with a type filter. Files open through signed
+ * URLs since the bucket is private.
+ */
+export function GroupFiles({ groupId }: { groupId: string }) {
+  const [files, setFiles] = useState<Attachment[]>([]);
+  const [urls, setUrls] = useState<Map<string, string>>(new Map());
+  const [filter, setFilter] = useState<Filter>("all");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      setLoading(true);
+      try {
+        const list = await listGroupFiles(groupId);
+        const signed = await signedUrls(list.map(f => f.path));
+        if (!alive) return;
+        setFiles(list);
+        setUrls(signed);
+      } catch (e) { toastError(e); }
+      finally { if (alive) setLoading(false); }
+    })();
+    return () => { alive = false; };
+  }, [groupId]);
+
+  const shown = files.filter(f =>
+    filter === "all" ? true
+    : filter === "images" ? isImage(f.mime_type)
+    : filter === "pdfs" ? isPdf(f.mime_type)
+    : !isImage(f.mime_type) && !isPdf(f.mime_type));
+
+  return (
+    <div className="h-80 overflow-auto rounded-xl border border-white/15 bg-white/10 p-2 text-white">
+      <div className="mb-2 flex items-center gap-2">
+        <select className="select w-40 bg-white/10 text-white" value={filter} onChange={e => setFilter(e.target.value as Filter)}>
+          <option value="all">All files</option>
+          <option value="images">Images</option>
+          <option value="pdfs">PDFs</option>
+          <option value="other">Other</option>
+        </select>
+        <span className="text-xs text-white/60">{shown.length} file{shown.length === 1 ? "" : "s"}</span>
+      </div>
+      {loading ? (
+        <div className="text-sm text-white/60">Loading files…</div>
+      ) : !shown.length ? (
+        <div className="text-sm text-white/60">Nothing shared yet.</div>
+      ) : (
+        <ul className="grid gap-1">
+          {shown.map(f => {
+            const Icon = isImage(f.mime_type) ? ImageIcon : isPdf(f.mime_type) ? FileText : Paperclip;
+            return (
+              <li key={f.id} className="flex items-center gap-2 rounded-lg px-2 py-1 text-sm hover:bg-white/5">
+                <Icon size={16} className="shrink-0 text-white/70" />
+                <a href={urls.get(f.path)} target="_blank" rel="noreferrer" className="min-w-0 flex-1 truncate hover:underline">{f.name}</a>
+                <span className="text-xs text-white/60">{f.profiles?.full_name || "Anon"}</span>
+                <span className="w-20 text-right text-xs text-white/60">{new Date(f.created_at).toLocaleDateString()}</span>
+                <span className="w-16 text-right text-xs text-white/60">{formatBytes(f.size)}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,20 @@
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { useEffect, useState } from "react";
 import { supabase } from "../lib/supabase";
+import { watchUnread } from "../lib/chat";
+import { openPalette } from "../lib/commands";
+import { watchDmUnread } from "../lib/dm";
 import { Button } from "./ui/Button";
-import { Sparkles, Menu, X } from "lucide-react";
+import { NotificationBell } from "./NotificationBell";
+import { Sparkles, Menu, Search, X } from "lucide-react";
 
 export function Nav() {
   const { pathname } = useLocation();
   const [uid, setUid] = useState<string | null>(null);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  // Unread chat messages across all of the user's groups, and in direct messages
+  const [unread, setUnread] = useState(0);
+  const [unreadDm, setUnreadDm] = useState(0);
   const nav = useNavigate();
 
   useEffect(() => {
@@ -19,6 +26,16 @@ export function Nav() {
     return () => { sub.subscription.unsubscribe(); mounted = false; };
   }, []);
 
+  useEffect(() => {
+    if (!uid) { setUnread(0); return; }
+    return watchUnread(counts => setUnread(Array.from(counts.values()).reduce((a, b) => a + b, 0)));
+  }, [uid]);
+
+  useEffect(() => {
+    if (!uid) { setUnreadDm(0); return; }
+    return watchDmUnread(counts => setUnreadDm(Array.from(counts.values()).reduce((a, b) => a + b, 0)));
+  }, [uid]);
+
   async function logout() {
     await supabase.auth.signOut();
     setUid(null);
@@ -30,6 +47,15 @@ export function Nav() {
     return "rounded-lg px-3 py-2 text-sm font-medium transition " + (active ? "bg-cyan-500/15 text-cyan-400" : "text-white/75 hover:text-white hover:bg-white/5");
   }
 
+  function unreadBadge(count = unread) {
+    if (!count) return null;
+    return (
+      <span className="ml-1 rounded-full bg-red-500 px-1.5 py-0.5 text-[10px] font-bold leading-none text-white">
+        {count > 99 ? "99+" : count}
+      </span>
+    );
+  }
+
   function handleMobileLink() {
     setMobileMenuOpen(false);
   }
@@ -46,18 +72,30 @@ export function Nav() {
             <nav className="hidden md:flex items-center gap-1">
               <Link to="/" className={linkCls("/")}>Home</Link>
               <Link to="/groups" className={linkCls("/groups")}>Groups</Link>
-              <Link to="/chat" className={linkCls("/chat")}>Chat</Link>
+              <Link to="/matches" className={linkCls("/matches")}>Matches</Link>
+              <Link to="/chat" className={linkCls("/chat")}>Chat{unreadBadge()}</Link>
+              {uid && <Link to="/messages" className={linkCls("/messages")}>Messages{unreadBadge(unreadDm)}</Link>}
               <Link to="/calendar" className={linkCls("/calendar")}>Calendar</Link>
               <Link to="/timer" className={linkCls("/timer")}>Timer</Link>
+              <Link to="/analytics" className={linkCls("/analytics")}>Stats</Link>
+              <Link to="/search" className={linkCls("/search")}>Search</Link>
             </nav>
           </div>
           <div className="flex items-center gap-2">
+            <button
+              onClick={() => openPalette()}
+              className="hidden md:flex items-center gap-1.5 rounded-lg border border-white/10 px-2 py-1.5 text-xs text-white/60 hover:text-white hover:bg-white/5 transition"
+              title="Command palette (Ctrl+K)"
+            >
+              <Search size={14} /> <kbd className="font-sans">Ctrl K</kbd>
+            </button>
             {!uid ? (
               <Link to="/auth">
                 <Button size="sm" className="bg-cyan-600 hover:bg-cyan-500">Login / Register</Button>
               </Link>
             ) : (
               <>
+                <NotificationBell uid={uid} />
                 <Link to="/profile" className="hidden md:block">
                   <Button variant="outline" size="sm">Profile</Button>
                 </Link>
@@ -81,9 +119,19 @@ export function Nav() {
             <nav className="flex flex-col gap-2">
               <Link to="/" className={linkCls("/")} onClick={handleMobileLink}>🏠 Home</Link>
               <Link to="/groups" className={linkCls("/groups")} onClick={handleMobileLink}>👥 Groups</Link>
-              <Link to="/chat" className={linkCls("/chat")} onClick={handleMobileLink}>💬 Chat</Link>
+              <Link to="/matches" className={linkCls("/matches")} onClick={handleMobileLink}>✨ Matches</Link>
+              <Link to="/chat" className={linkCls("/chat")} onClick={handleMobileLink}>💬 Chat{unreadBadge()}</Link>
+              {uid && <Link to="/messages" className={linkCls("/messages")} onClick={handleMobileLink}>✉️ Messages{unreadBadge(unreadDm)}</Link>}
               <Link to="/calendar" className={linkCls("/calendar")} onClick={handleMobileLink}>📅 Calendar</Link>
               <Link to="/timer" className={linkCls("/timer")} onClick={handleMobileLink}>⏱️ Timer</Link>
+              <Link to="/analytics" className={linkCls("/analytics")} onClick={handleMobileLink}>📊 Stats</Link>
+              <Link to="/search" className={linkCls("/search")} onClick={handleMobileLink}>🔍 Search</Link>
+              <button
+                onClick={() => { openPalette(); handleMobileLink(); }}
+                className="rounded-lg px-3 py-2 text-sm font-medium text-left text-white/75 hover:text-white hover:bg-white/5 transition"
+              >
+                ⌘ Commands
+              </button>
               {uid && (
                 <>
                   <Link to="/profile" className={linkCls("/profile")} onClick={handleMobileLink}>👤 Profile</Link>
@@ -0,0 +1,184 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Bell, Settings } from "lucide-react";
+import { toastError } from "../lib/supabase";
+import { Modal } from "./ui/Dialog";
+import { Button } from "./ui/Button";
+import {
+  DEFAULT_PREFS, KIND_LABELS, REMINDER_POLL_MS, browserNotificationsSupported, listNotifications, loadPrefs,
+  markAllRead, markRead, queueReminders, requestBrowserPermission, savePrefs, showBrowserNotification,
+  subscribeNotifications, type AppNotification, type NotificationKind, type NotificationPrefs,
+} from "../lib/notifications";
+
+/**
+ * Bell in the nav bar: unread count, the latest notifications and the
+ * per-user preferences. While mounted it polls for due session reminders
+ * and listens for new notifications; those arriving while the tab is in
+ * the background are also shown as browser notifications, otherwise as a
+ * toast.
+ */
+const PREF_KEYS: Record<NotificationKind, keyof NotificationPrefs> = {
+  session_reminder: "reminders",
+  mention: "mentions",
+  thread_reply: "thread_replies",
+  rsvp: "rsvps",
+  group_join: "group_joins",
+};
+
+function ago(at: string) {
+  const mins = Math.floor((Date.now() - Date.parse(at)) / 60000);
+  if (mins < 1) return "now";
+  if (mins < 60) return `${mins}m`;
+  if (mins < 24 * 60) return `${Math.floor(mins / 60)}h`;
+  return `${Math.floor(mins / 1440)}d`;
+}
+
+export function NotificationBell({ uid }: { uid: string }) {
+  const [items, setItems] = useState<AppNotification[]>([]);
+  const [open, setOpen] = useState(false);
+  const [prefsOpen, setPrefsOpen] = useState(false);
+  const [prefs, setPrefs] = useState<NotificationPrefs>(DEFAULT_PREFS);
+  const [saving, setSaving] = useState(false);
+  const prefsRef = useRef(prefs);
+  const ref = useRef<HTMLDivElement | null>(null);
+  const nav = useNavigate();
+
+  prefsRef.current = prefs;
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        const [list, p] = await Promise.all([listNotifications(uid), loadPrefs(uid)]);
+        if (!alive) return;
+        setItems(list);
+        setPrefs(p);
+      } catch (e) { console.error(e); }
+    })();
+    const unsubscribe = subscribeNotifications(uid, n => {
+      setItems(x => x.some(y => y.id === n.id) ? x : [n, ...x]);
+      if (document.hidden && prefsRef.current.browser) showBrowserNotification(n, () => follow(n));
+      else (window as any).notify?.(n.title, "info");
+    });
+    const poll = () => { if (!document.hidden || prefsRef.current.browser) queueReminders().catch(console.error); };
+    poll();
+    const t = setInterval(poll, REMINDER_POLL_MS);
+    return () => { alive = false; unsubscribe(); clearInterval(t); };
+  }, [uid]);
+
+  // Close the panel on outside clicks
+  useEffect(() => {
+    function onDoc(e: MouseEvent) {
+      if (ref.current && !ref.current.contains(e.target as any)) setOpen(false);
+    }
+    document.addEventListener("mousedown", onDoc);
+    return () => document.removeEventListener("mousedown", onDoc);
+  }, []);
+
+  const unread = items.filter(n => !n.read_at).length;
+
+  async function follow(n: AppNotification) {
+    setOpen(false);
+    if (!n.read_at) {
+      setItems(x => x.map(y => y.id === n.id ? { ...y, read_at: new Date().toISOString() } : y));
+      markRead([n.id]).catch(console.error);
+    }
+    if (n.link) nav(n.link);
+  }
+
+  async function readAll() {
+    setItems(x => x.map(y => y.read_at ? y : { ...y, read_at: new Date().toISOString() }));
+    try { await markAllRead(uid); } catch (e) { toastError(e); }
+  }
+
+  async function save() {
+    setSaving(true);
+    try {
+      let next = prefs;
+      if (prefs.browser && !(await requestBrowserPermission())) {
+        next = { ...prefs, browser: false };
+        setPrefs(next);
+        (window as any).notify?.("Browser notifications are blocked for this site", "error");
+      }
+      await savePrefs(uid, next);
+      setPrefsOpen(false);
+      (window as any).notify?.("Notification settings saved");
+    } catch (e) { toastError(e); }
+    finally { setSaving(false); }
+  }
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="relative rounded-lg p-2 text-white/80 transition hover:bg-white/10 hover:text-white"
+        aria-label={unread ? `${unread} unread notifications` : "Notifications"}
+      >
+        <Bell size={18} />
+        {unread ? (
+          <span className="absolute -right-0.5 -top-0.5 min-w-4 rounded-full bg-red-500 px-1 text-center text-[10px] font-bold leading-4 text-white">
+            {unread > 99 ? "99+" : unread}
+          </span>
+        ) : null}
+      </button>
+      {open && (
+        <div className="absolute right-0 z-40 mt-2 w-80 overflow-hidden rounded-xl border border-white/15 bg-[rgba(14,18,28,0.95)] shadow-2xl backdrop-blur-xl">
+          <div className="flex items-center justify-between border-b border-white/10 px-3 py-2">
+            <span className="text-sm font-semibold">Notifications</span>
+            <div className="flex items-center gap-2">
+              {unread ? <button className="text-xs text-cyan-300 hover:underline" onClick={readAll}>Mark all read</button> : null}
+              <button title="Settings" className="rounded p-1 text-white/70 hover:bg-white/10" onClick={() => { setOpen(false); setPrefsOpen(true); }}>
+                <Settings size={14} />
+              </button>
+            </div>
+          </div>
+          <div className="max-h-96 overflow-auto">
+            {!items.length ? <div className="px-3 py-4 text-sm text-white/60">Nothing yet.</div> : items.map(n => (
+              <button
+                key={n.id}
+                onClick={() => follow(n)}
+                className={"flex w-full items-start gap-2 border-b border-white/5 px-3 py-2 text-left hover:bg-white/10 " + (n.read_at ? "opacity-60" : "")}
+              >
+                {!n.read_at ? <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-cyan-400" /> : <span className="w-2 shrink-0" />}
+                <span className="min-w-0 flex-1">
+                  <span className="block text-sm text-white">{n.title}</span>
+                  {n.body ? <span className="block truncate text-xs text-white/60">{n.body}</span> : null}
+                </span>
+                <span className="shrink-0 text-[11px] text-white/50">{ago(n.created_at)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      <Modal open={prefsOpen} onOpenChange={setPrefsOpen} title="Notification settings">
+        <div className="grid gap-3">
+          {(Object.keys(KIND_LABELS) as NotificationKind[]).map(k => (
+            <label key={k} className="flex items-center gap-2 text-sm text-white/85">
+              <input type="checkbox" checked={!!prefs[PREF_KEYS[k]]} onChange={(e) => setPrefs({ ...prefs, [PREF_KEYS[k]]: e.target.checked })} />
+              {KIND_LABELS[k]}
+            </label>
+          ))}
+          <div className="flex items-center gap-2 text-sm text-white/85">
+            Remind me
+            <input
+              className="input w-20 bg-white/10 text-white"
+              type="number" min={1} max={1440}
+              disabled={!prefs.reminders}
+              value={prefs.reminder_minutes}
+              onChange={(e) => setPrefs({ ...prefs, reminder_minutes: Math.min(1440, Math.max(1, Number(e.target.value) || 1)) })}
+            />
+            minutes before a session
+          </div>
+          <label className="flex items-center gap-2 text-sm text-white/85">
+            <input type="checkbox" disabled={!browserNotificationsSupported()} checked={prefs.browser} onChange={(e) => setPrefs({ ...prefs, browser: e.target.checked })} />
+            Browser notifications while SocialStudy is open in a tab
+          </label>
+          <div className="mt-2 flex items-center justify-end gap-2">
+            <Button variant="ghost" onClick={() => setPrefsOpen(false)}>Cancel</Button>
+            <Button loading={saving} onClick={save}>Save</Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Modal } from "./ui/Dialog";
+import { Button } from "./ui/Button";
+import { Input } from "./ui/Input";
+import { describeSteps, repeatBlock, type Preset } from "../lib/presets";
+import type { Step } from "../lib/pomodoro";
+
+/**
+ * Editor for custom timer programs. A program is a list of steps; the
+ * "add block" row appends N focus steps with breaks in between, so a
+ * sequence like "3×45 focus with 10 breaks, then 30 review" takes two
+ * clicks. The parent persists the result via `onSave`.
+ */
+type Props = {
+  open: boolean;
+  onOpenChange: (o: boolean) => void;
+  /** Preset to edit; omit to create a new one. */
+  initial?: Preset | null;
+  onSave: (p: { id?: string; name: string; steps: Step[]; loop: boolean }) => Promise<void>;
+};
+
+const PHASE_LABEL: Record<Step["phase"], string> = { focus: "Focus", short: "Break", long: "Long break" };
+
+export function PresetEditor({ open, onOpenChange, initial, onSave }: Props) {
+  const [name, setName] = useState("");
+  const [steps, setSteps] = useState<Step[]>([]);
+  const [loop, setLoop] = useState(false);
+  const [block, setBlock] = useState({ count: 3, focus: 45, rest: 10 });
+  const [saving, setSaving] = useState(false);
+
+  // Reset the form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(initial?.name || "");
+    setSteps(initial?.steps ? [...initial.steps] : []);
+    setLoop(initial?.loop ?? false);
+  }, [open, initial]);
+
+  function update(i: number, patch: Partial<Step>) {
+    setSteps(s => s.map((st, j) => (j === i ? { ...st, ...patch } : st)));
+  }
+
+  async function save() {
+    if (!name.trim()) return (window as any).notify?.("Give the program a name", "error");
+    const clean = steps.filter(s => s.minutes > 0);
+    if (!clean.some(s => s.phase === "focus")) return (window as any).notify?.("Add at least one focus step", "error");
+    setSaving(true);
+    try {
+      await onSave({ id: initial?.id, name: name.trim(), steps: clean, loop });
+      onOpenChange(false);
+    } finally { setSaving(false); }
+  }
+
+  return (
+    <Modal open={open} onOpenChange={onOpenChange} title={initial ? "Edit program" : "New program"}>
+      <div className="grid gap-3">
+        <div className="grid gap-1">
+          <label className="text-sm text-white/80">Name</label>
+          <Input value={name} onChange={e => setName(e.target.value)} placeholder="Lab report sprint" />
+        </div>
+        <div className="grid gap-1">
+          <div className="text-sm text-white/80">Steps {steps.length ? <span className="text-white/50">({describeSteps(steps)})</span> : null}</div>
+          <ol className="max-h-60 space-y-1 overflow-y-auto">
+            {steps.map((st, i) => (
+              <li key={i} className="flex items-center gap-2">
+                <span className="w-5 text-right text-xs text-white/50">{i + 1}</span>
+                <select className="select w-32 bg-white/10 text-white" value={st.phase} onChange={e => update(i, { phase: e.target.value as Step["phase"] })}>
+                  {(Object.keys(PHASE_LABEL) as Step["phase"][]).map(p => <option key={p} value={p}>{PHASE_LABEL[p]}</option>)}
+                </select>
+                <Input className="w-20" type="number" min="1" max="240" value={st.minutes} onChange={e => update(i, { minutes: parseInt(e.target.value) || 0 })} />
+                <span className="text-xs text-white/60">min</span>
+                <Input className="flex-1" value={st.label || ""} onChange={e => update(i, { label: e.target.value || undefined })} placeholder="Label (optional)" />
+                <button type="button" className="rounded p-1 text-white/60 hover:bg-white/10" onClick={() => setSteps(s => s.filter((_, j) => j !== i))} title="Remove step"><Trash2 size={14} /></button>
+              </li>
+            ))}
+            {!steps.length ? <li className="text-sm text-white/60">No steps yet. Add a block below.</li> : null}
+          </ol>
+        </div>
+        <div className="flex flex-wrap items-end gap-2 rounded-lg border border-white/10 bg-white/5 p-2">
+          <div className="grid gap-1">
+            <label className="text-xs text-white/70">Repeat</label>
+            <Input className="w-16" type="number" min="1" max="12" value={block.count} onChange={e => setBlock(b => ({ ...b, count: parseInt(e.target.value) || 1 }))} />
+          </div>
+          <div className="grid gap-1">
+            <label className="text-xs text-white/70">× focus (min)</label>
+            <Input className="w-20" type="number" min="1" max="240" value={block.focus} onChange={e => setBlock(b => ({ ...b, focus: parseInt(e.target.value) || 1 }))} />
+          </div>
+          <div className="grid gap-1">
+            <label className="text-xs text-white/70">with breaks (min)</label>
+            <Input className="w-20" type="number" min="0" max="60" value={block.rest} onChange={e => setBlock(b => ({ ...b, rest: parseInt(e.target.value) || 0 }))} />
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setSteps(s => [...s, ...repeatBlock(block.count, block.focus, block.rest)])}>Add block</Button>
+          <Button size="sm" variant="ghost" onClick={() => setSteps(s => [...s, { phase: "focus", minutes: 30 }])}>Add step</Button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-white/80">
+          <input type="checkbox" checked={loop} onChange={e => setLoop(e.target.checked)} />
+          Start over after the last step
+        </label>
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={save} loading={saving}>Save program</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,101 @@
+import { createElement, Fragment, useMemo, type ReactNode } from "react";
+import { parseMarkdown, type Block, type Inline } from "../lib/markdown";
+import { highlight, type CodeToken } from "../lib/highlight";
+import { parseTex, type MathNode } from "../lib/tex";
+
+/**
+ * Renders a chat message written in Markdown with code and math
+ * (lib/markdown.ts, lib/highlight.ts, lib/tex.ts). Everything is built
+ * from React elements — text is always escaped by React and links are
+ * limited to http(s)/mailto — so message content can't inject markup.
+ */
+export function RichText({ text, className = "" }: { text: string; className?: string }) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className={"grid gap-1 break-words " + className}>{blocks.map(renderBlock)}</div>;
+}
+
+const TOKEN_CLASS: Record<CodeToken["t"], string> = {
+  plain: "",
+  keyword: "text-fuchsia-300",
+  string: "text-emerald-300",
+  comment: "italic text-white/50",
+  number: "text-amber-300",
+};
+
+const HEADING_CLASS = ["", "text-lg font-bold", "text-base font-bold", "font-semibold", "font-semibold", "font-semibold", "font-semibold"];
+
+function renderBlock(b: Block, key: number): ReactNode {
+  switch (b.t) {
+    case "p": return <p key={key}>{b.children.map(renderInline)}</p>;
+    case "heading": return <div key={key} className={HEADING_CLASS[b.level]}>{b.children.map(renderInline)}</div>;
+    case "hr": return <hr key={key} className="border-white/20" />;
+    case "quote": return <blockquote key={key} className="grid gap-1 border-l-2 border-white/30 pl-2 text-white/80">{b.children.map(renderBlock)}</blockquote>;
+    case "list": {
+      const items = b.items.map((it, i) => <li key={i}>{it.map(renderInline)}</li>);
+      return b.ordered
+        ? <ol key={key} start={b.start} className="list-decimal pl-5">{items}</ol>
+        : <ul key={key} className="list-disc pl-5">{items}</ul>;
+    }
+    case "code":
+      return (
+        <div key={key} className="relative">
+          {b.lang ? <span className="absolute right-2 top-1 text-[10px] uppercase text-white/40">{b.lang}</span> : null}
+          <pre className="overflow-x-auto rounded-lg bg-black/40 p-2 text-xs leading-relaxed">
+            <code>{highlight(b.text, b.lang).map((tok, i) => tok.t === "plain" ? tok.text : <span key={i} className={TOKEN_CLASS[tok.t]}>{tok.text}</span>)}</code>
+          </pre>
+        </div>
+      );
+    case "math": return <div key={key} className="overflow-x-auto py-1 text-center">{renderMath(b.tex, true)}</div>;
+  }
+}
+
+function renderInline(n: Inline, key: number): ReactNode {
+  switch (n.t) {
+    case "text": return <Fragment key={key}>{n.text}</Fragment>;
+    case "br": return <br key={key} />;
+    case "code": return <code key={key} className="rounded bg-black/30 px-1 py-0.5 text-[0.85em]">{n.text}</code>;
+    case "math": return <Fragment key={key}>{renderMath(n.tex, false)}</Fragment>;
+    case "strong": return <strong key={key}>{n.children.map(renderInline)}</strong>;
+    case "em": return <em key={key}>{n.children.map(renderInline)}</em>;
+    case "del": return <del key={key}>{n.children.map(renderInline)}</del>;
+    case "link":
+      return <a key={key} href={n.href} target="_blank" rel="noopener noreferrer nofollow" className="text-cyan-300 underline">{n.children.map(renderInline)}</a>;
+  }
+}
+
+function renderMath(tex: string, display: boolean) {
+  try {
+    return createElement("math", { display: display ? "block" : "inline", title: tex }, mathElement(parseTex(tex), 0));
+  } catch (e: any) {
+    return <code className="text-red-300" title={e?.message}>{tex}</code>;
+  }
+}
+
+// MathML elements from the parsed formula
+function mathElement(n: MathNode, key: number): ReactNode {
+  const el = (tag: string, props: Record<string, unknown>, ...children: ReactNode[]) => createElement(tag, { key, ...props }, ...children);
+  switch (n.t) {
+    case "mi": case "mn": case "mo": case "mtext":
+      return el(n.t, { mathvariant: n.variant, largeop: n.large ? "true" : undefined, movablelimits: n.limits ? "true" : undefined }, n.text);
+    case "mrow": return el("mrow", {}, ...n.children.map(mathElement));
+    case "mfrac": return el("mfrac", {}, mathElement(n.num, 0), mathElement(n.den, 1));
+    case "msqrt":
+      return n.index
+        ? el("mroot", {}, mathElement(n.body, 0), mathElement(n.index, 1))
+        : el("msqrt", {}, mathElement(n.body, 0));
+    case "scripts": {
+      const base = mathElement(n.base, 0);
+      const sub = n.sub ? mathElement(n.sub, 1) : null;
+      const sup = n.sup ? mathElement(n.sup, 2) : null;
+      if (n.limits) return sub && sup ? el("munderover", {}, base, sub, sup) : el(sub ? "munder" : "mover", {}, base, sub || sup);
+      return sub && sup ? el("msubsup", {}, base, sub, sup) : el(sub ? "msub" : "msup", {}, base, sub || sup);
+    }
+    case "accent": return el("mover", { accent: "true" }, mathElement(n.body, 0), createElement("mo", { key: 1 }, n.mark));
+    case "fenced":
+      return el("mrow", {},
+        n.open ? createElement("mo", { key: "o", fence: "true", stretchy: "true" }, n.open) : null,
+        mathElement(n.body, 1),
+        n.close ? createElement("mo", { key: "c", fence: "true", stretchy: "true" }, n.close) : null);
+    case "error": return el("merror", {}, createElement("mtext", null, n.text));
+  }
+}
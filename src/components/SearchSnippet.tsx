@@ -0,0 +1,12 @@
+import { highlightParts } from "../lib/search";
+
+/** A search snippet with its matched words marked. */
+export function SearchSnippet({ text, className }: { text: string; className?: string }) {
+  return (
+    <div className={className ?? "mt-1 break-words text-sm text-white/80"}>
+      {highlightParts(text).map((p, i) => p.hit
+        ? <mark key={i} className="rounded bg-amber-300/30 px-0.5 text-white">{p.text}</mark>
+        : <span key={i}>{p.text}</span>)}
+    </div>
+  );
+}
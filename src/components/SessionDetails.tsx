@@ -0,0 +1,248 @@
+import { useEffect, useState } from "react";
+import { ExternalLink, Repeat, Users } from "lucide-react";
+import { supabase, getUserOrWarn, toastError } from "../lib/supabase";
+import { Modal } from "./ui/Dialog";
+import { Button } from "./ui/Button";
+import { describeRule } from "../lib/recurrence";
+import { cancelOccurrence, editOccurrence, loadSeries, seriesEvents, type EditScope, type Series, type SeriesOccurrenceRow } from "../lib/series";
+import { createICS, downloadICS } from "../lib/ics";
+import { DEFAULT_ALARM_MINUTES, gcalLink } from "../lib/calendarSync";
+import { RSVP_LABELS, canManageSession, formatWhen, listRsvps, setRsvp, type Rsvp, type RsvpStatus } from "../lib/sessions";
+import type { GroupRole } from "../lib/groups";
+import { dayKey, minutesBetween, timeOfDay } from "../lib/tz";
+
+/**
+ * Detail view for a scheduled group session: when it is, who is coming
+ * (live, via realtime on `session_rsvps`) and the current user's RSVP.
+ * The session's creator and the group admin also get the edit form and
+ * a cancel button; for a repeating session both ask whether the change
+ * applies to this date, this and following, or all upcoming dates.
+ * Moving or cancelling posts a notice in the group chat (the database
+ * does that, see lib/sessions.ts). Times are shown
+ * in `tz` (the viewer's profile zone), with the organizer's alongside.
+ */
+export type DetailSession = SeriesOccurrenceRow & {
+  title: string | null;
+  user_id: string | null;
+  is_exception: boolean;
+  /** Organizer's zone. */
+  tz?: string | null;
+};
+
+type Props = {
+  session: DetailSession | null;
+  groupName: string;
+  /** The viewer's role in the session's group. */
+  groupRole: GroupRole | null;
+  /** Other occurrences of the same series, for the .ics download. */
+  seriesRows: DetailSession[];
+  tz: string;
+  onClose: () => void;
+  /** Called after the session was changed or cancelled. */
+  onChanged: () => Promise<void> | void;
+};
+
+const STATUSES: RsvpStatus[] = ["going", "maybe", "declined"];
+
+export function SessionDetails({ session, groupName, groupRole, seriesRows, tz, onClose, onChanged }: Props) {
+  const [me, setMe] = useState<string | null>(null);
+  const [series, setSeries] = useState<Series | null>(null);
+  const [rsvps, setRsvps] = useState<Rsvp[]>([]);
+  const [title, setTitle] = useState("");
+  const [date, setDate] = useState("");
+  const [start, setStart] = useState("");
+  const [end, setEnd] = useState("");
+  const [scope, setScope] = useState<EditScope>("this");
+  const [saving, setSaving] = useState(false);
+
+  const sid = session?.id;
+
+  // Reset the form and load the series + RSVPs when a session opens
+  useEffect(() => {
+    if (!session) return;
+    let alive = true;
+    setTitle(session.title || "");
+    setDate(dayKey(session.start_at, tz));
+    setStart(timeOfDay(session.start_at, tz));
+    setEnd(timeOfDay(session.end_at, tz));
+    setScope("this");
+    setSeries(null);
+    setRsvps([]);
+    (async () => {
+      const { data } = await supabase.auth.getUser();
+      if (alive) setMe(data?.user?.id || null);
+      try {
+        if (session.series_id) {
+          const s = await loadSeries(session.series_id);
+          if (alive) setSeries(s);
+        }
+        const list = await listRsvps(session.id);
+        if (alive) setRsvps(list);
+      } catch (e) { console.error(e); }
+    })();
+    return () => { alive = false; };
+  }, [sid]);
+
+  // Live attendee list
+  useEffect(() => {
+    if (!sid) return;
+    const ch = supabase
+      .channel(`rsvps:${sid}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "session_rsvps", filter: `session_id=eq.${sid}` }, async () => {
+        try { setRsvps(await listRsvps(sid)); } catch (e) { console.error(e); }
+      })
+      .subscribe();
+    return () => { supabase.removeChannel(ch); };
+  }, [sid]);
+
+  if (!session) return null;
+
+  const canManage = canManageSession(session, groupRole, me);
+  const mine = rsvps.find(r => r.user_id === me)?.status;
+  const label = session.title || `Study: ${groupName}`;
+  const isSeries = !!session.series_id;
+
+  async function answer(status: RsvpStatus) {
+    const u = await getUserOrWarn(); if (!u || !session) return;
+    try {
+      await setRsvp(session.id, u.id, status);
+      // Realtime will confirm; update right away so the button responds
+      setRsvps(x => [...x.filter(r => r.user_id !== u.id), { session_id: Number(session.id), user_id: u.id, status, profiles: x.find(r => r.user_id === u.id)?.profiles }]);
+    } catch (e) { toastError(e); }
+  }
+
+  async function save() {
+    if (!session) return;
+    const duration = minutesBetween(start, end);
+    if (duration <= 0) return (window as any).notify?.("End must be after start", "error");
+    const u = await getUserOrWarn(); if (!u) return;
+    setSaving(true);
+    try {
+      const effective = isSeries ? scope : "this";
+      await editOccurrence(session, {
+        title: title || null,
+        date: effective === "this" ? date : undefined,
+        start_time: start,
+        duration_min: duration,
+        tz,
+      }, effective, u.id);
+      await onChanged();
+      onClose();
+      (window as any).notify?.("Session updated");
+    } catch (e) { toastError(e); }
+    finally { setSaving(false); }
+  }
+
+  async function cancel() {
+    if (!session) return;
+    const effective = isSeries ? scope : "this";
+    const what = effective === "this" ? "this session" : effective === "following" ? "this and all following sessions" : "all upcoming sessions";
+    if (!window.confirm(`Cancel ${what}?`)) return;
+    const u = await getUserOrWarn(); if (!u) return;
+    setSaving(true);
+    try {
+      await cancelOccurrence(session, effective);
+      await onChanged();
+      onClose();
+      (window as any).notify?.("Session cancelled");
+    } catch (e) { toastError(e); }
+    finally { setSaving(false); }
+  }
+
+  function downloadSeries() {
+    if (!series) return;
+    const events = seriesEvents(series, seriesRows.filter(r => r.is_exception), label);
+    const ics = createICS("SocialStudy", events.map(ev => ({ ...ev, alarmMinutes: DEFAULT_ALARM_MINUTES })));
+    downloadICS(`${(series.title || groupName || "study-sessions").replace(/[^\w-]+/g, "-")}.ics`, ics);
+  }
+
+  return (
+    <Modal open={!!session} onOpenChange={(o) => { if (!o) onClose(); }} title={label}>
+      <div className="grid gap-3">
+        <div className="text-sm text-white/80">
+          <div className="text-xs text-white/60">{groupName}</div>
+          <div>{formatWhen(session.start_at, tz)} – {timeOfDay(session.end_at, tz)} <span className="text-white/50">({tz})</span></div>
+          {session.tz && session.tz !== tz ? (
+            <div className="text-xs text-white/60">
+              Organizer: {formatWhen(session.start_at, session.tz)} – {timeOfDay(session.end_at, session.tz)} ({session.tz})
+            </div>
+          ) : null}
+          {series ? (
+            <div className="mt-1 flex items-center gap-1 text-xs text-white/60">
+              <Repeat size={12} /> {describeRule(series.rule)}
+            </div>
+          ) : null}
+        </div>
+
+        {/* RSVP */}
+        <div className="flex flex-wrap items-center gap-2">
+          {STATUSES.map(st => (
+            <Button key={st} size="sm" variant={mine === st ? "primary" : "outline"} onClick={() => answer(st)}>
+              {RSVP_LABELS[st]}
+            </Button>
+          ))}
+        </div>
+        <div className="rounded-lg border border-white/10 bg-white/5 p-2">
+          <div className="mb-1 flex items-center gap-1 text-xs text-white/60"><Users size={12} /> Attendees</div>
+          {!rsvps.length ? <div className="text-sm text-white/60">No answers yet.</div> : (
+            <div className="grid gap-1 text-sm">
+              {STATUSES.map(st => {
+                const people = rsvps.filter(r => r.status === st);
+                if (!people.length) return null;
+                return (
+                  <div key={st}>
+                    <span className="text-white/60">{RSVP_LABELS[st]} ({people.length}): </span>
+                    {people.map(p => p.user_id === me ? "You" : p.profiles?.full_name || "Member").join(", ")}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {canManage ? (
+          <div className="grid gap-2 border-t border-white/10 pt-3">
+            <label className="text-sm text-white/80">Title</label>
+            <input className="input bg-white/10 text-white" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Study session" />
+            <label className="text-sm text-white/80">Date</label>
+            <input className="input bg-white/10 text-white" type="date" value={date} disabled={isSeries && scope !== "this"} onChange={(e) => setDate(e.target.value)} />
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="text-sm text-white/80">Start</label>
+                <input className="input bg-white/10 text-white" type="time" value={start} onChange={(e) => setStart(e.target.value)} />
+              </div>
+              <div>
+                <label className="text-sm text-white/80">End</label>
+                <input className="input bg-white/10 text-white" type="time" value={end} onChange={(e) => setEnd(e.target.value)} />
+              </div>
+            </div>
+            {isSeries ? (
+              <div className="grid gap-1 text-sm text-white/80">
+                <label className="flex items-center gap-2"><input type="radio" checked={scope === "this"} onChange={() => setScope("this")} /> This session</label>
+                <label className="flex items-center gap-2"><input type="radio" checked={scope === "following"} onChange={() => setScope("following")} /> This and following sessions</label>
+                <label className="flex items-center gap-2"><input type="radio" checked={scope === "all"} onChange={() => setScope("all")} /> All upcoming sessions</label>
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <a
+              href={gcalLink({ title: label, start: new Date(session.start_at), end: new Date(session.end_at), details: "SocialStudy", tz })}
+              target="_blank" rel="noopener"
+              className="text-xs text-white/80 hover:underline"
+            >
+              <ExternalLink size={12} className="inline -mt-0.5" /> Google
+            </a>
+            {series ? <Button size="sm" variant="ghost" onClick={downloadSeries}>.ics</Button> : null}
+          </div>
+          <div className="flex items-center gap-2">
+            {canManage ? <Button variant="danger" loading={saving} onClick={cancel}>Cancel session</Button> : null}
+            {canManage ? <Button loading={saving} onClick={save}>Save</Button> : <Button variant="ghost" onClick={onClose}>Close</Button>}
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+}
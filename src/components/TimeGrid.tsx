@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Repeat } from "lucide-react";
+import { DAY_MINUTES, SNAP_MINUTES, dayMinuteToDate, layoutColumns, minutesToTime, nowPosition, snap, spanOnDay } from "../lib/timeGrid";
+import { weekdayOf } from "../lib/tz";
+
+/**
+ * Week/day time grid for the Calendar. One column per day in `days`,
+ * times in `tz`. Dragging over empty space proposes a new session,
+ * dragging a session moves it (also across days), and dragging its
+ * bottom edge changes its duration; a click without movement opens it.
+ * Only items marked `editable` can be moved or resized. Everything
+ * snaps to 15 minutes.
+ */
+export type GridItem = {
+  id: string;
+  title: string;
+  subtitle?: string;
+  start_at: string;
+  end_at: string;
+  editable: boolean;
+  repeating?: boolean;
+};
+
+type Props = {
+  days: string[];
+  items: GridItem[];
+  tz: string;
+  onCreate: (day: string, start: string, end: string) => void;
+  onOpen: (id: string) => void;
+  onChange: (id: string, start: Date, end: Date) => void;
+};
+
+type Drag =
+  | { kind: "create"; day: number; from: number; to: number }
+  | { kind: "move"; id: string; day: number; start: number; duration: number; grab: number; moved: boolean }
+  | { kind: "resize"; id: string; day: number; start: number; end: number; moved: boolean };
+
+const HOUR_PX = 48;
+const PX_PER_MIN = HOUR_PX / 60;
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function TimeGrid({ days, items, tz, onCreate, onOpen, onChange }: Props) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const colsRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [now, setNow] = useState(() => nowPosition(tz));
+
+  function update(d: Drag | null) { dragRef.current = d; setDrag(d); }
+
+  // Start scrolled to the morning
+  useEffect(() => { scrollRef.current?.scrollTo({ top: 7 * HOUR_PX }); }, []);
+  useEffect(() => {
+    setNow(nowPosition(tz));
+    const t = setInterval(() => setNow(nowPosition(tz)), 60_000);
+    return () => clearInterval(t);
+  }, [tz]);
+
+  // Column and minute under the pointer
+  function locate(e: { clientX: number; clientY: number }) {
+    const rect = colsRef.current!.getBoundingClientRect();
+    const day = Math.max(0, Math.min(days.length - 1, Math.floor(((e.clientX - rect.left) / rect.width) * days.length)));
+    return { day, minute: (e.clientY - rect.top) / PX_PER_MIN };
+  }
+
+  // Track the pointer on the window while dragging so it can leave the grid
+  useEffect(() => {
+    if (!drag) return;
+    function move(e: PointerEvent) {
+      const d = dragRef.current; if (!d) return;
+      const at = locate(e);
+      if (d.kind === "create") {
+        update({ ...d, to: Math.max(d.from + SNAP_MINUTES, snap(at.minute)) });
+      } else if (d.kind === "move") {
+        const start = Math.min(DAY_MINUTES - SNAP_MINUTES, snap(at.minute - d.grab));
+        if (start !== d.start || at.day !== d.day) update({ ...d, day: at.day, start, moved: true });
+      } else {
+        const end = Math.max(d.start + SNAP_MINUTES, snap(at.minute));
+        if (end !== d.end) update({ ...d, end, moved: true });
+      }
+    }
+    function up() {
+      const d = dragRef.current;
+      update(null);
+      if (!d) return;
+      if (d.kind === "create") {
+        onCreate(days[d.day], minutesToTime(d.from), minutesToTime(Math.min(d.to, DAY_MINUTES - 1)));
+      } else if (!d.moved) {
+        onOpen(d.id);
+      } else if (d.kind === "move") {
+        const start = dayMinuteToDate(days[d.day], d.start, tz);
+        onChange(d.id, start, new Date(start.getTime() + d.duration * 60000));
+      } else {
+        onChange(d.id, dayMinuteToDate(days[d.day], d.start, tz), dayMinuteToDate(days[d.day], d.end, tz));
+      }
+    }
+    window.addEventListener("pointermove", move);
+    window.addEventListener("pointerup", up, { once: true });
+    return () => { window.removeEventListener("pointermove", move); window.removeEventListener("pointerup", up); };
+  }, [drag !== null]);
+
+  // Each day's visible spans, with the dragged item at its preview position
+  const columns = useMemo(() => days.map((day, di) => {
+    const spans = [] as (GridItem & { start: number; end: number })[];
+    for (const it of items) {
+      if (drag && drag.kind !== "create" && drag.id === it.id) {
+        if (drag.day !== di) continue;
+        const end = drag.kind === "move" ? Math.min(DAY_MINUTES, drag.start + drag.duration) : drag.end;
+        spans.push({ ...it, start: drag.start, end });
+        continue;
+      }
+      const span = spanOnDay(it.start_at, it.end_at, day, tz);
+      if (span) spans.push({ ...it, ...span });
+    }
+    return layoutColumns(spans);
+  }), [days, items, drag, tz]);
+
+  function startCreate(e: React.PointerEvent, di: number) {
+    if (e.button !== 0) return;
+    const from = Math.min(DAY_MINUTES - SNAP_MINUTES, Math.floor(locate(e).minute / SNAP_MINUTES) * SNAP_MINUTES);
+    update({ kind: "create", day: di, from, to: from + 60 });
+  }
+
+  function startMove(e: React.PointerEvent, it: GridItem, di: number, start: number) {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    if (!it.editable) { onOpen(it.id); return; }
+    const duration = Math.round((Date.parse(it.end_at) - Date.parse(it.start_at)) / 60000);
+    update({ kind: "move", id: it.id, day: di, start, duration, grab: locate(e).minute - start, moved: false });
+  }
+
+  function startResize(e: React.PointerEvent, it: GridItem, di: number, start: number, end: number) {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    update({ kind: "resize", id: it.id, day: di, start, end, moved: false });
+  }
+
+  return (
+    <div className="rounded-xl border border-white/15 bg-white/5">
+      {/* Day headers */}
+      <div className="flex border-b border-white/10 pl-12">
+        {days.map(d => (
+          <div key={d} className={"flex-1 p-2 text-center text-xs " + (d === now.day ? "font-semibold text-cyan-300" : "text-white/70")}>
+            {DAY_NAMES[weekdayOf(d)]} {Number(d.slice(8))}
+          </div>
+        ))}
+      </div>
+      <div ref={scrollRef} className="relative h-[600px] overflow-y-auto select-none">
+        <div className="relative flex" style={{ height: 24 * HOUR_PX }}>
+          {/* Hour labels */}
+          <div className="w-12 shrink-0">
+            {Array.from({ length: 24 }, (_, h) => (
+              <div key={h} className="relative text-right text-[10px] text-white/50" style={{ height: HOUR_PX }}>
+                <span className="absolute -top-1.5 right-1">{h ? `${String(h).padStart(2, "0")}:00` : ""}</span>
+              </div>
+            ))}
+          </div>
+          <div ref={colsRef} className="relative flex flex-1">
+            {days.map((d, di) => (
+              <div
+                key={d}
+                className="relative flex-1 cursor-crosshair border-l border-white/10"
+                onPointerDown={(e) => startCreate(e, di)}
+                style={{ backgroundImage: `repeating-linear-gradient(to bottom, rgba(255,255,255,0.08) 0, rgba(255,255,255,0.08) 1px, transparent 1px, transparent ${HOUR_PX}px)` }}
+              >
+                {d === now.day ? (
+                  <div className="pointer-events-none absolute left-0 right-0 z-20 h-px bg-red-400" style={{ top: now.minute * PX_PER_MIN }} />
+                ) : null}
+                {drag?.kind === "create" && drag.day === di ? (
+                  <div className="pointer-events-none absolute left-1 right-1 z-10 rounded bg-cyan-500/40 px-1 text-[11px] text-white" style={{ top: drag.from * PX_PER_MIN, height: (drag.to - drag.from) * PX_PER_MIN }}>
+                    {minutesToTime(drag.from)}–{minutesToTime(drag.to)}
+                  </div>
+                ) : null}
+                {columns[di].map(it => (
+                  <div
+                    key={it.id}
+                    onPointerDown={(e) => startMove(e, it, di, it.start)}
+                    className={"absolute z-10 overflow-hidden rounded border border-cyan-300/40 bg-cyan-600/70 px-1 text-[11px] text-white shadow "
+                      + (it.editable ? "cursor-grab" : "cursor-pointer")
+                      + (drag && drag.kind !== "create" && drag.id === it.id ? " opacity-80 ring-2 ring-cyan-300" : "")}
+                    style={{
+                      top: it.start * PX_PER_MIN,
+                      height: Math.max(SNAP_MINUTES, it.end - it.start) * PX_PER_MIN,
+                      left: `calc(${(it.col / it.cols) * 100}% + 2px)`,
+                      width: `calc(${100 / it.cols}% - 4px)`,
+                    }}
+                    title={`${it.title}${it.subtitle ? ` · ${it.subtitle}` : ""}`}
+                  >
+                    <div className="truncate font-semibold">
+                      {it.repeating ? <Repeat size={10} className="mr-0.5 inline -mt-0.5" /> : null}
+                      {it.title}
+                    </div>
+                    <div className="truncate opacity-80">{minutesToTime(it.start)}–{minutesToTime(it.end)}{it.subtitle ? ` · ${it.subtitle}` : ""}</div>
+                    {it.editable ? (
+                      <div className="absolute bottom-0 left-0 right-0 h-1.5 cursor-ns-resize" onPointerDown={(e) => startResize(e, it, di, it.start, it.end)} />
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useLayoutEffect, useRef, useState, type MutableRefObject, type ReactNode, type RefObject } from "react";
+
+/**
+ * Windowed list for long, variable-height content (chat history). Only
+ * rows near the viewport of `scrollRef` are mounted; the rest are spacer
+ * height, using measured heights where known and `estimate` otherwise.
+ *
+ * Scroll position is kept stable when rows are prepended or when rows
+ * above the viewport change height once measured. With `followOutput`
+ * the list stays pinned to the bottom while the user is there.
+ */
+export type VirtualListHandle = {
+  scrollToIndex: (index: number) => void;
+  scrollToBottom: () => void;
+};
+
+type Props<T> = {
+  items: T[];
+  itemKey: (item: T) => string | number;
+  render: (item: T, index: number) => ReactNode;
+  scrollRef: RefObject<HTMLElement>;
+  estimate?: number;
+  /** Extra pixels rendered above and below the viewport. */
+  overscan?: number;
+  followOutput?: boolean;
+  handle?: MutableRefObject<VirtualListHandle | null>;
+};
+
+type Key = string | number;
+
+function Row({ id, observer, nodes, children }: { id: Key; observer: ResizeObserver | null; nodes: Map<Element, Key>; children: ReactNode }) {
+  const ref = useRef<HTMLDivElement>(null);
+  useLayoutEffect(() => {
+    const node = ref.current;
+    if (!node || !observer) return;
+    nodes.set(node, id);
+    observer.observe(node);
+    return () => { observer.unobserve(node); nodes.delete(node); };
+  }, [id, observer]);
+  return <div ref={ref}>{children}</div>;
+}
+
+export function VirtualList<T>({ items, itemKey, render, scrollRef, estimate = 72, overscan = 600, followOutput, handle }: Props<T>) {
+  const heights = useRef(new Map<Key, number>());
+  const nodes = useRef(new Map<Element, Key>());
+  const [, setVersion] = useState(0);
+  const [view, setView] = useState({ top: 0, height: 0 });
+  const atBottom = useRef(true);
+  const firstKey = useRef<Key | null>(null);
+  const observer = useRef<ResizeObserver | null>(null);
+
+  if (!observer.current && typeof ResizeObserver !== "undefined") {
+    observer.current = new ResizeObserver(entries => {
+      const box = scrollRef.current;
+      const boxTop = box?.getBoundingClientRect().top ?? 0;
+      let shift = 0;
+      let changed = false;
+      for (const e of entries) {
+        const key = nodes.current.get(e.target);
+        if (key === undefined) continue;
+        const rect = e.target.getBoundingClientRect();
+        const old = heights.current.get(key) ?? estimate;
+        if (Math.abs(rect.height - old) < 0.5) continue;
+        heights.current.set(key, rect.height);
+        changed = true;
+        // Rows above the viewport grew or shrank: keep what is on screen still
+        if (rect.bottom <= boxTop) shift += rect.height - old;
+      }
+      if (!changed) return;
+      if (box && shift && !atBottom.current) box.scrollTop += shift;
+      setVersion(v => v + 1);
+    });
+  }
+
+  const offsets = new Array<number>(items.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < items.length; i++) offsets[i + 1] = offsets[i] + (heights.current.get(itemKey(items[i])) ?? estimate);
+  const total = offsets[items.length];
+
+  // Track the viewport
+  useEffect(() => {
+    const box = scrollRef.current;
+    if (!box) return;
+    const update = () => {
+      atBottom.current = box.scrollHeight - box.scrollTop - box.clientHeight < 8;
+      setView({ top: box.scrollTop, height: box.clientHeight });
+    };
+    update();
+    box.addEventListener("scroll", update, { passive: true });
+    const ro = typeof ResizeObserver !== "undefined" ? new ResizeObserver(update) : null;
+    ro?.observe(box);
+    return () => { box.removeEventListener("scroll", update); ro?.disconnect(); };
+  }, [scrollRef]);
+
+  useEffect(() => () => observer.current?.disconnect(), []);
+
+  // Prepended rows: move down by their height so the old first row stays put
+  useLayoutEffect(() => {
+    const box = scrollRef.current;
+    const prev = firstKey.current;
+    firstKey.current = items.length ? itemKey(items[0]) : null;
+    if (!box || prev === null) return;
+    const at = items.findIndex(it => itemKey(it) === prev);
+    if (at > 0) box.scrollTop += offsets[at];
+  }, [items.length ? itemKey(items[0]) : null]);
+
+  // Stay pinned to the bottom as content grows
+  useLayoutEffect(() => {
+    const box = scrollRef.current;
+    if (followOutput && box && atBottom.current) box.scrollTop = box.scrollHeight;
+  });
+
+  if (handle) {
+    handle.current = {
+      scrollToIndex: (index) => {
+        const box = scrollRef.current;
+        if (box) box.scrollTop = Math.max(0, offsets[Math.max(0, Math.min(index, items.length - 1))] - 16);
+      },
+      scrollToBottom: () => {
+        const box = scrollRef.current;
+        if (box) { box.scrollTop = box.scrollHeight; atBottom.current = true; }
+      },
+    };
+  }
+
+  // Visible range (binary search on offsets)
+  const lo = view.top - overscan, hi = view.top + view.height + overscan;
+  let start = 0, end = items.length;
+  { let a = 0, b = items.length; while (a < b) { const m = (a + b) >> 1; if (offsets[m + 1] <= lo) a = m + 1; else b = m; } start = a; }
+  { let a = start, b = items.length; while (a < b) { const m = (a + b) >> 1; if (offsets[m] < hi) a = m + 1; else b = m; } end = a; }
+
+  return (
+    <div style={{ height: total, position: "relative" }}>
+      <div style={{ position: "absolute", top: offsets[start], left: 0, right: 0 }}>
+        {items.slice(start, end).map((it, i) => (
+          <Row key={itemKey(it)} id={itemKey(it)} observer={observer.current} nodes={nodes.current}>
+            {render(it, start + i)}
+          </Row>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { addDays, dayKey, tzOffsetMinutes, weekdayOf, zonedParts } from "./tz";
+
+/**
+ * Study analytics computed from focus rows in `study_sessions`.
+ *
+ * Everything is bucketed in the user's profile time zone, not the
+ * browser's, so a session at 23:30 in Kolkata counts for that day even
+ * when viewed from a laptop set to London. Sessions that cross an hour
+ * or midnight boundary are split across the buckets they overlap.
+ */
+export type FocusRow = {
+  start_at: string;
+  end_at: string | null;
+  course: string | null;
+  status?: "completed" | "abandoned" | null;
+};
+
+export type StudyStats = {
+  /** Focus minutes per day key ("YYYY-MM-DD"). */
+  byDay: Map<string, number>;
+  /** Focus minutes per hour of day (0-23). */
+  byHour: number[];
+  /** Focus minutes per course, largest first. */
+  byCourse: { course: string; minutes: number }[];
+  totalMinutes: number;
+  completed: number;
+  abandoned: number;
+};
+
+const HOUR = 3_600_000;
+
+/**
+ * Split [start, end) into chunks that each lie within one local hour of
+ * `tz`, yielding the local day key, hour and minutes of each chunk.
+ */
+function* hourChunks(start: number, end: number, tz: string) {
+  let t = start;
+  while (t < end) {
+    const offset = tzOffsetMinutes(tz, t) * 60000;
+    const nextHour = Math.floor((t + offset) / HOUR) * HOUR + HOUR - offset;
+    const stop = Math.min(end, nextHour);
+    yield { key: dayKey(t, tz), hour: zonedParts(t, tz).hour, minutes: (stop - t) / 60000 };
+    t = stop;
+  }
+}
+
+/** Aggregate focus rows. Only completed sessions count towards minutes. */
+export function computeStats(rows: FocusRow[], tz: string): StudyStats {
+  const byDay = new Map<string, number>();
+  const byHour = new Array(24).fill(0) as number[];
+  const courses = new Map<string, number>();
+  let totalMinutes = 0, completed = 0, abandoned = 0;
+
+  for (const r of rows) {
+    if (r.status === "abandoned") { abandoned++; continue; }
+    if (!r.end_at) continue;
+    completed++;
+    const start = Date.parse(r.start_at), end = Date.parse(r.end_at);
+    if (!(end > start)) continue;
+    for (const c of hourChunks(start, end, tz)) {
+      byDay.set(c.key, (byDay.get(c.key) || 0) + c.minutes);
+      byHour[c.hour] += c.minutes;
+    }
+    const mins = (end - start) / 60000;
+    totalMinutes += mins;
+    const course = r.course || "Untagged";
+    courses.set(course, (courses.get(course) || 0) + mins);
+  }
+
+  return {
+    byDay,
+    byHour,
+    byCourse: Array.from(courses, ([course, minutes]) => ({ course, minutes })).sort((a, b) => b.minutes - a.minutes),
+    totalMinutes,
+    completed,
+    abandoned,
+  };
+}
+
+export type Bucket = { key: string; label: string; minutes: number };
+
+/** The last `n` days ending at `today`, oldest first. */
+export function dailyBuckets(byDay: Map<string, number>, today: string, n: number): Bucket[] {
+  const out: Bucket[] = [];
+  for (let i = n - 1; i >= 0; i--) {
+    const key = addDays(today, -i);
+    out.push({ key, label: key.slice(5), minutes: byDay.get(key) || 0 });
+  }
+  return out;
+}
+
+/** Monday of the week containing `key`. */
+export function weekStart(key: string) {
+  return addDays(key, -((weekdayOf(key) + 6) % 7));
+}
+
+/** The last `n` Monday-start weeks ending with the current one. */
+export function weeklyBuckets(byDay: Map<string, number>, today: string, n: number): Bucket[] {
+  const current = weekStart(today);
+  const out: Bucket[] = [];
+  for (let i = n - 1; i >= 0; i--) {
+    const start = addDays(current, -7 * i);
+    let minutes = 0;
+    for (let d = 0; d < 7; d++) minutes += byDay.get(addDays(start, d)) || 0;
+    out.push({ key: start, label: start.slice(5), minutes });
+  }
+  return out;
+}
+
+/** The last `n` calendar months ending with the current one. */
+export function monthlyBuckets(byDay: Map<string, number>, today: string, n: number): Bucket[] {
+  const [y, m] = today.split("-").map(Number);
+  const out: Bucket[] = [];
+  for (let i = n - 1; i >= 0; i--) {
+    const d = new Date(Date.UTC(y, m - 1 - i, 1));
+    const prefix = d.toISOString().slice(0, 7);
+    let minutes = 0;
+    byDay.forEach((v, k) => { if (k.startsWith(prefix)) minutes += v; });
+    out.push({ key: prefix, label: d.toLocaleString("en-US", { month: "short", timeZone: "UTC" }), minutes });
+  }
+  return out;
+}
+
+/**
+ * Heatmap cells for the last `weeks` weeks: one column per week (Monday
+ * first), one row per weekday. Days after `today` are null.
+ */
+export function heatmap(byDay: Map<string, number>, today: string, weeks: number) {
+  const first = addDays(weekStart(today), -7 * (weeks - 1));
+  const cols: ({ key: string; minutes: number } | null)[][] = [];
+  for (let w = 0; w < weeks; w++) {
+    const col: ({ key: string; minutes: number } | null)[] = [];
+    for (let d = 0; d < 7; d++) {
+      const key = addDays(first, w * 7 + d);
+      col.push(key > today ? null : { key, minutes: byDay.get(key) || 0 });
+    }
+    cols.push(col);
+  }
+  return cols;
+}
@@ -0,0 +1,178 @@
+import { supabase, supabaseKey, supabaseUrl } from "./supabase";
+
+/**
+ * Chat attachments.
+ *
+ * Files are uploaded to the private `chat-files` bucket as soon as they
+ * are dropped, pasted or picked, under `<group>/<user>/<random>/<name>`
+ * (the Storage policies check both folders). When the message is sent,
+ * each finished upload gets a `message_attachments` row pointing at it;
+ * that table also backs the group's "Files" tab. The bucket is private,
+ * so files are shown through short-lived signed URLs.
+ *
+ * Uploads go through XMLHttpRequest rather than `supabase.storage` so we
+ * can report progress and cancel them.
+ */
+export type Attachment = {
+  id: number;
+  message_id: number;
+  group_id: string;
+  user_id: string;
+  path: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  created_at: string;
+  profiles?: { full_name: string | null } | null;
+};
+
+/** A file being uploaded (or uploaded) for the next message. */
+export type Upload = {
+  key: string;
+  file: File;
+  path: string;
+  /** 0..1 */
+  progress: number;
+  status: "uploading" | "done" | "error";
+  error?: string;
+  cancel: () => void;
+};
+
+export const BUCKET = "chat-files";
+// Keep in sync with the bucket settings in 2026-11-03_chat_attachments.sql
+export const MAX_FILE_BYTES = 20 * 1024 * 1024;
+export const MAX_FILES_PER_MESSAGE = 10;
+export const ALLOWED_TYPES = [
+  "image/png", "image/jpeg", "image/gif", "image/webp",
+  "application/pdf", "text/plain",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/zip",
+];
+const SIGNED_URL_SECONDS = 60 * 60;
+
+export const isImage = (mime: string) => mime.startsWith("image/");
+export const isPdf = (mime: string) => mime === "application/pdf";
+
+/** Why `file` can't be attached, or null if it can. */
+export function checkFile(file: File): string | null {
+  if (!ALLOWED_TYPES.includes(file.type)) return `${file.name}: this file type can't be shared`;
+  if (file.size > MAX_FILE_BYTES) return `${file.name} is larger than ${formatBytes(MAX_FILE_BYTES)}`;
+  return null;
+}
+
+export function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${Math.round(n / 1024)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function storagePath(groupId: string, userId: string, file: File) {
+  // Pasted images are all called "image.png"; the random folder keeps paths unique
+  const safe = (file.name || "file").replace(/[^\w.-]+/g, "_").slice(-100);
+  return `${groupId}/${userId}/${crypto.randomUUID()}/${safe}`;
+}
+
+/**
+ * Start uploading `file`. `onChange` is called with every progress or
+ * status change; the returned upload's `cancel` aborts it.
+ */
+export function startUpload(groupId: string, userId: string, file: File, onChange: (u: Upload) => void): Upload {
+  const xhr = new XMLHttpRequest();
+  let aborted = false;
+  const upload: Upload = {
+    key: crypto.randomUUID(),
+    file,
+    path: storagePath(groupId, userId, file),
+    progress: 0,
+    status: "uploading",
+    cancel: () => { aborted = true; xhr.abort(); },
+  };
+  const update = (patch: Partial<Upload>) => { Object.assign(upload, patch); onChange({ ...upload }); };
+
+  (async () => {
+    const { data } = await supabase.auth.getSession();
+    if (aborted) return;
+    const encoded = upload.path.split("/").map(encodeURIComponent).join("/");
+    xhr.open("POST", `${supabaseUrl}/storage/v1/object/${BUCKET}/${encoded}`);
+    xhr.setRequestHeader("apikey", supabaseKey);
+    xhr.setRequestHeader("Authorization", `Bearer ${data.session?.access_token || supabaseKey}`);
+    xhr.setRequestHeader("Content-Type", file.type);
+    xhr.setRequestHeader("x-upsert", "false");
+    xhr.upload.onprogress = e => { if (e.lengthComputable) update({ progress: e.loaded / e.total }); };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) update({ progress: 1, status: "done" });
+      else {
+        let message = `Upload failed (${xhr.status})`;
+        try { message = JSON.parse(xhr.responseText).message || message; } catch { /* not JSON */ }
+        update({ status: "error", error: message });
+      }
+    };
+    xhr.onerror = () => update({ status: "error", error: "Network error" });
+    xhr.send(file);
+  })();
+
+  return upload;
+}
+
+/** Remove uploaded objects (a cancelled upload, or a deleted message's files). */
+export async function removeFiles(paths: string[]) {
+  if (!paths.length) return;
+  const { error } = await supabase.storage.from(BUCKET).remove(paths);
+  if (error) throw error;
+}
+
+/** Record finished uploads as attachments of a just-sent message. */
+export async function attachUploads(messageId: number, groupId: string, userId: string, uploads: Upload[]): Promise<Attachment[]> {
+  if (!uploads.length) return [];
+  const { data, error } = await supabase
+    .from("message_attachments")
+    .insert(uploads.map(u => ({
+      message_id: messageId,
+      group_id: groupId,
+      user_id: userId,
+      path: u.path,
+      name: u.file.name || "file",
+      mime_type: u.file.type,
+      size: u.file.size,
+    })))
+    .select("*");
+  if (error) throw error;
+  return (data || []) as Attachment[];
+}
+
+/** Attachments of the given messages, grouped by message id. */
+export async function loadAttachments(messageIds: number[]): Promise<Map<number, Attachment[]>> {
+  const out = new Map<number, Attachment[]>();
+  if (!messageIds.length) return out;
+  const { data, error } = await supabase
+    .from("message_attachments")
+    .select("*")
+    .in("message_id", messageIds)
+    .order("id", { ascending: true });
+  if (error) throw error;
+  for (const a of (data || []) as Attachment[]) out.set(a.message_id, [...(out.get(a.message_id) || []), a]);
+  return out;
+}
+
+/** Everything ever shared in a group, newest first. */
+export async function listGroupFiles(groupId: string): Promise<Attachment[]> {
+  const { data, error } = await supabase
+    .from("message_attachments")
+    .select("*, profiles(full_name)")
+    .eq("group_id", groupId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return ((data || []) as any[]).map(a => ({ ...a, profiles: Array.isArray(a.profiles) ? a.profiles[0] || null : a.profiles }));
+}
+
+/** Signed URLs for private files, keyed by path. */
+export async function signedUrls(paths: string[]): Promise<Map<string, string>> {
+  const out = new Map<string, string>();
+  if (!paths.length) return out;
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS);
+  if (error) throw error;
+  for (const s of data || []) if (s.path && s.signedUrl) out.set(s.path, s.signedUrl);
+  return out;
+}
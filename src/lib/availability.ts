@@ -0,0 +1,124 @@
+import { supabase } from "./supabase";
+import { dayMinuteToDate, DAY_MINUTES, minutesToTime } from "./timeGrid";
+import { addDays, browserTimeZone, isValidTimeZone, weekdayOf, zonedTimeToUtc } from "./tz";
+
+/**
+ * Weekly availability and the group overlap finder.
+ *
+ * Each user keeps a list of weekly ranges in `profiles.weekly_availability`,
+ * as wall-clock times in their own profile zone ("Mon 18:00–21:00 in
+ * Europe/Berlin"). The heatmap turns every member's ranges into real
+ * instants for the week being shown, so DST and zone offsets are handled,
+ * and counts for each half-hour slot of the viewer's week how many members
+ * are free for the whole slot.
+ */
+export type WeeklySlot = {
+  weekday: number; // 0 = Sunday
+  start: string; // "HH:MM"
+  end: string; // "HH:MM", "24:00" for midnight
+};
+
+export type MemberAvailability = {
+  user_id: string;
+  name: string;
+  tz: string;
+  slots: WeeklySlot[];
+};
+
+export type HeatCell = {
+  /** Members free for the whole slot. */
+  free: string[];
+};
+
+/** Granularity of the editor and the heatmap. */
+export const SLOT_MINUTES = 30;
+export const SLOTS_PER_DAY = DAY_MINUTES / SLOT_MINUTES;
+
+function toMinutes(time: string) {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+/** Slots as a [weekday][slot] grid of booleans, for the editor. */
+export function slotsToCells(slots: WeeklySlot[]): boolean[][] {
+  const cells = Array.from({ length: 7 }, () => Array<boolean>(SLOTS_PER_DAY).fill(false));
+  for (const s of slots) {
+    const from = Math.floor(toMinutes(s.start) / SLOT_MINUTES);
+    const to = Math.ceil(toMinutes(s.end) / SLOT_MINUTES);
+    for (let i = from; i < Math.min(to, SLOTS_PER_DAY); i++) cells[s.weekday][i] = true;
+  }
+  return cells;
+}
+
+/** Merge a cell grid back into ranges. */
+export function cellsToSlots(cells: boolean[][]): WeeklySlot[] {
+  const out: WeeklySlot[] = [];
+  cells.forEach((day, weekday) => {
+    let from = -1;
+    for (let i = 0; i <= SLOTS_PER_DAY; i++) {
+      const on = i < SLOTS_PER_DAY && day[i];
+      if (on && from < 0) from = i;
+      if (!on && from >= 0) {
+        out.push({ weekday, start: minutesToTime(from * SLOT_MINUTES), end: minutesToTime(i * SLOT_MINUTES) });
+        from = -1;
+      }
+    }
+  });
+  return out;
+}
+
+/** Total hours per week covered by `slots`. */
+export function weeklyHours(slots: WeeklySlot[]) {
+  return slots.reduce((sum, s) => sum + (toMinutes(s.end) - toMinutes(s.start)), 0) / 60;
+}
+
+export async function saveAvailability(userId: string, slots: WeeklySlot[]) {
+  const { error } = await supabase.from("profiles").update({ weekly_availability: slots }).eq("id", userId);
+  if (error) throw error;
+}
+
+/** Every member of the group with their weekly ranges (possibly empty). */
+export async function loadGroupAvailability(groupId: string): Promise<MemberAvailability[]> {
+  const { data: gm, error } = await supabase.from("group_members").select("user_id").eq("group_id", groupId);
+  if (error) throw error;
+  const ids = (gm || []).map((m: any) => m.user_id);
+  if (!ids.length) return [];
+  const { data, error: pErr } = await supabase
+    .from("profiles")
+    .select("id, full_name, time_zone, weekly_availability")
+    .in("id", ids);
+  if (pErr) throw pErr;
+  return (data || []).map((p: any) => ({
+    user_id: p.id,
+    name: p.full_name || "Member",
+    tz: isValidTimeZone(p.time_zone) ? p.time_zone : browserTimeZone(),
+    slots: Array.isArray(p.weekly_availability) ? p.weekly_availability : [],
+  }));
+}
+
+// A member's free intervals (epoch ms) that touch the given days
+function intervals(m: MemberAvailability, days: string[]) {
+  const out: [number, number][] = [];
+  // One extra day each side: their Sunday night can be the viewer's Monday
+  for (let key = addDays(days[0], -1); key <= addDays(days[days.length - 1], 1); key = addDays(key, 1)) {
+    const wd = weekdayOf(key);
+    for (const s of m.slots) {
+      if (s.weekday !== wd) continue;
+      out.push([zonedTimeToUtc(key, s.start, m.tz).getTime(), zonedTimeToUtc(key, s.end, m.tz).getTime()]);
+    }
+  }
+  return out;
+}
+
+/**
+ * Who is free in each half-hour slot of `days` (day keys in `tz`), as a
+ * [day][slot] grid. Members without any availability are ignored.
+ */
+export function overlapHeatmap(members: MemberAvailability[], days: string[], tz: string): HeatCell[][] {
+  const known = members.filter(m => m.slots.length).map(m => ({ name: m.name, free: intervals(m, days) }));
+  return days.map(day => Array.from({ length: SLOTS_PER_DAY }, (_, i) => {
+    const from = dayMinuteToDate(day, i * SLOT_MINUTES, tz).getTime();
+    const to = from + SLOT_MINUTES * 60000;
+    return { free: known.filter(k => k.free.some(([a, b]) => a <= from && b >= to)).map(k => k.name) };
+  }));
+}
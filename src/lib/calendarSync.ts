@@ -0,0 +1,218 @@
+import { supabase, fetchAllRows, supabaseKey, supabaseUrl } from "./supabase";
+import { createICS, parseICS, type ICSEvent } from "./ics";
+import { parseRRULE } from "./recurrence";
+import { createSeries, listSeries, seriesEvents, type SeriesOccurrenceRow } from "./series";
+import { dayKey, timeOfDay } from "./tz";
+
+/**
+ * Moving schedules in and out of other calendar apps.
+ *
+ * Export writes a group's sessions (or all of a user's groups' sessions
+ * and their personal ones) as one .ics: repeating series as a single
+ * RRULE event, one-off sessions and individually edited occurrences as
+ * plain events. Every exported UID is
+ * stable ("session-<id>@socialstudy" / "series-<id>@socialstudy"), and
+ * imported UIDs are kept in `ics_uid`, so importing the same file twice
+ * does not duplicate anything. The subscribable feed is served by the
+ * `calendar_feed` database function, keyed by a per-user secret token.
+ */
+export type CalendarGroup = { id: string; name: string };
+
+export type ImportResult = { imported: number; duplicates: number; skipped: number };
+
+/** Minutes before a session that exported events remind at. */
+export const DEFAULT_ALARM_MINUTES = 15;
+
+type ExportRow = SeriesOccurrenceRow & { title: string | null; is_exception: boolean };
+
+const OWN_UID = /^(session|series)-(.+)@socialstudy$/;
+
+function pad(n: number) { return String(n).padStart(2, "0"); }
+// Convert a date to Google Calendar's UTC format (YYYYMMDDTHHMMSSZ)
+function toGCalDate(d: Date) {
+  const u = new Date(d.getTime());
+  return u.getUTCFullYear()
+    + pad(u.getUTCMonth() + 1)
+    + pad(u.getUTCDate())
+    + "T" + pad(u.getUTCHours()) + pad(u.getUTCMinutes()) + pad(u.getUTCSeconds()) + "Z";
+}
+
+/**
+ * Build a Google Calendar link for quick export. The details param can
+ * include arbitrary text; the Calendar just uses "SocialStudy" as a marker.
+ * `tz` becomes the event's zone in Google Calendar (`ctz`).
+ */
+export function gcalLink({ title, start, end, details, tz }: { title: string; start: Date; end: Date; details: string; tz?: string; }) {
+  const base = "https://calendar.google.com/calendar/render?action=TEMPLATE";
+  const params = new URLSearchParams({ text: title, dates: `${toGCalDate(start)}/${toGCalDate(end)}`, details });
+  if (tz) params.set("ctz", tz);
+  return `${base}&${params.toString()}`;
+}
+
+/**
+ * Build an .ics with every scheduled session of `groups`, plus the
+ * personal sessions of `userId` when given. Series keep their own zone
+ * (their RRULE is expanded in it); one-off sessions are written in `tz`,
+ * the viewer's zone.
+ */
+export async function exportSchedule(groups: CalendarGroup[], name: string, tz: string, userId?: string): Promise<string> {
+  const ids = groups.map(g => g.id);
+  const label = (gid: string) => `Study: ${groups.find(g => g.id === gid)?.name || "SocialStudy"}`;
+  const series = await listSeries(ids);
+  const cols = "id, group_id, title, start_at, end_at, series_id, occurrence_date, is_exception";
+  const rows = await fetchAllRows<ExportRow>((from, to) => supabase
+    .from("study_sessions")
+    .select(cols)
+    .in("group_id", ids)
+    .eq("kind", "scheduled")
+    .order("start_at", { ascending: true })
+    .order("id", { ascending: true })
+    .range(from, to));
+  const personal = userId ? await fetchAllRows<ExportRow>((from, to) => supabase
+    .from("study_sessions")
+    .select(cols)
+    .is("group_id", null)
+    .eq("user_id", userId)
+    .eq("kind", "scheduled")
+    .order("start_at", { ascending: true })
+    .order("id", { ascending: true })
+    .range(from, to)) : [];
+
+  const known = new Set(series.map(s => s.id));
+  const events: ICSEvent[] = [];
+  for (const s of series) {
+    events.push(...seriesEvents(s, rows.filter(r => r.series_id === s.id && r.is_exception), label(s.group_id)));
+  }
+  for (const r of rows) {
+    // Occurrences are covered by their series' RRULE
+    if (r.series_id && known.has(r.series_id)) continue;
+    events.push({ uid: `session-${r.id}@socialstudy`, title: r.title || label(r.group_id), start: new Date(r.start_at), end: new Date(r.end_at), tz });
+  }
+  for (const r of personal) {
+    events.push({ uid: `session-${r.id}@socialstudy`, title: r.title || "Study session", start: new Date(r.start_at), end: new Date(r.end_at), tz });
+  }
+  return createICS(name, events.map(e => ({ ...e, alarmMinutes: DEFAULT_ALARM_MINUTES })));
+}
+
+// UIDs already present in the group, including ones we exported ourselves
+async function existingUids(groupId: string, uids: string[]) {
+  const found = new Set<string>();
+  const [{ data: s1 }, { data: s2 }] = await Promise.all([
+    supabase.from("study_sessions").select("ics_uid").eq("group_id", groupId).in("ics_uid", uids),
+    supabase.from("session_series").select("ics_uid").eq("group_id", groupId).in("ics_uid", uids),
+  ]);
+  for (const r of [...(s1 || []), ...(s2 || [])] as any[]) found.add(r.ics_uid);
+
+  const own = uids.map(u => OWN_UID.exec(u)).filter((m): m is RegExpExecArray => !!m);
+  const sessionIds = own.filter(m => m[1] === "session").map(m => m[2]);
+  const seriesIds = own.filter(m => m[1] === "series").map(m => m[2]);
+  if (sessionIds.length) {
+    const { data } = await supabase.from("study_sessions").select("id").in("id", sessionIds);
+    for (const r of data || []) found.add(`session-${r.id}@socialstudy`);
+  }
+  if (seriesIds.length) {
+    const { data } = await supabase.from("session_series").select("id").in("id", seriesIds);
+    for (const r of data || []) found.add(`series-${r.id}@socialstudy`);
+  }
+  return found;
+}
+
+/**
+ * Import an .ics file into `groupId`. Events whose UID is already in the
+ * group are counted as duplicates. Daily/weekly RRULEs become series;
+ * other repeat rules and all-day events are skipped. Times without a
+ * zone are read in `fallbackTz`.
+ */
+export async function importICS(text: string, groupId: string, userId: string, fallbackTz: string): Promise<ImportResult> {
+  const events = parseICS(text, fallbackTz);
+  const result: ImportResult = { imported: 0, duplicates: 0, skipped: 0 };
+  if (!events.length) return result;
+
+  // Overrides of single occurrences: the master skips that date and the
+  // override is imported as its own session.
+  const overridden = new Map<string, Date[]>();
+  const keyed = events.map(ev => {
+    const base = ev.uid || `${ev.start.toISOString()}-${ev.title}`;
+    if (ev.recurrenceId) {
+      overridden.set(base, [...(overridden.get(base) || []), ev.recurrenceId]);
+      return { ev, uid: `${base}/${ev.recurrenceId.toISOString()}` };
+    }
+    return { ev, uid: base };
+  });
+
+  const dupes = await existingUids(groupId, keyed.map(k => k.uid));
+  const singles: any[] = [];
+  for (const { ev, uid } of keyed) {
+    if (dupes.has(uid)) { result.duplicates++; continue; }
+    dupes.add(uid); // repeated UIDs within the same file
+    if (ev.allDay) { result.skipped++; continue; }
+    const duration = Math.round((ev.end.getTime() - ev.start.getTime()) / 60000);
+    if (duration <= 0) { result.skipped++; continue; }
+    if (ev.rrule && !ev.recurrenceId) {
+      const tz = ev.tz || fallbackTz;
+      const rule = parseRRULE(ev.rrule, tz);
+      if (!rule) { result.skipped++; continue; }
+      const skips = [...ev.exdates, ...(overridden.get(uid) || [])].map(d => dayKey(d, tz));
+      await createSeries({
+        group_id: groupId,
+        title: ev.title,
+        start_date: dayKey(ev.start, tz),
+        start_time: timeOfDay(ev.start, tz),
+        duration_min: duration,
+        tz,
+        rule,
+        exdates: Array.from(new Set(skips)),
+        ics_uid: uid,
+      }, userId);
+      result.imported++;
+      continue;
+    }
+    singles.push({
+      group_id: groupId,
+      user_id: userId,
+      kind: "scheduled",
+      title: ev.title,
+      start_at: ev.start.toISOString(),
+      end_at: ev.end.toISOString(),
+      tz: ev.tz || fallbackTz,
+      ics_uid: uid,
+    });
+  }
+  if (singles.length) {
+    const { error } = await supabase.from("study_sessions").insert(singles);
+    if (error) throw error;
+    result.imported += singles.length;
+  }
+  return result;
+}
+
+function newToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** The user's feed token, created on first use. */
+export async function getFeedToken(userId: string): Promise<string> {
+  const { data, error } = await supabase.from("calendar_feeds").select("token").eq("user_id", userId).maybeSingle();
+  if (error) throw error;
+  if (data?.token) return data.token;
+  return rotateFeedToken(userId);
+}
+
+/** Replace the feed token; the old feed URL stops working. */
+export async function rotateFeedToken(userId: string): Promise<string> {
+  const token = newToken();
+  const { error } = await supabase.from("calendar_feeds").upsert({ user_id: userId, token, created_at: new Date().toISOString() });
+  if (error) throw error;
+  return token;
+}
+
+/**
+ * Subscribable URL for a feed token. Calendar apps cannot send headers,
+ * so the public anon key travels as the `apikey` query parameter; the
+ * token is what actually grants access.
+ */
+export function feedUrl(token: string) {
+  const params = new URLSearchParams({ token, apikey: supabaseKey });
+  return `${supabaseUrl}/rest/v1/rpc/calendar_feed?${params.toString()}`;
+}
@@ -0,0 +1,281 @@
+import { supabase } from "./supabase";
+
+/**
+ * Group chat history.
+ *
+ * Messages are loaded a page at a time, newest first, with a keyset
+ * cursor on (created_at, id) so pages stay stable while new messages
+ * arrive. Pages are returned oldest-first, ready to render. The main
+ * stream holds thread roots only; replies (`parent_id` = the root) are
+ * loaded per thread, and any message can quote another (`quote_id`).
+ * The id of the newest message a user has seen in each group is their
+ * read marker (`group_reads`): it drives the "new messages" divider, the
+ * "seen by" receipts and the unread badges. A copy is kept in
+ * localStorage so the divider doesn't wait for the network.
+ *
+ * Jumping to an older message (from search) loads the page around it
+ * instead; newer pages are then fetched while scrolling down.
+ *
+ * Edited messages carry `edited_at`; deleted ones stay in place with an
+ * empty `content` and `deleted_at` set (see lib/moderation.ts).
+ */
+export type ChatMessage = {
+  id: number;
+  group_id: string;
+  user_id: string;
+  content: string;
+  kind?: "user" | "system";
+  created_at: string;
+  parent_id?: number | null;
+  quote_id?: number | null;
+  reply_count?: number;
+  last_reply_at?: string | null;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+  pinned_at?: string | null;
+  pinned_by?: string | null;
+  profiles?: { full_name: string | null; avatar_url: string | null } | null;
+  /** The quoted message, joined through `quote_id`. */
+  quoted?: QuotedMessage | null;
+};
+
+export type QuotedMessage = {
+  id: number;
+  user_id: string;
+  content: string;
+  deleted_at?: string | null;
+  profiles?: { full_name: string | null } | null;
+};
+
+export type ChatPage = { messages: ChatMessage[]; hasMore: boolean };
+/** A window opened at an older message: `root` is the thread root it centres on. */
+export type ChatWindow = ChatPage & { hasNewer: boolean; root: number };
+
+export type ReadMarker = {
+  group_id: string;
+  user_id: string;
+  last_read_id: number;
+  updated_at: string;
+  profiles?: { full_name: string | null; avatar_url: string | null } | null;
+};
+
+export const PAGE_SIZE = 50;
+const MESSAGE_COLS = "*, profiles(full_name, avatar_url), quoted:messages!messages_quote_id_fkey(id, user_id, content, deleted_at, profiles(full_name))";
+const LAST_READ_KEY = "chat:lastRead:";
+/** Fired on window when the user's read marker moves, so badges can refresh. */
+export const READ_EVENT = "chat:read";
+const UNREAD_POLL_MS = 60_000;
+
+async function fetchPage(groupId: string, before?: ChatMessage): Promise<ChatPage> {
+  let q = supabase
+    .from("messages")
+    .select(MESSAGE_COLS)
+    .eq("group_id", groupId)
+    .is("parent_id", null)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(PAGE_SIZE + 1);
+  if (before) q = q.or(`created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`);
+  const { data, error } = await q;
+  if (error) throw error;
+  const rows = (data || []).map(normalize);
+  return { messages: rows.slice(0, PAGE_SIZE).reverse(), hasMore: rows.length > PAGE_SIZE };
+}
+
+// Embedded one-to-one relations may come back as arrays
+function normalize(r: any): ChatMessage {
+  const quoted = Array.isArray(r.quoted) ? r.quoted[0] || null : r.quoted || null;
+  return { ...r, quoted };
+}
+
+/** The newest page of a group's messages. */
+export function fetchLatest(groupId: string) {
+  return fetchPage(groupId);
+}
+
+/** The page of messages just before `oldest`. */
+export function fetchOlder(groupId: string, oldest: ChatMessage) {
+  return fetchPage(groupId, oldest);
+}
+
+/** The page of messages just after `newest`, oldest first. */
+export async function fetchNewer(groupId: string, newest: ChatMessage): Promise<ChatPage> {
+  const { data, error } = await supabase
+    .from("messages")
+    .select(MESSAGE_COLS)
+    .eq("group_id", groupId)
+    .is("parent_id", null)
+    .or(`created_at.gt."${newest.created_at}",and(created_at.eq."${newest.created_at}",id.gt.${newest.id})`)
+    .order("created_at", { ascending: true })
+    .order("id", { ascending: true })
+    .limit(PAGE_SIZE + 1);
+  if (error) throw error;
+  const rows = (data || []).map(normalize);
+  return { messages: rows.slice(0, PAGE_SIZE), hasMore: rows.length > PAGE_SIZE };
+}
+
+/**
+ * The stream around a message: a page of older messages, its thread root
+ * and what follows. `root` is the root's id (the message itself unless
+ * it is a reply); `hasNewer` is false once the page reaches the latest.
+ */
+export async function fetchAround(groupId: string, messageId: number): Promise<ChatWindow> {
+  const { data: target, error } = await supabase
+    .from("messages")
+    .select("id, parent_id")
+    .eq("id", messageId)
+    .eq("group_id", groupId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!target) throw new Error("That message is no longer available");
+  const { data: rootRow, error: rootError } = await supabase
+    .from("messages")
+    .select(MESSAGE_COLS)
+    .eq("id", target.parent_id ?? target.id)
+    .single();
+  if (rootError) throw rootError;
+  const root = normalize(rootRow);
+  const [older, newer] = await Promise.all([fetchPage(groupId, root), fetchNewer(groupId, root)]);
+  return {
+    messages: [...older.messages, root, ...newer.messages],
+    hasMore: older.hasMore,
+    hasNewer: newer.hasMore,
+    root: root.id,
+  };
+}
+
+/** All replies of a thread, oldest first. */
+export async function fetchThread(rootId: number): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from("messages")
+    .select(MESSAGE_COLS)
+    .eq("parent_id", rootId)
+    .order("created_at", { ascending: true })
+    .order("id", { ascending: true });
+  if (error) throw error;
+  return (data || []).map(normalize);
+}
+
+/** Messages pinned by the group admin, most recently pinned first. */
+export async function fetchPinned(groupId: string): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from("messages")
+    .select(MESSAGE_COLS)
+    .eq("group_id", groupId)
+    .not("pinned_at", "is", null)
+    .order("pinned_at", { ascending: false });
+  if (error) throw error;
+  return (data || []).map(normalize);
+}
+
+/** Post a message, optionally as a reply in a thread and/or quoting another message. Returns its id. */
+export async function sendMessage(groupId: string, userId: string, content: string, opts: { parentId?: number | null; quoteId?: number | null } = {}) {
+  const { data, error } = await supabase.from("messages").insert({
+    group_id: groupId,
+    user_id: userId,
+    content,
+    parent_id: opts.parentId ?? null,
+    quote_id: opts.quoteId ?? null,
+  }).select("id").single();
+  if (error) throw error;
+  return data.id as number;
+}
+
+/** Id of the newest message seen in the group, 0 if none. */
+export function getLastRead(groupId: string) {
+  try { return Number(localStorage.getItem(LAST_READ_KEY + groupId)) || 0; }
+  catch { return 0; }
+}
+
+/** Move the user's read marker forward (locally right away, then in the database). */
+export function setLastRead(groupId: string, messageId: number) {
+  if (messageId <= getLastRead(groupId)) return;
+  try { localStorage.setItem(LAST_READ_KEY + groupId, String(messageId)); } catch { /* storage disabled */ }
+  (async () => {
+    const { data } = await supabase.auth.getSession();
+    const userId = data.session?.user.id;
+    if (!userId) return;
+    // The database never moves a marker backwards
+    const { error } = await supabase.from("group_reads").upsert({ group_id: groupId, user_id: userId, last_read_id: messageId });
+    if (error) throw error;
+    window.dispatchEvent(new CustomEvent(READ_EVENT, { detail: { groupId, messageId } }));
+  })().catch(console.error);
+}
+
+/** Read markers of everyone in the group who has opened its chat. */
+export async function fetchReadMarkers(groupId: string): Promise<ReadMarker[]> {
+  const { data, error } = await supabase
+    .from("group_reads")
+    .select("*, profiles(full_name, avatar_url)")
+    .eq("group_id", groupId);
+  if (error) throw error;
+  return ((data || []) as any[]).map(r => ({ ...r, profiles: Array.isArray(r.profiles) ? r.profiles[0] || null : r.profiles }));
+}
+
+/** Unread thread roots per group for the current user. */
+export async function unreadCounts(): Promise<Map<string, number>> {
+  const { data, error } = await supabase.rpc("unread_counts");
+  if (error) throw error;
+  return new Map(((data || []) as { group_id: string; unread: number }[]).map(r => [r.group_id, Number(r.unread)]));
+}
+
+/**
+ * Keep unread counts current: reloads on new messages in the user's
+ * groups, when the user reads (READ_EVENT) and every minute. Returns the
+ * unsubscribe function.
+ */
+export function watchUnread(onChange: (counts: Map<string, number>) => void) {
+  return watchCounts(unreadCounts, "messages", "group_id", onChange);
+}
+
+/**
+ * The machinery behind `watchUnread`, shared with direct messages
+ * (lib/dm.ts): `load` returns counts keyed by the ids in `table`'s
+ * `column`, and new rows for those ids trigger a reload.
+ */
+export function watchCounts(
+  loadCounts: () => Promise<Map<string, number>>,
+  table: string,
+  column: string,
+  onChange: (counts: Map<string, number>) => void,
+) {
+  let alive = true;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let channel: ReturnType<typeof supabase.channel> | null = null;
+  let watched = "";
+
+  async function load() {
+    try {
+      const counts = await loadCounts();
+      if (!alive) return;
+      onChange(counts);
+      const ids = Array.from(counts.keys()).sort().join(",");
+      if (ids && ids !== watched) {
+        // (Re)subscribe when the set of groups changes
+        watched = ids;
+        if (channel) supabase.removeChannel(channel);
+        channel = supabase
+          .channel(`unread:${crypto.randomUUID()}`)
+          .on("postgres_changes", { event: "INSERT", schema: "public", table, filter: `${column}=in.(${ids})` }, refresh)
+          .subscribe();
+      }
+    } catch (e) { console.error(e); }
+  }
+  // Bursts of messages or scroll-driven reads collapse into one request
+  function refresh() {
+    clearTimeout(timer);
+    timer = setTimeout(load, 500);
+  }
+
+  load();
+  const poll = setInterval(load, UNREAD_POLL_MS);
+  window.addEventListener(READ_EVENT, refresh);
+  return () => {
+    alive = false;
+    clearTimeout(timer);
+    clearInterval(poll);
+    window.removeEventListener(READ_EVENT, refresh);
+    if (channel) supabase.removeChannel(channel);
+  };
+}
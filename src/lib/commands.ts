@@ -0,0 +1,162 @@
+import { addDays, dayKey, timeOfDay, weekdayOf } from "./tz";
+
+/**
+ * Command palette registry.
+ *
+ * The palette (components/CommandPalette.tsx) is mounted once in App and
+ * opens on Ctrl/Cmd+K or `openPalette()`. It lists its own commands
+ * (navigation, timer, groups, upcoming sessions) plus whatever the open
+ * page registers: a page calls `registerCommands` in an effect and returns
+ * the cleanup it gets back, so its commands go away when it unmounts.
+ *
+ * Matching is fuzzy (`fuzzyScore`: the query's letters in order, with
+ * bonuses for word starts and runs), and the last few commands run float
+ * to the top of an empty palette. `parseWhen` reads phrases like
+ * "tomorrow 6pm" for the "schedule session" command.
+ */
+export type Command = {
+  id: string;
+  label: string;
+  hint?: string;
+  /** Heading the command is listed under. */
+  section?: string;
+  /** Extra words it should match, e.g. "pomodoro" for the timer. */
+  keywords?: string[];
+  /** A route to open, or something to do (or both: run, then open). */
+  to?: string;
+  run?: () => void | Promise<void>;
+};
+
+export const OPEN_PALETTE_EVENT = "palette:open";
+
+const sources = new Map<string, Command[]>();
+const listeners = new Set<() => void>();
+
+function changed() {
+  listeners.forEach(l => l());
+}
+
+/** Add (or replace) the commands from `source`; returns the cleanup. */
+export function registerCommands(source: string, commands: Command[]) {
+  sources.set(source, commands);
+  changed();
+  return () => {
+    if (sources.get(source) !== commands) return;
+    sources.delete(source);
+    changed();
+  };
+}
+
+export function registeredCommands(): Command[] {
+  return Array.from(sources.values()).flat();
+}
+
+export function onCommandsChange(listener: () => void) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/** Open the palette, optionally with a query typed in. */
+export function openPalette(query = "") {
+  window.dispatchEvent(new CustomEvent(OPEN_PALETTE_EVENT, { detail: query }));
+}
+
+const RECENT_KEY = "palette:recent";
+const MAX_RECENT = 6;
+
+export function recentCommandIds(): string[] {
+  try {
+    const ids = JSON.parse(localStorage.getItem(RECENT_KEY) || "[]");
+    return Array.isArray(ids) ? ids.filter(x => typeof x === "string") : [];
+  } catch { return []; }
+}
+
+export function noteRecentCommand(id: string) {
+  const ids = [id, ...recentCommandIds().filter(x => x !== id)].slice(0, MAX_RECENT);
+  try { localStorage.setItem(RECENT_KEY, JSON.stringify(ids)); } catch { /* private mode */ }
+}
+
+/**
+ * How well `query` matches `text`: null when its letters don't all appear
+ * in order, otherwise higher for matches at word starts, consecutive
+ * letters and an exact prefix or substring. Spaces in the query are ignored.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().replace(/\s+/g, "");
+  const t = text.toLowerCase();
+  if (!q) return 0;
+  let score = 0;
+  let from = 0;
+  let prev = -2;
+  for (const ch of q) {
+    const at = t.indexOf(ch, from);
+    if (at < 0) return null;
+    score += 1;
+    if (at === prev + 1) score += 2;
+    if (at === 0 || /[\s:/(·-]/.test(t[at - 1])) score += 3;
+    prev = at;
+    from = at + 1;
+  }
+  const plain = query.trim().toLowerCase();
+  if (t.startsWith(plain)) score += 8;
+  else if (t.includes(plain)) score += 4;
+  // Prefer shorter labels when everything else is equal
+  return score - t.length / 100;
+}
+
+/** Best score of a command's label, hint and keywords (the hint counts less). */
+export function commandScore(query: string, c: Command): number | null {
+  const scores = [
+    fuzzyScore(query, c.label),
+    ...(c.keywords || []).map(k => fuzzyScore(query, k)),
+  ].filter((s): s is number => s !== null);
+  const hint = c.hint ? fuzzyScore(query, c.hint) : null;
+  if (hint !== null) scores.push(hint / 2);
+  return scores.length ? Math.max(...scores) : null;
+}
+
+const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/**
+ * A day and time read from free text in `tz`, e.g. "tomorrow 6pm",
+ * "fri 18:30", "next monday at noon", "in 3 days", "2026-12-01 9am".
+ * The day defaults to today (tomorrow if the time has passed) and the time
+ * to 18:00; null when the text names neither.
+ */
+export function parseWhen(text: string, tz: string, now = new Date()): { date: string; time: string } | null {
+  const s = text.toLowerCase();
+  const today = dayKey(now, tz);
+  let date: string | null = null;
+  let time: string | null = null;
+
+  let m: RegExpMatchArray | null;
+  if ((m = s.match(/\b(\d{4}-\d{2}-\d{2})\b/))) date = m[1];
+  else if ((m = s.match(/\b(1[0-2]|0?[1-9])\/(3[01]|[12]\d|0?[1-9])\b/))) {
+    const year = Number(today.slice(0, 4));
+    const key = `${year}-${m[1].padStart(2, "0")}-${m[2].padStart(2, "0")}`;
+    date = key < today ? `${year + 1}${key.slice(4)}` : key;
+  }
+  else if (/\btoday\b|\btonight\b/.test(s)) date = today;
+  else if (/\btomorrow\b|\btmrw?\b/.test(s)) date = addDays(today, 1);
+  else if ((m = s.match(/\bin (\d{1,2}) days?\b/))) date = addDays(today, Number(m[1]));
+  else {
+    const day = DAY_NAMES.findIndex(d => new RegExp(`\\b${d.slice(0, 3)}(${d.slice(3)})?\\b`).test(s));
+    if (day >= 0) {
+      const ahead = (day - weekdayOf(today) + 7) % 7 || 7;
+      date = addDays(today, ahead);
+    }
+  }
+
+  if (/\bnoon\b/.test(s)) time = "12:00";
+  else if ((m = s.match(/\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/))) {
+    const h = Number(m[1]) % 12 + (m[3] === "pm" ? 12 : 0);
+    if (Number(m[1]) <= 12) time = `${String(h).padStart(2, "0")}:${m[2] || "00"}`;
+  }
+  else if ((m = s.match(/\b([01]?\d|2[0-3]):([0-5]\d)\b/))) time = `${m[1].padStart(2, "0")}:${m[2]}`;
+  else if (/\btonight\b/.test(s)) time = "19:00";
+
+  if (!date && !time) return null;
+  time ??= "18:00";
+  date ??= time > timeOfDay(now, tz) ? today : addDays(today, 1);
+  return { date, time };
+}
@@ -0,0 +1,179 @@
+import { supabase } from "./supabase";
+import { PAGE_SIZE, READ_EVENT, watchCounts } from "./chat";
+
+/**
+ * Direct messages: 1:1 and small ad-hoc conversations outside groups
+ * (see 2026-11-06_direct_messages.sql). Only participants can read a
+ * conversation. `startConversation` reuses the existing 1:1 conversation
+ * with someone rather than opening a second one.
+ *
+ * History pages work like group chat (lib/chat.ts), without threads.
+ * Each participant's read marker is on their membership row and only
+ * moves forward; it drives the unread badges and "Seen" receipts, and
+ * `watchDmUnread` keeps the counts current the same way `watchUnread`
+ * does for groups.
+ */
+export type Participant = {
+  user_id: string;
+  last_read_id: number;
+  profiles?: { full_name: string | null; avatar_url: string | null } | null;
+};
+
+export type Conversation = {
+  id: string;
+  title: string | null;
+  is_direct: boolean;
+  created_by: string | null;
+  created_at: string;
+  last_message_at: string;
+  members: Participant[];
+};
+
+export type DirectMessage = {
+  id: number;
+  conversation_id: string;
+  user_id: string;
+  content: string;
+  created_at: string;
+  profiles?: { full_name: string | null; avatar_url: string | null } | null;
+};
+
+export type DirectPage = { messages: DirectMessage[]; hasMore: boolean };
+
+export type Person = { id: string; full_name: string | null; avatar_url: string | null };
+
+/** The most people a conversation can have besides its creator. */
+export const MAX_OTHERS = 7;
+// Participants need not share a group, so names come from the public view
+const MESSAGE_COLS = "*, profiles:public_profiles(full_name, avatar_url)";
+const CONVERSATION_COLS = "*, members:conversation_members(user_id, last_read_id, profiles:public_profiles(full_name, avatar_url))";
+
+// Embedded one-to-one relations may come back as arrays
+function one<T>(v: T | T[] | null | undefined): T | null {
+  return Array.isArray(v) ? v[0] ?? null : v ?? null;
+}
+
+function toConversation(r: any): Conversation {
+  return { ...r, members: (r.members || []).map((m: any) => ({ ...m, profiles: one(m.profiles) })) };
+}
+
+/** The user's conversations, most recently active first. */
+export async function listConversations(): Promise<Conversation[]> {
+  const { data, error } = await supabase
+    .from("conversations")
+    .select(CONVERSATION_COLS)
+    .order("last_message_at", { ascending: false });
+  if (error) throw error;
+  return (data || []).map(toConversation);
+}
+
+export async function fetchConversation(id: string): Promise<Conversation | null> {
+  const { data, error } = await supabase.from("conversations").select(CONVERSATION_COLS).eq("id", id).maybeSingle();
+  if (error) throw error;
+  return data ? toConversation(data) : null;
+}
+
+/** Open (or find the existing 1:1) conversation with `others`; returns its id. */
+export async function startConversation(others: string[], title?: string) {
+  const { data, error } = await supabase.rpc("start_conversation", { others, title: title?.trim() || null });
+  if (error) throw error;
+  return data as string;
+}
+
+export async function renameConversation(id: string, title: string) {
+  const { error } = await supabase.from("conversations").update({ title: title.trim() || null }).eq("id", id);
+  if (error) throw error;
+}
+
+export async function leaveConversation(id: string, userId: string) {
+  const { error } = await supabase.from("conversation_members").delete().eq("conversation_id", id).eq("user_id", userId);
+  if (error) throw error;
+}
+
+/** A conversation's name for `me`: its title, else the other people in it. */
+export function conversationName(c: Conversation, me: string | null) {
+  if (c.title) return c.title;
+  const others = c.members.filter(m => m.user_id !== me).map(m => m.profiles?.full_name || "Someone");
+  if (!others.length) return "Just you";
+  return others.length <= 3 ? others.join(", ") : `${others.slice(0, 3).join(", ")} +${others.length - 3}`;
+}
+
+/** People to start a conversation with, by name. */
+export async function findPeople(q: string, me: string): Promise<Person[]> {
+  const term = q.trim().replace(/[%_,()]/g, " ").trim();
+  if (!term) return [];
+  const { data, error } = await supabase
+    .from("public_profiles")
+    .select("id, full_name, avatar_url")
+    .ilike("full_name", `%${term}%`)
+    .neq("id", me)
+    .order("full_name")
+    .limit(10);
+  if (error) throw error;
+  return (data || []) as Person[];
+}
+
+async function fetchPage(conversationId: string, before?: DirectMessage): Promise<DirectPage> {
+  let q = supabase
+    .from("direct_messages")
+    .select(MESSAGE_COLS)
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(PAGE_SIZE + 1);
+  if (before) q = q.or(`created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`);
+  const { data, error } = await q;
+  if (error) throw error;
+  const rows = (data || []).map((r: any) => ({ ...r, profiles: one(r.profiles) })) as DirectMessage[];
+  return { messages: rows.slice(0, PAGE_SIZE).reverse(), hasMore: rows.length > PAGE_SIZE };
+}
+
+/** The newest page of a conversation. */
+export function fetchLatestDirect(conversationId: string) {
+  return fetchPage(conversationId);
+}
+
+/** The page just before `oldest`. */
+export function fetchOlderDirect(conversationId: string, oldest: DirectMessage) {
+  return fetchPage(conversationId, oldest);
+}
+
+/** Post a message; returns its id. */
+export async function sendDirectMessage(conversationId: string, userId: string, content: string) {
+  const { data, error } = await supabase
+    .from("direct_messages")
+    .insert({ conversation_id: conversationId, user_id: userId, content })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return data.id as number;
+}
+
+export async function deleteDirectMessage(id: number) {
+  const { error } = await supabase.from("direct_messages").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/** Move the user's read marker forward; badges refresh through READ_EVENT. */
+export async function setConversationRead(conversationId: string, userId: string, messageId: number) {
+  // The database never moves a marker backwards
+  const { error } = await supabase
+    .from("conversation_members")
+    .update({ last_read_id: messageId })
+    .eq("conversation_id", conversationId)
+    .eq("user_id", userId);
+  if (error) throw error;
+  window.dispatchEvent(new CustomEvent(READ_EVENT, { detail: { conversationId, messageId } }));
+}
+
+/** Unread messages per conversation for the current user. */
+export async function dmUnreadCounts(): Promise<Map<string, number>> {
+  const { data, error } = await supabase.rpc("dm_unread_counts");
+  if (error) throw error;
+  return new Map(((data || []) as { conversation_id: string; unread: number }[]).map(r => [r.conversation_id, Number(r.unread)]));
+}
+
+/** Like `watchUnread`, for direct messages. Returns the unsubscribe function. */
+export function watchDmUnread(onChange: (counts: Map<string, number>) => void) {
+  return watchCounts(dmUnreadCounts, "direct_messages", "conversation_id", onChange);
+}
@@ -0,0 +1,197 @@
+import { supabase } from "./supabase";
+
+/**
+ * Group roles and member management (see 2026-11-08_group_roles.sql).
+ *
+ * Every membership has a role: one owner per group, moderators and
+ * members. The owner edits the group's details, promotes and demotes
+ * moderators, hands the group over (the only way for an owner to leave)
+ * and can delete it. Owners and moderators answer join requests and
+ * remove or ban people below them. Non-public groups are joined by
+ * request; `max_members` is checked whenever someone is added. The
+ * database enforces all of it, these helpers only send the request and
+ * surface its refusal as an error.
+ *
+ * Requesters and banned people are usually not in the group, so names
+ * and avatars come from `public_profiles`.
+ */
+export type GroupRole = "owner" | "moderator" | "member";
+
+export type GroupDetails = {
+  id: string;
+  name: string;
+  description: string | null;
+  tags: string[] | null;
+  is_public: boolean | null;
+  max_members: number | null;
+  unique_key: string | null;
+  created_by: string | null;
+};
+
+export type Person = { full_name: string | null; avatar_url: string | null };
+
+export type GroupMember = { user_id: string; role: GroupRole; joined_at: string; person: Person | null };
+
+export type JoinRequest = { user_id: string; status: "pending" | "declined"; created_at: string; person: Person | null };
+
+export type GroupBan = { user_id: string; banned_by: string | null; reason: string | null; created_at: string; person: Person | null };
+
+/** What `joinWithCode` did: joined, filed a join request, or nothing (already a member). */
+export type JoinResult = { group_id: string; status: "joined" | "requested" | "member" };
+
+export const ROLE_LABELS: Record<GroupRole, string> = { owner: "Owner", moderator: "Moderator", member: "Member" };
+
+const GROUP_COLS = "id, name, description, tags, is_public, max_members, unique_key, created_by";
+
+export function isAdminRole(role: GroupRole | null | undefined) {
+  return role === "owner" || role === "moderator";
+}
+
+/** Can someone with role `mine` remove, ban or mute someone with `theirs`? Mirrors `outranks()` in SQL. */
+export function outranks(mine: GroupRole | null, theirs: GroupRole | null) {
+  if (mine === "owner") return theirs !== "owner";
+  if (mine === "moderator") return !theirs || theirs === "member";
+  return false;
+}
+
+// Attach public names/avatars to rows keyed by user_id
+async function withPeople<T extends { user_id: string }>(rows: T[]): Promise<(T & { person: Person | null })[]> {
+  const ids = Array.from(new Set(rows.map(r => r.user_id)));
+  if (!ids.length) return [];
+  const { data, error } = await supabase.from("public_profiles").select("id, full_name, avatar_url").in("id", ids);
+  if (error) throw error;
+  const byId = new Map((data || []).map((p: any) => [p.id as string, { full_name: p.full_name, avatar_url: p.avatar_url }]));
+  return rows.map(r => ({ ...r, person: byId.get(r.user_id) ?? null }));
+}
+
+export async function fetchGroup(id: string): Promise<GroupDetails | null> {
+  const { data, error } = await supabase.from("study_groups").select(GROUP_COLS).eq("id", id).maybeSingle();
+  if (error) throw error;
+  return data as GroupDetails | null;
+}
+
+/** The user's role in a group, or null when they are not in it. */
+export async function fetchMyRole(groupId: string, userId: string): Promise<GroupRole | null> {
+  const { data, error } = await supabase
+    .from("group_members")
+    .select("role")
+    .eq("group_id", groupId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data?.role as GroupRole) ?? null;
+}
+
+/** The user's groups with their role in each. */
+export async function listMyGroups(userId: string): Promise<(GroupDetails & { role: GroupRole })[]> {
+  const { data, error } = await supabase
+    .from("group_members")
+    .select(`role, study_groups(${GROUP_COLS})`)
+    .eq("user_id", userId);
+  if (error) throw error;
+  return (data || [])
+    .filter((r: any) => r.study_groups)
+    .map((r: any) => ({ ...(Array.isArray(r.study_groups) ? r.study_groups[0] : r.study_groups), role: r.role }));
+}
+
+/** Members, owner first, then moderators, then by join date. */
+export async function listMembers(groupId: string): Promise<GroupMember[]> {
+  const { data, error } = await supabase
+    .from("group_members")
+    .select("user_id, role, joined_at")
+    .eq("group_id", groupId)
+    .order("joined_at", { ascending: true });
+  if (error) throw error;
+  const rank: Record<GroupRole, number> = { owner: 0, moderator: 1, member: 2 };
+  const rows = await withPeople((data || []) as Omit<GroupMember, "person">[]);
+  return rows.sort((a, b) => rank[a.role] - rank[b.role]);
+}
+
+export async function listJoinRequests(groupId: string): Promise<JoinRequest[]> {
+  const { data, error } = await supabase
+    .from("group_join_requests")
+    .select("user_id, status, created_at")
+    .eq("group_id", groupId)
+    .eq("status", "pending")
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return withPeople((data || []) as Omit<JoinRequest, "person">[]);
+}
+
+/** Pending join requests per group, for the groups the user can answer. */
+export async function pendingRequestCounts(groupIds: string[]): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  if (!groupIds.length) return counts;
+  const { data, error } = await supabase
+    .from("group_join_requests")
+    .select("group_id")
+    .in("group_id", groupIds)
+    .eq("status", "pending");
+  if (error) throw error;
+  for (const r of (data || []) as { group_id: string }[]) counts.set(r.group_id, (counts.get(r.group_id) || 0) + 1);
+  return counts;
+}
+
+export async function listBans(groupId: string): Promise<GroupBan[]> {
+  const { data, error } = await supabase
+    .from("group_bans")
+    .select("user_id, banned_by, reason, created_at")
+    .eq("group_id", groupId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return withPeople((data || []) as Omit<GroupBan, "person">[]);
+}
+
+/** Edit the group's details (owner only). */
+export async function updateGroup(id: string, patch: Partial<Omit<GroupDetails, "id" | "created_by">>) {
+  const { error } = await supabase.from("study_groups").update(patch).eq("id", id);
+  if (error) throw error;
+}
+
+export async function deleteGroup(id: string) {
+  const { error } = await supabase.from("study_groups").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/** Join by a group's code: public groups right away, others by request. */
+export async function joinWithCode(code: string): Promise<JoinResult> {
+  const { data, error } = await supabase.rpc("join_group_with_code", { p_code: code });
+  if (error) throw error;
+  return data as JoinResult;
+}
+
+export async function answerJoinRequest(groupId: string, userId: string, approve: boolean) {
+  const { error } = await supabase.rpc("answer_join_request", { gid: groupId, uid: userId, approve });
+  if (error) throw error;
+}
+
+/** Make a member a moderator or back (owner only). */
+export async function setMemberRole(groupId: string, userId: string, role: Exclude<GroupRole, "owner">) {
+  const { error } = await supabase.from("group_members").update({ role }).eq("group_id", groupId).eq("user_id", userId);
+  if (error) throw error;
+}
+
+/** Hand the group to another member; the current owner becomes a moderator. */
+export async function transferOwnership(groupId: string, userId: string) {
+  const { error } = await supabase.rpc("transfer_group_ownership", { gid: groupId, new_owner: userId });
+  if (error) throw error;
+}
+
+/** Remove someone from the group, or leave it when `userId` is the current user. */
+export async function removeMember(groupId: string, userId: string) {
+  const { error } = await supabase.from("group_members").delete().eq("group_id", groupId).eq("user_id", userId);
+  if (error) throw error;
+}
+
+/** Ban someone; the database also removes their membership and any join request. */
+export async function banMember(groupId: string, userId: string, by: string, reason?: string) {
+  const { error } = await supabase
+    .from("group_bans")
+    .insert({ group_id: groupId, user_id: userId, banned_by: by, reason: reason?.trim() || null });
+  if (error) throw error;
+}
+
+export async function unbanMember(groupId: string, userId: string) {
+  const { error } = await supabase.from("group_bans").delete().eq("group_id", groupId).eq("user_id", userId);
+  if (error) throw error;
+}
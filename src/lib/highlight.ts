@@ -0,0 +1,134 @@
+/**
+ * Lightweight syntax highlighting for code blocks in chat.
+ *
+ * A single tokenizer, configured per language, splits code into comments,
+ * strings, numbers, keywords and everything else. That is enough to make
+ * snippets readable without shipping a full grammar engine. Unknown
+ * languages come back as one plain token.
+ */
+export type CodeToken = { t: "plain" | "keyword" | "string" | "comment" | "number"; text: string };
+
+type Lang = {
+  keywords: Set<string>;
+  lineComment: string[];
+  blockComment?: [string, string];
+  quotes: string[];
+  caseInsensitive?: boolean;
+};
+
+const words = (s: string) => new Set(s.split(" "));
+
+const C_LIKE = { lineComment: ["//"], blockComment: ["/*", "*/"] as [string, string], quotes: ['"', "'"] };
+
+const LANGS: Record<string, Lang> = {
+  js: {
+    ...C_LIKE,
+    quotes: ['"', "'", "`"],
+    keywords: words("async await break case catch class const continue default delete do else export extends false finally for from function if import in instanceof interface let new null of return static super switch this throw true try type typeof undefined var void while yield enum implements private public readonly"),
+  },
+  python: {
+    lineComment: ["#"],
+    quotes: ['"""', "'''", '"', "'"],
+    keywords: words("and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return True try while with yield self print range len"),
+  },
+  c: {
+    ...C_LIKE,
+    keywords: words("auto bool break case catch char class const continue default delete do double else enum extern false float for friend goto if inline int long namespace new nullptr private protected public return short signed sizeof static struct switch template this throw true try typedef typename union unsigned using virtual void volatile while include define std cout cin endl vector string"),
+  },
+  java: {
+    ...C_LIKE,
+    keywords: words("abstract boolean break byte case catch char class continue default do double else enum extends final finally float for if implements import instanceof int interface long new null package private protected public return short static super switch this throw throws true false try void while var String System out println"),
+  },
+  go: {
+    ...C_LIKE,
+    quotes: ['"', "'", "`"],
+    keywords: words("break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var true false nil int string bool error fmt"),
+  },
+  rust: {
+    ...C_LIKE,
+    quotes: ['"'],
+    keywords: words("as break const continue crate else enum extern false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while i32 i64 u32 u64 usize f64 bool String Vec Option Some None Ok Err println"),
+  },
+  sql: {
+    lineComment: ["--"],
+    blockComment: ["/*", "*/"],
+    quotes: ["'", '"'],
+    caseInsensitive: true,
+    keywords: words("select from where and or not insert into values update set delete create table alter drop index primary key foreign references join left right inner outer on group by order asc desc having limit offset as distinct null is in exists between like union all case when then else end count sum avg min max"),
+  },
+  bash: {
+    lineComment: ["#"],
+    quotes: ['"', "'"],
+    keywords: words("if then else elif fi for while do done case esac in function return exit echo export local cd ls grep sudo"),
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  javascript: "js", jsx: "js", ts: "js", typescript: "js", tsx: "js", json: "js",
+  py: "python", python3: "python",
+  cpp: "c", "c++": "c", cc: "c", h: "c", cs: "java", csharp: "java", kotlin: "java", kt: "java",
+  golang: "go", rs: "rust", sh: "bash", shell: "bash", zsh: "bash", postgres: "sql", postgresql: "sql",
+};
+
+function languageOf(name: string): Lang | null {
+  const key = name.toLowerCase();
+  return LANGS[ALIASES[key] || key] || null;
+}
+
+export function highlight(code: string, langName: string): CodeToken[] {
+  const lang = languageOf(langName);
+  if (!lang) return [{ t: "plain", text: code }];
+  const out: CodeToken[] = [];
+  const push = (t: CodeToken["t"], text: string) => {
+    const last = out[out.length - 1];
+    if (last && last.t === t) last.text += text; else out.push({ t, text });
+  };
+  let i = 0;
+  while (i < code.length) {
+    const rest = code.slice(i);
+    const line = lang.lineComment.find(c => rest.startsWith(c));
+    if (line) {
+      const end = code.indexOf("\n", i);
+      const stop = end < 0 ? code.length : end;
+      push("comment", code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+    if (lang.blockComment && rest.startsWith(lang.blockComment[0])) {
+      const end = code.indexOf(lang.blockComment[1], i + lang.blockComment[0].length);
+      const stop = end < 0 ? code.length : end + lang.blockComment[1].length;
+      push("comment", code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+    const quote = lang.quotes.find(q => rest.startsWith(q));
+    if (quote) {
+      let j = i + quote.length;
+      while (j < code.length && !code.startsWith(quote, j)) {
+        // Single-quoted strings end at the line; escapes skip a character
+        if (quote.length === 1 && quote !== "`" && code[j] === "\n") break;
+        j += code[j] === "\\" ? 2 : 1;
+      }
+      const stop = Math.min(code.length, code.startsWith(quote, j) ? j + quote.length : j);
+      push("string", code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+    const num = /^(0x[0-9a-fA-F]+|\d[\d_]*(\.\d+)?([eE][+-]?\d+)?)/.exec(rest);
+    if (num && !/[\w$]/.test(code[i - 1] ?? "")) {
+      push("number", num[0]);
+      i += num[0].length;
+      continue;
+    }
+    const word = /^[A-Za-z_$][\w$]*/.exec(rest);
+    if (word) {
+      const w = lang.caseInsensitive ? word[0].toLowerCase() : word[0];
+      push(lang.keywords.has(w) ? "keyword" : "plain", word[0]);
+      i += word[0].length;
+      continue;
+    }
+    push("plain", code[i]);
+    i++;
+  }
+  return out;
+}
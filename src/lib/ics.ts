@@ -1,4 +1,9 @@
-// Minimal iCalendar (.ics) generator (UTC times) with download helper
+import { tzOffsetMinutes, zonedParts, zonedTimeToUtc, isValidTimeZone } from "./tz";
+
+// iCalendar (.ics, RFC 5545) export and import with a download helper.
+// Events are written in UTC unless they carry a `tz`, in which case
+// DTSTART/DTEND/EXDATE use TZID and a VTIMEZONE is generated from Intl
+// so repeating events keep their wall-clock time across DST.
 export type ICSEvent = {
   uid?: string;
   title: string;
@@ -6,11 +11,37 @@ export type ICSEvent = {
   end: Date;
   description?: string;
   location?: string;
+  /** RRULE value without the "RRULE:" prefix (see lib/recurrence.ts) */
+  rrule?: string;
+  /** Starts of skipped occurrences */
+  exdates?: Date[];
+  /** IANA zone to express times in; UTC when omitted */
+  tz?: string;
+  /** Reminder this many minutes before the start */
+  alarmMinutes?: number;
+};
+
+/** An event read from an .ics file. Times are resolved to instants. */
+export type ParsedICSEvent = {
+  uid: string | null;
+  title: string;
+  start: Date;
+  end: Date;
+  description?: string;
+  location?: string;
+  rrule?: string;
+  exdates: Date[];
+  /** TZID of DTSTART when it is a zone this browser knows */
+  tz?: string;
+  /** Set on overrides of a single occurrence of a repeating event */
+  recurrenceId?: Date;
+  /** All-day events (DTSTART;VALUE=DATE) */
+  allDay: boolean;
 };
 
 function pad(n: number){ return String(n).padStart(2, "0"); }
 
-function toICSDateUTC(d: Date){
+export function toICSDateUTC(d: Date){
   const y = d.getUTCFullYear();
   const m = pad(d.getUTCMonth()+1);
   const day = pad(d.getUTCDate());
@@ -20,6 +51,98 @@ function toICSDateUTC(d: Date){
   return `${y}${m}${day}T${hh}${mm}${ss}Z`;
 }
 
+// Local wall-clock time in `tz`, without the trailing Z
+function toICSDateLocal(d: Date, tz: string){
+  const p = zonedParts(d, tz);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}00`;
+}
+
+// A date-time property, as NAME:...Z or NAME;TZID=...:...
+function dateProp(name: string, d: Date | Date[], tz?: string){
+  const list = Array.isArray(d) ? d : [d];
+  return tz
+    ? `${name};TZID=${tz}:${list.map(x => toICSDateLocal(x, tz)).join(",")}`
+    : `${name}:${list.map(toICSDateUTC).join(",")}`;
+}
+
+/** Escape a TEXT value: backslash, semicolon, comma and newlines. */
+export function escapeText(s: string){
+  return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(s: string){
+  return s.replace(/\\([\\;,nN])/g, (_, c) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Fold a content line so no physical line is longer than 75 octets.
+ * Continuation lines start with a single space. Never splits a UTF-8
+ * sequence since we cut between code points.
+ */
+export function foldLine(line: string){
+  if (encoder.encode(line).length <= 75) return line;
+  const out: string[] = [];
+  let cur = "", size = 0, limit = 75;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    if (size + n > limit) {
+      out.push(cur);
+      cur = ""; size = 0; limit = 74; // the leading space counts
+    }
+    cur += ch; size += n;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+function fmtOffset(min: number){
+  const sign = min < 0 ? "-" : "+";
+  const a = Math.abs(min);
+  return `${sign}${pad(Math.floor(a / 60))}${pad(a % 60)}`;
+}
+
+/**
+ * VTIMEZONE for `tz` covering the years `fromYear`..`toYear`. Intl has no
+ * API for transition rules, so we find each offset change by scanning day
+ * by day and bisecting to the minute, and list them as dated
+ * STANDARD/DAYLIGHT observances.
+ */
+export function vtimezone(tz: string, fromYear: number, toYear: number): string[] {
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${tz}`];
+  const observance = (kind: "STANDARD" | "DAYLIGHT", at: number, from: number, to: number) => {
+    // DTSTART is the local time just before the change, in the old offset
+    const local = new Date(at + from * 60000);
+    const stamp = `${local.getUTCFullYear()}${pad(local.getUTCMonth() + 1)}${pad(local.getUTCDate())}T${pad(local.getUTCHours())}${pad(local.getUTCMinutes())}00`;
+    lines.push(`BEGIN:${kind}`, `DTSTART:${stamp}`, `TZOFFSETFROM:${fmtOffset(from)}`, `TZOFFSETTO:${fmtOffset(to)}`, `END:${kind}`);
+  };
+  const begin = Date.UTC(fromYear, 0, 1), end = Date.UTC(toYear + 1, 0, 1);
+  const first = tzOffsetMinutes(tz, begin);
+  lines.push("BEGIN:STANDARD", "DTSTART:19700101T000000", `TZOFFSETFROM:${fmtOffset(first)}`, `TZOFFSETTO:${fmtOffset(first)}`, "END:STANDARD");
+  let prev = first;
+  for (let t = begin + 86_400_000; t <= end; t += 86_400_000) {
+    const cur = tzOffsetMinutes(tz, t);
+    if (cur === prev) continue;
+    let lo = t - 86_400_000, hi = t;
+    while (hi - lo > 60000) {
+      const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+      if (tzOffsetMinutes(tz, mid) === prev) lo = mid; else hi = mid;
+    }
+    observance(cur > prev ? "DAYLIGHT" : "STANDARD", hi, prev, cur);
+    prev = cur;
+  }
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+// Last year an event (or its repetitions) can reach, for VTIMEZONE ranges
+function lastYear(ev: ICSEvent){
+  if (!ev.rrule) return ev.end.getUTCFullYear();
+  const until = /UNTIL=(\d{4})/.exec(ev.rrule);
+  return until ? Number(until[1]) : ev.start.getUTCFullYear() + 1;
+}
+
 export function createICS(name: string, events: ICSEvent[]): string {
   const now = toICSDateUTC(new Date());
   const lines = [
@@ -27,23 +150,44 @@ export function createICS(name: string, events: ICSEvent[]): string {
     "VERSION:2.0",
     "PRODID:-//SocialStudy//Calendar//EN",
     "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
   ];
+  const zones = new Map<string, { from: number; to: number }>();
+  for (const ev of events){
+    if (!ev.tz) continue;
+    const z = zones.get(ev.tz);
+    const from = ev.start.getUTCFullYear(), to = lastYear(ev);
+    zones.set(ev.tz, z ? { from: Math.min(z.from, from), to: Math.max(z.to, to) } : { from, to });
+  }
+  zones.forEach((r, tz) => lines.push(...vtimezone(tz, r.from, r.to)));
   for (const ev of events){
     const uid = ev.uid || `${Math.random().toString(36).slice(2)}@socialstudy`;
     lines.push(
       "BEGIN:VEVENT",
       `UID:${uid}`,
       `DTSTAMP:${now}`,
-      `DTSTART:${toICSDateUTC(ev.start)}`,
-      `DTEND:${toICSDateUTC(ev.end)}`,
-      `SUMMARY:${(ev.title||"Study Session").replace(/\n/g, " ")}`,
-      ev.location ? `LOCATION:${ev.location.replace(/\n/g, " ")}` : "",
-      ev.description ? `DESCRIPTION:${ev.description.replace(/\n/g, "\\n")}` : "",
-      "END:VEVENT"
+      dateProp("DTSTART", ev.start, ev.tz),
+      dateProp("DTEND", ev.end, ev.tz),
+      `SUMMARY:${escapeText(ev.title||"Study Session")}`,
+      ev.location ? `LOCATION:${escapeText(ev.location)}` : "",
+      ev.description ? `DESCRIPTION:${escapeText(ev.description)}` : "",
+      ev.rrule ? `RRULE:${ev.rrule}` : "",
+      ev.exdates?.length ? dateProp("EXDATE", ev.exdates, ev.tz) : "",
     );
+    if (ev.alarmMinutes != null) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(ev.title||"Study Session")}`,
+        `TRIGGER:-PT${Math.max(0, Math.round(ev.alarmMinutes))}M`,
+        "END:VALARM",
+      );
+    }
+    lines.push("END:VEVENT");
   }
   lines.push("END:VCALENDAR");
-  return lines.filter(Boolean).join("\r\n");
+  return lines.filter(Boolean).map(foldLine).join("\r\n") + "\r\n";
 }
 
 export function downloadICS(filename: string, ics: string){
@@ -56,3 +200,106 @@ export function downloadICS(filename: string, ics: string){
   a.click();
   setTimeout(() => { URL.revokeObjectURL(url); a.remove(); }, 0);
 }
+
+// ---- Import ----
+
+type Prop = { name: string; params: Record<string, string>; value: string };
+
+// Split "NAME;P1=a;P2=b:value" honouring quoted parameter values
+function parseProp(line: string): Prop {
+  let i = 0, inQuote = false;
+  for (; i < line.length; i++) {
+    const c = line[i];
+    if (c === '"') inQuote = !inQuote;
+    else if (c === ":" && !inQuote) break;
+  }
+  const [name, ...rawParams] = line.slice(0, i).split(";");
+  const params: Record<string, string> = {};
+  for (const p of rawParams) {
+    const eq = p.indexOf("=");
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(i + 1) };
+}
+
+// Resolve a DATE or DATE-TIME value. Floating times use `fallbackTz`.
+function parseDate(value: string, params: Record<string, string>, fallbackTz: string): { at: Date; allDay: boolean; tz?: string } | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!m) return null;
+  const [, y, mo, d, hh, mm, ss, z] = m;
+  const key = `${y}-${mo}-${d}`;
+  if (!hh) return { at: zonedTimeToUtc(key, "00:00", fallbackTz), allDay: true };
+  if (z) return { at: new Date(Date.UTC(+y, +mo - 1, +d, +hh, +mm, +ss)), allDay: false };
+  const tz = isValidTimeZone(params.TZID) ? params.TZID : undefined;
+  return { at: zonedTimeToUtc(key, `${hh}:${mm}`, tz || fallbackTz), allDay: false, tz };
+}
+
+// "PT1H30M", "P1D" etc. in milliseconds
+function parseDuration(value: string){
+  const m = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!m) return null;
+  const [, sign, w, d, h, mi, s] = m;
+  const ms = ((+(w || 0) * 7 + +(d || 0)) * 86400 + +(h || 0) * 3600 + +(mi || 0) * 60 + +(s || 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+/**
+ * Read the VEVENTs of an .ics file. Lines are unfolded and TEXT values
+ * unescaped; events without a usable DTSTART are dropped. Times with an
+ * unknown TZID, and floating times, are read in `fallbackTz`.
+ */
+export function parseICS(text: string, fallbackTz = "UTC"): ParsedICSEvent[] {
+  const lines = text.replace(/\r\n[ \t]/g, "").replace(/\n[ \t]/g, "").split(/\r?\n/);
+  const events: ParsedICSEvent[] = [];
+  let cur: Prop[] | null = null;
+  let depth = 0; // nested components inside a VEVENT (VALARM)
+  for (const line of lines) {
+    if (!line) continue;
+    if (line === "BEGIN:VEVENT") { cur = []; depth = 0; continue; }
+    if (!cur) continue;
+    if (line.startsWith("BEGIN:")) { depth++; continue; }
+    if (line.startsWith("END:") && depth) { depth--; continue; }
+    if (line === "END:VEVENT") {
+      const ev = toEvent(cur, fallbackTz);
+      if (ev) events.push(ev);
+      cur = null;
+      continue;
+    }
+    if (!depth) cur.push(parseProp(line));
+  }
+  return events;
+}
+
+function toEvent(props: Prop[], fallbackTz: string): ParsedICSEvent | null {
+  const get = (n: string) => props.find(p => p.name === n);
+  const dtstart = get("DTSTART");
+  const start = dtstart && parseDate(dtstart.value, dtstart.params, fallbackTz);
+  if (!start) return null;
+  const dtend = get("DTEND");
+  const duration = get("DURATION");
+  let end = dtend ? parseDate(dtend.value, dtend.params, fallbackTz)?.at : undefined;
+  if (!end && duration) {
+    const ms = parseDuration(duration.value);
+    if (ms != null) end = new Date(start.at.getTime() + ms);
+  }
+  if (!end) end = new Date(start.at.getTime() + (start.allDay ? 86_400_000 : 3_600_000));
+  const exdates = props
+    .filter(p => p.name === "EXDATE")
+    .flatMap(p => p.value.split(",").map(v => parseDate(v, p.params, fallbackTz)?.at))
+    .filter((d): d is Date => !!d);
+  const rid = get("RECURRENCE-ID");
+  const text = (n: string) => { const p = get(n); return p ? unescapeText(p.value) : undefined; };
+  return {
+    uid: get("UID")?.value || null,
+    title: text("SUMMARY") || "Study session",
+    start: start.at,
+    end,
+    description: text("DESCRIPTION"),
+    location: text("LOCATION"),
+    rrule: get("RRULE")?.value,
+    exdates,
+    tz: start.tz,
+    recurrenceId: rid ? parseDate(rid.value, rid.params, fallbackTz)?.at : undefined,
+    allDay: start.allDay,
+  };
+}
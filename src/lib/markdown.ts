@@ -0,0 +1,224 @@
+/**
+ * Markdown for chat messages.
+ *
+ * Parses the subset people actually use in chat into a small tree:
+ * paragraphs (single newlines are kept as line breaks), headings, lists,
+ * block quotes, rules, fenced code blocks and `$$…$$` math blocks; inline
+ * **bold**, *italic*, ~~strike~~, `code`, links, bare URLs and `$…$` /
+ * `\(…\)` math. components/RichText.tsx renders the tree as React
+ * elements, so message text never becomes HTML; the only thing that needs
+ * checking is link targets (`safeHref`).
+ *
+ * A `$` only opens inline math when the formula doesn't start or end with
+ * a space and isn't followed by a digit, so "$5 and $10" stays text.
+ */
+export type Inline =
+  | { t: "text"; text: string }
+  | { t: "code"; text: string }
+  | { t: "math"; tex: string }
+  | { t: "strong" | "em" | "del"; children: Inline[] }
+  | { t: "link"; href: string; children: Inline[] }
+  | { t: "br" };
+
+export type Block =
+  | { t: "p"; children: Inline[] }
+  | { t: "heading"; level: number; children: Inline[] }
+  | { t: "code"; lang: string; text: string }
+  | { t: "math"; tex: string }
+  | { t: "quote"; children: Block[] }
+  | { t: "list"; ordered: boolean; start: number; items: Inline[][] }
+  | { t: "hr" };
+
+const MAX_QUOTE_DEPTH = 4;
+const MAX_INLINE_DEPTH = 8;
+
+const FENCE = /^\s*```\s*([\w+#.-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const ORDERED = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+
+/** `url` if it is safe to link to (http, https or mailto), else null. */
+export function safeHref(url: string): string | null {
+  const trimmed = url.trim();
+  try {
+    const parsed = new URL(trimmed);
+    return ["http:", "https:", "mailto:"].includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+export function parseMarkdown(src: string, depth = 0): Block[] {
+  const lines = src.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let para: string[] = [];
+  const flush = () => {
+    if (para.length) blocks.push({ t: "p", children: parseInline(para.join("\n")) });
+    para = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flush();
+      const body: string[] = [];
+      for (i++; i < lines.length && !/^\s*```\s*$/.test(lines[i]); i++) body.push(lines[i]);
+      blocks.push({ t: "code", lang: fence[1], text: body.join("\n") });
+      continue;
+    }
+    const trimmed = line.trim();
+    if (trimmed.startsWith("$$")) {
+      flush();
+      // $$ … $$ on one line, or spread over several
+      if (trimmed.length > 4 && trimmed.endsWith("$$")) {
+        blocks.push({ t: "math", tex: trimmed.slice(2, -2) });
+        continue;
+      }
+      const body = [trimmed.slice(2)];
+      for (i++; i < lines.length && !lines[i].trim().endsWith("$$"); i++) body.push(lines[i]);
+      if (i < lines.length) body.push(lines[i].trim().slice(0, -2));
+      blocks.push({ t: "math", tex: body.join("\n") });
+      continue;
+    }
+    if (!trimmed) { flush(); continue; }
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flush();
+      blocks.push({ t: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+      continue;
+    }
+    if (RULE.test(line)) { flush(); blocks.push({ t: "hr" }); continue; }
+    if (line.startsWith(">") && depth < MAX_QUOTE_DEPTH) {
+      flush();
+      const body: string[] = [];
+      for (; i < lines.length && lines[i].startsWith(">"); i++) body.push(lines[i].replace(/^>\s?/, ""));
+      i--;
+      blocks.push({ t: "quote", children: parseMarkdown(body.join("\n"), depth + 1) });
+      continue;
+    }
+    const bullet = BULLET.exec(line);
+    const ordered = bullet ? null : ORDERED.exec(line);
+    if (bullet || ordered) {
+      flush();
+      const items: string[][] = [];
+      for (; i < lines.length; i++) {
+        const item = ordered ? ORDERED.exec(lines[i]) : BULLET.exec(lines[i]);
+        if (item) items.push([ordered ? item[2] : item[1]]);
+        // Indented lines continue the previous item
+        else if (/^\s+\S/.test(lines[i])) items[items.length - 1].push(lines[i].trim());
+        else break;
+      }
+      i--;
+      blocks.push({
+        t: "list",
+        ordered: !!ordered,
+        start: ordered ? Number(ordered[1]) : 1,
+        items: items.map(it => parseInline(it.join("\n"))),
+      });
+      continue;
+    }
+    para.push(line);
+  }
+  flush();
+  return blocks;
+}
+
+// Where a `$` closing inline math at `from` would be, or -1
+function closingDollar(s: string, from: number) {
+  for (let j = from; j < s.length; j++) {
+    if (s[j] === "\\") { j++; continue; }
+    if (s[j] === "\n") return -1;
+    if (s[j] === "$") return j;
+  }
+  return -1;
+}
+
+export function parseInline(src: string, depth = 0): Inline[] {
+  const out: Inline[] = [];
+  let text = "";
+  const emit = (node: Inline) => {
+    if (text) out.push({ t: "text", text });
+    text = "";
+    out.push(node);
+  };
+  const nested = (s: string) => (depth < MAX_INLINE_DEPTH ? parseInline(s, depth + 1) : [{ t: "text", text: s } as Inline]);
+
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    const rest = src.slice(i);
+
+    if (c === "\n") { emit({ t: "br" }); i++; continue; }
+
+    if (c === "\\") {
+      if (src[i + 1] === "(") {
+        const end = src.indexOf("\\)", i + 2);
+        if (end > i + 2) { emit({ t: "math", tex: src.slice(i + 2, end) }); i = end + 2; continue; }
+      }
+      if (/[\\`*_~[\]()$#>+\-.!|{}]/.test(src[i + 1] ?? "")) { text += src[i + 1]; i += 2; continue; }
+    }
+
+    if (c === "`") {
+      const ticks = /^`+/.exec(rest)![0];
+      const end = src.indexOf(ticks, i + ticks.length);
+      if (end > 0) {
+        emit({ t: "code", text: src.slice(i + ticks.length, end).replace(/^ (.*) $/, "$1") });
+        i = end + ticks.length;
+        continue;
+      }
+      text += ticks; i += ticks.length; continue;
+    }
+
+    if (c === "$" && src[i + 1] !== "$") {
+      const end = closingDollar(src, i + 1);
+      const tex = end > 0 ? src.slice(i + 1, end) : "";
+      if (tex && !/^\s|\s$/.test(tex) && !/[0-9]/.test(src[end + 1] ?? "")) {
+        emit({ t: "math", tex });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    const delim = /^(\*\*|__|~~|\*|_)/.exec(rest)?.[0];
+    // `_` only counts at word boundaries, so snake_case stays intact
+    if (delim && !(delim[0] === "_" && /\w/.test(src[i - 1] ?? "")) && !/\s/.test(src[i + delim.length] ?? " ")) {
+      let end = src.indexOf(delim, i + delim.length);
+      while (end > 0 && (/\s/.test(src[end - 1]) || (delim[0] === "_" && /\w/.test(src[end + delim.length] ?? "")))) {
+        end = src.indexOf(delim, end + 1);
+      }
+      if (end > i + delim.length) {
+        const t = delim === "~~" ? "del" : delim.length === 2 ? "strong" : "em";
+        emit({ t, children: nested(src.slice(i + delim.length, end)) });
+        i = end + delim.length;
+        continue;
+      }
+    }
+
+    if (c === "[") {
+      const link = /^\[([^\]\n]+)\]\(([^)\s]+)\)/.exec(rest);
+      const href = link ? safeHref(link[2]) : null;
+      if (link && href) {
+        emit({ t: "link", href, children: nested(link[1]) });
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if ((c === "h" || c === "H") && !/\w/.test(src[i - 1] ?? "")) {
+      const url = /^https?:\/\/[^\s<]+/i.exec(rest)?.[0].replace(/[.,;:!?)\]'"]+$/, "");
+      const href = url ? safeHref(url) : null;
+      if (url && href) {
+        emit({ t: "link", href, children: [{ t: "text", text: url }] });
+        i += url.length;
+        continue;
+      }
+    }
+
+    text += c;
+    i++;
+  }
+  if (text) out.push({ t: "text", text });
+  return out;
+}
@@ -0,0 +1,181 @@
+import { isValidTimeZone, tzOffsetMinutes } from "./tz";
+
+/**
+ * Compatibility scoring for the Matches page.
+ *
+ * Peers are scored against the current user's profile on five factors:
+ * shared courses, study style, time zone distance, availability and
+ * shared interests. Groups are scored on how well their `tags` cover the
+ * user's courses/interests plus the average compatibility of their
+ * members. Every score carries a breakdown so the UI can explain
+ * "why you matched". All functions here are pure; fetching lives in the
+ * page.
+ */
+export type MatchProfile = {
+  id: string;
+  full_name: string | null;
+  avatar_url?: string | null;
+  courses: string[] | null;
+  study_style: string | null;
+  time_zone: string | null;
+  availability?: string | null;
+  interests?: string[] | null;
+};
+
+export type MatchGroup = {
+  id: string;
+  name: string;
+  description?: string | null;
+  tags: string[] | null;
+  max_members?: number | null;
+  is_public?: boolean | null;
+};
+
+export type MatchReason = {
+  factor: "courses" | "style" | "timezone" | "availability" | "interests" | "tags" | "members";
+  label: string;
+  points: number;
+  max: number;
+};
+
+export type ScoredPeer = { profile: MatchProfile; score: number; reasons: MatchReason[] };
+export type ScoredGroup = { group: MatchGroup; score: number; reasons: MatchReason[]; memberCount: number };
+
+// Factor weights. They sum to 100 so a score reads as a percentage.
+const PEER_WEIGHTS = { courses: 40, style: 20, timezone: 15, availability: 15, interests: 10 };
+const GROUP_WEIGHTS = { tags: 60, members: 40 };
+
+function norm(list: string[] | null | undefined) {
+  return new Set((list || []).map(s => s.trim().toLowerCase()).filter(Boolean));
+}
+
+function overlap(a: Set<string>, b: Set<string>) {
+  const shared: string[] = [];
+  a.forEach(x => { if (b.has(x)) shared.push(x); });
+  return shared;
+}
+
+function scoreCourses(me: MatchProfile, them: MatchProfile): MatchReason {
+  const mine = norm(me.courses);
+  const shared = overlap(mine, norm(them.courses));
+  const max = PEER_WEIGHTS.courses;
+  // Share of *my* courses covered, so a peer with many courses is not penalised.
+  const points = mine.size ? Math.round((shared.length / mine.size) * max) : 0;
+  const label = shared.length
+    ? `Shares ${shared.length} course${shared.length === 1 ? "" : "s"}: ${shared.map(s => s.toUpperCase()).join(", ")}`
+    : "No shared courses";
+  return { factor: "courses", label, points, max };
+}
+
+function scoreStyle(me: MatchProfile, them: MatchProfile): MatchReason {
+  const max = PEER_WEIGHTS.style;
+  if (!me.study_style || !them.study_style) return { factor: "style", label: "Study style not set", points: 0, max };
+  if (me.study_style === them.study_style) return { factor: "style", label: `Same study style (${me.study_style})`, points: max, max };
+  // Interactive and group styles mix reasonably well; so do quiet and pomodoro.
+  const compatible = [["interactive", "group"], ["quiet", "pomodoro"]]
+    .some(pair => pair.includes(me.study_style!) && pair.includes(them.study_style!));
+  return compatible
+    ? { factor: "style", label: `Compatible study styles (${me.study_style} / ${them.study_style})`, points: Math.round(max / 2), max }
+    : { factor: "style", label: "Different study styles", points: 0, max };
+}
+
+function scoreTimeZone(me: MatchProfile, them: MatchProfile, at: Date): MatchReason {
+  const max = PEER_WEIGHTS.timezone;
+  const a = isValidTimeZone(me.time_zone) ? tzOffsetMinutes(me.time_zone, at) : null;
+  const b = isValidTimeZone(them.time_zone) ? tzOffsetMinutes(them.time_zone, at) : null;
+  if (a === null || b === null) return { factor: "timezone", label: "Time zone unknown", points: 0, max };
+  const hours = Math.abs(a - b) / 60;
+  // Full marks within 1h, linearly down to zero at 8h apart.
+  const points = hours <= 1 ? max : Math.max(0, Math.round(max * (1 - (hours - 1) / 7)));
+  const label = hours === 0 ? "Same time zone" : `${hours % 1 ? hours.toFixed(1) : hours}h time difference`;
+  return { factor: "timezone", label, points, max };
+}
+
+function scoreAvailability(me: MatchProfile, them: MatchProfile): MatchReason {
+  const max = PEER_WEIGHTS.availability;
+  const a = me.availability, b = them.availability;
+  if (!a || !b) return { factor: "availability", label: "Availability not set", points: 0, max };
+  if (a === b) return { factor: "availability", label: `Both available ${a}`, points: max, max };
+  if (a === "flexible" || b === "flexible") return { factor: "availability", label: "Flexible schedule overlaps", points: Math.round(max * 0.7), max };
+  return { factor: "availability", label: `Different availability (${a} / ${b})`, points: 0, max };
+}
+
+function scoreInterests(me: MatchProfile, them: MatchProfile): MatchReason {
+  const max = PEER_WEIGHTS.interests;
+  const mine = norm(me.interests);
+  const shared = overlap(mine, norm(them.interests));
+  const points = mine.size ? Math.round((shared.length / mine.size) * max) : 0;
+  const label = shared.length ? `Shared interests: ${shared.join(", ")}` : "No shared interests";
+  return { factor: "interests", label, points, max };
+}
+
+/** Score a single peer against the current user. */
+export function scorePeer(me: MatchProfile, them: MatchProfile, at = new Date()): ScoredPeer {
+  const reasons = [
+    scoreCourses(me, them),
+    scoreStyle(me, them),
+    scoreTimeZone(me, them, at),
+    scoreAvailability(me, them),
+    scoreInterests(me, them),
+  ];
+  return { profile: them, score: reasons.reduce((s, r) => s + r.points, 0), reasons };
+}
+
+/**
+ * Score a group for the current user. `members` are the profiles of the
+ * group's current members (the user excluded).
+ */
+export function scoreGroup(me: MatchProfile, group: MatchGroup, members: MatchProfile[], at = new Date()): ScoredGroup {
+  const wanted = new Set([...norm(me.courses), ...norm(me.interests)]);
+  const shared = overlap(norm(group.tags), wanted);
+  const tagMax = GROUP_WEIGHTS.tags;
+  // Each matching tag is worth a third of the tag weight, capped at full marks.
+  const tagPoints = Math.min(tagMax, Math.round((shared.length / 3) * tagMax));
+  const tags: MatchReason = {
+    factor: "tags",
+    label: shared.length ? `Tagged ${shared.join(", ")}` : "No matching tags",
+    points: tagPoints,
+    max: tagMax,
+  };
+  const memberMax = GROUP_WEIGHTS.members;
+  const avg = members.length
+    ? members.reduce((s, m) => s + scorePeer(me, m, at).score, 0) / members.length
+    : 0;
+  const memberReason: MatchReason = {
+    factor: "members",
+    label: members.length ? `Members are ${Math.round(avg)}% compatible on average` : "No members yet",
+    points: Math.round((avg / 100) * memberMax),
+    max: memberMax,
+  };
+  const reasons = [tags, memberReason];
+  return { group, score: tags.points + memberReason.points, reasons, memberCount: members.length };
+}
+
+/** Rank peers, best first, dropping anyone with no compatibility at all. */
+export function rankPeers(me: MatchProfile, peers: MatchProfile[], limit = 20): ScoredPeer[] {
+  const at = new Date();
+  return peers
+    .filter(p => p.id !== me.id)
+    .map(p => scorePeer(me, p, at))
+    .filter(p => p.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Rank groups, best first. Full groups (member count at `max_members`)
+ * are left out since they cannot be joined.
+ */
+export function rankGroups(
+  me: MatchProfile,
+  groups: MatchGroup[],
+  membersByGroup: Map<string, MatchProfile[]>,
+  limit = 20,
+): ScoredGroup[] {
+  const at = new Date();
+  return groups
+    .map(g => scoreGroup(me, g, (membersByGroup.get(g.id) || []).filter(m => m.id !== me.id), at))
+    .filter(s => !s.group.max_members || s.memberCount < s.group.max_members)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,86 @@
+import { supabase } from "./supabase";
+import type { ChatMessage } from "./chat";
+
+/**
+ * Editing, deleting and moderating chat messages.
+ *
+ * Authors can edit and delete their own messages; the group's owner and
+ * moderators (lib/groups.ts) can delete any message, pin messages and
+ * mute members below them for a while. The database enforces all of it (RLS plus a
+ * guard trigger on `messages`, see 2026-11-02_message_moderation.sql):
+ * it stamps `edited_at`, keeps earlier versions in `message_edits`, and on
+ * delete blanks the content and drops its history. These helpers only
+ * send the request and surface the database's refusal as an error.
+ */
+export type MessageEdit = { id: number; message_id: number; content: string; edited_at: string };
+
+export type GroupMute = { group_id: string; user_id: string; muted_until: string; muted_by: string | null };
+
+export const MUTE_DURATIONS = [
+  { label: "15 minutes", minutes: 15 },
+  { label: "1 hour", minutes: 60 },
+  { label: "1 day", minutes: 60 * 24 },
+  { label: "1 week", minutes: 60 * 24 * 7 },
+];
+
+export async function editMessage(id: number, content: string) {
+  const { error } = await supabase.from("messages").update({ content }).eq("id", id);
+  if (error) throw error;
+}
+
+export async function deleteMessage(id: number) {
+  const { error } = await supabase.from("messages").update({ deleted_at: new Date().toISOString() }).eq("id", id);
+  if (error) throw error;
+}
+
+/** Pin or unpin a message (group admin only). */
+export async function setPinned(id: number, userId: string, pinned: boolean) {
+  const { error } = await supabase
+    .from("messages")
+    .update(pinned ? { pinned_at: new Date().toISOString(), pinned_by: userId } : { pinned_at: null, pinned_by: null })
+    .eq("id", id);
+  if (error) throw error;
+}
+
+/** Earlier versions of a message, oldest first. */
+export async function fetchEditHistory(messageId: number): Promise<MessageEdit[]> {
+  const { data, error } = await supabase
+    .from("message_edits")
+    .select("*")
+    .eq("message_id", messageId)
+    .order("edited_at", { ascending: true });
+  if (error) throw error;
+  return (data || []) as MessageEdit[];
+}
+
+/** Mute `userId` in the group for `minutes` (group admin only). */
+export async function muteMember(groupId: string, userId: string, minutes: number, by: string) {
+  const muted_until = new Date(Date.now() + minutes * 60_000).toISOString();
+  const { error } = await supabase
+    .from("group_mutes")
+    .upsert({ group_id: groupId, user_id: userId, muted_until, muted_by: by });
+  if (error) throw error;
+}
+
+export async function unmuteMember(groupId: string, userId: string) {
+  const { error } = await supabase.from("group_mutes").delete().eq("group_id", groupId).eq("user_id", userId);
+  if (error) throw error;
+}
+
+/** Active mutes of a group. */
+export async function listMutes(groupId: string): Promise<GroupMute[]> {
+  const { data, error } = await supabase
+    .from("group_mutes")
+    .select("group_id, user_id, muted_until, muted_by")
+    .eq("group_id", groupId)
+    .gt("muted_until", new Date().toISOString());
+  if (error) throw error;
+  return (data || []) as GroupMute[];
+}
+
+/** Apply an UPDATE from realtime to a loaded message, keeping its joins. */
+export function applyMessageUpdate(m: ChatMessage, row: ChatMessage): ChatMessage {
+  if (m.id === row.id) return { ...m, ...row, profiles: m.profiles, quoted: m.quoted };
+  if (m.quoted?.id === row.id) return { ...m, quoted: { ...m.quoted, content: row.content, deleted_at: row.deleted_at } };
+  return m;
+}
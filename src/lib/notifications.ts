@@ -0,0 +1,140 @@
+import { supabase } from "./supabase";
+
+/**
+ * In-app notifications.
+ *
+ * Rows in `notifications` are created by the database (triggers for chat
+ * mentions, thread replies, RSVP changes and group joins; `queue_session_reminders()` for
+ * upcoming sessions), so they exist even when the recipient is offline.
+ * An open tab asks for due reminders every minute, receives new rows over
+ * realtime and, if the user allows it, shows them through the browser
+ * Notifications API as well.
+ */
+export type NotificationKind = "session_reminder" | "mention" | "thread_reply" | "rsvp" | "group_join";
+
+export type AppNotification = {
+  id: number;
+  user_id: string;
+  kind: NotificationKind;
+  title: string;
+  body: string | null;
+  link: string | null;
+  group_id: string | null;
+  session_id: number | null;
+  created_at: string;
+  read_at: string | null;
+};
+
+export type NotificationPrefs = {
+  reminders: boolean;
+  /** How long before a session the reminder fires. */
+  reminder_minutes: number;
+  mentions: boolean;
+  thread_replies: boolean;
+  rsvps: boolean;
+  group_joins: boolean;
+  /** Also show notifications through the browser while a tab is open. */
+  browser: boolean;
+};
+
+export const DEFAULT_PREFS: NotificationPrefs = {
+  reminders: true,
+  reminder_minutes: 15,
+  mentions: true,
+  thread_replies: true,
+  rsvps: true,
+  group_joins: true,
+  browser: true,
+};
+
+export const KIND_LABELS: Record<NotificationKind, string> = {
+  session_reminder: "Session reminders",
+  mention: "Chat mentions",
+  thread_reply: "Replies in my threads",
+  rsvp: "RSVPs to my sessions",
+  group_join: "New members in my groups",
+};
+
+/** How often an open tab asks the database for due reminders. */
+export const REMINDER_POLL_MS = 60_000;
+const PAGE_SIZE = 30;
+
+export async function listNotifications(userId: string): Promise<AppNotification[]> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(PAGE_SIZE);
+  if (error) throw error;
+  return (data || []) as AppNotification[];
+}
+
+export async function markRead(ids: number[]) {
+  if (!ids.length) return;
+  const { error } = await supabase.from("notifications").update({ read_at: new Date().toISOString() }).in("id", ids);
+  if (error) throw error;
+}
+
+export async function markAllRead(userId: string) {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .is("read_at", null);
+  if (error) throw error;
+}
+
+export async function loadPrefs(userId: string): Promise<NotificationPrefs> {
+  const { data, error } = await supabase.from("notification_prefs").select("*").eq("user_id", userId).maybeSingle();
+  if (error) throw error;
+  return { ...DEFAULT_PREFS, ...(data || {}) };
+}
+
+export async function savePrefs(userId: string, prefs: NotificationPrefs) {
+  const { error } = await supabase
+    .from("notification_prefs")
+    .upsert({ user_id: userId, ...prefs, updated_at: new Date().toISOString() });
+  if (error) throw error;
+}
+
+/** Queue reminders that are due for the current user. */
+export async function queueReminders() {
+  const { error } = await supabase.rpc("queue_session_reminders");
+  if (error) throw error;
+}
+
+/** Call `onInsert` for every new notification of `userId`. Returns the unsubscribe function. */
+export function subscribeNotifications(userId: string, onInsert: (n: AppNotification) => void) {
+  const channel = supabase
+    .channel(`notifications:${userId}`)
+    .on("postgres_changes", { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` }, p => {
+      onInsert(p.new as AppNotification);
+    })
+    .subscribe();
+  return () => { supabase.removeChannel(channel); };
+}
+
+export function browserNotificationsSupported() {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+/** Ask for permission to show browser notifications; true if granted. */
+export async function requestBrowserPermission() {
+  if (!browserNotificationsSupported()) return false;
+  if (Notification.permission === "granted") return true;
+  if (Notification.permission === "denied") return false;
+  return (await Notification.requestPermission()) === "granted";
+}
+
+/** Show `n` as a browser notification; clicking it focuses the tab and calls `onClick`. */
+export function showBrowserNotification(n: AppNotification, onClick: () => void) {
+  if (!browserNotificationsSupported() || Notification.permission !== "granted") return;
+  try {
+    const shown = new Notification(n.title, { body: n.body || undefined, tag: `socialstudy-${n.id}` });
+    shown.onclick = () => { window.focus(); onClick(); shown.close(); };
+  } catch (e) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error(e);
+  }
+}
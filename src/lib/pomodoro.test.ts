@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  IDLE,
+  advance,
+  classicSteps,
+  loadTimer,
+  pause,
+  remaining,
+  reset,
+  saveTimer,
+  skip,
+  start,
+  tick,
+  type TimerConfig,
+} from "./pomodoro";
+
+const MIN = 60_000;
+const T0 = Date.UTC(2026, 9, 19, 9, 0);
+
+// focus 25, short 5, focus 25, long 15
+const cfg: TimerConfig = { steps: classicSteps(25, 5, 15, 2), loop: true, autoStart: true };
+
+describe("start / pause", () => {
+  it("starts the first step from idle with a deadline", () => {
+    const { state } = start(IDLE, cfg, T0);
+    expect(state).toMatchObject({ phase: "focus", step: 0, running: true, deadline: T0 + 25 * MIN, focusStartedAt: T0 });
+  });
+
+  it("freezes the time left while paused and resumes from it", () => {
+    const running = start(IDLE, cfg, T0).state;
+    const paused = pause(running, T0 + 10 * MIN).state;
+    expect(paused.running).toBe(false);
+    expect(remaining(paused, T0 + 60 * MIN)).toBe(15 * MIN);
+    const resumed = start(paused, cfg, T0 + 60 * MIN).state;
+    expect(resumed.deadline).toBe(T0 + 75 * MIN);
+    expect(resumed.focusStartedAt).toBe(T0);
+  });
+});
+
+describe("tick", () => {
+  it("does nothing before the deadline", () => {
+    const running = start(IDLE, cfg, T0).state;
+    const r = tick(running, cfg, T0 + 24 * MIN);
+    expect(r.state).toBe(running);
+    expect(r.phaseEnds).toBe(0);
+  });
+
+  it("chains missed phases from each deadline without drift", () => {
+    const running = start(IDLE, cfg, T0).state;
+    const r = tick(running, cfg, T0 + 31 * MIN);
+    expect(r.phaseEnds).toBe(2);
+    expect(r.completed).toEqual([{ startAt: T0, endAt: T0 + 25 * MIN }]);
+    expect(r.state).toMatchObject({ phase: "focus", step: 2, intervalCount: 1, running: true, deadline: T0 + 55 * MIN });
+  });
+
+  it("stops after one pass of the program, paused at the next phase", () => {
+    const running = start(IDLE, cfg, T0).state;
+    const r = tick(running, cfg, T0 + 24 * 60 * MIN);
+    expect(r.phaseEnds).toBe(cfg.steps.length);
+    expect(r.completed).toHaveLength(2);
+    expect(r.state).toMatchObject({ phase: "focus", step: 0, running: false, deadline: null, remainingMs: 25 * MIN });
+  });
+});
+
+describe("advance / skip", () => {
+  it("goes idle after the last step of a program that does not loop", () => {
+    const once = { ...cfg, loop: false };
+    const last = { ...start(IDLE, once, T0).state, phase: "long" as const, step: 3 };
+    const r = advance(last, once, T0 + MIN);
+    expect(r.state).toMatchObject({ phase: "idle", running: false });
+  });
+
+  it("leaves the next phase paused when auto-start is off", () => {
+    const manual = { ...cfg, autoStart: false };
+    const r = tick(start(IDLE, manual, T0).state, manual, T0 + 25 * MIN);
+    expect(r.state).toMatchObject({ phase: "short", running: false, remainingMs: 5 * MIN });
+  });
+
+  it("records a skipped focus phase up to the moment it was skipped", () => {
+    const r = skip(start(IDLE, cfg, T0).state, cfg, T0 + 10 * MIN);
+    expect(r.completed).toEqual([{ startAt: T0, endAt: T0 + 10 * MIN }]);
+    expect(r.state).toMatchObject({ phase: "short", running: true, deadline: T0 + 15 * MIN });
+  });
+
+  it("keeps a paused timer paused when skipping", () => {
+    const paused = pause(start(IDLE, cfg, T0).state, T0 + MIN).state;
+    expect(skip(paused, cfg, T0 + 2 * MIN).state.running).toBe(false);
+  });
+});
+
+describe("reset", () => {
+  it("reports an unfinished focus phase as abandoned, pauses excluded", () => {
+    const paused = pause(start(IDLE, cfg, T0).state, T0 + 10 * MIN).state;
+    const r = reset(paused, T0 + 60 * MIN);
+    expect(r.state).toEqual(IDLE);
+    expect(r.abandoned).toEqual({ startAt: T0, endAt: T0 + 10 * MIN });
+  });
+
+  it("drops focus shorter than a minute and breaks", () => {
+    expect(reset(start(IDLE, cfg, T0).state, T0 + 30_000).abandoned).toBeNull();
+    const onBreak = skip(start(IDLE, cfg, T0).state, cfg, T0 + 10 * MIN).state;
+    expect(reset(onBreak, T0 + 11 * MIN).abandoned).toBeNull();
+  });
+});
+
+describe("loadTimer / saveTimer", () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (k: string) => store.get(k) ?? null,
+      setItem: (k: string, v: string) => void store.set(k, v),
+      removeItem: (k: string) => void store.delete(k),
+    });
+  });
+  afterEach(() => { vi.unstubAllGlobals(); });
+
+  it("round-trips a run with its program", () => {
+    const state = start(IDLE, cfg, T0).state;
+    saveTimer(state, cfg);
+    expect(loadTimer()).toEqual({ state, config: cfg });
+  });
+
+  it("clears the saved run once idle", () => {
+    saveTimer(start(IDLE, cfg, T0).state, cfg);
+    saveTimer(IDLE, cfg);
+    expect(loadTimer()).toEqual({ state: IDLE, config: null });
+  });
+
+  it("ignores unreadable or old data", () => {
+    localStorage.setItem("socialstudy.timer", "{");
+    expect(loadTimer().state).toEqual(IDLE);
+    localStorage.setItem("socialstudy.timer", JSON.stringify({ state: { phase: "focus" } }));
+    expect(loadTimer().state).toEqual(IDLE);
+  });
+});
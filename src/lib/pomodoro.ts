@@ -0,0 +1,263 @@
+/**
+ * Pomodoro timer state machine.
+ *
+ * Time is never counted by decrementing a counter. A running phase stores
+ * the wall-clock `deadline` it ends at, and the remaining time is always
+ * `deadline - now`. Throttled background tabs therefore cannot lose
+ * minutes: whenever the page next looks at the clock, `tick` catches up
+ * on every phase that ended in the meantime, starting each one exactly
+ * at the previous deadline.
+ *
+ * Every transition is a pure function `(state, config, now) => result`
+ * so the page only has to call them and act on the returned effects
+ * (record a focus session, play a sound). `loadTimer`/`saveTimer` keep
+ * the in-flight state and its program in localStorage so a reload
+ * resumes exactly where it was.
+ *
+ * A run follows a program: an ordered list of steps (focus, short or
+ * long break, each with its own length). Classic Pomodoro is just the
+ * looping program built by `classicSteps`; presets live in presets.ts.
+ */
+export type Phase = "idle" | "focus" | "short" | "long";
+
+export type Step = {
+  phase: Exclude<Phase, "idle">;
+  minutes: number;
+  /** Optional display name, e.g. "Review". */
+  label?: string;
+};
+
+export type TimerConfig = {
+  steps: Step[];
+  /** Start over at the first step after the last one; otherwise go idle. */
+  loop: boolean;
+  /** Start the next phase automatically when one ends. */
+  autoStart: boolean;
+};
+
+export type TimerState = {
+  phase: Phase;
+  /** Index into `config.steps` of the current phase. */
+  step: number;
+  /** Completed focus intervals in the current run. */
+  intervalCount: number;
+  running: boolean;
+  /** Length of the current phase in ms, fixed when the phase begins. */
+  durationMs: number;
+  /** Epoch ms at which the current phase ends; set only while running. */
+  deadline: number | null;
+  /** Time left in ms while paused; ignored while running. */
+  remainingMs: number;
+  /** Epoch ms the current focus phase was first started, for recording. */
+  focusStartedAt: number | null;
+};
+
+/** A focus phase that finished and should be recorded. */
+export type CompletedFocus = { startAt: number; endAt: number };
+
+export type TimerResult = {
+  state: TimerState;
+  completed: CompletedFocus[];
+  /** A focus phase cut short by a reset, to be recorded as abandoned. */
+  abandoned: CompletedFocus | null;
+  /** Number of phases that ended during this transition. */
+  phaseEnds: number;
+};
+
+/**
+ * The classic cycle: `intervals` focus periods separated by short breaks,
+ * then a long break.
+ */
+export function classicSteps(workMin: number, shortMin: number, longMin: number, intervals: number): Step[] {
+  const steps: Step[] = [];
+  for (let i = 0; i < Math.max(1, intervals); i++) {
+    steps.push({ phase: "focus", minutes: workMin });
+    steps.push(i === Math.max(1, intervals) - 1 ? { phase: "long", minutes: longMin } : { phase: "short", minutes: shortMin });
+  }
+  return steps;
+}
+
+export const DEFAULT_CONFIG: TimerConfig = {
+  steps: classicSteps(25, 5, 15, 4),
+  loop: true,
+  autoStart: true,
+};
+
+export const IDLE: TimerState = {
+  phase: "idle",
+  step: 0,
+  intervalCount: 0,
+  running: false,
+  durationMs: 0,
+  deadline: null,
+  remainingMs: 0,
+  focusStartedAt: null,
+};
+
+const MIN = 60_000;
+
+function result(state: TimerState, completed: CompletedFocus[] = [], phaseEnds = 0, abandoned: CompletedFocus | null = null): TimerResult {
+  return { state, completed, abandoned, phaseEnds };
+}
+
+/** Length in ms of a step under the given config. */
+export function stepDuration(step: number, cfg: TimerConfig) {
+  const st = cfg.steps[step];
+  return st ? st.minutes * MIN : 0;
+}
+
+/**
+ * The step that follows `state.step`, or null when a non-looping program
+ * has run out of steps.
+ */
+export function nextStep(state: TimerState, cfg: TimerConfig): number | null {
+  const n = state.step + 1;
+  if (n < cfg.steps.length) return n;
+  return cfg.loop && cfg.steps.length ? 0 : null;
+}
+
+/** Total focus minutes in one pass through the program. */
+export function focusMinutes(cfg: TimerConfig) {
+  return cfg.steps.reduce((sum, st) => sum + (st.phase === "focus" ? st.minutes : 0), 0);
+}
+
+/** Milliseconds left in the current phase at `now`. */
+export function remaining(state: TimerState, now: number) {
+  if (state.phase === "idle") return 0;
+  if (state.running && state.deadline !== null) return Math.max(0, state.deadline - now);
+  return state.remainingMs;
+}
+
+/** Fraction of the current phase still left, 0..1. */
+export function progress(state: TimerState, now: number) {
+  return state.durationMs ? remaining(state, now) / state.durationMs : 0;
+}
+
+/** Begin step `step` at `at`, running or paused. */
+function enter(step: number, intervalCount: number, cfg: TimerConfig, at: number, running: boolean, focusStartedAt: number | null): TimerState {
+  const durationMs = stepDuration(step, cfg);
+  const phase = cfg.steps[step]?.phase ?? "idle";
+  return {
+    phase,
+    step,
+    intervalCount,
+    running,
+    durationMs,
+    deadline: running ? at + durationMs : null,
+    remainingMs: durationMs,
+    focusStartedAt: phase === "focus" ? (running ? at : null) : focusStartedAt,
+  };
+}
+
+/** Start a fresh run from idle, or resume a paused phase. */
+export function start(state: TimerState, cfg: TimerConfig, now: number): TimerResult {
+  if (state.running) return result(state);
+  if (state.phase === "idle") return cfg.steps.length ? result(enter(0, 0, cfg, now, true, null)) : result(state);
+  return result({
+    ...state,
+    running: true,
+    deadline: now + state.remainingMs,
+    focusStartedAt: state.phase === "focus" ? state.focusStartedAt ?? now : state.focusStartedAt,
+  });
+}
+
+/** Pause the running phase, freezing the time left. */
+export function pause(state: TimerState, now: number): TimerResult {
+  if (!state.running) return result(state);
+  return result({ ...state, running: false, deadline: null, remainingMs: remaining(state, now) });
+}
+
+export function toggle(state: TimerState, cfg: TimerConfig, now: number): TimerResult {
+  return state.running ? pause(state, now) : start(state, cfg, now);
+}
+
+/**
+ * Back to idle. An unfinished focus phase of at least a minute is
+ * reported as `abandoned`, ending after the time actually focused
+ * (pauses excluded).
+ */
+export function reset(state: TimerState, now: number): TimerResult {
+  if (state.phase !== "focus" || state.focusStartedAt === null) return result(IDLE);
+  const focused = state.durationMs - remaining(state, now);
+  const abandoned = focused >= MIN ? { startAt: state.focusStartedAt, endAt: state.focusStartedAt + focused } : null;
+  return result(IDLE, [], 0, abandoned);
+}
+
+/**
+ * End the current phase at `at` and move to the next one. A focus phase
+ * that ends is reported in `completed`. The next phase starts running at
+ * `at` when auto-start is on (or `keepRunning` forces it), else paused.
+ * After the last step of a non-looping program the timer goes idle.
+ */
+export function advance(state: TimerState, cfg: TimerConfig, at: number, keepRunning = cfg.autoStart): TimerResult {
+  if (state.phase === "idle") return result(state);
+  const completed: CompletedFocus[] = [];
+  if (state.phase === "focus" && state.focusStartedAt !== null) {
+    completed.push({ startAt: state.focusStartedAt, endAt: at });
+  }
+  const count = state.intervalCount + (state.phase === "focus" ? 1 : 0);
+  const next = nextStep(state, cfg);
+  if (next === null) return result({ ...IDLE, intervalCount: count }, completed, 1);
+  return result(enter(next, count, cfg, at, keepRunning && state.running, null), completed, 1);
+}
+
+/** Skip to the next phase now ("Next" button). */
+export function skip(state: TimerState, cfg: TimerConfig, now: number): TimerResult {
+  return advance(state, cfg, now, state.running);
+}
+
+/**
+ * Catch up with the clock. Every phase whose deadline is at or before
+ * `now` is ended at its own deadline, so chained phases never drift.
+ * Catch-up stops after one pass of the program to avoid replaying a whole night
+ * of phases when a laptop wakes from sleep; the timer is then paused at
+ * the start of the following phase.
+ */
+export function tick(state: TimerState, cfg: TimerConfig, now: number): TimerResult {
+  let cur = state;
+  const completed: CompletedFocus[] = [];
+  let phaseEnds = 0;
+  const maxSteps = Math.max(1, cfg.steps.length);
+  while (cur.running && cur.deadline !== null && cur.deadline <= now) {
+    const r = advance(cur, cfg, cur.deadline);
+    completed.push(...r.completed);
+    phaseEnds += r.phaseEnds;
+    cur = r.state;
+    if (phaseEnds >= maxSteps && cur.running) {
+      cur = { ...cur, running: false, deadline: null, remainingMs: cur.durationMs, focusStartedAt: null };
+    }
+  }
+  return phaseEnds ? result(cur, completed, phaseEnds) : result(state);
+}
+
+// ------------------------------------------------------------------
+// Persistence
+
+const STORAGE_KEY = "socialstudy.timer";
+
+/** A run in progress together with the program it was started with. */
+export type SavedRun = { state: TimerState; config: TimerConfig | null };
+
+type Persisted = { v: 2 } & SavedRun;
+
+/** Load the saved run, or idle if none / unreadable. */
+export function loadTimer(): SavedRun {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { state: IDLE, config: null };
+    const parsed = JSON.parse(raw) as Persisted;
+    if (parsed?.v !== 2 || !parsed.state?.phase) return { state: IDLE, config: null };
+    return { state: { ...IDLE, ...parsed.state }, config: parsed.config?.steps?.length ? parsed.config : null };
+  } catch {
+    return { state: IDLE, config: null };
+  }
+}
+
+export function saveTimer(state: TimerState, config: TimerConfig | null) {
+  try {
+    if (state.phase === "idle") localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, JSON.stringify({ v: 2, state, config } satisfies Persisted));
+  } catch {
+    // storage full or disabled (private mode); the timer still works in memory
+  }
+}
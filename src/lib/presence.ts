@@ -0,0 +1,65 @@
+import { supabase } from "./supabase";
+
+/**
+ * Who is around in a group chat, via Supabase Realtime presence.
+ *
+ * Each open chat tracks one presence entry per user on the group's
+ * channel: who they are, whether they are typing and whether they are
+ * in the video room. Nothing is stored; entries disappear when the tab
+ * closes or the user switches group. A user with several tabs shows up
+ * once, typing or in video if any of their tabs is.
+ */
+export type PresenceMember = {
+  user_id: string;
+  name: string | null;
+  avatar_url: string | null;
+  typing: boolean;
+  in_video: boolean;
+  online_at: string;
+};
+
+export type GroupPresence = {
+  setTyping: (typing: boolean) => void;
+  setInVideo: (inVideo: boolean) => void;
+  leave: () => void;
+};
+
+/** Typing stops showing after this long without a keystroke. */
+export const TYPING_IDLE_MS = 4000;
+
+export function joinGroupPresence(
+  groupId: string,
+  me: { user_id: string; name: string | null; avatar_url: string | null },
+  onSync: (members: PresenceMember[]) => void,
+): GroupPresence {
+  const state: PresenceMember = { ...me, typing: false, in_video: false, online_at: new Date().toISOString() };
+  let joined = false;
+  const channel = supabase.channel(`presence:group:${groupId}`, { config: { presence: { key: me.user_id } } });
+
+  channel
+    .on("presence", { event: "sync" }, () => {
+      const byUser = channel.presenceState<PresenceMember>();
+      onSync(Object.values(byUser).map(tabs => ({
+        ...tabs[0],
+        typing: tabs.some(t => t.typing),
+        in_video: tabs.some(t => t.in_video),
+      })));
+    })
+    .subscribe(status => {
+      if (status !== "SUBSCRIBED") return;
+      joined = true;
+      channel.track(state);
+    });
+
+  const update = (patch: Partial<PresenceMember>) => {
+    if (Object.entries(patch).every(([k, v]) => (state as any)[k] === v)) return;
+    Object.assign(state, patch);
+    if (joined) channel.track(state);
+  };
+
+  return {
+    setTyping: typing => update({ typing }),
+    setInVideo: in_video => update({ in_video }),
+    leave: () => { channel.untrack(); supabase.removeChannel(channel); },
+  };
+}
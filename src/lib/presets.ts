@@ -0,0 +1,128 @@
+import { supabase } from "./supabase";
+import { classicSteps, type Step, type TimerConfig } from "./pomodoro";
+
+/**
+ * Timer presets: named programs the Pomodoro timer can run.
+ *
+ * Built-in presets ship with the app; custom ones are stored per user in
+ * the `timer_presets` table. The preset last picked on this device is
+ * remembered in localStorage so the Timer page opens on it.
+ */
+export type Preset = {
+  id: string;
+  name: string;
+  description?: string;
+  steps: Step[];
+  loop: boolean;
+  /** True for rows from timer_presets (editable / deletable). */
+  custom?: boolean;
+};
+
+export const BUILTIN_PRESETS: Preset[] = [
+  {
+    id: "classic-25",
+    name: "Classic 25/5",
+    description: "4 × 25 min focus, 5 min breaks, 15 min long break",
+    steps: classicSteps(25, 5, 15, 4),
+    loop: true,
+  },
+  {
+    id: "classic-50",
+    name: "Long 50/10",
+    description: "3 × 50 min focus, 10 min breaks, 20 min long break",
+    steps: classicSteps(50, 10, 20, 3),
+    loop: true,
+  },
+  {
+    id: "deep-90",
+    name: "Deep work 90",
+    description: "90 min focus, 20 min recovery break",
+    steps: [{ phase: "focus", minutes: 90 }, { phase: "long", minutes: 20 }],
+    loop: true,
+  },
+  {
+    id: "exam-sprint",
+    name: "Exam sprint",
+    description: "4 × 40 min focus with 5 min breaks, then 20 min review",
+    steps: [
+      ...repeatBlock(4, 40, 5),
+      { phase: "focus", minutes: 20, label: "Review" },
+    ],
+    loop: false,
+  },
+];
+
+export const DEFAULT_PRESET_ID = BUILTIN_PRESETS[0].id;
+
+/**
+ * `count` focus steps of `focusMin` minutes, each followed by a short
+ * break of `breakMin` minutes. Used by the program editor's "add block".
+ */
+export function repeatBlock(count: number, focusMin: number, breakMin: number, label?: string): Step[] {
+  const out: Step[] = [];
+  for (let i = 0; i < count; i++) {
+    out.push(label ? { phase: "focus", minutes: focusMin, label } : { phase: "focus", minutes: focusMin });
+    if (breakMin > 0) out.push({ phase: "short", minutes: breakMin });
+  }
+  return out;
+}
+
+/** Short human summary of a program, e.g. "3×45 · 165 min". */
+export function describeSteps(steps: Step[]) {
+  const focus = steps.filter(s => s.phase === "focus");
+  const total = steps.reduce((sum, s) => sum + s.minutes, 0);
+  const lens = Array.from(new Set(focus.map(s => s.minutes)));
+  const head = lens.length === 1 ? `${focus.length}×${lens[0]}` : `${focus.length} focus blocks`;
+  return `${head} · ${total} min`;
+}
+
+export function presetConfig(p: Preset, autoStart = true): TimerConfig {
+  return { steps: p.steps, loop: p.loop, autoStart };
+}
+
+// ------------------------------------------------------------------
+// Custom presets (timer_presets table)
+
+function fromRow(r: any): Preset {
+  return { id: r.id, name: r.name, steps: r.steps || [], loop: !!r.loop, custom: true };
+}
+
+export async function listCustomPresets(userId: string): Promise<Preset[]> {
+  const { data, error } = await supabase
+    .from("timer_presets")
+    .select("id, name, steps, loop")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []).map(fromRow);
+}
+
+/** Insert a new custom preset, or update it when `preset.id` is set. */
+export async function saveCustomPreset(userId: string, preset: Omit<Preset, "id"> & { id?: string }): Promise<Preset> {
+  const row = { user_id: userId, name: preset.name, steps: preset.steps, loop: preset.loop };
+  const q = preset.id
+    ? supabase.from("timer_presets").update(row).eq("id", preset.id)
+    : supabase.from("timer_presets").insert(row);
+  const { data, error } = await q.select("id, name, steps, loop").single();
+  if (error) throw error;
+  return fromRow(data);
+}
+
+export async function deleteCustomPreset(id: string) {
+  const { error } = await supabase.from("timer_presets").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// ------------------------------------------------------------------
+// Selected preset (per device)
+
+const SELECTED_KEY = "socialstudy.timer.preset";
+
+export function loadSelectedPreset() {
+  try { return localStorage.getItem(SELECTED_KEY) || DEFAULT_PRESET_ID; }
+  catch { return DEFAULT_PRESET_ID; }
+}
+
+export function saveSelectedPreset(id: string) {
+  try { localStorage.setItem(SELECTED_KEY, id); } catch { /* storage disabled */ }
+}
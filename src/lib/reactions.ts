@@ -0,0 +1,72 @@
+import { supabase } from "./supabase";
+
+/**
+ * Emoji reactions on chat messages. A user can leave several different
+ * emoji on the same message; reacting with an emoji they already used
+ * removes it again. Group chat and direct messages keep theirs in
+ * separate tables with the same shape.
+ */
+export type Reaction = {
+  message_id: number;
+  user_id: string;
+  emoji: string;
+  profiles?: { full_name: string | null } | null;
+};
+
+/** One chip under a message. */
+export type ReactionSummary = {
+  emoji: string;
+  count: number;
+  mine: boolean;
+  names: string[];
+};
+
+export type ReactionTable = "message_reactions" | "direct_message_reactions";
+
+// Predefined set of emoji reactions available for messages
+export const EMOJIS = ["👍", "🔥", "🎯", "🎉", "💪", "🧠", "📚", "⏰", "✅", "🥳"];
+
+/** Reactions of the given messages, grouped by message id. */
+export async function loadReactions(messageIds: number[], table: ReactionTable = "message_reactions"): Promise<Map<number, Reaction[]>> {
+  const out = new Map<number, Reaction[]>();
+  if (!messageIds.length) return out;
+  const { data, error } = await supabase
+    .from(table)
+    .select("message_id, user_id, emoji, profiles(full_name)")
+    .in("message_id", messageIds)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  for (const r of (data || []) as any[]) {
+    const row: Reaction = { ...r, profiles: Array.isArray(r.profiles) ? r.profiles[0] || null : r.profiles };
+    out.set(row.message_id, [...(out.get(row.message_id) || []), row]);
+  }
+  return out;
+}
+
+/** Add the reaction, or remove it if the user already left this emoji. */
+export async function toggleReaction(messageId: number, userId: string, emoji: string, has: boolean, table: ReactionTable = "message_reactions") {
+  const { error } = has
+    ? await supabase.from(table).delete().eq("message_id", messageId).eq("user_id", userId).eq("emoji", emoji)
+    : await supabase.from(table).insert({ message_id: messageId, user_id: userId, emoji });
+  if (error) throw error;
+}
+
+/** Chips for a message in first-used order. */
+export function summarize(reactions: Reaction[], userId: string | null): ReactionSummary[] {
+  const by = new Map<string, ReactionSummary>();
+  for (const r of reactions) {
+    const s = by.get(r.emoji) || { emoji: r.emoji, count: 0, mine: false, names: [] };
+    s.count++;
+    s.mine ||= r.user_id === userId;
+    s.names.push(r.user_id === userId ? "You" : r.profiles?.full_name || "Someone");
+    by.set(r.emoji, s);
+  }
+  return Array.from(by.values());
+}
+
+/** Apply a realtime INSERT/DELETE to a message's reaction list. */
+export function applyReactionChange(list: Reaction[], event: "INSERT" | "DELETE", row: Reaction) {
+  const same = (r: Reaction) => r.user_id === row.user_id && r.emoji === row.emoji;
+  if (event === "DELETE") return list.filter(r => !same(r));
+  return list.some(same) ? list : [...list, row];
+}
@@ -0,0 +1,144 @@
+import { addDays, dayKey, daysBetween, weekdayOf, zonedTimeToUtc } from "./tz";
+import { toICSDateUTC } from "./ics";
+
+/**
+ * Recurrence rules for repeating study sessions.
+ *
+ * A rule is a small subset of RFC 5545 RRULE: daily or weekly, every N
+ * days/weeks, on chosen weekdays, ending on a date or after N
+ * occurrences. Occurrences are expanded in the series' own time zone so
+ * "Tuesdays at 18:00" stays at 18:00 across DST changes.
+ */
+export type Freq = "daily" | "weekly";
+
+export type RecurrenceRule = {
+  freq: Freq;
+  /** Every `interval` days / weeks. */
+  interval: number;
+  /** Weekdays for weekly rules, 0 = Sunday. Defaults to the start's weekday. */
+  byWeekday?: number[];
+  /** Last date (inclusive, "YYYY-MM-DD") an occurrence may fall on. */
+  until?: string | null;
+  /** Total number of occurrences. */
+  count?: number | null;
+};
+
+export type Occurrence = { date: string; start: Date; end: Date };
+
+/** Upper bound when a rule has neither `until` nor `count`. */
+export const OPEN_ENDED_DAYS = 182;
+const MAX_OCCURRENCES = 366;
+
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Dates ("YYYY-MM-DD") matched by `rule`, starting at `startDate`, minus
+ * `exdates`. Excluded dates still use up a `count`, as in RFC 5545.
+ */
+export function expandDates(rule: RecurrenceRule, startDate: string, exdates: string[] = []): string[] {
+  const interval = Math.max(1, rule.interval || 1);
+  const weekdays = rule.freq === "weekly"
+    ? (rule.byWeekday?.length ? rule.byWeekday : [weekdayOf(startDate)])
+    : null;
+  const last = rule.until || (rule.count ? null : addDays(startDate, OPEN_ENDED_DAYS));
+  const skip = new Set(exdates);
+  // Weeks are counted from the Sunday of the start date's week
+  const weekZero = addDays(startDate, -weekdayOf(startDate));
+  const out: string[] = [];
+  let matched = 0;
+  for (let k = startDate; matched < MAX_OCCURRENCES; k = addDays(k, 1)) {
+    if (last && k > last) break;
+    if (rule.count && matched >= rule.count) break;
+    let hit: boolean;
+    if (weekdays) {
+      const week = Math.floor(daysBetween(weekZero, k) / 7);
+      hit = week % interval === 0 && weekdays.includes(weekdayOf(k));
+    } else {
+      hit = daysBetween(startDate, k) % interval === 0;
+    }
+    if (!hit) continue;
+    matched++;
+    if (!skip.has(k)) out.push(k);
+  }
+  return out;
+}
+
+/** Expand a rule into concrete start/end instants in `tz`. */
+export function expand(
+  rule: RecurrenceRule,
+  startDate: string,
+  startTime: string,
+  durationMin: number,
+  tz: string,
+  exdates: string[] = [],
+): Occurrence[] {
+  return expandDates(rule, startDate, exdates).map(date => {
+    const start = zonedTimeToUtc(date, startTime, tz);
+    return { date, start, end: new Date(start.getTime() + durationMin * 60000) };
+  });
+}
+
+/**
+ * The RRULE value for a rule (without the "RRULE:" prefix), for a
+ * DTSTART in `tz`. `until` is given as the UTC instant the end of that
+ * day is reached in `tz`, as RFC 5545 requires for a zoned DTSTART.
+ * Weekly rules say WKST=SU: expandDates() counts weeks from Sunday, and
+ * the RFC default (Monday) would pick different weeks for INTERVAL > 1.
+ */
+export function toRRULE(rule: RecurrenceRule, tz: string): string {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+  if ((rule.interval || 1) > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === "weekly" && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${[...rule.byWeekday].sort().map(d => RRULE_DAYS[d]).join(",")}`);
+  }
+  if (rule.freq === "weekly") parts.push("WKST=SU");
+  if (rule.until) {
+    const dayEnd = zonedTimeToUtc(addDays(rule.until, 1), "00:00", tz).getTime() - 1000;
+    parts.push(`UNTIL=${toICSDateUTC(new Date(dayEnd))}`);
+  }
+  else if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+}
+
+/**
+ * Parse an RRULE value. Only the parts this app supports are read;
+ * anything else (e.g. FREQ=MONTHLY) returns null. A UTC `UNTIL` is read
+ * as a date in `tz`, the zone of the event's DTSTART.
+ */
+export function parseRRULE(value: string, tz: string): RecurrenceRule | null {
+  const map = new Map(value.replace(/^RRULE:/i, "").split(";").map(p => {
+    const [k, v] = p.split("=");
+    return [k.toUpperCase(), v || ""] as const;
+  }));
+  const freq = map.get("FREQ")?.toLowerCase();
+  if (freq !== "daily" && freq !== "weekly") return null;
+  const rule: RecurrenceRule = { freq, interval: Number(map.get("INTERVAL")) || 1 };
+  const byday = map.get("BYDAY");
+  if (byday) {
+    rule.byWeekday = byday.split(",").map(d => RRULE_DAYS.indexOf(d.slice(-2).toUpperCase())).filter(d => d >= 0);
+  }
+  const until = map.get("UNTIL");
+  if (until) {
+    const date = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+    const utc = /^\d{8}T(\d{2})(\d{2})(\d{2})Z$/i.exec(until);
+    rule.until = utc ? dayKey(new Date(`${date}T${utc[1]}:${utc[2]}:${utc[3]}Z`), tz) : date;
+  }
+  const count = Number(map.get("COUNT"));
+  if (count) rule.count = count;
+  return rule;
+}
+
+/** Human summary, e.g. "Every 2 weeks on Tue, Thu until 2026-12-20". */
+export function describeRule(rule: RecurrenceRule): string {
+  const n = Math.max(1, rule.interval || 1);
+  let s = rule.freq === "daily"
+    ? (n === 1 ? "Daily" : `Every ${n} days`)
+    : (n === 1 ? "Weekly" : `Every ${n} weeks`);
+  if (rule.freq === "weekly" && rule.byWeekday?.length) {
+    s += ` on ${[...rule.byWeekday].sort().map(d => DAY_NAMES[d]).join(", ")}`;
+  }
+  if (rule.until) s += ` until ${rule.until}`;
+  else if (rule.count) s += `, ${rule.count} times`;
+  return s;
+}
@@ -0,0 +1,78 @@
+import { supabase } from "./supabase";
+
+/**
+ * Full-text search across chat messages, groups and sessions.
+ *
+ * Everything goes through the `search_all()` function (see
+ * 2026-11-05_full_text_search.sql), which ranks hits from all three kinds
+ * together and only returns messages and sessions from the caller's
+ * groups. Snippets come back with the matched words between \x01 and
+ * \x02; `highlightParts` splits them so the UI can mark them up without
+ * touching HTML.
+ */
+export type SearchKind = "message" | "group" | "session";
+
+export type SearchHit = {
+  kind: SearchKind;
+  id: string;
+  group_id: string | null;
+  group_name: string | null;
+  title: string | null;
+  snippet: string;
+  author_id: string | null;
+  author_name: string | null;
+  at: string;
+  /** For thread replies: the root message. */
+  parent_id: number | null;
+  /** For groups: whether the caller is a member. */
+  is_member: boolean;
+  rank: number;
+};
+
+export type SearchFilters = {
+  kinds?: SearchKind[];
+  groupId?: string | null;
+  authorId?: string | null;
+  /** ISO timestamps; `until` is exclusive. */
+  since?: string | null;
+  until?: string | null;
+  limit?: number;
+};
+
+export const ALL_KINDS: SearchKind[] = ["message", "group", "session"];
+export const KIND_NAMES: Record<SearchKind, string> = { message: "Messages", group: "Groups", session: "Sessions" };
+/** Shortest query worth sending. */
+export const MIN_QUERY = 2;
+
+export async function searchAll(q: string, f: SearchFilters = {}): Promise<SearchHit[]> {
+  if (q.trim().length < MIN_QUERY) return [];
+  const { data, error } = await supabase.rpc("search_all", {
+    q: q.trim(),
+    kinds: f.kinds?.length ? f.kinds : ALL_KINDS,
+    in_group: f.groupId || null,
+    by_author: f.authorId || null,
+    since: f.since || null,
+    until: f.until || null,
+    max_results: f.limit ?? 30,
+  });
+  if (error) throw error;
+  return (data || []) as SearchHit[];
+}
+
+/** Split a snippet into plain and matched parts. */
+export function highlightParts(snippet: string): { text: string; hit: boolean }[] {
+  const parts: { text: string; hit: boolean }[] = [];
+  for (const chunk of snippet.split("\u0001")) {
+    const [hit, rest] = chunk.includes("\u0002") ? chunk.split("\u0002", 2) : [null, chunk];
+    if (hit) parts.push({ text: hit, hit: true });
+    if (rest) parts.push({ text: rest, hit: false });
+  }
+  return parts;
+}
+
+/** Where a hit opens: the message in its chat, the session in the calendar, the group. */
+export function hitLink(h: SearchHit) {
+  if (h.kind === "message") return `/chat?group=${h.group_id}&message=${h.id}`;
+  if (h.kind === "session") return `/calendar?session=${h.id}`;
+  return h.is_member ? `/chat?group=${h.group_id}` : "/groups";
+}
@@ -0,0 +1,307 @@
+import { supabase } from "./supabase";
+import { expand, expandDates, toRRULE, type RecurrenceRule } from "./recurrence";
+import type { ICSEvent } from "./ics";
+import { addDays, browserTimeZone, dayKey, timeOfDay, zonedTimeToUtc } from "./tz";
+
+/**
+ * Recurring group sessions.
+ *
+ * A series row in `session_series` holds the rule; each occurrence is
+ * materialized as a normal `study_sessions` row (with `series_id` and
+ * `occurrence_date`) so everything that reads sessions — Home, streaks,
+ * the calendar views — keeps working without knowing about recurrence.
+ * An occurrence edited on its own is flagged `is_exception` and is left
+ * alone when the whole series changes; a skipped date goes into
+ * `exdates` and its row is removed.
+ */
+export type Series = {
+  id: string;
+  group_id: string;
+  created_by: string | null;
+  title: string | null;
+  /** First date of the series in `tz`. */
+  start_date: string;
+  /** Wall-clock start "HH:MM" in `tz`. */
+  start_time: string;
+  duration_min: number;
+  tz: string;
+  rule: RecurrenceRule;
+  exdates: string[];
+};
+
+export type EditScope = "this" | "following" | "all";
+
+/** Fields of an occurrence that can be changed. */
+export type OccurrenceChanges = {
+  title: string | null;
+  /** New date for a single occurrence ("this" scope only). */
+  date?: string;
+  start_time: string;
+  duration_min: number;
+  /** New rule ("following" / "all" scopes). */
+  rule?: RecurrenceRule;
+  /** Zone `date`/`start_time` are given in; defaults to the series' zone. */
+  tz?: string;
+};
+
+export type SeriesOccurrenceRow = {
+  id: string;
+  group_id: string;
+  series_id: string | null;
+  occurrence_date: string | null;
+  start_at: string;
+  end_at: string;
+};
+
+const SERIES_COLS = "id, group_id, created_by, title, start_date, start_time, duration_min, tz, rule, exdates";
+
+function fromRow(r: any): Series {
+  return { ...r, start_time: String(r.start_time).slice(0, 5), exdates: r.exdates || [] };
+}
+
+type Occurrence = ReturnType<typeof expand>[number];
+
+/** Insert occurrence rows for `series`, only those starting at or after `from`. */
+async function materialize(series: Series, from: Date, userId: string) {
+  const occurrences = expand(series.rule, series.start_date, series.start_time, series.duration_min, series.tz, series.exdates);
+  return insertOccurrences(series, occurrences.filter(o => o.start >= from), userId);
+}
+
+async function insertOccurrences(series: Series, occurrences: Occurrence[], userId: string) {
+  const rows = occurrences.map(o => ({
+      group_id: series.group_id,
+      user_id: userId,
+      kind: "scheduled",
+      title: series.title,
+      start_at: o.start.toISOString(),
+      end_at: o.end.toISOString(),
+      series_id: series.id,
+      occurrence_date: o.date,
+      tz: series.tz,
+    }));
+  if (!rows.length) return [];
+  const { data, error } = await supabase.from("study_sessions").insert(rows).select("*");
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Save new settings for `series` and bring its occurrences from `from`
+ * on in line with them. Rows whose date is still in the series are
+ * updated in place, so their RSVPs stay; only dates the series gained are
+ * inserted and dates it lost removed. Exceptions are left alone.
+ */
+async function applyToSeries(series: Series, next: Series, from: Date, userId: string) {
+  const { error } = await supabase.from("session_series").update({
+    title: next.title, start_time: next.start_time, duration_min: next.duration_min, rule: next.rule,
+  }).eq("id", series.id);
+  if (error) throw error;
+
+  const { data, error: listErr } = await supabase
+    .from("study_sessions")
+    .select("id, occurrence_date, start_at, end_at, is_exception")
+    .eq("series_id", series.id)
+    .gte("start_at", from.toISOString());
+  if (listErr) throw listErr;
+  const rows = (data || []) as { id: string; occurrence_date: string | null; start_at: string; end_at: string; is_exception: boolean }[];
+  // Exceptions keep their own rows; don't generate twins for them
+  const exceptionDates = rows.filter(r => r.is_exception && r.occurrence_date).map(r => r.occurrence_date!);
+  const existing = new Map(rows.filter(r => !r.is_exception && r.occurrence_date).map(r => [r.occurrence_date!, r]));
+  const wanted = expand(next.rule, next.start_date, next.start_time, next.duration_min, next.tz, [...next.exdates, ...exceptionDates])
+    .filter(o => o.start >= from || existing.has(o.date));
+  const wantedDates = new Set(wanted.map(o => o.date));
+
+  const kept = wanted.filter(o => existing.has(o.date));
+  if (kept.length) {
+    const { error: titleErr } = await supabase
+      .from("study_sessions")
+      .update({ title: next.title })
+      .in("id", kept.map(o => existing.get(o.date)!.id));
+    if (titleErr) throw titleErr;
+  }
+  const moved = kept.filter(o => {
+    const r = existing.get(o.date)!;
+    return new Date(r.start_at).getTime() !== o.start.getTime() || new Date(r.end_at).getTime() !== o.end.getTime();
+  });
+  await Promise.all(moved.map(async o => {
+    const { error: moveErr } = await supabase
+      .from("study_sessions")
+      .update({ start_at: o.start.toISOString(), end_at: o.end.toISOString() })
+      .eq("id", existing.get(o.date)!.id);
+    if (moveErr) throw moveErr;
+  }));
+
+  const dropped = rows.filter(r => !r.is_exception && !(r.occurrence_date && wantedDates.has(r.occurrence_date))).map(r => r.id);
+  if (dropped.length) {
+    const { error: delErr } = await supabase.from("study_sessions").delete().in("id", dropped);
+    if (delErr) throw delErr;
+  }
+  await insertOccurrences(next, wanted.filter(o => !existing.has(o.date)), userId);
+}
+
+export async function loadSeries(id: string): Promise<Series | null> {
+  const { data, error } = await supabase.from("session_series").select(SERIES_COLS).eq("id", id).maybeSingle();
+  if (error) throw error;
+  return data ? fromRow(data) : null;
+}
+
+/** All series of the given groups. */
+export async function listSeries(groupIds: string[]): Promise<Series[]> {
+  if (!groupIds.length) return [];
+  const { data, error } = await supabase.from("session_series").select(SERIES_COLS).in("group_id", groupIds);
+  if (error) throw error;
+  return (data || []).map(fromRow);
+}
+
+/**
+ * Create a series and its occurrences. Returns the inserted session rows.
+ * `ics_uid` is set for series imported from a calendar file.
+ */
+export async function createSeries(
+  input: Omit<Series, "id" | "created_by" | "exdates"> & { exdates?: string[]; ics_uid?: string },
+  userId: string,
+) {
+  const { data, error } = await supabase
+    .from("session_series")
+    .insert({ exdates: [], ...input, created_by: userId })
+    .select(SERIES_COLS)
+    .single();
+  if (error) throw error;
+  return materialize(fromRow(data), new Date(0), userId);
+}
+
+/** Remove one occurrence and remember its date as an exception. */
+export async function skipOccurrence(row: SeriesOccurrenceRow) {
+  if (row.series_id && row.occurrence_date) {
+    const series = await loadSeries(row.series_id);
+    if (series && !series.exdates.includes(row.occurrence_date)) {
+      const { error } = await supabase
+        .from("session_series")
+        .update({ exdates: [...series.exdates, row.occurrence_date] })
+        .eq("id", series.id);
+      if (error) throw error;
+    }
+  }
+  const { error } = await supabase.from("study_sessions").delete().eq("id", row.id);
+  if (error) throw error;
+}
+
+/**
+ * Cancel an occurrence with the given scope. "this" skips the date,
+ * "following" ends the series the day before, "all" ends it today and
+ * drops every upcoming occurrence. Sessions without a series are deleted.
+ */
+export async function cancelOccurrence(row: SeriesOccurrenceRow, scope: EditScope) {
+  const series = row.series_id ? await loadSeries(row.series_id) : null;
+  if (scope === "this" || !series || !row.occurrence_date) return skipOccurrence(row);
+
+  const now = new Date();
+  const from = scope === "following" ? row.occurrence_date : dayKey(now, series.tz);
+  const { error } = await supabase
+    .from("session_series")
+    .update({ rule: { ...series.rule, until: addDays(from, -1), count: null } })
+    .eq("id", series.id);
+  if (error) throw error;
+  let del = supabase.from("study_sessions").delete().eq("series_id", series.id);
+  del = scope === "following" ? del.gte("occurrence_date", from) : del.gte("start_at", now.toISOString());
+  const { error: delErr } = await del;
+  if (delErr) throw delErr;
+}
+
+/**
+ * Apply `changes` to an occurrence with the given scope:
+ * - "this": only this row changes and becomes an exception;
+ * - "following": the series is cut the day before this occurrence and a
+ *   new series takes over the occurrences from its date on, then gets the
+ *   changes as with "all";
+ * - "all": the series itself changes and every future occurrence that
+ *   was not individually edited follows (see applyToSeries).
+ * Occurrences in the past are never rewritten by "following"/"all".
+ */
+export async function editOccurrence(row: SeriesOccurrenceRow, changes: OccurrenceChanges, scope: EditScope, userId: string) {
+  const series = row.series_id ? await loadSeries(row.series_id) : null;
+  if (scope === "this" || !series || !row.occurrence_date) {
+    const tz = changes.tz || series?.tz || browserTimeZone();
+    const start = zonedTimeToUtc(changes.date || dayKey(row.start_at, tz), changes.start_time, tz);
+    const { error } = await supabase.from("study_sessions").update({
+      title: changes.title,
+      start_at: start.toISOString(),
+      end_at: new Date(start.getTime() + changes.duration_min * 60000).toISOString(),
+      is_exception: !!series,
+    }).eq("id", row.id);
+    if (error) throw error;
+    return;
+  }
+
+  const now = new Date();
+  const rule = changes.rule || series.rule;
+  // The series keeps its own zone: restate the new start time in it
+  const startTime = changes.tz && changes.tz !== series.tz
+    ? timeOfDay(zonedTimeToUtc(dayKey(row.start_at, changes.tz), changes.start_time, changes.tz), series.tz)
+    : changes.start_time;
+
+  const changed = (base: Series): Series => ({ ...base, title: changes.title, start_time: startTime, duration_min: changes.duration_min, rule: changes.rule || base.rule });
+
+  if (scope === "all") {
+    await applyToSeries(series, changed(series), now, userId);
+    return;
+  }
+
+  // "following": end the old series the day before and hand the
+  // occurrences from here on (with their RSVPs) to a new series
+  const cutDate = row.occurrence_date;
+  const before = expandDates(series.rule, series.start_date, []).filter(d => d < cutDate).length;
+  const oldRule: RecurrenceRule = { ...series.rule, until: addDays(cutDate, -1), count: null };
+  const { error: upErr } = await supabase.from("session_series").update({ rule: oldRule }).eq("id", series.id);
+  if (upErr) throw upErr;
+  const { data, error: insErr } = await supabase
+    .from("session_series")
+    .insert({
+      group_id: series.group_id,
+      created_by: userId,
+      title: series.title,
+      start_date: cutDate,
+      start_time: series.start_time,
+      duration_min: series.duration_min,
+      tz: series.tz,
+      rule: series.rule.count ? { ...series.rule, count: Math.max(1, series.rule.count - before) } : series.rule,
+      exdates: series.exdates.filter(d => d >= cutDate),
+    })
+    .select(SERIES_COLS)
+    .single();
+  if (insErr) throw insErr;
+  const rest = fromRow(data);
+  const { error: moveErr } = await supabase
+    .from("study_sessions")
+    .update({ series_id: rest.id })
+    .eq("series_id", series.id)
+    .gte("occurrence_date", cutDate);
+  if (moveErr) throw moveErr;
+  await applyToSeries(rest, changed(rest), now, userId);
+}
+
+/**
+ * Calendar events for a series: one recurring event carrying the RRULE,
+ * plus a separate event for each occurrence that was edited on its own
+ * (those dates are excluded from the recurring one).
+ */
+export function seriesEvents(series: Series, exceptions: SeriesOccurrenceRow[], title: string): ICSEvent[] {
+  const first = zonedTimeToUtc(series.start_date, series.start_time, series.tz);
+  const skipped = [...series.exdates, ...exceptions.map(e => e.occurrence_date).filter((d): d is string => !!d)];
+  const main: ICSEvent = {
+    uid: `series-${series.id}@socialstudy`,
+    title: series.title || title,
+    start: first,
+    end: new Date(first.getTime() + series.duration_min * 60000),
+    rrule: toRRULE(series.rule, series.tz),
+    exdates: skipped.map(d => zonedTimeToUtc(d, series.start_time, series.tz)),
+    tz: series.tz,
+  };
+  return [main, ...exceptions.map(e => ({
+    uid: `session-${e.id}@socialstudy`,
+    title: series.title || title,
+    start: new Date(e.start_at),
+    end: new Date(e.end_at),
+    tz: series.tz,
+  }))];
+}
@@ -0,0 +1,76 @@
+import { supabase } from "./supabase";
+import { isAdminRole, type GroupRole } from "./groups";
+import { editOccurrence, type SeriesOccurrenceRow } from "./series";
+import { dayKey, timeOfDay } from "./tz";
+
+/**
+ * Group session helpers shared by the Calendar: who may change a
+ * session and RSVPs. The chat notices when a session is moved or
+ * cancelled are posted by the database (2026-10-26_session_rsvps.sql).
+ *
+ * Only the session's creator (`study_sessions.user_id`) or the group's
+ * owner and moderators may edit or cancel; RLS enforces the same rule,
+ * this is just for the UI.
+ */
+export type RsvpStatus = "going" | "maybe" | "declined";
+
+export type Rsvp = {
+  session_id: number;
+  user_id: string;
+  status: RsvpStatus;
+  profiles?: { full_name: string | null; avatar_url: string | null } | null;
+};
+
+export const RSVP_LABELS: Record<RsvpStatus, string> = {
+  going: "Going",
+  maybe: "Maybe",
+  declined: "Can't go",
+};
+
+export function canManageSession(session: { user_id?: string | null }, groupRole: GroupRole | null | undefined, userId: string | null | undefined) {
+  if (!userId) return false;
+  return session.user_id === userId || isAdminRole(groupRole);
+}
+
+export async function listRsvps(sessionId: number | string): Promise<Rsvp[]> {
+  const { data, error } = await supabase
+    .from("session_rsvps")
+    .select("session_id, user_id, status, profiles(full_name, avatar_url)")
+    .eq("session_id", sessionId);
+  if (error) throw error;
+  return (data || []).map((r: any) => ({ ...r, profiles: Array.isArray(r.profiles) ? r.profiles[0] || null : r.profiles }));
+}
+
+export async function setRsvp(sessionId: number | string, userId: string, status: RsvpStatus) {
+  const { error } = await supabase
+    .from("session_rsvps")
+    .upsert({ session_id: sessionId, user_id: userId, status, updated_at: new Date().toISOString() });
+  if (error) throw error;
+}
+
+/** "Tue, 20 Oct, 18:00" in `tz`. */
+export function formatWhen(at: string | Date, tz: string) {
+  return new Date(at).toLocaleString("en-GB", {
+    timeZone: tz, weekday: "short", day: "numeric", month: "short", hour: "2-digit", minute: "2-digit",
+  });
+}
+
+/**
+ * Move or resize one session (a single occurrence, for a series) to
+ * [start, end). Used by drag-and-drop in the grid.
+ */
+export async function moveSession(
+  row: SeriesOccurrenceRow & { title: string | null },
+  start: Date,
+  end: Date,
+  tz: string,
+  userId: string,
+) {
+  await editOccurrence(row, {
+    title: row.title,
+    date: dayKey(start, tz),
+    start_time: timeOfDay(start, tz),
+    duration_min: Math.round((end.getTime() - start.getTime()) / 60000),
+    tz,
+  }, "this", userId);
+}
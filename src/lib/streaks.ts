@@ -0,0 +1,118 @@
+import { supabase, fetchAllRows } from "./supabase";
+import { computeStats, type FocusRow } from "./analytics";
+import { addDays, browserTimeZone, daysBetween, dayKey, isValidTimeZone } from "./tz";
+
+/**
+ * Study streaks.
+ *
+ * A day counts when the user logged at least `minMinutes` of study on
+ * it, from personal focus sessions and from group sessions in groups
+ * they belong to. Days are taken in the profile's time zone. A missed day
+ * inside a streak can be covered by a "freeze"; at most `freezes` of them
+ * may be used in any 30-day window. Today never breaks a streak: it just
+ * has not been studied yet.
+ */
+export type StreakOptions = {
+  /** Minimum minutes of study for a day to count. */
+  minMinutes: number;
+  /** Freeze days allowed per rolling 30 days. */
+  freezes: number;
+};
+
+export type Streak = {
+  current: number;
+  best: number;
+  /** Whether today already counts. */
+  todayDone: boolean;
+  /** Missed days covered by a freeze in the current streak. */
+  frozenDays: string[];
+  /** Freezes still available today. */
+  freezesLeft: number;
+};
+
+/** A streak with the settings and time zone it was computed under. */
+export type StreakReport = Streak & { tz: string; options: StreakOptions };
+
+export const DEFAULT_STREAK_OPTIONS: StreakOptions = { minMinutes: 15, freezes: 2 };
+
+const FREEZE_WINDOW = 30;
+
+/** Compute current and best streak from minutes per day key. */
+export function computeStreak(byDay: Map<string, number>, today: string, opts: StreakOptions): Streak {
+  const qualifies = (k: string) => (byDay.get(k) || 0) >= Math.max(1, opts.minMinutes);
+  const days = Array.from(byDay.keys()).filter(qualifies).sort();
+  const usedIn = (frozen: string[], k: string) => frozen.filter(f => daysBetween(f, k) < FREEZE_WINDOW).length;
+  if (!days.length || days[0] > today) {
+    return { current: 0, best: 0, todayDone: false, frozenDays: [], freezesLeft: opts.freezes };
+  }
+
+  let run = 0, best = 0;
+  let frozen: string[] = [];
+  for (let k = days[0]; k <= today; k = addDays(k, 1)) {
+    if (qualifies(k)) {
+      run++;
+    } else if (k === today) {
+      // today is still open
+    } else if (run > 0 && usedIn(frozen, k) < opts.freezes) {
+      frozen.push(k);
+    } else {
+      run = 0;
+      frozen = [];
+    }
+    best = Math.max(best, run);
+  }
+  return {
+    current: run,
+    best,
+    todayDone: qualifies(today),
+    frozenDays: run ? frozen : [],
+    freezesLeft: Math.max(0, opts.freezes - usedIn(run ? frozen : [], today)),
+  };
+}
+
+/**
+ * Load everything needed for the user's streak and compute it: profile
+ * time zone and streak settings, completed focus sessions and past
+ * sessions of their groups.
+ */
+export async function loadStreak(userId: string): Promise<StreakReport> {
+  const { data: prof } = await supabase
+    .from("profiles")
+    .select("time_zone, streak_min_minutes, streak_freezes")
+    .eq("id", userId)
+    .maybeSingle();
+  const tz = isValidTimeZone(prof?.time_zone) ? prof!.time_zone : browserTimeZone();
+  const options: StreakOptions = {
+    minMinutes: prof?.streak_min_minutes ?? DEFAULT_STREAK_OPTIONS.minMinutes,
+    freezes: prof?.streak_freezes ?? DEFAULT_STREAK_OPTIONS.freezes,
+  };
+
+  // Every row, newest first: the best streak can lie anywhere in the history
+  const personal = await fetchAllRows<FocusRow>((from, to) => supabase
+    .from("study_sessions")
+    .select("start_at, end_at, course")
+    .eq("user_id", userId)
+    .eq("kind", "focus")
+    .eq("status", "completed")
+    .order("start_at", { ascending: false })
+    .order("id", { ascending: false })
+    .range(from, to));
+
+  const { data: gm } = await supabase.from("group_members").select("group_id").eq("user_id", userId);
+  const groupIds = (gm || []).map((g: any) => g.group_id);
+  let group: FocusRow[] = [];
+  if (groupIds.length) {
+    group = await fetchAllRows<FocusRow>((from, to) => supabase
+      .from("study_sessions")
+      .select("start_at, end_at, course")
+      .in("group_id", groupIds)
+      .eq("kind", "scheduled")
+      .lt("end_at", new Date().toISOString())
+      .order("start_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(from, to));
+  }
+
+  const { byDay } = computeStats([...personal, ...group], tz);
+  return { ...computeStreak(byDay, dayKey(new Date(), tz), options), tz, options };
+}
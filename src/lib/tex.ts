@@ -0,0 +1,266 @@
+/**
+ * A small TeX-to-MathML converter for chat messages.
+ *
+ * It covers what students type day to day — fractions, roots, sub- and
+ * superscripts, sums/integrals/limits, Greek letters, common relations
+ * and arrows, accents, \left…\right, \text and \mathbb — and produces a
+ * tree that components/RichText.tsx turns into MathML elements, which
+ * browsers render natively. Nothing is ever passed through as HTML, so
+ * unknown commands simply show up as errors in the formula.
+ */
+export type MathNode =
+  | { t: "mi" | "mn" | "mo" | "mtext"; text: string; variant?: "normal" | "double-struck" | "bold" | "script"; large?: boolean; limits?: boolean }
+  | { t: "mrow"; children: MathNode[] }
+  | { t: "mfrac"; num: MathNode; den: MathNode }
+  | { t: "msqrt"; body: MathNode; index?: MathNode }
+  /** Sub/superscripts; `limits` puts them under/over the base (∑, lim). */
+  | { t: "scripts"; base: MathNode; sub?: MathNode; sup?: MathNode; limits?: boolean }
+  | { t: "accent"; body: MathNode; mark: string }
+  | { t: "fenced"; open: string; close: string; body: MathNode }
+  | { t: "error"; text: string };
+
+const MAX_LENGTH = 2000;
+const MAX_DEPTH = 24;
+
+const GREEK: Record<string, string> = {
+  alpha: "α", beta: "β", gamma: "γ", delta: "δ", epsilon: "ϵ", varepsilon: "ε", zeta: "ζ", eta: "η",
+  theta: "θ", vartheta: "ϑ", iota: "ι", kappa: "κ", lambda: "λ", mu: "μ", nu: "ν", xi: "ξ", pi: "π",
+  varpi: "ϖ", rho: "ρ", sigma: "σ", tau: "τ", upsilon: "υ", phi: "ϕ", varphi: "φ", chi: "χ", psi: "ψ",
+  omega: "ω", Gamma: "Γ", Delta: "Δ", Theta: "Θ", Lambda: "Λ", Xi: "Ξ", Pi: "Π", Sigma: "Σ",
+  Upsilon: "Υ", Phi: "Φ", Psi: "Ψ", Omega: "Ω",
+};
+
+// Ordinary symbols that behave like identifiers
+const SYMBOLS: Record<string, string> = {
+  infty: "∞", partial: "∂", nabla: "∇", emptyset: "∅", hbar: "ℏ", ell: "ℓ", aleph: "ℵ", angle: "∠", degree: "°", prime: "′",
+};
+
+const OPERATORS: Record<string, string> = {
+  cdot: "⋅", times: "×", div: "÷", pm: "±", mp: "∓", ast: "∗", circ: "∘", bullet: "∙",
+  le: "≤", leq: "≤", ge: "≥", geq: "≥", ne: "≠", neq: "≠", approx: "≈", equiv: "≡", sim: "∼", simeq: "≃",
+  propto: "∝", ll: "≪", gg: "≫", to: "→", rightarrow: "→", leftarrow: "←", gets: "←", leftrightarrow: "↔",
+  Rightarrow: "⇒", Leftarrow: "⇐", Leftrightarrow: "⇔", implies: "⟹", iff: "⟺", mapsto: "↦",
+  in: "∈", notin: "∉", ni: "∋", subset: "⊂", subseteq: "⊆", supset: "⊃", supseteq: "⊇", cup: "∪", cap: "∩",
+  setminus: "∖", forall: "∀", exists: "∃", neg: "¬", land: "∧", lor: "∨", wedge: "∧", vee: "∨", oplus: "⊕",
+  otimes: "⊗", perp: "⊥", parallel: "∥", mid: "∣", cdots: "⋯", ldots: "…", dots: "…", vdots: "⋮", ddots: "⋱",
+  langle: "⟨", rangle: "⟩", lfloor: "⌊", rfloor: "⌋", lceil: "⌈", rceil: "⌉", vert: "|", Vert: "‖",
+  "{": "{", "}": "}", "|": "‖",
+};
+
+// Big operators; the `true` ones take their limits under/over
+const BIG: Record<string, [string, boolean]> = {
+  sum: ["∑", true], prod: ["∏", true], coprod: ["∐", true], bigcup: ["⋃", true], bigcap: ["⋂", true],
+  int: ["∫", false], iint: ["∬", false], iiint: ["∭", false], oint: ["∮", false],
+  lim: ["lim", true], max: ["max", true], min: ["min", true], sup: ["sup", true], inf: ["inf", true],
+  limsup: ["lim sup", true], liminf: ["lim inf", true], det: ["det", true], gcd: ["gcd", true],
+};
+
+const FUNCTIONS = new Set([
+  "sin", "cos", "tan", "cot", "sec", "csc", "arcsin", "arccos", "arctan", "sinh", "cosh", "tanh",
+  "log", "ln", "lg", "exp", "deg", "dim", "ker", "arg", "Pr", "mod",
+]);
+
+const ACCENTS: Record<string, string> = {
+  hat: "^", widehat: "^", bar: "¯", overline: "¯", vec: "→", overrightarrow: "→", dot: "˙", ddot: "¨", tilde: "~", widetilde: "~",
+};
+
+const SPACES: Record<string, string> = { ",": " ", ":": " ", ";": " ", quad: " ", qquad: "  ", " ": " ", "!": "" };
+
+const DOUBLE_STRUCK: Record<string, string> = { R: "ℝ", N: "ℕ", Z: "ℤ", Q: "ℚ", C: "ℂ", P: "ℙ", H: "ℍ" };
+
+type Token = { kind: "cmd" | "char" | "num" | "open" | "close" | "sup" | "sub" | "space"; text: string };
+
+function tokenize(src: string): Token[] {
+  const out: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    if (c === "\\") {
+      const m = /^[a-zA-Z]+/.exec(src.slice(i + 1));
+      const name = m ? m[0] : src[i + 1] ?? "";
+      out.push({ kind: "cmd", text: name });
+      i += 1 + name.length;
+      // Like TeX, a space after a command word is not part of the formula
+      if (m) while (src[i] === " ") i++;
+    } else if (/\s/.test(c)) {
+      // Only \text keeps spaces; the parser skips them elsewhere
+      if (out[out.length - 1]?.kind !== "space") out.push({ kind: "space", text: " " });
+      i++;
+    } else if (/[0-9]/.test(c) || (c === "." && /[0-9]/.test(src[i + 1] ?? ""))) {
+      const num = /^[0-9]*(\.[0-9]+)?/.exec(src.slice(i))![0];
+      out.push({ kind: "num", text: num });
+      i += num.length;
+    } else {
+      out.push({ kind: c === "{" ? "open" : c === "}" ? "close" : c === "^" ? "sup" : c === "_" ? "sub" : "char", text: c });
+      i++;
+    }
+  }
+  return out;
+}
+
+class Parser {
+  private pos = 0;
+  constructor(private tokens: Token[]) {}
+
+  private peek() {
+    while (this.tokens[this.pos]?.kind === "space") this.pos++;
+    return this.tokens[this.pos];
+  }
+  private next() { this.peek(); return this.tokens[this.pos++]; }
+
+  /** A sequence of atoms until `}`, `\right`, or the end. */
+  parseRow(depth: number): MathNode {
+    if (depth > MAX_DEPTH) throw new Error("Formula is nested too deeply");
+    const children: MathNode[] = [];
+    for (let tok = this.peek(); tok; tok = this.peek()) {
+      if (tok.kind === "close" || (tok.kind === "cmd" && tok.text === "right")) break;
+      const atom = this.parseScripts(this.parseAtom(depth), depth);
+      if (atom) children.push(atom);
+    }
+    return children.length === 1 ? children[0] : { t: "mrow", children };
+  }
+
+  private parseScripts(base: MathNode | null, depth: number): MathNode | null {
+    let sub: MathNode | undefined;
+    let sup: MathNode | undefined;
+    for (let tok = this.peek(); tok && (tok.kind === "sub" || tok.kind === "sup"); tok = this.peek()) {
+      this.next();
+      const arg = this.parseArg(depth);
+      if (tok.kind === "sub") sub = arg; else sup = arg;
+    }
+    if (!sub && !sup) return base;
+    const limits = base?.t === "mo" && base.limits ? true : undefined;
+    return { t: "scripts", base: base || { t: "mrow", children: [] }, sub, sup, limits };
+  }
+
+  /** A braced group or a single atom, as taken by \frac, ^ and _. */
+  private parseArg(depth: number): MathNode {
+    const tok = this.peek();
+    if (!tok || tok.kind === "close") return { t: "mrow", children: [] };
+    if (tok.kind === "num" && tok.text.length > 1) {
+      // x^23 means x^2 3
+      this.tokens[this.pos] = { kind: "num", text: tok.text.slice(1) };
+      return { t: "mn", text: tok.text[0] };
+    }
+    return this.parseAtom(depth + 1) || { t: "mrow", children: [] };
+  }
+
+  private group(depth: number): MathNode {
+    const body = this.parseRow(depth + 1);
+    if (this.peek()?.kind === "close") this.next();
+    return body;
+  }
+
+  /** Raw text up to the matching `}`, for \text and friends. */
+  private rawGroup(): string {
+    if (this.peek()?.kind !== "open") return this.next()?.text ?? "";
+    this.next();
+    let text = "";
+    let level = 0;
+    for (let tok = this.tokens[this.pos++]; tok; tok = this.tokens[this.pos++]) {
+      if (tok.kind === "open") level++;
+      if (tok.kind === "close" && level-- === 0) break;
+      text += tok.kind === "cmd" ? "\\" + tok.text : tok.text;
+    }
+    return text;
+  }
+
+  private delimiter(): string {
+    const tok = this.next();
+    if (!tok) return "";
+    if (tok.kind === "cmd") return tok.text === "." ? "" : OPERATORS[tok.text] ?? tok.text;
+    return tok.text;
+  }
+
+  private parseAtom(depth: number): MathNode | null {
+    const tok = this.next();
+    if (!tok) return null;
+    switch (tok.kind) {
+      case "open": return this.group(depth);
+      case "close": return null;
+      case "num": return { t: "mn", text: tok.text };
+      case "sup":
+      case "sub": return { t: "error", text: tok.text };
+      case "char":
+        if (/[a-zA-Z]/.test(tok.text)) return { t: "mi", text: tok.text };
+        if (tok.text === "'") return { t: "mo", text: "′" };
+        return { t: "mo", text: tok.text === "-" ? "−" : tok.text === "*" ? "∗" : tok.text };
+    }
+    return this.parseCommand(tok.text, depth);
+  }
+
+  private parseCommand(name: string, depth: number): MathNode | null {
+    if (name in GREEK) return { t: "mi", text: GREEK[name], variant: /^[A-Z]/.test(name) ? "normal" : undefined };
+    if (name in SYMBOLS) return { t: "mi", text: SYMBOLS[name] };
+    if (name in OPERATORS) return { t: "mo", text: OPERATORS[name] };
+    if (name in SPACES) return SPACES[name] ? { t: "mtext", text: SPACES[name] } : null;
+    if (name in BIG) {
+      const [text, limits] = BIG[name];
+      // Named operators (lim, max) stay text-sized
+      return /^[a-z ]+$/.test(text) ? { t: "mo", text, limits, variant: "normal" } : { t: "mo", text, large: true, limits };
+    }
+    if (FUNCTIONS.has(name)) return { t: "mi", text: name, variant: "normal" };
+    if (name in ACCENTS) return { t: "accent", body: this.parseArg(depth), mark: ACCENTS[name] };
+    switch (name) {
+      case "frac": case "dfrac": case "tfrac": case "cfrac": {
+        const num = this.parseArg(depth);
+        return { t: "mfrac", num, den: this.parseArg(depth) };
+      }
+      case "binom": {
+        const num = this.parseArg(depth);
+        return { t: "fenced", open: "(", close: ")", body: { t: "mfrac", num, den: this.parseArg(depth) } };
+      }
+      case "sqrt": {
+        let index: MathNode | undefined;
+        if (this.peek()?.text === "[") {
+          this.next();
+          const parts: MathNode[] = [];
+          for (let tok = this.peek(); tok && tok.text !== "]"; tok = this.peek()) {
+            const atom = this.parseAtom(depth + 1);
+            if (atom) parts.push(atom);
+          }
+          this.next();
+          index = { t: "mrow", children: parts };
+        }
+        return { t: "msqrt", body: this.parseArg(depth), index };
+      }
+      case "text": case "textrm": case "mbox": case "operatorname":
+        return name === "operatorname" ? { t: "mi", text: this.rawGroup(), variant: "normal" } : { t: "mtext", text: this.rawGroup() };
+      case "mathrm": return { t: "mi", text: this.rawGroup(), variant: "normal" };
+      case "mathbf": case "textbf": case "boldsymbol": return { t: "mi", text: this.rawGroup(), variant: "bold" };
+      case "mathcal": return { t: "mi", text: this.rawGroup(), variant: "script" };
+      case "mathbb": {
+        const text = this.rawGroup();
+        return { t: "mi", text: Array.from(text).map(c => DOUBLE_STRUCK[c] || c).join(""), variant: "double-struck" };
+      }
+      case "left": {
+        const open = this.delimiter();
+        const body = this.parseRow(depth + 1);
+        let close = "";
+        if (this.peek()?.kind === "cmd" && this.peek()!.text === "right") { this.next(); close = this.delimiter(); }
+        return { t: "fenced", open, close, body };
+      }
+      case "right": return null;
+      case "\\": return { t: "mtext", text: " " };
+      default: return { t: "error", text: "\\" + name };
+    }
+  }
+
+  /** The stray `}` or `\right` a top-level row stopped at, consumed; null at the end. */
+  stray(): string | null {
+    const tok = this.next();
+    return tok ? (tok.kind === "cmd" ? "\\" + tok.text : tok.text) : null;
+  }
+}
+
+/** Parse a TeX formula; throws on input that is too long or too deep. */
+export function parseTex(src: string): MathNode {
+  if (src.length > MAX_LENGTH) throw new Error("Formula is too long");
+  const parser = new Parser(tokenize(src));
+  const parts: MathNode[] = [parser.parseRow(0)];
+  // Unbalanced `}` / `\right`: report them and carry on
+  for (let stray = parser.stray(); stray; stray = parser.stray()) {
+    parts.push({ t: "error", text: stray }, parser.parseRow(0));
+  }
+  return parts.length === 1 ? parts[0] : { t: "mrow", children: parts };
+}
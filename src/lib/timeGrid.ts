@@ -0,0 +1,86 @@
+import { addDays, dayKey, zonedTimeToUtc } from "./tz";
+import { weekStart } from "./analytics";
+
+/**
+ * Geometry for the Calendar's week/day time grid.
+ *
+ * Positions are minutes from local midnight of a day in the viewer's time
+ * zone. Sessions that cross midnight are clipped to each day they touch.
+ * Overlapping sessions are packed into side-by-side columns: each cluster
+ * of transitively overlapping sessions shares one column count, and every
+ * session takes the leftmost column that is free when it starts.
+ */
+export type Span = { start: number; end: number };
+export type Placed<T> = T & { col: number; cols: number };
+
+export const DAY_MINUTES = 1440;
+/** Drag and resize snap to this many minutes. */
+export const SNAP_MINUTES = 15;
+
+export function snap(min: number) {
+  return Math.max(0, Math.min(DAY_MINUTES, Math.round(min / SNAP_MINUTES) * SNAP_MINUTES));
+}
+
+/** Minutes since midnight as "HH:MM" (1440 is "24:00"). */
+export function minutesToTime(min: number) {
+  return `${String(Math.floor(min / 60)).padStart(2, "0")}:${String(min % 60).padStart(2, "0")}`;
+}
+
+/** The instant `min` minutes after midnight of `day` in `tz`; 1440 is next midnight. */
+export function dayMinuteToDate(day: string, min: number, tz: string) {
+  const overflow = Math.floor(min / DAY_MINUTES);
+  return zonedTimeToUtc(addDays(day, overflow), minutesToTime(min - overflow * DAY_MINUTES), tz);
+}
+
+/** The seven day keys of the Monday-start week containing `key`. */
+export function weekDays(key: string) {
+  const first = weekStart(key);
+  return Array.from({ length: 7 }, (_, i) => addDays(first, i));
+}
+
+/**
+ * The part of [start, end) that falls on `day`, in minutes from that
+ * day's midnight, or null when it does not touch the day.
+ */
+export function spanOnDay(startAt: string, endAt: string, day: string, tz: string): Span | null {
+  const midnight = zonedTimeToUtc(day, "00:00", tz).getTime();
+  const next = zonedTimeToUtc(addDays(day, 1), "00:00", tz).getTime();
+  const s = Date.parse(startAt), e = Date.parse(endAt);
+  if (!(e > midnight && s < next)) return null;
+  return {
+    start: Math.max(0, Math.round((s - midnight) / 60000)),
+    end: Math.min(DAY_MINUTES, Math.round((Math.min(e, next) - midnight) / 60000)),
+  };
+}
+
+/** Assign side-by-side columns to overlapping spans. */
+export function layoutColumns<T extends Span>(spans: T[]): Placed<T>[] {
+  const sorted = [...spans].sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const out: Placed<T>[] = [];
+  let cluster: Placed<T>[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -1;
+  const flush = () => {
+    for (const p of cluster) p.cols = columnEnds.length;
+    cluster = []; columnEnds = [];
+  };
+  for (const s of sorted) {
+    if (s.start >= clusterEnd) flush();
+    let col = columnEnds.findIndex(end => end <= s.start);
+    if (col < 0) { col = columnEnds.length; columnEnds.push(s.end); } else columnEnds[col] = s.end;
+    const placed = { ...s, col, cols: 1 };
+    cluster.push(placed);
+    out.push(placed);
+    clusterEnd = Math.max(clusterEnd, s.end);
+  }
+  flush();
+  return out;
+}
+
+/** Today's key and the current minute in `tz`, for the "now" line. */
+export function nowPosition(tz: string) {
+  const now = new Date();
+  const today = dayKey(now, tz);
+  const span = spanOnDay(now.toISOString(), new Date(now.getTime() + 60000).toISOString(), today, tz);
+  return { day: today, minute: span?.start ?? 0 };
+}
@@ -0,0 +1,117 @@
+/**
+ * Time zone helpers built on Intl, so no date library is needed.
+ *
+ * Day keys are "YYYY-MM-DD" strings for a calendar date *in a given time
+ * zone*; they sort lexically and can be stepped with `addDays` without
+ * touching the browser's local zone.
+ */
+export type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+};
+
+const fmtCache = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(tz: string) {
+  let f = fmtCache.get(tz);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone: tz, hourCycle: "h23", weekday: "short",
+      year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit",
+    });
+    fmtCache.set(tz, f);
+  }
+  return f;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Browser time zone, falling back to UTC. */
+export function browserTimeZone() {
+  try { return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"; }
+  catch { return "UTC"; }
+}
+
+/** True if `tz` is an IANA zone this browser understands. */
+export function isValidTimeZone(tz: string | null | undefined): tz is string {
+  if (!tz) return false;
+  try { formatter(tz); return true; } catch { return false; }
+}
+
+/** Wall-clock fields of an instant in `tz`. */
+export function zonedParts(at: Date | number | string, tz: string): ZonedParts {
+  const d = at instanceof Date ? at : new Date(at);
+  const parts = formatter(tz).formatToParts(d);
+  const get = (t: string) => parts.find(p => p.type === t)?.value || "";
+  return {
+    year: Number(get("year")),
+    month: Number(get("month")),
+    day: Number(get("day")),
+    hour: Number(get("hour")),
+    minute: Number(get("minute")),
+    weekday: WEEKDAYS.indexOf(get("weekday")),
+  };
+}
+
+/** Offset of `tz` from UTC in minutes at the given instant (e.g. +330 for IST). */
+export function tzOffsetMinutes(tz: string, at: Date | number = new Date()) {
+  const d = at instanceof Date ? at : new Date(at);
+  const p = zonedParts(d, tz);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return Math.round((asUtc - Math.floor(d.getTime() / 60000) * 60000) / 60000);
+}
+
+function pad(n: number) { return String(n).padStart(2, "0"); }
+
+/** Calendar date of an instant in `tz`, as "YYYY-MM-DD". */
+export function dayKey(at: Date | number | string, tz: string) {
+  const p = zonedParts(at, tz);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+/** Step a day key by `n` days. */
+export function addDays(key: string, n: number) {
+  const d = new Date(key + "T00:00:00Z");
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Weekday (0 = Sunday) of a day key. */
+export function weekdayOf(key: string) {
+  return new Date(key + "T00:00:00Z").getUTCDay();
+}
+
+/** Whole days from key `a` to key `b`. */
+export function daysBetween(a: string, b: string) {
+  return Math.round((Date.parse(b + "T00:00:00Z") - Date.parse(a + "T00:00:00Z")) / 86_400_000);
+}
+
+/** Wall-clock "HH:MM" of an instant in `tz`. */
+export function timeOfDay(at: Date | number | string, tz: string) {
+  const p = zonedParts(at, tz);
+  return `${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/** Minutes from "HH:MM" `start` to "HH:MM" `end` on the same day. */
+export function minutesBetween(start: string, end: string) {
+  const [sh, sm] = start.split(":").map(Number);
+  const [eh, em] = end.split(":").map(Number);
+  return (eh * 60 + em) - (sh * 60 + sm);
+}
+
+/**
+ * The UTC instant at which the wall-clock time `key` + `time` ("HH:MM")
+ * occurs in `tz`. Two passes settle the offset across DST changes.
+ */
+export function zonedTimeToUtc(key: string, time: string, tz: string): Date {
+  const [y, m, d] = key.split("-").map(Number);
+  const [hh, mm] = time.split(":").map(Number);
+  const wall = Date.UTC(y, m - 1, d, hh, mm);
+  let guess = wall - tzOffsetMinutes(tz, wall) * 60000;
+  guess = wall - tzOffsetMinutes(tz, guess) * 60000;
+  return new Date(guess);
+}
@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase, fetchAllRows, getUserOrWarn, toastError } from "../lib/supabase";
+import { computeStats, dailyBuckets, heatmap, monthlyBuckets, weeklyBuckets, type Bucket, type FocusRow } from "../lib/analytics";
+import { loadStreak, type StreakReport } from "../lib/streaks";
+import { browserTimeZone, dayKey, isValidTimeZone } from "../lib/tz";
+import { Card } from "../components/ui/Card";
+import { BarChart3 } from "lucide-react";
+
+type Range = "daily" | "weekly" | "monthly";
+
+// Minutes as "3h 20m" / "45m"
+function fmtMinutes(min: number) {
+  const m = Math.round(min);
+  const h = Math.floor(m / 60);
+  return h ? `${h}h ${m % 60}m` : `${m}m`;
+}
+
+/**
+ * Personal study analytics. Built from the user's focus sessions and
+ * computed in their profile time zone: focus minutes per day/week/month,
+ * a year heatmap, time-of-day distribution, per-course breakdown,
+ * completed vs. abandoned sessions and the streak (see lib/streaks.ts).
+ */
+export default function Analytics() {
+  const [rows, setRows] = useState<FocusRow[]>([]);
+  const [tz, setTz] = useState(() => browserTimeZone());
+  const [streak, setStreak] = useState<StreakReport | null>(null);
+  const [range, setRange] = useState<Range>("daily");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      const user = await getUserOrWarn(); if (!user) { setLoading(false); return; }
+      try {
+        const { data: prof } = await supabase.from("profiles").select("time_zone").eq("id", user.id).maybeSingle();
+        if (isValidTimeZone(prof?.time_zone)) setTz(prof!.time_zone);
+        // All of them: the totals and completion rate cover every session
+        const data = await fetchAllRows<FocusRow>((from, to) => supabase
+          .from("study_sessions")
+          .select("start_at, end_at, course, status")
+          .eq("user_id", user.id)
+          .eq("kind", "focus")
+          .order("start_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to));
+        if (alive) setRows(data);
+        const st = await loadStreak(user.id);
+        if (alive) setStreak(st);
+      } catch (e) { toastError(e); }
+      if (alive) setLoading(false);
+    })();
+    return () => { alive = false; };
+  }, []);
+
+  const stats = useMemo(() => computeStats(rows, tz), [rows, tz]);
+  const today = dayKey(new Date(), tz);
+  const buckets = useMemo(() => (
+    range === "daily" ? dailyBuckets(stats.byDay, today, 30)
+      : range === "weekly" ? weeklyBuckets(stats.byDay, today, 12)
+        : monthlyBuckets(stats.byDay, today, 12)
+  ), [stats, today, range]);
+  const cells = useMemo(() => heatmap(stats.byDay, today, 53), [stats, today]);
+  const finished = stats.completed + stats.abandoned;
+
+  if (loading) return <Card className="p-4">Loading…</Card>;
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-4">
+        <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <h2 className="text-xl font-bold">Study analytics</h2>
+            <BarChart3 size={18} className="text-white/70" />
+          </div>
+          <div className="text-xs text-white/60">Times shown in {tz}</div>
+        </div>
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+          <Stat label="Total focus" value={fmtMinutes(stats.totalMinutes)} />
+          <Stat label="Sessions" value={String(stats.completed)} />
+          <Stat label="Completion rate" value={finished ? `${Math.round((stats.completed / finished) * 100)}%` : "—"} hint={`${stats.abandoned} abandoned`} />
+          <Stat label="Longest streak" value={streak ? `${streak.best} day${streak.best === 1 ? "" : "s"}` : "—"} hint={streak ? `current: ${streak.current}` : undefined} />
+        </div>
+      </Card>
+
+      <Card className="p-4">
+        <div className="mb-3 flex items-center justify-between gap-2">
+          <h3 className="text-lg font-semibold">Focus minutes</h3>
+          <select className="select w-36 bg-white/10 text-white" value={range} onChange={e => setRange(e.target.value as Range)}>
+            <option value="daily">Last 30 days</option>
+            <option value="weekly">Last 12 weeks</option>
+            <option value="monthly">Last 12 months</option>
+          </select>
+        </div>
+        <Bars buckets={buckets} />
+      </Card>
+
+      <Card className="p-4">
+        <h3 className="mb-3 text-lg font-semibold">Past year</h3>
+        <div className="overflow-x-auto">
+          <div className="flex gap-[3px]">
+            {cells.map((col, i) => (
+              <div key={i} className="flex flex-col gap-[3px]">
+                {col.map((c, j) => (
+                  <div
+                    key={j}
+                    className={"h-3 w-3 rounded-sm " + (c ? heatClass(c.minutes) : "bg-transparent")}
+                    title={c ? `${c.key}: ${fmtMinutes(c.minutes)}` : undefined}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card className="p-4">
+          <h3 className="mb-3 text-lg font-semibold">Time of day</h3>
+          <Bars buckets={stats.byHour.map((minutes, h) => ({ key: String(h), label: `${h}:00`, minutes }))} />
+        </Card>
+        <Card className="p-4">
+          <h3 className="mb-3 text-lg font-semibold">By course</h3>
+          {!stats.byCourse.length ? <div className="text-white/70">No focus sessions yet.</div> : (
+            <ul className="space-y-2">
+              {stats.byCourse.map(c => (
+                <li key={c.course}>
+                  <div className="flex justify-between text-sm"><span>{c.course}</span><span className="text-white/70">{fmtMinutes(c.minutes)}</span></div>
+                  <div className="h-2 rounded bg-white/10">
+                    <div className="h-2 rounded bg-cyan-500" style={{ width: `${(c.minutes / stats.byCourse[0].minutes) * 100}%` }} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-lg border border-white/10 bg-white/5 p-3 text-center">
+      <div className="text-2xl font-bold text-cyan-400">{value}</div>
+      <div className="mt-1 text-xs text-white/60">{label}</div>
+      {hint ? <div className="text-[11px] text-white/40">{hint}</div> : null}
+    </div>
+  );
+}
+
+// Simple vertical bar chart; bar height is relative to the largest bucket
+function Bars({ buckets }: { buckets: Bucket[] }) {
+  const max = Math.max(1, ...buckets.map(b => b.minutes));
+  const every = Math.ceil(buckets.length / 8); // label spacing
+  return (
+    <div>
+      <div className="flex h-40 items-end gap-[2px]">
+        {buckets.map(b => (
+          <div key={b.key} className="flex-1 rounded-t bg-cyan-500/80 hover:bg-cyan-400" style={{ height: `${(b.minutes / max) * 100}%` }} title={`${b.key}: ${fmtMinutes(b.minutes)}`} />
+        ))}
+      </div>
+      <div className="mt-1 flex gap-[2px] text-[10px] text-white/50">
+        {buckets.map((b, i) => <div key={b.key} className="flex-1 truncate text-center">{i % every ? "" : b.label}</div>)}
+      </div>
+    </div>
+  );
+}
+
+function heatClass(minutes: number) {
+  if (minutes <= 0) return "bg-white/10";
+  if (minutes < 30) return "bg-cyan-900";
+  if (minutes < 60) return "bg-cyan-700";
+  if (minutes < 120) return "bg-cyan-500";
+  return "bg-cyan-300";
+}
@@ -1,78 +1,123 @@
-import { useEffect, useMemo, useState } from "react";
-import { supabase, getUserOrWarn } from "../lib/supabase";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { supabase, fetchAllRows, getUserOrWarn, toastError } from "../lib/supabase";
 import { Card } from "../components/ui/Card";
 import { Button } from "../components/ui/Button";
 import { Modal } from "../components/ui/Dialog";
-import { Calendar as CalIcon, Plus, ExternalLink } from "lucide-react";
+import { Calendar as CalIcon, Plus, ExternalLink, Repeat, Info, Download, Upload, Rss, Copy, Globe, Users } from "lucide-react";
+import { describeRule, type Freq, type RecurrenceRule } from "../lib/recurrence";
+import { createSeries } from "../lib/series";
+import { downloadICS } from "../lib/ics";
+import { exportSchedule, feedUrl, gcalLink, getFeedToken, importICS, rotateFeedToken } from "../lib/calendarSync";
+import { SessionDetails } from "../components/SessionDetails";
+import { AvailabilityHeatmap } from "../components/AvailabilityHeatmap";
+import { TimeGrid, type GridItem } from "../components/TimeGrid";
+import { canManageSession, formatWhen, moveSession } from "../lib/sessions";
+import type { GroupRole } from "../lib/groups";
+import { weekDays } from "../lib/timeGrid";
+import { registerCommands } from "../lib/commands";
+import { addDays, browserTimeZone, dayKey, isValidTimeZone, minutesBetween, timeOfDay, weekdayOf, zonedTimeToUtc } from "../lib/tz";
 
 // Types for groups and sessions. A session may include a nested
 // study_groups object containing the name for display.
-type Group = { id: string; name: string };
-type S = { id: string; group_id: string; title: string | null; start_at: string; end_at: string; study_groups?: { name: string } | null };
+type Group = { id: string; name: string; role: GroupRole | null };
+type S = {
+  id: string; group_id: string; user_id: string | null; title: string | null; start_at: string; end_at: string;
+  series_id: string | null; occurrence_date: string | null; is_exception: boolean;
+  /** Organizer's zone, null for sessions created before zones were stored. */
+  tz: string | null;
+  study_groups?: { name: string } | null;
+};
 
-// Utility: format a Date or ISO string into IST (India Standard Time) with
-// medium date and short time. Used throughout the calendar.
-function ist(dt: string | Date) {
-  const d = typeof dt === "string" ? new Date(dt) : dt;
-  return d.toLocaleString("en-IN", { timeZone: "Asia/Kolkata", dateStyle: "medium", timeStyle: "short" });
-}
-function pad(n: number) { return String(n).padStart(2, "0"); }
-// Convert a date to Google Calendar's UTC format (YYYYMMDDTHHMMSSZ)
-function toGCalDate(d: Date) {
-  const u = new Date(d.getTime());
-  return u.getUTCFullYear()
-    + pad(u.getUTCMonth() + 1)
-    + pad(u.getUTCDate())
-    + "T" + pad(u.getUTCHours()) + pad(u.getUTCMinutes()) + pad(u.getUTCSeconds()) + "Z";
-}
-// Build a Google Calendar link for quick export. The details param can
-// include arbitrary text; here we just use "SocialStudy" as a marker.
-function gcalLink({ title, start, end, details }: { title: string; start: Date; end: Date; details: string; }) {
-  const base = "https://calendar.google.com/calendar/render?action=TEMPLATE";
-  const params = new URLSearchParams({ text: title, dates: `${toGCalDate(start)}/${toGCalDate(end)}`, details });
-  return `${base}&${params.toString()}`;
+const SESSION_COLS = "id, group_id, user_id, title, start_at, end_at, series_id, occurrence_date, is_exception, tz, study_groups(name)";
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Map a session row from Supabase, flattening the joined group
+function toSession(s: any): S {
+  return {
+    // bigserial: PostgREST returns a number, links and the grid use strings
+    id: String(s.id),
+    group_id: s.group_id,
+    user_id: s.user_id ?? null,
+    title: s.title,
+    start_at: s.start_at,
+    end_at: s.end_at,
+    series_id: s.series_id ?? null,
+    occurrence_date: s.occurrence_date ?? null,
+    is_exception: !!s.is_exception,
+    tz: s.tz ?? null,
+    study_groups: Array.isArray(s.study_groups) ? s.study_groups[0] || null : s.study_groups || null,
+  };
 }
-// Create a 6x7 matrix of dates for a given month (Monday‑start). This
-// includes spillover days from adjacent months as needed.
+// The 6x7 day keys shown for a given month (Monday‑start, month 0-11).
+// This includes spillover days from adjacent months as needed.
 function monthMatrix(year: number, month: number) {
-  const first = new Date(year, month, 1);
-  const start = new Date(first);
-  start.setDate(first.getDate() - ((first.getDay() + 6) % 7));
-  const weeks: Date[][] = [];
-  for (let w = 0; w < 6; w++) {
-    const row: Date[] = [];
-    for (let d = 0; d < 7; d++) {
-      row.push(new Date(start));
-      start.setDate(start.getDate() + 1);
-    }
-    weeks.push(row);
-  }
-  return weeks;
+  const first = `${year}-${String(month + 1).padStart(2, "0")}-01`;
+  const start = addDays(first, -((weekdayOf(first) + 6) % 7));
+  return Array.from({ length: 42 }, (_, i) => addDays(start, i));
+}
+
+// Year and month (0-11) of a day key
+function monthOf(key: string) {
+  return { y: Number(key.slice(0, 4)), m: Number(key.slice(5, 7)) - 1 };
 }
 
 /**
- * Calendar page. Users can view sessions in a month view or agenda list.
- * They can filter by group and quickly schedule new sessions. Each session
- * has an "Add to Google Calendar" link rather than generating an .ics file.
+ * Calendar page. Users can view sessions in a month view, a week or day
+ * time grid (components/TimeGrid.tsx: drag to create, move or resize) or
+ * an agenda list.
+ * They can filter by group and quickly schedule new sessions, either once
+ * or repeating (see lib/series.ts), or pick a slot from the group's
+ * availability heatmap (see lib/availability.ts). Clicking a session opens its details
+ * (components/SessionDetails.tsx): RSVPs and attendees for everyone,
+ * editing and cancelling for its creator and the group admin. Sessions
+ * have an "Add to Google Calendar" link; the whole schedule can be exported to or
+ * imported from .ics, or subscribed to as a feed (see lib/calendarSync.ts).
+ * Everything is shown and created in the viewer's profile time zone, with
+ * the organizer's zone alongside when it differs; a banner warns when the
+ * browser is in another zone than the profile.
+ * `/calendar?session=<id>` (search results) opens that session's details
+ * on its day; `?new=<day>&at=<HH:MM>&group=<id>` (command palette) opens
+ * the schedule form filled in.
  */
 export default function Calendar() {
   const [groups, setGroups] = useState<Group[]>([]);
   const [gid, setGid] = useState<string>("");
   const [sessions, setSessions] = useState<S[]>([]);
   const [loading, setLoading] = useState(true);
-  const [view, setView] = useState<"month" | "week" | "agenda">("month");
-  const [ym, setYm] = useState(() => { const d = new Date(); return { y: d.getFullYear(), m: d.getMonth() }; });
+  const [view, setView] = useState<"month" | "week" | "day" | "agenda">("month");
+  // Day shown by the week/day grid
+  const [anchor, setAnchor] = useState(() => dayKey(new Date(), browserTimeZone()));
+  const [me, setMe] = useState<string | null>(null);
+  const [ym, setYm] = useState(() => monthOf(dayKey(new Date(), browserTimeZone())));
   const [creating, setCreating] = useState(false);
   const [newTitle, setNewTitle] = useState("");
   const [newDate, setNewDate] = useState<string>("");
   const [newStart, setNewStart] = useState<string>("18:00");
   const [newEnd, setNewEnd] = useState<string>("20:00");
+  // Recurrence for new sessions
+  const [repeat, setRepeat] = useState<"none" | Freq>("none");
+  const [every, setEvery] = useState(1);
+  const [byWeekday, setByWeekday] = useState<number[]>([]);
+  const [ends, setEnds] = useState<"never" | "until" | "count">("until");
+  const [until, setUntil] = useState("");
+  const [count, setCount] = useState(10);
+  // Session opened in the detail view
+  const [detail, setDetail] = useState<S | null>(null);
+  // Import / export / feed
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [feedOpen, setFeedOpen] = useState(false);
+  const [feed, setFeed] = useState("");
+  // Availability overlap finder
+  const [findOpen, setFindOpen] = useState(false);
+  // Viewer's zone: the profile's, the browser's until it has loaded
+  const [tz, setTz] = useState(() => browserTimeZone());
+  const browserTz = browserTimeZone();
+  const [params, setParams] = useSearchParams();
 
-  function handleDateClick(date: Date) {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    setNewDate(`${year}-${month}-${day}`);
+  function handleDateClick(key: string) {
+    setNewDate(key);
     setCreating(true);
   }
 
@@ -81,60 +126,236 @@ export default function Calendar() {
     let alive = true;
     (async () => {
       const u = await getUserOrWarn(); if (!u) { setLoading(false); return; }
-      const { data: gm } = await supabase.from("group_members").select("group_id, study_groups(id, name)").eq("user_id", u.id);
-      const gs = (gm || []).map((x: any) => ({ id: x.study_groups.id, name: x.study_groups.name }));
+      setMe(u.id);
+      const { data: prof } = await supabase.from("profiles").select("time_zone").eq("id", u.id).maybeSingle();
+      if (alive && isValidTimeZone(prof?.time_zone)) {
+        const today = dayKey(new Date(), prof!.time_zone);
+        setTz(prof!.time_zone);
+        setAnchor(today);
+        setYm(monthOf(today));
+      }
+      const { data: gm } = await supabase.from("group_members").select("group_id, role, study_groups(id, name)").eq("user_id", u.id);
+      const gs = (gm || []).map((x: any) => ({ id: x.study_groups.id, name: x.study_groups.name, role: (x.role as GroupRole) ?? null }));
       setGroups(gs);
       setGid(gs[0]?.id || "");
-      const { data } = await supabase
-        .from("study_sessions")
-        .select("id, group_id, title, start_at, end_at, study_groups(name)")
-        .in("group_id", gs.map(g => g.id))
-        .order("start_at", { ascending: true });
+      const list = await fetchSessions(gs.map(g => g.id));
       if (!alive) return;
-      setSessions((data || []).map((s: any) => ({
-        id: s.id,
-        group_id: s.group_id,
-        title: s.title,
-        start_at: s.start_at,
-        end_at: s.end_at,
-        study_groups: s.study_groups?.[0] || null
-      })));
+      setSessions(list);
       setLoading(false);
     })();
     return () => { alive = false; };
   }, []);
 
+  // Open the session or the prefilled schedule form from the URL once sessions have loaded
+  useEffect(() => {
+    if (loading) return;
+    const id = params.get("session");
+    if (id) {
+      const s = sessions.find(x => x.id === id);
+      if (s) {
+        const day = dayKey(new Date(s.start_at), tz);
+        setGid(s.group_id || "");
+        setAnchor(day);
+        setYm(monthOf(day));
+        setDetail(s);
+      } else {
+        (window as any).notify?.("That session isn't on your calendar", "error");
+      }
+      // Don't reopen it on reload
+      params.delete("session");
+      setParams(params, { replace: true });
+    }
+    if (params.has("new")) {
+      const group = params.get("group");
+      const at = params.get("at");
+      if (group && groups.some(g => g.id === group)) setGid(group);
+      setNewDate(params.get("new") || "");
+      if (at && /^([01]\d|2[0-3]):[0-5]\d$/.test(at)) {
+        const [h, m] = at.split(":").map(Number);
+        const end = Math.min(h * 60 + m + 120, 23 * 60 + 59);
+        setNewStart(at);
+        setNewEnd(`${String(Math.floor(end / 60)).padStart(2, "0")}:${String(end % 60).padStart(2, "0")}`);
+      }
+      setCreating(true);
+      // Don't reopen the form on reload
+      for (const k of ["new", "at", "group"]) params.delete(k);
+      setParams(params, { replace: true });
+    }
+  }, [params, loading]);
+
+  // Calendar commands in the palette
+  useEffect(() => registerCommands("calendar", [
+    { id: "cal-new", label: "New session", hint: "Open the schedule form", run: () => setCreating(true) },
+    { id: "cal-today", label: "Go to today", run: () => { const t = dayKey(new Date(), tz); setAnchor(t); setYm(monthOf(t)); } },
+    ...(["month", "week", "day", "agenda"] as const).filter(v => v !== view).map(v => ({
+      id: `cal-view-${v}`, label: `${v[0].toUpperCase()}${v.slice(1)} view`, run: () => setView(v),
+    })),
+    { id: "cal-export", label: "Export calendar (.ics)", run: exportAll },
+    ...(gid ? [{ id: "cal-find", label: "Find a time for this group", run: () => setFindOpen(true) }] : []),
+  ]), [view, gid, groups, tz]);
+
+  // Every occurrence, in pages: a few series alone pass max_rows
+  async function fetchSessions(groupIds: string[]) {
+    try {
+      const data = await fetchAllRows<any>((from, to) => supabase
+        .from("study_sessions")
+        .select(SESSION_COLS)
+        .in("group_id", groupIds)
+        .eq("kind", "scheduled")
+        .order("start_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, to));
+      return data.map(toSession);
+    } catch (e) { toastError(e); return []; }
+  }
+
+  async function refresh() {
+    setSessions(await fetchSessions(groups.map(g => g.id)));
+  }
+
   const filtered = useMemo(() => gid ? sessions.filter(s => s.group_id === gid) : sessions, [sessions, gid]);
 
   async function createSession() {
     if (!gid) return (window as any).notify?.("Select a group", "error");
     if (!newDate) return (window as any).notify?.("Choose a date", "error");
-    const [sh, sm] = newStart.split(":").map(Number);
-    const [eh, em] = newEnd.split(":").map(Number);
-    const d = new Date(newDate + "T00:00:00");
-    const start = new Date(d); start.setHours(sh, sm, 0, 0);
-    const end = new Date(d); end.setHours(eh, em, 0, 0);
+    const duration = minutesBetween(newStart, newEnd);
+    if (duration <= 0) return (window as any).notify?.("End must be after start", "error");
+    if (repeat !== "none" && ends === "until" && (!until || until < newDate)) {
+      return (window as any).notify?.("Choose an end date after the start", "error");
+    }
+    const start = zonedTimeToUtc(newDate, newStart, tz);
+    const end = new Date(start.getTime() + duration * 60000);
     try {
-      const { data, error } = await supabase.from("study_sessions").insert({
-        group_id: gid,
-        title: newTitle || null,
-        start_at: start.toISOString(),
-        end_at: end.toISOString(),
-      }).select("*");
-      if (error) throw error;
-      setSessions(x => [...x, ...(data as any[])]);
+      const u = await getUserOrWarn(); if (!u) return;
+      let rows: any[];
+      if (repeat === "none") {
+        const { data, error } = await supabase.from("study_sessions").insert({
+          group_id: gid,
+          user_id: u.id,
+          title: newTitle || null,
+          start_at: start.toISOString(),
+          end_at: end.toISOString(),
+          tz,
+        }).select("*");
+        if (error) throw error;
+        rows = data || [];
+      } else {
+        rows = await createSeries({
+          group_id: gid,
+          title: newTitle || null,
+          start_date: newDate,
+          start_time: newStart,
+          duration_min: duration,
+          tz,
+          rule: newRule(),
+        }, u.id);
+      }
+      const name = groups.find(g => g.id === gid)?.name;
+      setSessions(x => [...x, ...rows.map(r => toSession({ ...r, study_groups: name ? { name } : null }))]
+        .sort((a, b) => a.start_at.localeCompare(b.start_at)));
       setCreating(false);
       setNewTitle(""); setNewDate(""); setNewStart("18:00"); setNewEnd("20:00");
-      (window as any).notify?.("Session scheduled");
+      setRepeat("none"); setEvery(1); setByWeekday([]); setUntil("");
+      (window as any).notify?.(rows.length > 1 ? `${rows.length} sessions scheduled` : "Session scheduled");
     } catch (e) { console.error(e); (window as any).notify?.("Failed to create session", "error"); }
   }
 
-  // Build dictionary of sessions by day (timestamp keyed)
-  const weeks = monthMatrix(ym.y, ym.m);
-  const byDay = new Map<number, S[]>();
+  function newRule(): RecurrenceRule {
+    return {
+      freq: repeat === "none" ? "daily" : repeat,
+      interval: Math.max(1, every),
+      byWeekday: repeat === "weekly" ? (byWeekday.length ? byWeekday : [weekdayOf(newDate)]) : undefined,
+      until: ends === "until" ? until : null,
+      count: ends === "count" ? Math.max(1, count) : null,
+    };
+  }
+
+  function toggleWeekday(d: number) {
+    setByWeekday(x => x.includes(d) ? x.filter(v => v !== d) : [...x, d].sort());
+  }
+
+  async function exportAll() {
+    const scope = gid ? groups.filter(g => g.id === gid) : groups;
+    if (!scope.length) return (window as any).notify?.("Join a group first", "error");
+    setBusy(true);
+    try {
+      const name = scope.length === 1 ? `SocialStudy — ${scope[0].name}` : "SocialStudy";
+      // The whole schedule also carries the user's own sessions
+      const u = gid ? null : await getUserOrWarn();
+      const ics = await exportSchedule(scope, name, tz, u?.id);
+      downloadICS(`${(scope.length === 1 ? scope[0].name : "socialstudy").replace(/[^\w-]+/g, "-")}.ics`, ics);
+    } catch (e) { toastError(e); }
+    finally { setBusy(false); }
+  }
+
+  async function onImportFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (!gid) return (window as any).notify?.("Select the group to import into", "error");
+    setBusy(true);
+    try {
+      const u = await getUserOrWarn(); if (!u) return;
+      const r = await importICS(await file.text(), gid, u.id, tz);
+      await refresh();
+      const extra = [r.duplicates ? `${r.duplicates} already there` : "", r.skipped ? `${r.skipped} unsupported` : ""].filter(Boolean).join(", ");
+      (window as any).notify?.(`Imported ${r.imported} event${r.imported === 1 ? "" : "s"}${extra ? ` (${extra})` : ""}`);
+    } catch (err) { toastError(err); }
+    finally { setBusy(false); }
+  }
+
+  async function openFeed(rotate = false) {
+    const u = await getUserOrWarn(); if (!u) return;
+    try {
+      const token = rotate ? await rotateFeedToken(u.id) : await getFeedToken(u.id);
+      setFeed(feedUrl(token));
+      setFeedOpen(true);
+      if (rotate) (window as any).notify?.("New feed link created; the old one no longer works");
+    } catch (e) { toastError(e); }
+  }
+
+  // Dragged in the time grid: move this occurrence only
+  async function onGridChange(id: string, start: Date, end: Date) {
+    const s = sessions.find(x => x.id === id);
+    if (!s || !me) return;
+    setSessions(x => x.map(y => y.id === id ? { ...y, start_at: start.toISOString(), end_at: end.toISOString(), is_exception: !!y.series_id } : y));
+    try {
+      await moveSession(s, start, end, tz, me);
+      (window as any).notify?.("Session moved");
+    } catch (e) { toastError(e); await refresh(); }
+  }
+
+  function onGridCreate(day: string, start: string, end: string) {
+    setNewDate(day); setNewStart(start); setNewEnd(end);
+    setCreating(true);
+  }
+
+  function onPickSlot(day: string, start: string, end: string) {
+    setFindOpen(false);
+    onGridCreate(day, start, end);
+  }
+
+  function groupName(s: S) {
+    return groups.find(g => g.id === s.group_id)?.name || s.study_groups?.name || "Group";
+  }
+
+  const gridDays = view === "day" ? [anchor] : weekDays(anchor);
+  const gridItems: GridItem[] = filtered.map(s => ({
+    id: s.id,
+    title: s.title || "Study session",
+    subtitle: groupName(s),
+    start_at: s.start_at,
+    end_at: s.end_at,
+    editable: canManageSession(s, groups.find(g => g.id === s.group_id)?.role, me),
+    repeating: !!s.series_id,
+  }));
+
+  // Build dictionary of sessions by day (day keys in the viewer's zone)
+  const days = monthMatrix(ym.y, ym.m);
+  const monthPrefix = `${ym.y}-${String(ym.m + 1).padStart(2, "0")}`;
+  const byDay = new Map<string, S[]>();
   for (const s of filtered) {
-    const dt = new Date(s.start_at);
-    const key = new Date(dt.getFullYear(), dt.getMonth(), dt.getDate()).getTime();
+    const key = dayKey(s.start_at, tz);
     if (!byDay.has(key)) byDay.set(key, []);
     byDay.get(key)!.push(s);
   }
@@ -154,22 +375,36 @@ export default function Calendar() {
           </select>
           <select className="select bg-white/10 text-white" value={view} onChange={e => setView(e.target.value as any)}>
             <option value="month">Month</option>
-            <option value="agenda">Agenda</option>
             <option value="week">Week</option>
+            <option value="day">Day</option>
+            <option value="agenda">Agenda</option>
           </select>
+          <Button variant="outline" loading={busy} onClick={exportAll} title="Download .ics"><Download size={16} /> Export</Button>
+          <Button variant="outline" disabled={busy} onClick={() => fileRef.current?.click()} title={gid ? "Import .ics into this group" : "Select a group to import into"}><Upload size={16} /> Import</Button>
+          <input ref={fileRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={onImportFile} />
+          <Button variant="outline" onClick={() => openFeed()} title="Subscribe from another calendar app"><Rss size={16} /></Button>
+          <Button variant="outline" disabled={!gid} onClick={() => setFindOpen(true)} title={gid ? "When can everyone meet?" : "Select a group"}><Users size={16} /> Find a time</Button>
           <Button onClick={() => setCreating(true)}><Plus size={16} /> Schedule</Button>
         </div>
       </div>
+      {tz !== browserTz ? (
+        <div className="mb-3 flex flex-wrap items-center gap-2 rounded-lg border border-amber-300/30 bg-amber-500/10 px-3 py-2 text-sm text-amber-100">
+          <Globe size={16} />
+          Times are shown in your profile time zone ({tz}), but this device is set to {browserTz}.
+          <Link to="/profile" className="underline">Update profile</Link>
+        </div>
+      ) : null}
       {/* Month view */}
       {view === "month" ? (
         <div className="rounded-xl border border-white/15 bg-white/5 p-2">
           <div className="mb-2 flex items-center justify-between">
             <div className="text-white/90 font-semibold">
-              {new Date(ym.y, ym.m).toLocaleString("en-IN", { month: "long", year: "numeric" })}
+              {new Date(Date.UTC(ym.y, ym.m)).toLocaleString("en-GB", { timeZone: "UTC", month: "long", year: "numeric" })}
+              <span className="ml-2 text-xs font-normal text-white/50">{tz}</span>
             </div>
             <div className="flex items-center gap-2">
               <Button variant="ghost" onClick={() => setYm(({ y, m }) => ({ y: m === 0 ? y - 1 : y, m: m === 0 ? 11 : m - 1 }))}>Prev</Button>
-              <Button variant="ghost" onClick={() => { const d = new Date(); setYm({ y: d.getFullYear(), m: d.getMonth() }); }}>Today</Button>
+              <Button variant="ghost" onClick={() => setYm(monthOf(dayKey(new Date(), tz)))}>Today</Button>
               <Button variant="ghost" onClick={() => setYm(({ y, m }) => ({ y: m === 11 ? y + 1 : y, m: m === 11 ? 0 : m + 1 }))}>Next</Button>
             </div>
           </div>
@@ -177,23 +412,23 @@ export default function Calendar() {
             {['Mon','Tue','Wed','Thu','Fri','Sat','Sun'].map(d => (
               <div key={d} className="bg-white/10 p-2 text-center text-xs text-white/70">{d}</div>
             ))}
-            {weeks.flat().map((d, i) => {
-              const key = new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
-              const inMonth = d.getMonth() === ym.m;
+            {days.map((key) => {
+              const inMonth = key.startsWith(monthPrefix);
               const items = byDay.get(key) || [];
               return (
                 <div 
-                  key={i} 
-                  onClick={() => handleDateClick(d)}
+                  key={key} 
+                  onClick={() => handleDateClick(key)}
                   className={"min-h-24 rounded-md p-2 cursor-pointer transition-all " + (inMonth ? "bg-white/5 hover:bg-white/10" : "bg-black/10 hover:bg-white/5")}
                   title="Click to schedule a session"
                 > 
-                  <div className="mb-1 text-xs font-semibold text-white/80">{d.getDate()}</div>
+                  <div className="mb-1 text-xs font-semibold text-white/80">{Number(key.slice(8))}</div>
                   <div className="flex flex-col gap-1">
                     {items.slice(0, 3).map(s => (
-                      <a key={s.id} href={gcalLink({ title: s.title || (s.study_groups?.name ? `Study: ${s.study_groups.name}` : "Study session"), start: new Date(s.start_at), end: new Date(s.end_at), details: "SocialStudy" })} target="_blank" rel="noopener" className="truncate rounded bg-white/10 px-2 py-1 text-xs text-white/90 hover:bg-white/20">
-                        {new Date(s.start_at).toLocaleTimeString("en-IN", { timeZone: "Asia/Kolkata", hour: "2-digit", minute: "2-digit" })} — {s.title || "Study session"}
-                      </a>
+                      <button key={s.id} onClick={(e) => { e.stopPropagation(); setDetail(s); }} className="truncate rounded bg-white/10 px-2 py-1 text-left text-xs text-white/90 hover:bg-white/20">
+                        {s.series_id ? <Repeat size={10} className="mr-1 inline -mt-0.5" /> : null}
+                        {timeOfDay(s.start_at, tz)} — {s.title || "Study session"}
+                      </button>
                     ))}
                     {items.length > 3 ? <div className="text-[11px] text-white/60">+{items.length - 3} more</div> : null}
                   </div>
@@ -202,24 +437,27 @@ export default function Calendar() {
             })}
           </div>
         </div>
-      ) : view === "week" ? (
-        // Week view - show current week with time slots
-        <div className="rounded-xl border border-white/15 bg-white/5 p-4">
-          <p className="text-white/60 text-center py-8">Week view: Shows current week's sessions</p>
-          <div className="space-y-2">
-            {agenda.slice(0, 10).map(s => (
-              <div key={s.id} className="flex items-center justify-between gap-3 rounded-lg bg-white/5 p-3 border border-white/10">
-                <div>
-                  <div className="text-xs text-white/60">{s.study_groups?.name || "Study"}</div>
-                  <div className="font-semibold">{s.title || "Session"}</div>
-                  <div className="text-sm text-white/70">{ist(s.start_at)}</div>
-                </div>
-                <a href={gcalLink({ title: s.title || "Study", start: new Date(s.start_at), end: new Date(s.end_at), details: "SocialStudy" })} target="_blank" rel="noopener" className="text-xs text-primary hover:underline">
-                  Add to Cal
-                </a>
-              </div>
-            ))}
+      ) : view === "week" || view === "day" ? (
+        <div>
+          <div className="mb-2 flex items-center justify-between">
+            <div className="font-semibold text-white/90">
+              {view === "day" ? anchor : `${gridDays[0]} – ${gridDays[6]}`}
+              <span className="ml-2 text-xs font-normal text-white/50">{tz}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" onClick={() => setAnchor(a => addDays(a, view === "day" ? -1 : -7))}>Prev</Button>
+              <Button variant="ghost" onClick={() => setAnchor(dayKey(new Date(), tz))}>Today</Button>
+              <Button variant="ghost" onClick={() => setAnchor(a => addDays(a, view === "day" ? 1 : 7))}>Next</Button>
+            </div>
           </div>
+          <TimeGrid
+            days={gridDays}
+            items={gridItems}
+            tz={tz}
+            onCreate={onGridCreate}
+            onOpen={(id) => setDetail(sessions.find(x => x.id === id) || null)}
+            onChange={onGridChange}
+          />
         </div>
       ) : (
         // Agenda view
@@ -229,12 +467,23 @@ export default function Calendar() {
             <div key={s.id} className="flex items-center justify-between gap-3 border-b border-white/10 p-3 last:border-none">
               <div>
                 <div className="text-sm text-white/70">{s.study_groups?.name || "Group"}</div>
-                <div className="text-[15px] font-semibold">{s.title || "Study session"}</div>
+                <div className="text-[15px] font-semibold">
+                  {s.title || "Study session"}
+                  {s.series_id ? <Repeat size={13} className="ml-1 inline -mt-0.5 text-white/60" /> : null}
+                </div>
               </div>
-              <div className="text-[15px] text-white">{ist(s.start_at)} — {ist(s.end_at)}</div>
+              <div className="text-right">
+                <div className="text-[15px] text-white">{formatWhen(s.start_at, tz)} — {timeOfDay(s.end_at, tz)}</div>
+                {s.tz && s.tz !== tz ? (
+                  <div className="text-xs text-white/60">{formatWhen(s.start_at, s.tz)} — {timeOfDay(s.end_at, s.tz)} organizer ({s.tz})</div>
+                ) : null}
+              </div>
+              <button title="Details" onClick={() => setDetail(s)} className="rounded-lg border border-white/20 px-2 py-1 text-sm text-white/90 hover:bg-white/10">
+                <Info size={14} className="inline -mt-0.5" />
+              </button>
               <a
                 title="Add to Google Calendar"
-                href={gcalLink({ title: s.title || (s.study_groups?.name ? `Study: ${s.study_groups.name}` : "Study session"), start: new Date(s.start_at), end: new Date(s.end_at), details: "SocialStudy" })}
+                href={gcalLink({ title: s.title || (s.study_groups?.name ? `Study: ${s.study_groups.name}` : "Study session"), start: new Date(s.start_at), end: new Date(s.end_at), details: "SocialStudy", tz })}
                 target="_blank" rel="noopener"
                 className="rounded-lg border border-white/20 px-2 py-1 text-sm text-white/90 hover:bg-white/10"
               >
@@ -266,12 +515,85 @@ export default function Calendar() {
               <input className="input bg-white/10 text-white" type="time" value={newEnd} onChange={(e) => setNewEnd(e.target.value)} />
             </div>
           </div>
+          <label className="text-sm text-white/80">Repeat</label>
+          <div className="grid grid-cols-2 gap-2">
+            <select className="select bg-white/10 text-white" value={repeat} onChange={(e) => setRepeat(e.target.value as any)}>
+              <option value="none">Does not repeat</option>
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+            </select>
+            {repeat !== "none" ? (
+              <div className="flex items-center gap-2 text-sm text-white/80">
+                every
+                <input className="input w-16 bg-white/10 text-white" type="number" min={1} value={every} onChange={(e) => setEvery(Number(e.target.value) || 1)} />
+                {repeat === "daily" ? "day(s)" : "week(s)"}
+              </div>
+            ) : null}
+          </div>
+          {repeat === "weekly" ? (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map((w, i) => {
+                const on = byWeekday.length ? byWeekday.includes(i) : (!!newDate && weekdayOf(newDate) === i);
+                return (
+                  <button key={w} type="button" onClick={() => toggleWeekday(i)} className={"rounded px-2 py-1 text-xs " + (on ? "bg-cyan-600 text-white" : "bg-white/10 text-white/70 hover:bg-white/20")}>
+                    {w}
+                  </button>
+                );
+              })}
+            </div>
+          ) : null}
+          {repeat !== "none" ? (
+            <div className="grid grid-cols-2 gap-2">
+              <select className="select bg-white/10 text-white" value={ends} onChange={(e) => setEnds(e.target.value as any)}>
+                <option value="until">Until date</option>
+                <option value="count">After N sessions</option>
+                <option value="never">No end (next 6 months)</option>
+              </select>
+              {ends === "until" ? (
+                <input className="input bg-white/10 text-white" type="date" value={until} min={newDate} onChange={(e) => setUntil(e.target.value)} />
+              ) : ends === "count" ? (
+                <input className="input bg-white/10 text-white" type="number" min={1} value={count} onChange={(e) => setCount(Number(e.target.value) || 1)} />
+              ) : null}
+            </div>
+          ) : null}
+          {repeat !== "none" && newDate ? <div className="text-xs text-white/60">{describeRule(newRule())}</div> : null}
+          <div className="text-xs text-white/60">Times are in {tz}.</div>
           <div className="mt-2 flex items-center justify-end gap-2">
             <Button variant="ghost" onClick={() => setCreating(false)}>Cancel</Button>
             <Button onClick={createSession}>Create</Button>
           </div>
         </div>
       </Modal>
+      {/* Availability overlap finder */}
+      <Modal open={findOpen} onOpenChange={setFindOpen} title={`When can ${groups.find(g => g.id === gid)?.name || "everyone"} meet?`}>
+        {gid ? <AvailabilityHeatmap groupId={gid} tz={tz} day={anchor} onPick={onPickSlot} /> : null}
+      </Modal>
+      {/* Feed modal */}
+      <Modal open={feedOpen} onOpenChange={setFeedOpen} title="Subscribe to your study calendar">
+        <div className="grid gap-2">
+          <p className="text-sm text-white/70">
+            Add this URL in Google Calendar (“From URL”), Apple Calendar or Outlook to see every session of your groups.
+            Anyone with the link can read it — keep it private.
+          </p>
+          <div className="flex items-center gap-2">
+            <input className="input flex-1 bg-white/10 text-white" readOnly value={feed} onFocus={(e) => e.target.select()} />
+            <Button variant="ghost" title="Copy" onClick={() => { navigator.clipboard?.writeText(feed); (window as any).notify?.("Feed link copied"); }}><Copy size={16} /></Button>
+          </div>
+          <div className="mt-2 flex items-center justify-between gap-2">
+            <Button variant="danger" size="sm" onClick={() => openFeed(true)}>Reset link</Button>
+            <Button variant="ghost" onClick={() => setFeedOpen(false)}>Close</Button>
+          </div>
+        </div>
+      </Modal>
+      <SessionDetails
+        session={detail}
+        groupName={groups.find(g => g.id === detail?.group_id)?.name || detail?.study_groups?.name || "Group"}
+        groupRole={groups.find(g => g.id === detail?.group_id)?.role || null}
+        seriesRows={detail?.series_id ? sessions.filter(x => x.series_id === detail.series_id) : []}
+        tz={tz}
+        onClose={() => setDetail(null)}
+        onChanged={refresh}
+      />
     </Card>
   );
 }
\ No newline at end of file
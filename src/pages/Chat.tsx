@@ -1,29 +1,146 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Eye, EyeOff, FileText, MessageSquare, Paperclip, Pencil, Pin, PinOff, Quote, Trash2, Video, VolumeX, X } from "lucide-react";
 import { supabase, toastError, getUserOrWarn } from "../lib/supabase";
 import { Card } from "../components/ui/Card";
 import { Button } from "../components/ui/Button";
+import { Modal } from "../components/ui/Dialog";
 import { VideoRoom } from "../components/VideoRoom";
+import { VirtualList, type VirtualListHandle } from "../components/VirtualList";
+import { GroupFiles } from "../components/GroupFiles";
+import { RichText } from "../components/RichText";
+import { EmojiPicker, ReactionChips, enterSends, formatTimestamp, rowsFor } from "../components/ChatParts";
+import {
+  fetchAround, fetchLatest, fetchNewer, fetchOlder, fetchPinned, fetchReadMarkers, fetchThread, getLastRead, sendMessage, setLastRead, watchUnread,
+  type ChatMessage, type ChatPage, type ChatWindow, type QuotedMessage, type ReadMarker,
+} from "../lib/chat";
+import { registerCommands } from "../lib/commands";
+import { ROLE_LABELS, fetchMyRole, isAdminRole, type GroupRole } from "../lib/groups";
+import { TYPING_IDLE_MS, joinGroupPresence, type GroupPresence, type PresenceMember } from "../lib/presence";
+import { applyReactionChange, loadReactions, toggleReaction, type Reaction } from "../lib/reactions";
+import {
+  MUTE_DURATIONS, applyMessageUpdate, deleteMessage, editMessage, fetchEditHistory, listMutes, muteMember, setPinned as pinMessage, unmuteMember,
+  type GroupMute, type MessageEdit,
+} from "../lib/moderation";
+import {
+  MAX_FILES_PER_MESSAGE, attachUploads, checkFile, formatBytes, isImage, isPdf, loadAttachments, removeFiles, signedUrls, startUpload,
+  type Attachment, type Upload,
+} from "../lib/attachments";
 import logo from "../assets/logo.svg";
 
-// Predefined set of emoji reactions available for messages
-const EMOJIS = ["👍", "🔥", "🎯", "🎉", "💪", "🧠", "📚", "⏰", "✅", "🥳"];
-
 /**
  * Chat page. Allows users to pick a group, view messages in realtime via
  * Supabase’s realtime API, send messages, react with emojis, and start
  * a video room. Messages align left/right based on the current user.
+ * Reactions show as counted chips under each message (lib/reactions.ts);
+ * clicking your own chip again removes it.
+ *
+ * History is loaded a page at a time (lib/chat.ts): the latest page on
+ * open, older pages when scrolling near the top. Only the visible part of
+ * the list is rendered (components/VirtualList.tsx). Messages newer than
+ * the last one seen get a divider; new messages arriving while scrolled
+ * up don't move the view and show a "jump to latest" button instead.
+ *
+ * The stream shows thread roots; replies are counted under their root,
+ * can be expanded in place and are written in the thread side panel.
+ * Any message can be quoted into a new one.
+ *
+ * Authors can edit (with a viewable history) and delete their messages;
+ * the group admin can also delete any message, pin messages to the bar
+ * above the stream and mute members (lib/moderation.ts). The database
+ * enforces these rules; edits, deletions, pins and mutes arrive over the
+ * same realtime channel.
+ *
+ * Files can be dropped onto the chat, pasted or picked; they upload right
+ * away (with progress and cancel) and are attached when the message is
+ * sent (lib/attachments.ts). Images preview inline, PDFs and other files
+ * show as cards, and the "Files" tab lists everything shared in the group.
+ *
+ * Message text is Markdown with code blocks and $…$ / $$…$$ math,
+ * rendered by components/RichText.tsx. The composers are multi-line
+ * (Enter sends, Shift+Enter adds a line) and the main one has a preview.
+ *
+ * Realtime presence on the group's channel shows who is online, typing
+ * or in the video room (lib/presence.ts). Members' read markers show as
+ * "Seen by" under your latest message and feed the unread counts in the
+ * group selector (and the badge in Nav.tsx).
+ *
+ * `/chat?group=<id>&message=<id>` (search results) opens the group at
+ * that message, highlighted, with its thread open if it is a reply;
+ * `&video=1` (command palette) opens the group's video room. The page
+ * adds its own commands to the palette while open.
  */
 export default function Chat() {
   const [groups, setGroups] = useState<any[]>([]);
   const [gid, setGid] = useState<string>("");
-  const [msgs, setMsgs] = useState<any[]>([]);
+  const [msgs, setMsgs] = useState<ChatMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // After jumping to an older message: whether there is more below the loaded window
+  const [hasNewer, setHasNewer] = useState(false);
+  const [loadingNewer, setLoadingNewer] = useState(false);
+  const [highlightId, setHighlightId] = useState<number | null>(null);
+  // Newest message id already seen when the group was opened
+  const [readMark, setReadMark] = useState(0);
+  const [atBottom, setAtBottom] = useState(true);
+  const [newCount, setNewCount] = useState(0);
+  const [reactions, setReactions] = useState<Map<number, Reaction[]>>(new Map());
+  // Message whose emoji picker is open
+  const [pickerFor, setPickerFor] = useState<number | null>(null);
   const [input, setInput] = useState("");
+  const [quote, setQuote] = useState<QuotedMessage | null>(null);
+  // Loaded replies per thread root, and which threads are expanded in place
+  const [replies, setReplies] = useState<Map<number, ChatMessage[]>>(new Map());
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  // Thread open in the side panel
+  const [thread, setThread] = useState<ChatMessage | null>(null);
+  const [threadInput, setThreadInput] = useState("");
+  const [threadQuote, setThreadQuote] = useState<QuotedMessage | null>(null);
+  const [pinned, setPinned] = useState<ChatMessage[]>([]);
+  const [mutes, setMutes] = useState<GroupMute[]>([]);
+  // Message being edited in place
+  const [editing, setEditing] = useState<{ id: number; text: string } | null>(null);
+  const [history, setHistory] = useState<{ message: ChatMessage; edits: MessageEdit[] } | null>(null);
+  // Author of the message whose "mute" dialog is open
+  const [muteTarget, setMuteTarget] = useState<ChatMessage | null>(null);
+  const [muteMinutes, setMuteMinutes] = useState(MUTE_DURATIONS[1].minutes);
+  const [tab, setTab] = useState<"messages" | "files">("messages");
+  const [attachments, setAttachments] = useState<Map<number, Attachment[]>>(new Map());
+  // Signed URLs of attachment paths (the bucket is private)
+  const [urls, setUrls] = useState<Map<string, string>>(new Map());
+  // Files for the next message
+  const [uploads, setUploads] = useState<Upload[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const [preview, setPreview] = useState(false);
   const [videoOpen, setVideoOpen] = useState(false);
-  // Track whether the current user is the admin of the selected group. We
-  // still compute this even though all members can open the video room.
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [online, setOnline] = useState<PresenceMember[]>([]);
+  const [markers, setMarkers] = useState<Map<string, ReadMarker>>(new Map());
+  const [unread, setUnread] = useState<Map<string, number>>(new Map());
+  // The current user's role in the selected group; owners and moderators
+  // moderate the chat. All members can open the video room.
+  const [myRole, setMyRole] = useState<GroupRole | null>(null);
+  const isAdmin = isAdminRole(myRole);
   const boxRef = useRef<HTMLDivElement>(null);
   const subRef = useRef<any>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const presenceRef = useRef<GroupPresence | null>(null);
+  const typingTimer = useRef<ReturnType<typeof setTimeout>>();
+  const videoOpenRef = useRef(videoOpen);
+  videoOpenRef.current = videoOpen;
+  const listRef = useRef<VirtualListHandle | null>(null);
+  const atBottomRef = useRef(true);
+  const msgsRef = useRef<ChatMessage[]>([]);
+  msgsRef.current = msgs;
+  const repliesRef = useRef(replies);
+  repliesRef.current = replies;
+  // Scroll to the unread divider (or the bottom) once the first page renders
+  const pendingJump = useRef(false);
+  // Message to open the next load at (from the URL), then where to scroll once it renders
+  const jumpRef = useRef(0);
+  const pendingTarget = useRef<{ root: number; target: number } | null>(null);
+  const hasNewerRef = useRef(false);
+  hasNewerRef.current = hasNewer;
+  const [params] = useSearchParams();
 
   // Fetch groups the current user is a member of
   async function myGroups() {
@@ -34,13 +151,202 @@ export default function Chat() {
       .eq("user_id", u.id);
     return (data || []).map((m: any) => m.study_groups);
   }
-  // Load messages for a given group
+  // Load the latest page of messages for a given group
   async function loadMessages(id: string) {
-    const { data } = await supabase.from("messages").select("*, profiles(full_name, avatar_url)").eq("group_id", id).order("created_at", { ascending: true });
-    setMsgs(data || []);
-    // Scroll to bottom after a slight delay to allow DOM to update
-    setTimeout(() => boxRef.current?.scrollTo({ top: 1e9, behavior: "smooth" }), 50);
+    setMsgs([]); setHasMore(false); setNewCount(0); setReactions(new Map());
+    setReplies(new Map()); setExpanded(new Set()); setThread(null); setQuote(null);
+    setPinned([]); setMutes([]); setEditing(null);
+    setAttachments(new Map()); discardUploads();
+    setReadMark(getLastRead(id)); setMarkers(new Map());
+    setHasNewer(false); setHighlightId(null);
+    const target = jumpRef.current;
+    jumpRef.current = 0;
+    try {
+      const first: Promise<ChatPage | ChatWindow> = target
+        ? fetchAround(id, target).catch(e => { toastError(e); return fetchLatest(id); })
+        : fetchLatest(id);
+      const [page, reads] = await Promise.all([first, fetchReadMarkers(id)]);
+      const mine = reads.find(r => r.user_id === (window as any).__uid);
+      // Another device may have read further than this browser knows
+      if (mine) setReadMark(Math.max(getLastRead(id), mine.last_read_id));
+      setMarkers(new Map(reads.map(r => [r.user_id, r])));
+      if ("root" in page) {
+        pendingTarget.current = { root: page.root, target };
+        setHasNewer(page.hasNewer);
+      } else pendingJump.current = true;
+      setMsgs(page.messages);
+      setHasMore(page.hasMore);
+      await mergeDetails(page.messages);
+      const [pins, muted] = await Promise.all([fetchPinned(id), listMutes(id)]);
+      setPinned(pins);
+      setMutes(muted);
+    } catch (e) { toastError(e); }
+  }
+
+  // Reactions and attachments of a freshly loaded batch of messages
+  async function mergeDetails(page: ChatMessage[]) {
+    const ids = page.map(m => m.id);
+    const [loaded, files] = await Promise.all([loadReactions(ids), loadAttachments(ids)]);
+    setReactions(prev => { const next = new Map(prev); loaded.forEach((v, k) => next.set(k, v)); return next; });
+    setAttachments(prev => { const next = new Map(prev); files.forEach((v, k) => next.set(k, v)); return next; });
+    await signFiles(Array.from(files.values()).flat());
+  }
+
+  async function signFiles(list: Attachment[]) {
+    const signed = await signedUrls(list.map(a => a.path));
+    if (signed.size) setUrls(prev => { const next = new Map(prev); signed.forEach((v, k) => next.set(k, v)); return next; });
+  }
+
+  // Older messages when scrolled near the top
+  async function loadOlder() {
+    if (!gid || !hasMore || loadingOlder || !msgs.length) return;
+    setLoadingOlder(true);
+    try {
+      const page = await fetchOlder(gid, msgs[0]);
+      setMsgs(x => [...page.messages.filter(m => !x.some(y => y.id === m.id)), ...x]);
+      setHasMore(page.hasMore);
+      await mergeDetails(page.messages);
+    } catch (e) { toastError(e); }
+    finally { setLoadingOlder(false); }
+  }
+
+  // Newer messages when scrolled near the bottom of a window opened at an older message
+  async function loadNewer() {
+    if (!gid || !hasNewer || loadingNewer || !msgs.length) return;
+    setLoadingNewer(true);
+    try {
+      const page = await fetchNewer(gid, msgs[msgs.length - 1]);
+      setMsgs(x => [...x, ...page.messages.filter(m => !x.some(y => y.id === m.id))]);
+      setHasNewer(page.hasMore);
+      await mergeDetails(page.messages);
+    } catch (e) { toastError(e); }
+    finally { setLoadingNewer(false); }
   }
+
+  // Replace a window opened at an older message with the latest page
+  async function reloadLatest() {
+    if (!gid) return;
+    try {
+      const page = await fetchLatest(gid);
+      pendingJump.current = true;
+      setMsgs(page.messages);
+      setHasMore(page.hasMore);
+      setHasNewer(false);
+      setNewCount(0);
+      await mergeDetails(page.messages);
+    } catch (e) { toastError(e); }
+  }
+
+  function onScroll() {
+    const box = boxRef.current; if (!box) return;
+    const bottom = box.scrollHeight - box.scrollTop - box.clientHeight < 8;
+    atBottomRef.current = bottom;
+    setAtBottom(bottom);
+    if (bottom) {
+      setNewCount(0);
+      if (gid && msgs.length) setLastRead(gid, msgs[msgs.length - 1].id);
+    }
+    if (box.scrollTop < 200) loadOlder();
+    if (box.scrollHeight - box.scrollTop - box.clientHeight < 200) loadNewer();
+  }
+
+  function jumpToLatest() {
+    if (hasNewer) return reloadLatest();
+    listRef.current?.scrollToBottom();
+    setNewCount(0);
+  }
+
+  const firstUnread = msgs.findIndex(m => m.id > readMark && m.user_id !== (window as any).__uid);
+
+  const me = (window as any).__uid as string | undefined;
+  const typing = online.filter(p => p.typing && p.user_id !== me);
+  const inVideo = online.filter(p => p.in_video);
+  // Read receipts go under the newest message of mine
+  const lastMine = [...msgs].reverse().find(m => m.user_id === me && !m.deleted_at);
+  const seenBy = lastMine
+    ? Array.from(markers.values()).filter(r => r.user_id !== me && r.last_read_id >= lastMine.id)
+    : [];
+
+  function namesOf(list: { name?: string | null }[]) {
+    const names = list.map(p => p.name || "Someone");
+    return names.length <= 2 ? names.join(" and ") : `${names.slice(0, 2).join(", ")} and ${names.length - 2} more`;
+  }
+
+  // After the first page renders: show the first unread message, else the latest
+  useLayoutEffect(() => {
+    const jump = pendingTarget.current;
+    if (jump && msgs.length) {
+      pendingTarget.current = null;
+      const i = msgs.findIndex(m => m.id === jump.root);
+      if (i >= 0) {
+        listRef.current?.scrollToIndex(i);
+        setHighlightId(jump.target);
+        if (jump.target !== jump.root) openThread(msgs[i]);
+      }
+      return;
+    }
+    if (!pendingJump.current || !msgs.length) return;
+    pendingJump.current = false;
+    if (readMark && firstUnread > 0) listRef.current?.scrollToIndex(firstUnread);
+    else {
+      listRef.current?.scrollToBottom();
+      setLastRead(gid, msgs[msgs.length - 1].id);
+    }
+  }, [msgs]);
+  // The highlight on a message jumped to fades after a few seconds
+  useEffect(() => {
+    if (!highlightId) return;
+    const t = setTimeout(() => setHighlightId(null), 4000);
+    return () => clearTimeout(t);
+  }, [highlightId]);
+  // Open a group (and message) from the URL
+  useEffect(() => {
+    const group = params.get("group");
+    if (!group) return;
+    jumpRef.current = Number(params.get("message")) || 0;
+    if (jumpRef.current) setTab("messages");
+    if (params.get("video") === "1") setVideoOpen(true);
+    if (group !== gid) setGid(group);
+    else if (jumpRef.current) loadMessages(group);
+  }, [params]);
+  // Chat commands in the palette, for the open group
+  useEffect(() => {
+    if (!gid) return;
+    return registerCommands("chat", [
+      { id: "chat-video", label: "Open video room", hint: "This group", run: () => setVideoOpen(true) },
+      tab === "files"
+        ? { id: "chat-messages", label: "Show messages", run: () => setTab("messages") }
+        : { id: "chat-files", label: "Show shared files", run: () => setTab("files") },
+      { id: "chat-latest", label: "Jump to latest message", run: jumpToLatest },
+      { id: "chat-attach", label: "Attach files", run: () => { setTab("messages"); fileRef.current?.click(); } },
+    ]);
+  }, [gid, tab, hasNewer]);
+  // Unread badges for the group selector
+  useEffect(() => watchUnread(setUnread), []);
+  // Presence on the group's channel
+  useEffect(() => {
+    if (!gid) return;
+    let handle: GroupPresence | null = null;
+    let alive = true;
+    (async () => {
+      const u = await getUserOrWarn(); if (!u || !alive) return;
+      const { data: me } = await supabase.from("profiles").select("full_name, avatar_url").eq("id", u.id).maybeSingle();
+      if (!alive) return;
+      handle = joinGroupPresence(gid, { user_id: u.id, name: me?.full_name ?? null, avatar_url: me?.avatar_url ?? null }, setOnline);
+      handle.setInVideo(videoOpenRef.current);
+      presenceRef.current = handle;
+    })();
+    return () => {
+      alive = false;
+      clearTimeout(typingTimer.current);
+      handle?.leave();
+      presenceRef.current = null;
+      setOnline([]);
+    };
+  }, [gid]);
+  useEffect(() => { presenceRef.current?.setInVideo(videoOpen); }, [videoOpen]);
+  // Coming back from the Files tab
+  useLayoutEffect(() => { if (tab === "messages") listRef.current?.scrollToBottom(); }, [tab]);
   // On mount, load groups
   useEffect(() => { (async () => { setGroups(await myGroups()); })(); }, []);
   // Subscribe to realtime messages when gid changes
@@ -49,54 +355,416 @@ export default function Chat() {
     // Load messages and check admin status whenever the group changes
     (async () => {
       await loadMessages(gid);
-      // Determine if the current user is the admin of this group
+      // Determine the current user's role in this group
       try {
-        const u = await getUserOrWarn(); if (!u) { setIsAdmin(false); return; }
-        const { data: gdata } = await supabase.from("study_groups").select("created_by").eq("id", gid).maybeSingle();
-        setIsAdmin(gdata?.created_by === u.id);
+        const u = await getUserOrWarn(); if (!u) { setMyRole(null); return; }
+        setMyRole(await fetchMyRole(gid, u.id));
       } catch {
-        setIsAdmin(false);
+        setMyRole(null);
       }
     })();
     // Subscribe to realtime inserts for messages in this group
     if (subRef.current) supabase.removeChannel(subRef.current);
     subRef.current = supabase.channel("realtime:messages").on("postgres_changes", { event: "INSERT", schema: "public", table: "messages", filter: `group_id=eq.${gid}` }, p => {
-      setMsgs(x => [...x, p.new]);
-      setTimeout(() => boxRef.current?.scrollTo({ top: 1e9, behavior: "smooth" }), 30);
+      const m = p.new as ChatMessage;
+      const known = [...msgsRef.current, ...Array.from(repliesRef.current.values()).flat()];
+      // Realtime rows have no joins; reuse what we already have
+      const profiles = known.find(y => y.user_id === m.user_id)?.profiles ?? null;
+      const quoted = m.quote_id ? known.find(y => y.id === m.quote_id) ?? null : null;
+      const full: ChatMessage = { ...m, profiles, quoted };
+      if (m.parent_id) {
+        const root = m.parent_id;
+        setMsgs(x => x.map(y => y.id === root ? { ...y, reply_count: (y.reply_count || 0) + 1, last_reply_at: m.created_at } : y));
+        setReplies(prev => {
+          const list = prev.get(root);
+          if (!list || list.some(y => y.id === m.id)) return prev;
+          return new Map(prev).set(root, [...list, full]);
+        });
+        return;
+      }
+      // Looking at older history: don't append after a gap
+      if (hasNewerRef.current) {
+        if (m.user_id === (window as any).__uid) reloadLatest();
+        else setNewCount(n => n + 1);
+        return;
+      }
+      // Own messages always bring the view back down
+      if (m.user_id === (window as any).__uid) listRef.current?.scrollToBottom();
+      setMsgs(x => x.some(y => y.id === m.id) ? x : [...x, full]);
+      if (atBottomRef.current || m.user_id === (window as any).__uid) setLastRead(gid, m.id);
+      else setNewCount(n => n + 1);
+    }).on("postgres_changes", { event: "UPDATE", schema: "public", table: "messages", filter: `group_id=eq.${gid}` }, p => {
+      // Edits, deletions, pins and reply counters
+      const row = p.new as ChatMessage;
+      setMsgs(x => x.map(m => applyMessageUpdate(m, row)));
+      if (row.deleted_at) setAttachments(prev => { if (!prev.has(row.id)) return prev; const next = new Map(prev); next.delete(row.id); return next; });
+      setReplies(prev => {
+        const next = new Map<number, ChatMessage[]>();
+        prev.forEach((list, root) => next.set(root, list.map(m => applyMessageUpdate(m, row))));
+        return next;
+      });
+      setPinned(list => {
+        const known = [...list, ...msgsRef.current, ...Array.from(repliesRef.current.values()).flat()].find(m => m.id === row.id);
+        const rest = list.filter(m => m.id !== row.id);
+        if (!row.pinned_at || row.deleted_at) return rest;
+        const full = known ? applyMessageUpdate(known, row) : row;
+        return [full, ...rest].sort((a, b) => (b.pinned_at || "").localeCompare(a.pinned_at || ""));
+      });
+    }).on("postgres_changes", { event: "INSERT", schema: "public", table: "message_attachments", filter: `group_id=eq.${gid}` }, p => {
+      const a = p.new as Attachment;
+      setAttachments(prev => {
+        const list = prev.get(a.message_id) || [];
+        return list.some(x => x.id === a.id) ? prev : new Map(prev).set(a.message_id, [...list, a]);
+      });
+      signFiles([a]).catch(toastError);
+    }).on("postgres_changes", { event: "*", schema: "public", table: "group_reads", filter: `group_id=eq.${gid}` }, p => {
+      if (p.eventType === "DELETE") return;
+      const row = p.new as ReadMarker;
+      setMarkers(prev => new Map(prev).set(row.user_id, { ...row, profiles: prev.get(row.user_id)?.profiles ?? null }));
+    }).on("postgres_changes", { event: "*", schema: "public", table: "group_mutes" }, p => {
+      // Deletes can't be filtered server-side, so check the group here
+      const row = (p.eventType === "DELETE" ? p.old : p.new) as GroupMute;
+      if (row.group_id !== gid) return;
+      setMutes(list => {
+        const rest = list.filter(m => m.user_id !== row.user_id);
+        return p.eventType === "DELETE" ? rest : [...rest, row];
+      });
+    }).on("postgres_changes", { event: "*", schema: "public", table: "message_reactions" }, p => {
+      const row = (p.eventType === "DELETE" ? p.old : p.new) as Reaction;
+      const known = [...msgsRef.current, ...Array.from(repliesRef.current.values()).flat()];
+      if (p.eventType === "UPDATE" || !known.some(m => m.id === row.message_id)) return;
+      const name = known.find(m => m.user_id === row.user_id)?.profiles?.full_name ?? null;
+      setReactions(prev => {
+        const next = new Map(prev);
+        next.set(row.message_id, applyReactionChange(prev.get(row.message_id) || [], p.eventType as "INSERT" | "DELETE", { ...row, profiles: { full_name: name } }));
+        return next;
+      });
     }).subscribe();
     return () => { if (subRef.current) supabase.removeChannel(subRef.current); };
   }, [gid]);
-  // React to a message with an emoji
+  // React to a message with an emoji, or take the reaction back
   async function react(message_id: number, emoji: string) {
+    setPickerFor(null);
+    const u = await getUserOrWarn(); if (!u) return;
+    const current = reactions.get(message_id) || [];
+    const has = current.some(r => r.user_id === u.id && r.emoji === emoji);
+    const row: Reaction = { message_id, user_id: u.id, emoji, profiles: null };
+    const apply = (event: "INSERT" | "DELETE") => setReactions(prev => {
+      const next = new Map(prev);
+      next.set(message_id, applyReactionChange(prev.get(message_id) || [], event, row));
+      return next;
+    });
+    apply(has ? "DELETE" : "INSERT");
+    try {
+      await toggleReaction(message_id, u.id, emoji, has);
+    } catch (e) { apply(has ? "INSERT" : "DELETE"); toastError(e); }
+  }
+
+  // Replies of a thread, loaded once and then kept current by realtime
+  async function ensureReplies(rootId: number) {
+    if (replies.has(rootId)) return;
     try {
-      const u = await getUserOrWarn(); if (!u) return;
-      await supabase.from("message_reactions").upsert({ message_id, user_id: u.id, emoji });
+      const list = await fetchThread(rootId);
+      setReplies(prev => new Map(prev).set(rootId, list));
+      await mergeDetails(list);
     } catch (e) { toastError(e); }
   }
 
-  // Format message timestamp with relative dates
-  function formatTimestamp(date: string) {
-    const d = new Date(date);
-    const now = new Date();
-    const diffMs = now.getTime() - d.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    const diffDays = Math.floor(diffMs / 86400000);
+  function toggleExpanded(root: ChatMessage) {
+    ensureReplies(root.id);
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(root.id)) next.delete(root.id); else next.add(root.id);
+      return next;
+    });
+  }
+
+  function openThread(m: ChatMessage) {
+    const root = m.parent_id ? msgs.find(x => x.id === m.parent_id) || m : m;
+    setThread(root);
+    setThreadQuote(null);
+    ensureReplies(root.id);
+  }
+
+  async function send(text: string, opts: { parentId?: number; quote: QuotedMessage | null; files?: Upload[] }) {
+    const files = opts.files || [];
+    if (!gid || (!text.trim() && !files.length)) return false;
+    const u = await getUserOrWarn(); if (!u) return false;
+    try {
+      const id = await sendMessage(gid, u.id, text, { parentId: opts.parentId, quoteId: opts.quote?.id });
+      const added = await attachUploads(id, gid, u.id, files);
+      if (added.length) {
+        setAttachments(prev => new Map(prev).set(id, added));
+        await signFiles(added);
+      }
+      return true;
+    } catch (e) { toastError(e); return false; }
+  }
 
-    if (diffMins < 1) return "Just now";
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays === 1) return "Yesterday";
-    if (diffDays < 7) return `${diffDays}d ago`;
-    return d.toLocaleDateString();
+  // Show "typing…" to the group until the keyboard has been idle for a while
+  function noteTyping(text: string) {
+    clearTimeout(typingTimer.current);
+    presenceRef.current?.setTyping(!!text.trim());
+    if (text.trim()) typingTimer.current = setTimeout(() => presenceRef.current?.setTyping(false), TYPING_IDLE_MS);
   }
+
+  async function sendMain() {
+    if (uploads.some(x => x.status === "uploading")) return (window as any).notify?.("Wait for the uploads to finish", "info");
+    const files = uploads.filter(x => x.status === "done");
+    if (await send(input, { quote, files })) { setInput(""); setQuote(null); setUploads([]); noteTyping(""); }
+  }
+
+  // Start uploading dropped, pasted or picked files
+  async function addFiles(list: FileList | File[]) {
+    const files = Array.from(list);
+    if (!gid || !files.length) return;
+    const u = await getUserOrWarn(); if (!u) return;
+    if (uploads.length + files.length > MAX_FILES_PER_MESSAGE) {
+      return (window as any).notify?.(`Up to ${MAX_FILES_PER_MESSAGE} files per message`, "error");
+    }
+    for (const file of files) {
+      const problem = checkFile(file);
+      if (problem) { (window as any).notify?.(problem, "error"); continue; }
+      const started = startUpload(gid, u.id, file, next => setUploads(x => x.map(y => y.key === next.key ? next : y)));
+      setUploads(x => [...x, started]);
+    }
+  }
+
+  // Cancel an upload, or remove an uploaded file that won't be sent
+  function dropUpload(up: Upload) {
+    if (up.status === "uploading") up.cancel();
+    else if (up.status === "done") removeFiles([up.path]).catch(toastError);
+    setUploads(x => x.filter(y => y.key !== up.key));
+  }
+
+  function discardUploads() {
+    uploads.forEach(up => { if (up.status === "uploading") up.cancel(); });
+    const done = uploads.filter(up => up.status === "done").map(up => up.path);
+    if (done.length) removeFiles(done).catch(toastError);
+    setUploads([]);
+  }
+
+  async function sendReply() {
+    if (!thread) return;
+    if (await send(threadInput, { parentId: thread.id, quote: threadQuote })) { setThreadInput(""); setThreadQuote(null); noteTyping(""); }
+  }
+
+  // Active mute of a member, if any
+  function mutedUntil(userId: string) {
+    const m = mutes.find(x => x.user_id === userId && new Date(x.muted_until).getTime() > Date.now());
+    return m ? new Date(m.muted_until) : null;
+  }
+  const myMute = mutedUntil((window as any).__uid);
+
+  async function saveEdit() {
+    if (!editing) return;
+    const text = editing.text.trim();
+    if (!text) return;
+    try {
+      await editMessage(editing.id, text);
+      setEditing(null);
+    } catch (e) { toastError(e); }
+  }
+
+  async function remove(m: ChatMessage) {
+    const own = m.user_id === (window as any).__uid;
+    if (!confirm(own ? "Delete this message?" : "Delete this message for everyone in the group?")) return;
+    try {
+      const files = attachments.get(m.id) || [];
+      await deleteMessage(m.id);
+      await removeFiles(files.map(a => a.path));
+    } catch (e) { toastError(e); }
+  }
+
+  async function togglePin(m: ChatMessage) {
+    const u = await getUserOrWarn(); if (!u) return;
+    try { await pinMessage(m.id, u.id, !m.pinned_at); } catch (e) { toastError(e); }
+  }
+
+  async function showHistory(m: ChatMessage) {
+    try { setHistory({ message: m, edits: await fetchEditHistory(m.id) }); } catch (e) { toastError(e); }
+  }
+
+  async function applyMute(unmute = false) {
+    if (!gid || !muteTarget) return;
+    const u = await getUserOrWarn(); if (!u) return;
+    try {
+      if (unmute) await unmuteMember(gid, muteTarget.user_id);
+      else await muteMember(gid, muteTarget.user_id, muteMinutes, u.id);
+      (window as any).notify?.(unmute ? "Member unmuted" : "Member muted", "success");
+      setMuteTarget(null);
+    } catch (e) { toastError(e); }
+  }
+
+  function renderAttachments(messageId: number) {
+    const list = attachments.get(messageId);
+    if (!list?.length) return null;
+    return (
+      <div className="mt-1 flex flex-wrap gap-2">
+        {list.map(a => isImage(a.mime_type) ? (
+          <a key={a.id} href={urls.get(a.path)} target="_blank" rel="noreferrer" title={a.name}>
+            {urls.get(a.path)
+              ? <img src={urls.get(a.path)} alt={a.name} loading="lazy" className="max-h-48 max-w-[16rem] rounded-lg border border-white/15 object-cover" />
+              : <div className="h-24 w-32 animate-pulse rounded-lg bg-white/10" />}
+          </a>
+        ) : (
+          <a
+            key={a.id}
+            href={urls.get(a.path)}
+            target="_blank"
+            rel="noreferrer"
+            className="flex max-w-[16rem] items-center gap-2 rounded-lg border border-white/15 bg-black/20 px-3 py-2 text-sm hover:bg-black/30"
+          >
+            {isPdf(a.mime_type) ? <FileText size={20} className="shrink-0 text-red-300" /> : <Paperclip size={20} className="shrink-0 text-white/70" />}
+            <span className="min-w-0">
+              <span className="block truncate">{a.name}</span>
+              <span className="text-xs text-white/60">{isPdf(a.mime_type) ? "PDF · " : ""}{formatBytes(a.size)}</span>
+            </span>
+          </a>
+        ))}
+      </div>
+    );
+  }
+
+  function deletedNote(m: ChatMessage) {
+    return m.deleted_by && m.deleted_by !== m.user_id ? "Removed by the group admin" : "This message was deleted";
+  }
+
+  function renderQuote(q: QuotedMessage, onClear?: () => void) {
+    return (
+      <div className="mb-1 flex items-start gap-2 rounded-md border-l-2 border-cyan-300/60 bg-black/20 px-2 py-1 text-xs text-white/70">
+        <div className="min-w-0 flex-1">
+          <span className="font-semibold">{q.profiles?.full_name || "Anon"}</span>
+          {q.deleted_at
+            ? <div className="italic opacity-70">Message deleted</div>
+            : <div className="line-clamp-2 whitespace-pre-wrap">{q.content}</div>}
+        </div>
+        {onClear ? <button title="Remove quote" onClick={onClear} className="text-white/60 hover:text-white"><X size={12} /></button> : null}
+      </div>
+    );
+  }
+
+  // `inThread`: rendered in the side panel (no thread controls)
+  function renderMessage(m: ChatMessage, inThread = false) {
+    const quoteIt = () => (inThread ? setThreadQuote : setQuote)(m);
+    const mine = (window as any).__uid === m.user_id;
+    return m.kind === "system" ? (
+      // Automatic notices (e.g. a session was moved or cancelled)
+      <div className="mx-auto max-w-[90%] rounded-lg bg-white/5 px-3 py-1 text-center text-xs text-white/70">
+        <span className="font-semibold">{m.profiles?.full_name || "Someone"}</span>: {m.content}
+        <span className="ml-2 opacity-60">{formatTimestamp(m.created_at)}</span>
+      </div>
+    ) : (
+      <div className={"chat-bubble " + (mine ? "chat-me" : "chat-them") + (highlightId === m.id ? " ring-2 ring-amber-300" : "")}>
+        <div className="mb-1 flex items-center gap-2 text-sm text-white/80">
+          <img className="h-6 w-6 rounded-full border border-white/20" src={m.profiles?.avatar_url || logo} alt="" />
+          <span className="font-semibold">{m.profiles?.full_name || "Anon"}</span>
+          <span className="text-xs opacity-60">{formatTimestamp(m.created_at)}</span>
+          {m.edited_at && !m.deleted_at ? (
+            <button className="text-xs opacity-60 hover:underline" title="Show edit history" onClick={() => showHistory(m)}>(edited)</button>
+          ) : null}
+          {m.pinned_at ? <Pin size={12} className="text-amber-300" aria-label="Pinned" /> : null}
+        </div>
+        {m.deleted_at ? (
+          <div className="italic text-white/60">{deletedNote(m)}</div>
+        ) : editing?.id === m.id ? (
+          <div className="flex items-center gap-2">
+            <textarea
+              autoFocus
+              className="input bg-white/10 text-white"
+              rows={rowsFor(editing.text)}
+              value={editing.text}
+              onChange={e => setEditing({ id: m.id, text: e.target.value })}
+              onKeyDown={(e) => { if (enterSends(e)) saveEdit(); if (e.key === "Escape") setEditing(null); }}
+            />
+            <Button size="sm" onClick={saveEdit}>Save</Button>
+            <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+          </div>
+        ) : (
+          <>
+            {m.quoted ? renderQuote(m.quoted) : null}
+            {m.content ? <RichText text={m.content} /> : null}
+            {renderAttachments(m.id)}
+          </>
+        )}
+        {!m.deleted_at ? (
+          <div className="mt-1 flex flex-wrap items-center gap-1">
+            <ReactionChips
+              reactions={reactions.get(m.id) || []}
+              onReact={emoji => react(m.id, emoji)}
+              onPicker={() => setPickerFor(pickerFor === m.id ? null : m.id)}
+            />
+            <button title="Quote" className="badge opacity-60 hover:bg-white/20 hover:opacity-100" onClick={quoteIt}>
+              <Quote size={14} />
+            </button>
+            {!inThread ? (
+              <button title="Reply in thread" className="badge opacity-60 hover:bg-white/20 hover:opacity-100" onClick={() => openThread(m)}>
+                <MessageSquare size={14} />
+              </button>
+            ) : null}
+            {mine ? (
+              <button title="Edit" className="badge opacity-60 hover:bg-white/20 hover:opacity-100" onClick={() => setEditing({ id: m.id, text: m.content })}>
+                <Pencil size={14} />
+              </button>
+            ) : null}
+            {mine || isAdmin ? (
+              <button title="Delete" className="badge opacity-60 hover:bg-white/20 hover:opacity-100" onClick={() => remove(m)}>
+                <Trash2 size={14} />
+              </button>
+            ) : null}
+            {isAdmin ? (
+              <button title={m.pinned_at ? "Unpin" : "Pin"} className="badge opacity-60 hover:bg-white/20 hover:opacity-100" onClick={() => togglePin(m)}>
+                {m.pinned_at ? <PinOff size={14} /> : <Pin size={14} />}
+              </button>
+            ) : null}
+            {isAdmin && !mine ? (
+              <button title="Mute member" className="badge opacity-60 hover:bg-white/20 hover:opacity-100" onClick={() => setMuteTarget(m)}>
+                <VolumeX size={14} />
+              </button>
+            ) : null}
+          </div>
+        ) : null}
+        {pickerFor === m.id ? <EmojiPicker onPick={emoji => react(m.id, emoji)} /> : null}
+        {!inThread && m.reply_count ? (
+          <div className="mt-1 text-xs">
+            <button className="text-cyan-300 hover:underline" onClick={() => toggleExpanded(m)}>
+              {expanded.has(m.id) ? "▾" : "▸"} {m.reply_count} {m.reply_count === 1 ? "reply" : "replies"}
+            </button>
+            <button className="ml-3 text-white/60 hover:underline" onClick={() => openThread(m)}>Open thread</button>
+            {expanded.has(m.id) ? (
+              <div className="mt-1 grid gap-1 border-l border-white/20 pl-2">
+                {(replies.get(m.id) || []).map(r => (
+                  <div key={r.id} className="text-sm">
+                    <span className="font-semibold text-white/80">{r.profiles?.full_name || "Anon"}</span>
+                    <span className="ml-2 text-xs opacity-60">{formatTimestamp(r.created_at)}</span>
+                    {r.edited_at && !r.deleted_at ? <span className="ml-1 text-xs opacity-60">(edited)</span> : null}
+                    {r.deleted_at ? (
+                      <div className="italic text-white/60">{deletedNote(r)}</div>
+                    ) : (
+                      <>
+                        {r.quoted ? renderQuote(r.quoted) : null}
+                        {r.content ? <RichText text={r.content} /> : null}
+                        {renderAttachments(r.id)}
+                      </>
+                    )}
+                  </div>
+                ))}
+                {!replies.has(m.id) ? <div className="text-white/60">Loading…</div> : null}
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+    );
+  }
+
   return (
     <Card className="p-4">
       <div className="mb-2 flex flex-wrap items-center gap-2">
         <label className="text-sm text-white/85" htmlFor="groupSel">Group</label>
         <select id="groupSel" className="select w-64 bg-white/10 text-white" value={gid} onChange={e => setGid(e.target.value)}>
           <option value="">Select group</option>
-          {groups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+          {groups.map(g => <option key={g.id} value={g.id}>{g.name}{unread.get(g.id) ? ` (${unread.get(g.id)})` : ""}</option>)}
         </select>
         {/* Start the video room. Any member can open the room. If the user is the
             admin of the group, show a badge to indicate their role. */}
@@ -112,53 +780,226 @@ export default function Chat() {
           >
             Start Video Room
           </Button>
-          {gid && isAdmin ? (
-            <span className="badge bg-accent/20 text-accent px-2 py-0.5 text-xs">Admin</span>
+          {gid && myRole && isAdmin ? (
+            <span className="badge bg-accent/20 text-accent px-2 py-0.5 text-xs">{ROLE_LABELS[myRole]}</span>
           ) : null}
         </div>
+        <div className="ml-auto flex items-center gap-1">
+          <Button size="sm" variant={tab === "messages" ? "primary" : "ghost"} onClick={() => setTab("messages")}>Messages</Button>
+          <Button size="sm" variant={tab === "files" ? "primary" : "ghost"} disabled={!gid} onClick={() => setTab("files")}>Files</Button>
+        </div>
       </div>
-      {/* Messages list */}
-      <div ref={boxRef} className="mb-2 flex h-80 flex-col gap-2 overflow-auto rounded-xl border border-white/15 bg-white/10 p-2 text-white">
-        {msgs.map((m) => (
-          <div key={m.id} className={"chat-bubble " + ((window as any).__uid === m.user_id ? "chat-me" : "chat-them")}> 
-            <div className="mb-1 flex items-center gap-2 text-sm text-white/80">
-              <img className="h-6 w-6 rounded-full border border-white/20" src={m.profiles?.avatar_url || logo} alt="" />
-              <span className="font-semibold">{m.profiles?.full_name || "Anon"}</span>
-              <span className="text-xs opacity-60">{formatTimestamp(m.created_at)}</span>
+      {/* Who's here */}
+      {gid && online.length ? (
+        <div className="mb-2 flex flex-wrap items-center gap-2 text-xs text-white/70">
+          <div className="flex -space-x-2">
+            {online.slice(0, 8).map(p => (
+              <img key={p.user_id} title={p.name || "Someone"} src={p.avatar_url || logo} alt="" className="h-6 w-6 rounded-full border-2 border-emerald-400/80 bg-black/40" />
+            ))}
+          </div>
+          <span>{online.length} online</span>
+          {inVideo.length ? (
+            <span className="badge flex items-center gap-1"><Video size={12} /> {namesOf(inVideo)} in the video room</span>
+          ) : null}
+        </div>
+      ) : null}
+      {tab === "files" && gid ? (
+        <GroupFiles groupId={gid} />
+      ) : (
+        <div className="flex gap-3">
+          <div
+            className="relative min-w-0 flex-1"
+            onDragOver={(e) => { if (e.dataTransfer.types.includes("Files")) { e.preventDefault(); setDragging(true); } }}
+            onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragging(false); }}
+            onDrop={(e) => { e.preventDefault(); setDragging(false); if (!myMute) addFiles(e.dataTransfer.files); }}
+          >
+            {dragging ? (
+              <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center rounded-xl border-2 border-dashed border-cyan-300/70 bg-black/60 text-white">
+                Drop files to share them
+              </div>
+            ) : null}
+            {/* Pinned messages */}
+            {pinned.length ? (
+              <div className="mb-2 grid gap-1 rounded-xl border border-amber-300/30 bg-amber-500/10 p-2 text-sm text-white">
+                {pinned.map(m => (
+                  <div key={m.id} className="flex items-center gap-2">
+                    <Pin size={12} className="shrink-0 text-amber-300" />
+                    <span className="font-semibold">{m.profiles?.full_name || "Anon"}:</span>
+                    <span className="min-w-0 flex-1 truncate">{m.content}</span>
+                    {isAdmin ? (
+                      <button title="Unpin" onClick={() => togglePin(m)} className="rounded p-1 text-white/70 hover:bg-white/10"><PinOff size={12} /></button>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            ) : null}
+            {/* Messages list */}
+            <div className="relative mb-2">
+              <div ref={boxRef} onScroll={onScroll} className="h-80 overflow-auto rounded-xl border border-white/15 bg-white/10 p-2 text-white">
+                {hasMore ? (
+                  <div className="pb-2 text-center text-xs text-white/60">{loadingOlder ? "Loading older messages…" : "Scroll up for older messages"}</div>
+                ) : msgs.length ? (
+                  <div className="pb-2 text-center text-xs text-white/50">Start of the conversation</div>
+                ) : null}
+                <VirtualList
+                  items={msgs}
+                  itemKey={(m) => m.id}
+                  scrollRef={boxRef}
+                  followOutput
+                  handle={listRef}
+                  render={(m, i) => (
+                    <div className="pb-2">
+                      {i === firstUnread && readMark ? (
+                        <div className="mb-2 flex items-center gap-2 text-xs text-red-300">
+                          <div className="h-px flex-1 bg-red-300/40" /> New messages <div className="h-px flex-1 bg-red-300/40" />
+                        </div>
+                      ) : null}
+                      {renderMessage(m)}
+                      {m.id === lastMine?.id && seenBy.length ? (
+                        <div className="mt-1 text-right text-[11px] text-white/50" title={seenBy.map(r => r.profiles?.full_name || "Someone").join(", ")}>
+                          Seen by {namesOf(seenBy.map(r => ({ name: r.profiles?.full_name })))}
+                        </div>
+                      ) : null}
+                    </div>
+                  )}
+                />
+              </div>
+              {!atBottom ? (
+                <button
+                  onClick={jumpToLatest}
+                  className="absolute bottom-3 right-4 rounded-full border border-white/20 bg-cyan-600/90 px-3 py-1 text-xs text-white shadow hover:bg-cyan-500"
+                >
+                  {newCount ? `${newCount} new message${newCount === 1 ? "" : "s"} ↓` : "Jump to latest ↓"}
+                </button>
+              ) : null}
             </div>
-            <div className="whitespace-pre-wrap">{m.content}</div>
-            <div className="mt-1 flex flex-wrap items-center gap-1">
-              {EMOJIS.map(e => <button key={e} className="badge hover:bg-white/20" onClick={() => react(m.id, e)}>{e}</button>)}
+            {/* Who's typing */}
+            <div className="h-5 text-xs italic text-white/60">
+              {typing.length ? `${namesOf(typing)} ${typing.length === 1 ? "is" : "are"} typing…` : null}
+            </div>
+            {/* Input box */}
+            {myMute ? (
+              <div className="mb-2 rounded-lg border border-red-300/30 bg-red-500/10 px-3 py-1 text-sm text-red-200">
+                You are muted in this group until {myMute.toLocaleString()}.
+              </div>
+            ) : null}
+            {quote ? renderQuote(quote, () => setQuote(null)) : null}
+            {uploads.length ? (
+              <div className="mb-2 grid gap-1">
+                {uploads.map(up => (
+                  <div key={up.key} className="flex items-center gap-2 rounded-lg bg-white/5 px-2 py-1 text-xs text-white/80">
+                    <Paperclip size={12} className="shrink-0" />
+                    <span className="min-w-0 flex-1 truncate">{up.file.name || "file"} · {formatBytes(up.file.size)}</span>
+                    {up.status === "error" ? (
+                      <span className="text-red-300">{up.error}</span>
+                    ) : (
+                      <div className="h-1.5 w-24 overflow-hidden rounded-full bg-white/10">
+                        <div className={"h-full " + (up.status === "done" ? "bg-emerald-400" : "bg-cyan-400")} style={{ width: `${Math.round(up.progress * 100)}%` }} />
+                      </div>
+                    )}
+                    <button title={up.status === "uploading" ? "Cancel upload" : "Remove"} onClick={() => dropUpload(up)} className="text-white/60 hover:text-white"><X size={12} /></button>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+            {preview && input.trim() ? (
+              <div className="mb-2 max-h-48 overflow-auto rounded-lg border border-white/15 bg-white/5 p-2 text-sm text-white">
+                <RichText text={input} />
+              </div>
+            ) : null}
+            <div className="flex items-center gap-2">
+              <input
+                ref={fileRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={e => { if (e.target.files) addFiles(e.target.files); e.target.value = ""; }}
+              />
+              <Button variant="ghost" title="Attach files" disabled={!gid || !!myMute} onClick={() => fileRef.current?.click()}>
+                <Paperclip size={16} />
+              </Button>
+              <textarea
+                className="input bg-white/10 text-white placeholder:text-white/60"
+                placeholder="Write a message… (Markdown, `code`, $math$)"
+                rows={rowsFor(input)}
+                value={input}
+                disabled={!!myMute}
+                onChange={e => { setInput(e.target.value); noteTyping(e.target.value); }}
+                onKeyDown={(e) => { if (enterSends(e)) sendMain(); }}
+                onPaste={(e) => { if (e.clipboardData.files.length) { e.preventDefault(); addFiles(e.clipboardData.files); } }}
+              />
+              <Button variant="ghost" title={preview ? "Hide preview" : "Preview"} onClick={() => setPreview(p => !p)}>
+                {preview ? <EyeOff size={16} /> : <Eye size={16} />}
+              </Button>
+              <Button onClick={sendMain} disabled={!!myMute}>Send</Button>
             </div>
           </div>
-        ))}
-      </div>
-      {/* Input box */}
-      <div className="flex items-center gap-2">
-        <input 
-          className="input bg-white/10 text-white placeholder:text-white/60" 
-          placeholder="Write a message…" 
-          value={input} 
-          onChange={e => setInput(e.target.value)}
-          onKeyDown={async (e) => {
-          if (e.key === "Enter") {
-            const gid2 = gid; if (!gid2) return;
-            const u = await getUserOrWarn(); if (!u) return;
-            try {
-              await supabase.from("messages").insert({ group_id: gid2, content: input, user_id: u.id });
-              setInput("");
-            } catch (e) { toastError(e); }
-          }
-        }} />
-        <Button onClick={async () => {
-          const gid2 = gid; if (!gid2) return;
-          const u = await getUserOrWarn(); if (!u) return;
-          try {
-            await supabase.from("messages").insert({ group_id: gid2, content: input, user_id: u.id });
-            setInput("");
-          } catch (e) { toastError(e); }
-        }}>Send</Button>
-      </div>
+          {/* Thread side panel */}
+          {thread ? (
+            <aside className="flex w-80 shrink-0 flex-col rounded-xl border border-white/15 bg-white/5 p-2">
+              <div className="mb-2 flex items-center justify-between">
+                <span className="text-sm font-semibold">Thread</span>
+                <button title="Close thread" onClick={() => setThread(null)} className="rounded p-1 text-white/70 hover:bg-white/10"><X size={14} /></button>
+              </div>
+              <div className="mb-2 flex h-80 flex-col gap-2 overflow-auto">
+                {renderMessage(msgs.find(x => x.id === thread.id) || thread, true)}
+                <div className="text-center text-xs text-white/50">
+                  {(msgs.find(x => x.id === thread.id) || thread).reply_count || 0} replies
+                </div>
+                {(replies.get(thread.id) || []).map(r => <div key={r.id}>{renderMessage(r, true)}</div>)}
+              </div>
+              {threadQuote ? renderQuote(threadQuote, () => setThreadQuote(null)) : null}
+              <div className="flex items-center gap-2">
+                <textarea
+                  className="input bg-white/10 text-white placeholder:text-white/60"
+                  placeholder="Reply…"
+                  rows={rowsFor(threadInput)}
+                  value={threadInput}
+                  disabled={!!myMute}
+                  onChange={e => { setThreadInput(e.target.value); noteTyping(e.target.value); }}
+                  onKeyDown={(e) => { if (enterSends(e)) sendReply(); }}
+                />
+                <Button size="sm" onClick={sendReply} disabled={!!myMute}>Reply</Button>
+              </div>
+            </aside>
+          ) : null}
+        </div>
+      )}
+      {/* Edit history */}
+      <Modal open={!!history} onOpenChange={(o) => { if (!o) setHistory(null); }} title="Edit history">
+        {history ? (
+          <div className="grid gap-2 text-sm">
+            {history.edits.map(e => (
+              <div key={e.id} className="rounded-lg bg-white/5 p-2">
+                <div className="text-xs opacity-60">Until {new Date(e.edited_at).toLocaleString()}</div>
+                <RichText text={e.content} />
+              </div>
+            ))}
+            <div className="rounded-lg border border-white/15 p-2">
+              <div className="text-xs opacity-60">Current</div>
+              <RichText text={history.message.content} />
+            </div>
+          </div>
+        ) : null}
+      </Modal>
+      {/* Mute a member (admin) */}
+      <Modal open={!!muteTarget} onOpenChange={(o) => { if (!o) setMuteTarget(null); }} title="Mute member">
+        {muteTarget ? (
+          <div className="grid gap-3 text-sm">
+            <p>
+              {muteTarget.profiles?.full_name || "This member"} won't be able to post in this group until the mute ends.
+              {mutedUntil(muteTarget.user_id) ? ` Currently muted until ${mutedUntil(muteTarget.user_id)!.toLocaleString()}.` : ""}
+            </p>
+            <select className="select bg-white/10 text-white" value={muteMinutes} onChange={e => setMuteMinutes(Number(e.target.value))}>
+              {MUTE_DURATIONS.map(d => <option key={d.minutes} value={d.minutes}>{d.label}</option>)}
+            </select>
+            <div className="flex justify-end gap-2">
+              {mutedUntil(muteTarget.user_id) ? <Button variant="outline" onClick={() => applyMute(true)}>Unmute</Button> : null}
+              <Button variant="danger" onClick={() => applyMute()}>Mute</Button>
+            </div>
+          </div>
+        ) : null}
+      </Modal>
       {/* Video room overlay */}
       <VideoRoom open={videoOpen} roomKey={gid || "adhoc"} onClose={() => setVideoOpen(false)} />
     </Card>
@@ -0,0 +1,351 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { supabase, getUserOrWarn, toastError } from "../lib/supabase";
+import {
+  ROLE_LABELS, answerJoinRequest, banMember, deleteGroup, fetchGroup, fetchMyRole, isAdminRole, listBans,
+  listJoinRequests, listMembers, outranks, removeMember, setMemberRole, transferOwnership, unbanMember, updateGroup,
+  type GroupBan, type GroupDetails, type GroupMember, type GroupRole, type JoinRequest,
+} from "../lib/groups";
+import { Card } from "../components/ui/Card";
+import { Input } from "../components/ui/Input";
+import { Button } from "../components/ui/Button";
+import logo from "../assets/logo.svg";
+
+type Draft = { name: string; description: string; tags: string; is_public: boolean; max_members: string; unique_key: string };
+
+function toDraft(g: GroupDetails): Draft {
+  return {
+    name: g.name,
+    description: g.description || "",
+    tags: (g.tags || []).join(", "),
+    is_public: g.is_public !== false,
+    max_members: g.max_members ? String(g.max_members) : "",
+    unique_key: g.unique_key || "",
+  };
+}
+
+/**
+ * Group settings (/groups/:id/settings), reached from the Groups page.
+ *
+ * Everyone sees the member list with roles and can leave. The owner edits
+ * the group's details (name, description, tags, public/private, member
+ * limit, join code), promotes and demotes moderators, hands the group over
+ * and can delete it; an owner has to hand the group over before leaving.
+ * Owners and moderators answer join requests and remove or ban the people
+ * below them (lib/groups.ts). The member list follows realtime changes, so
+ * someone removed while the page is open sees it right away.
+ */
+export default function GroupSettings() {
+  const { id = "" } = useParams();
+  const nav = useNavigate();
+  const [me, setMe] = useState<string | null>(null);
+  const [group, setGroup] = useState<GroupDetails | null>(null);
+  const [role, setRole] = useState<GroupRole | null>(null);
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [requests, setRequests] = useState<JoinRequest[]>([]);
+  const [bans, setBans] = useState<GroupBan[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Which action is running: "save", "delete", or `<action>-<user id>`
+  const [busy, setBusy] = useState<string | null>(null);
+  const meRef = useRef<string | null>(null);
+
+  const isOwner = role === "owner";
+  const isAdmin = isAdminRole(role);
+
+  async function refresh() {
+    const uid = meRef.current; if (!uid) return;
+    const [g, r, list] = await Promise.all([fetchGroup(id), fetchMyRole(id, uid), listMembers(id)]);
+    setGroup(g);
+    setRole(r);
+    setMembers(list);
+    if (isAdminRole(r)) {
+      const [reqs, bs] = await Promise.all([listJoinRequests(id), listBans(id)]);
+      setRequests(reqs);
+      setBans(bs);
+    } else {
+      setRequests([]);
+      setBans([]);
+    }
+    return g;
+  }
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      const user = await getUserOrWarn(); if (!user) { setLoading(false); return; }
+      meRef.current = user.id;
+      setMe(user.id);
+      try {
+        const g = await refresh();
+        if (alive && g) setDraft(toDraft(g));
+      } catch (e) { toastError(e); }
+      if (alive) setLoading(false);
+    })();
+    // Roles, joins and removals made elsewhere
+    const ch = supabase
+      .channel(`group-settings:${id}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "group_members" }, p => {
+        // Deletes can't be filtered server-side, so check the group here
+        const row = (p.eventType === "DELETE" ? p.old : p.new) as { group_id?: string };
+        if (row.group_id !== id) return;
+        refresh().catch(() => {});
+      })
+      .subscribe();
+    return () => { alive = false; supabase.removeChannel(ch); };
+  }, [id]);
+
+  // Run an action with its busy marker, then reload
+  async function act(key: string, fn: () => Promise<void>, done?: string) {
+    if (busy) return;
+    setBusy(key);
+    try {
+      await fn();
+      if (done) (window as any).notify?.(done, "success");
+      await refresh();
+    } catch (e) { toastError(e); }
+    finally { setBusy(null); }
+  }
+
+  function saveDetails() {
+    if (!draft || !group) return;
+    const name = draft.name.trim();
+    if (!name) return (window as any).notify?.("Enter a group name", "error");
+    const code = draft.unique_key.trim().toLowerCase();
+    if (code.length < 6) return (window as any).notify?.("Join code must be at least 6 characters", "error");
+    const max = draft.max_members.trim() ? parseInt(draft.max_members, 10) : null;
+    if (max !== null && !(max > 0)) return (window as any).notify?.("Member limit must be a positive number", "error");
+    act("save", () => updateGroup(group.id, {
+      name,
+      description: draft.description.trim() || null,
+      tags: draft.tags.split(",").map(t => t.trim()).filter(Boolean),
+      is_public: draft.is_public,
+      max_members: max,
+      unique_key: code,
+    }), "Group updated");
+  }
+
+  function changeRole(m: GroupMember, next: "moderator" | "member") {
+    act(`role-${m.user_id}`, () => setMemberRole(id, m.user_id, next), `${nameOf(m)} is now a ${ROLE_LABELS[next].toLowerCase()}`);
+  }
+
+  function handOver(m: GroupMember) {
+    if (!confirm(`Make ${nameOf(m)} the owner of ${group?.name}? You will stay on as a moderator.`)) return;
+    act(`owner-${m.user_id}`, () => transferOwnership(id, m.user_id), "Ownership transferred");
+  }
+
+  function remove(m: GroupMember) {
+    if (!confirm(`Remove ${nameOf(m)} from the group? They can join again unless you ban them.`)) return;
+    act(`remove-${m.user_id}`, () => removeMember(id, m.user_id), "Member removed");
+  }
+
+  function ban(m: GroupMember) {
+    const reason = prompt(`Ban ${nameOf(m)}? They will be removed and can't join again until unbanned.\n\nReason (optional):`);
+    if (reason === null || !me) return;
+    act(`ban-${m.user_id}`, () => banMember(id, m.user_id, me, reason), "Member banned");
+  }
+
+  function leave() {
+    if (!me || !confirm(`Leave ${group?.name}?`)) return;
+    act("leave", async () => {
+      await removeMember(id, me);
+      nav("/groups");
+    });
+  }
+
+  function destroy() {
+    if (!group || !confirm(`Delete ${group.name} for everyone? Its chat, sessions and files go with it.`)) return;
+    act("delete", async () => {
+      await deleteGroup(group.id);
+      (window as any).notify?.("Group deleted", "success");
+      nav("/groups");
+    });
+  }
+
+  async function copyCode() {
+    if (!group?.unique_key) return;
+    await navigator.clipboard.writeText(group.unique_key);
+    (window as any).notify?.("Join code copied", "success");
+  }
+
+  if (loading) return <Card className="p-4">Loading…</Card>;
+  if (!group || !role) {
+    return (
+      <Card className="p-4">
+        <p className="mb-3 text-white/80">You are not a member of this group.</p>
+        <Link to="/groups"><Button variant="outline" size="sm">Back to groups</Button></Link>
+      </Card>
+    );
+  }
+
+  const full = !!group.max_members && members.length >= group.max_members;
+
+  return (
+    <div className="grid gap-4">
+      <Card className="p-4">
+        <div className="mb-4 flex flex-wrap items-center gap-2">
+          <Link to="/groups" className="text-sm text-white/60 hover:text-white">← Groups</Link>
+          <h2 className="text-xl font-bold">{group.name}</h2>
+          <span className="badge text-xs">{ROLE_LABELS[role]}</span>
+          {group.is_public === false ? <span className="badge text-xs">Private</span> : null}
+          <div className="ml-auto flex items-center gap-2">
+            <Link to={`/chat?group=${group.id}`}><Button size="sm" variant="ghost">Open chat</Button></Link>
+          </div>
+        </div>
+
+        {isOwner && draft ? (
+          <div className="grid gap-3">
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="grid gap-2">
+                <label className="text-sm text-white/80">Group name</label>
+                <Input className="bg-white/10 text-white" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+              </div>
+              <div className="grid gap-2">
+                <label className="text-sm text-white/80">Join code</label>
+                <div className="flex items-center gap-2">
+                  <Input className="flex-1 bg-white/10 text-white lowercase tracking-wide font-mono" value={draft.unique_key} onChange={e => setDraft({ ...draft, unique_key: e.target.value.toLowerCase().replace(/[^a-z0-9]/g, "") })} />
+                  <Button size="sm" variant="ghost" onClick={copyCode}>Copy</Button>
+                </div>
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <label className="text-sm text-white/80">Description</label>
+              <textarea className="input bg-white/10 text-white min-h-16 resize-y" value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} />
+            </div>
+            <div className="grid gap-3 md:grid-cols-2">
+              <div className="grid gap-2">
+                <label className="text-sm text-white/80">Tags (comma separated)</label>
+                <Input className="bg-white/10 text-white" placeholder="calculus, exam prep" value={draft.tags} onChange={e => setDraft({ ...draft, tags: e.target.value })} />
+              </div>
+              <div className="grid gap-2">
+                <label className="text-sm text-white/80">Member limit</label>
+                <Input className="bg-white/10 text-white" type="number" min="1" placeholder="No limit" value={draft.max_members} onChange={e => setDraft({ ...draft, max_members: e.target.value })} />
+                <p className="text-xs text-white/60">Currently {members.length}. Nobody new can join while the group is at its limit.</p>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-white/80">
+              <input type="checkbox" checked={draft.is_public} onChange={e => setDraft({ ...draft, is_public: e.target.checked })} />
+              Public: listed on the Groups page and open to join. Private groups are joined by code and need approval.
+            </label>
+            <div className="flex gap-2">
+              <Button onClick={saveDetails} loading={busy === "save"}>Save changes</Button>
+              <Button variant="ghost" onClick={() => setDraft(toDraft(group))}>Reset</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="grid gap-1 text-sm text-white/80">
+            {group.description ? <p>{group.description}</p> : null}
+            {group.tags?.length ? <p className="text-white/60">{group.tags.join(" · ")}</p> : null}
+            <p className="text-white/60">
+              {members.length}{group.max_members ? ` / ${group.max_members}` : ""} members
+              {group.unique_key ? <> · Join code <span className="font-mono">{group.unique_key}</span> <button className="underline" onClick={copyCode}>copy</button></> : null}
+            </p>
+          </div>
+        )}
+      </Card>
+
+      {isAdmin ? (
+        <Card className="p-4">
+          <h3 className="mb-2 text-lg font-semibold">Join requests</h3>
+          {full ? <p className="mb-2 text-xs text-amber-300">The group is at its member limit; approving needs a free place.</p> : null}
+          {requests.length === 0 ? (
+            <p className="text-sm text-white/60">No pending requests.</p>
+          ) : (
+            <ul className="grid gap-2">
+              {requests.map(r => (
+                <li key={r.user_id} className="flex items-center gap-2 rounded-xl border border-white/15 bg-white/5 p-2">
+                  <img src={r.person?.avatar_url || logo} alt="" className="h-8 w-8 rounded-full bg-black/40" />
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate font-medium">{r.person?.full_name || "Someone"}</div>
+                    <div className="text-xs text-white/60">Asked {new Date(r.created_at).toLocaleString()}</div>
+                  </div>
+                  <Button size="sm" loading={busy === `approve-${r.user_id}`} onClick={() => act(`approve-${r.user_id}`, () => answerJoinRequest(id, r.user_id, true), "Request approved")}>Approve</Button>
+                  <Button size="sm" variant="ghost" loading={busy === `decline-${r.user_id}`} onClick={() => act(`decline-${r.user_id}`, () => answerJoinRequest(id, r.user_id, false), "Request declined")}>Decline</Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      ) : null}
+
+      <Card className="p-4">
+        <h3 className="mb-2 text-lg font-semibold">Members</h3>
+        <ul className="grid gap-2">
+          {members.map(m => {
+            const self = m.user_id === me;
+            const canManage = !self && outranks(role, m.role);
+            return (
+              <li key={m.user_id} className="flex flex-wrap items-center gap-2 rounded-xl border border-white/15 bg-white/5 p-2">
+                <img src={m.person?.avatar_url || logo} alt="" className="h-8 w-8 rounded-full bg-black/40" />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">{nameOf(m)}{self ? " (you)" : ""}</div>
+                  <div className="text-xs text-white/60">Joined {new Date(m.joined_at).toLocaleDateString()}</div>
+                </div>
+                {isOwner && !self ? (
+                  <select
+                    className="select w-36 bg-white/10 text-white"
+                    value={m.role}
+                    disabled={busy === `role-${m.user_id}`}
+                    onChange={e => changeRole(m, e.target.value as "moderator" | "member")}
+                  >
+                    <option value="moderator">Moderator</option>
+                    <option value="member">Member</option>
+                  </select>
+                ) : (
+                  <span className="badge text-xs">{ROLE_LABELS[m.role]}</span>
+                )}
+                {isOwner && !self ? (
+                  <Button size="sm" variant="ghost" loading={busy === `owner-${m.user_id}`} onClick={() => handOver(m)}>Make owner</Button>
+                ) : null}
+                {canManage ? (
+                  <>
+                    <Button size="sm" variant="ghost" loading={busy === `remove-${m.user_id}`} onClick={() => remove(m)}>Remove</Button>
+                    <Button size="sm" variant="danger" loading={busy === `ban-${m.user_id}`} onClick={() => ban(m)}>Ban</Button>
+                  </>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      </Card>
+
+      {isAdmin && bans.length ? (
+        <Card className="p-4">
+          <h3 className="mb-2 text-lg font-semibold">Banned</h3>
+          <ul className="grid gap-2">
+            {bans.map(b => (
+              <li key={b.user_id} className="flex items-center gap-2 rounded-xl border border-white/15 bg-white/5 p-2">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">{b.person?.full_name || "Someone"}</div>
+                  <div className="text-xs text-white/60">
+                    {new Date(b.created_at).toLocaleDateString()}{b.reason ? ` · ${b.reason}` : ""}
+                  </div>
+                </div>
+                <Button size="sm" variant="ghost" loading={busy === `unban-${b.user_id}`} onClick={() => act(`unban-${b.user_id}`, () => unbanMember(id, b.user_id), "Ban lifted")}>Unban</Button>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      ) : null}
+
+      <Card className="p-4">
+        <h3 className="mb-2 text-lg font-semibold">Leave</h3>
+        {isOwner ? (
+          <>
+            <p className="mb-3 text-sm text-white/70">
+              As the owner you can't leave until you make someone else the owner (“Make owner” above).
+              {members.length === 1 ? " You are the only member, so you can delete the group instead." : ""}
+            </p>
+            <Button variant="danger" loading={busy === "delete"} onClick={destroy}>Delete group</Button>
+          </>
+        ) : (
+          <Button variant="outline" loading={busy === "leave"} onClick={leave}>Leave group</Button>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+function nameOf(m: GroupMember) {
+  return m.person?.full_name || "Member";
+}
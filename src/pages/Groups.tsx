@@ -1,5 +1,10 @@
 import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase, getUserOrWarn, toastError } from "../lib/supabase";
+import {
+  ROLE_LABELS, isAdminRole, joinWithCode, listMyGroups, pendingRequestCounts,
+  type GroupDetails, type GroupRole,
+} from "../lib/groups";
 import { Card } from "../components/ui/Card";
 import { Button } from "../components/ui/Button";
 import { Modal } from "../components/ui/Dialog";
@@ -8,18 +13,25 @@ import { Modal } from "../components/ui/Dialog";
  * Groups page with enhanced functionality.
  *
  * Users can create new groups with a required six‑character join code and
- * optional description. When creating a group the current user is set as
- * the admin (via the `created_by` column) and automatically added as a
- * member. Each group card shows the admin’s name and join code.
+ * optional description. When creating a group the current user becomes
+ * its owner (recorded in `created_by`) and is automatically added as a
+ * member. Each group card shows the owner’s name and join code.
  *
  * Users can also join an existing group by entering its join code in the
  * join field. This prevents accidentally joining a group without knowing
- * the code. Groups the user already belongs to are filtered out of the
- * “available to join” list.
+ * the code. Private groups are not listed; their code files a join request
+ * that an owner or moderator has to approve. Groups the user already
+ * belongs to are filtered out of the “available to join” list and shown
+ * under “Your groups” instead, with the user's role and a link to each
+ * group's settings (pages/GroupSettings.tsx), where owners and moderators
+ * also find pending join requests.
  */
 export default function Groups() {
   // IDs of groups the current user belongs to
   const [myGroupIds, setMyGroupIds] = useState<string[]>([]);
+  // The same groups with the user's role, and pending join requests where they can answer them
+  const [mine, setMine] = useState<(GroupDetails & { role: GroupRole })[]>([]);
+  const [pending, setPending] = useState<Map<string, number>>(new Map());
   // All groups, enriched with unique key and admin name
   const [groups, setGroups] = useState<{ id: string; name: string; unique_key: string; admin_name: string | null; member_count?: number }[]>([]);
   const [loading, setLoading] = useState(true);
@@ -43,27 +55,36 @@ export default function Groups() {
     return out;
   }
 
+  async function loadMine(userId: string) {
+    const list = await listMyGroups(userId);
+    setMine(list);
+    setMyGroupIds(list.map(g => g.id));
+    setPending(await pendingRequestCounts(list.filter(g => isAdminRole(g.role)).map(g => g.id)));
+  }
+
   // Load the current user's memberships and all groups
   useEffect(() => {
     let mounted = true;
     (async () => {
       const user = await getUserOrWarn();
       if (!user) { setLoading(false); return; }
-      // Fetch group IDs the user belongs to
-      const { data: gm } = await supabase.from("group_members").select("group_id").eq("user_id", user.id);
-      const ids = (gm || []).map((r: any) => r.group_id);
+      try { await loadMine(user.id); } catch (err) { toastError(err); }
       if (!mounted) return;
-      setMyGroupIds(ids);
-      // Fetch all groups with unique_key and admin name; use profile join to resolve admin name
+      // Fetch the groups we can see (public ones and our own), then their admins' public names
       const { data: gs, error } = await supabase
         .from("study_groups")
-        .select("id, name, unique_key, created_by, profiles!study_groups_created_by_fkey(display_name, email)");
+        .select("id, name, unique_key, created_by");
       if (error) console.error(error);
+      const adminIds = Array.from(new Set((gs || []).map((g: any) => g.created_by).filter(Boolean)));
+      const { data: admins } = adminIds.length
+        ? await supabase.from("public_profiles").select("id, full_name").in("id", adminIds)
+        : { data: [] };
+      const names = new Map((admins || []).map((p: any) => [p.id, p.full_name as string | null]));
       const list = (gs || []).map((g: any) => ({
         id: g.id,
         name: g.name,
         unique_key: g.unique_key ?? "",
-        admin_name: g.profiles?.display_name || g.profiles?.email || null,
+        admin_name: names.get(g.created_by) || null,
       }));
       if (mounted) setGroups(list);
       setLoading(false);
@@ -79,30 +100,33 @@ export default function Groups() {
     try {
       const { error } = await supabase.from("group_members").insert({ group_id: id, user_id: user.id });
       if (error) throw error;
-      setMyGroupIds((ids) => [...ids, id]);
       (window as any).notify?.("Joined group", "success");
+      await loadMine(user.id);
     } catch (err) { toastError(err); }
     finally { setBusyId(null); }
   }
 
-  // Join by code: look up the group by unique_key then call joinGroup
+  // Join by code. Private groups are invisible until joined, so the lookup happens
+  // in the join_group_with_code RPC rather than here; for them it files a join request
   async function joinByCode() {
     const code = joinCode.trim().toLowerCase();
     if (!code) return (window as any).notify?.("Enter a join code", "error");
     const user = await getUserOrWarn(); if (!user) return;
+    if (busyId) return;
+    setBusyId("code");
     try {
-      const { data, error } = await supabase.from("study_groups").select("id, unique_key").eq("unique_key", code).maybeSingle();
-      if (error) throw error;
-      if (!data) return (window as any).notify?.("No group found with that code", "error");
-      // If already a member, just notify
-      if (myGroupIds.includes(data.id)) {
+      const res = await joinWithCode(code);
+      if (res.status === "member") {
         (window as any).notify?.("You are already a member of that group", "info");
-        setJoinCode("");
-        return;
+      } else if (res.status === "requested") {
+        (window as any).notify?.("Request sent. An admin of the group will review it", "success");
+      } else {
+        (window as any).notify?.("Joined group", "success");
+        await loadMine(user.id);
       }
-      await joinGroup(data.id);
       setJoinCode("");
     } catch (err) { toastError(err); }
+    finally { setBusyId(null); }
   }
 
   // Create a new group with unique_key and description; auto‑join creator
@@ -120,7 +144,7 @@ export default function Groups() {
       // add membership
       const { error: joinErr } = await supabase.from("group_members").insert({ group_id: group.id, user_id: user.id });
       if (joinErr) throw joinErr;
-      setMyGroupIds((ids) => [...ids, group.id]);
+      await loadMine(user.id);
       setGroups((gs) => [...gs, { id: group.id, name: name, unique_key: code, admin_name: user.email ?? null }]);
       setCreateOpen(false);
       setNewName("");
@@ -154,9 +178,35 @@ export default function Groups() {
                 placeholder="🔍 Search groups..." 
               />
               <input className="input w-36 bg-white/10 text-white lowercase tracking-wide" value={joinCode} onChange={(e) => setJoinCode(e.target.value.toLowerCase().replace(/[^a-z0-9]/g, ""))} placeholder="Join code" />
-              <Button size="sm" variant="ghost" onClick={joinByCode}>Join</Button>
+              <Button size="sm" variant="ghost" onClick={joinByCode} loading={busyId === "code"}>Join</Button>
             </div>
           </div>
+          {mine.length ? (
+            <>
+              <h3 className="mb-2 text-sm font-semibold uppercase tracking-wide text-white/60">Your groups</h3>
+              <ul className="mb-5 grid gap-2 md:grid-cols-2">
+                {mine.map((g) => (
+                  <li key={g.id} className="flex items-center justify-between gap-2 rounded-xl border border-white/15 bg-white/5 p-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <div className="truncate text-[15px] font-semibold">{g.name}</div>
+                        {g.role !== "member" ? <span className="badge text-[10px]">{ROLE_LABELS[g.role]}</span> : null}
+                        {g.is_public === false ? <span className="badge text-[10px]">Private</span> : null}
+                      </div>
+                      {pending.get(g.id) ? (
+                        <div className="mt-1 text-xs text-amber-300">{pending.get(g.id)} join request{pending.get(g.id) === 1 ? "" : "s"} waiting</div>
+                      ) : null}
+                    </div>
+                    <div className="flex shrink-0 items-center gap-1">
+                      <Link to={`/chat?group=${g.id}`}><Button size="sm" variant="ghost">Chat</Button></Link>
+                      <Link to={`/groups/${g.id}/settings`}><Button size="sm" variant="outline">Settings</Button></Link>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <h3 className="mb-2 text-sm font-semibold uppercase tracking-wide text-white/60">Available to join</h3>
+            </>
+          ) : null}
           {available.length === 0 ? (
             <div className="text-white/70">No groups available to join. Create one!</div>
           ) : (
@@ -167,7 +217,7 @@ export default function Groups() {
                     <div>
                       <div className="flex items-center gap-2">
                         <div className="text-[15px] font-semibold">{g.name}</div>
-                        {g.admin_name ? <span className="badge bg-primary/20 border-primary/30 text-primary-400 text-[10px]">Admin: {g.admin_name}</span> : null}
+                        {g.admin_name ? <span className="badge bg-primary/20 border-primary/30 text-primary-400 text-[10px]">Owner: {g.admin_name}</span> : null}
                       </div>
                       <div className="text-xs text-white/60 mt-1 font-mono">
                         Code: {g.unique_key || "—"}
@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
 import { supabase } from "../lib/supabase";
+import { loadStreak, type StreakReport } from "../lib/streaks";
 import { Card } from "../components/ui/Card";
 import { Button } from "../components/ui/Button";
 import { Users, MessageSquare, Calendar, Clock, Video, Sparkles } from "lucide-react";
@@ -10,7 +11,7 @@ type Session = { id: string; group_id: string; title: string | null; start_at: s
 export default function Home() {
   const [uid, setUid] = useState<string | null>(null);
   const [next, setNext] = useState<Session | null>(null);
-  const [streak, setStreak] = useState<number>(0);
+  const [streak, setStreak] = useState<StreakReport | null>(null);
   const [loading, setLoading] = useState(true);
 
   // On mount, fetch the current user and if present load their sessions
@@ -23,6 +24,10 @@ export default function Home() {
       setUid(user?.id || null);
       if (!user) { setLoading(false); return; }
 
+      // Streak over personal and group sessions (see lib/streaks.ts)
+      try { const st = await loadStreak(user.id); if (alive) setStreak(st); }
+      catch (e) { console.error(e); }
+
       // Fetch group memberships for the user
       const { data: gm } = await supabase.from("group_members").select("group_id").eq("user_id", user.id);
       const groupIds = (gm || []).map((g: any) => g.group_id);
@@ -33,30 +38,11 @@ export default function Home() {
         .from("study_sessions")
         .select("id, group_id, title, start_at, end_at")
         .in("group_id", groupIds)
+        .eq("kind", "scheduled")
         .gte("start_at", new Date().toISOString())
         .order("start_at", { ascending: true })
         .limit(1);
       setNext(ss?.[0] || null);
-
-      // Calculate streak: number of consecutive days with a completed session
-      const since = new Date();
-      since.setDate(since.getDate() - 30);
-      const { data: history } = await supabase
-        .from("study_sessions")
-        .select("end_at")
-        .in("group_id", groupIds)
-        .gte("end_at", since.toISOString())
-        .lt("end_at", new Date().toISOString())
-        .order("end_at", { ascending: false });
-      const days = new Set((history || []).map((r: any) => new Date(new Date(r.end_at).toDateString()).getTime()));
-      let s = 0;
-      const today = new Date();
-      for (let i = 0; i < 60; i++) {
-        const d = new Date(today);
-        d.setDate(today.getDate() - i);
-        if (days.has(new Date(d.toDateString()).getTime())) s++; else break;
-      }
-      setStreak(s);
       setLoading(false);
     })();
     return () => { alive = false; };
@@ -91,7 +77,7 @@ export default function Home() {
               </div>
             ) : (
               <div className="mt-6 flex flex-wrap gap-3">
-                <Link to="/groups">
+                <Link to="/matches">
                   <Button size="lg" className="bg-cyan-600 hover:bg-cyan-500">Find study buddies</Button>
                 </Link>
                 <Link to="/chat">
@@ -135,9 +121,16 @@ export default function Home() {
             <Card className="p-5">
               <div className="text-sm text-white/80 mb-2">Current streak</div>
               <div className="text-3xl font-bold text-cyan-400">
-                {loading ? "—" : streak}
+                {loading || !streak ? "—" : streak.current}
               </div>
-              <p className="text-xs text-white/60 mt-1">day{streak === 1 ? "" : "s"}</p>
+              <p className="text-xs text-white/60 mt-1">
+                day{streak?.current === 1 ? "" : "s"}
+                {streak ? ` · best ${streak.best}` : ""}
+                {streak?.frozenDays.length ? ` · ${streak.frozenDays.length} frozen` : ""}
+              </p>
+              {streak && !streak.todayDone && streak.current > 0 ? (
+                <p className="text-[11px] text-amber-300/80 mt-1">Study {streak.options.minMinutes}+ min today to keep it going</p>
+              ) : null}
             </Card>
             <Card className="p-5">
               <div className="text-sm text-white/80 mb-2">Quick access</div>
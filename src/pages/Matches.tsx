@@ -1,36 +1,78 @@
 import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase, getUserOrWarn, toastError } from "../lib/supabase";
+import { rankGroups, rankPeers, type MatchGroup, type MatchProfile, type MatchReason, type ScoredGroup, type ScoredPeer } from "../lib/matching";
 import { Card } from "../components/ui/Card";
 import { Button } from "../components/ui/Button";
 import { Modal } from "../components/ui/Dialog";
+import logo from "../assets/logo.svg";
+
+const PROFILE_COLS = "id, full_name, avatar_url, courses, study_style, time_zone, availability, interests";
 
 /**
- * Matches page. Lists study groups that the user can join and any
- * outstanding invites (if your schema includes an `invites` table).
- * Provides buttons to join a group directly. This is a simple
- * placeholder for a more sophisticated matching algorithm—here we
- * just show all groups the user is not already a member of.
+ * Matches page. Ranks study groups the user can join and individual
+ * study partners by compatibility (see `lib/matching.ts`), showing a
+ * "why you matched" breakdown under each result. Groups can be joined
+ * directly from here, and partners messaged directly (pages/Messages.tsx).
  */
 export default function Matches() {
   const [myGroupIds, setMyGroupIds] = useState<string[]>([]);
-  const [allGroups, setAllGroups] = useState<{ id: string; name: string }[]>([]);
+  const [groupMatches, setGroupMatches] = useState<ScoredGroup[]>([]);
+  const [peerMatches, setPeerMatches] = useState<ScoredPeer[]>([]);
+  const [needsProfile, setNeedsProfile] = useState(false);
   const [loading, setLoading] = useState(true);
   const [joining, setJoining] = useState<string | null>(null);
   const [createOpen, setCreateOpen] = useState(false);
   const [newGroupName, setNewGroupName] = useState("");
 
-  // Load the groups the user belongs to and all available groups
+  // Load the user's profile, candidate groups with their members, and peers
   useEffect(() => {
     let alive = true;
     (async () => {
       const user = await getUserOrWarn(); if (!user) { setLoading(false); return; }
-      const { data: gm } = await supabase.from("group_members").select("group_id").eq("user_id", user.id);
-      const ids = (gm || []).map((g: any) => g.group_id);
-      setMyGroupIds(ids);
-      const { data: gs } = await supabase.from("study_groups").select("id, name");
-      if (!alive) return;
-      setAllGroups((gs || []) as any);
-      setLoading(false);
+      try {
+        const { data: me, error: meErr } = await supabase.from("profiles").select(PROFILE_COLS).eq("id", user.id).maybeSingle();
+        if (meErr) throw meErr;
+        if (!me) { if (alive) { setNeedsProfile(true); setLoading(false); } return; }
+        const { data: gm } = await supabase.from("group_members").select("group_id").eq("user_id", user.id);
+        const ids = (gm || []).map((g: any) => g.group_id as string);
+        setMyGroupIds(ids);
+
+        const { data: gs, error: gErr } = await supabase
+          .from("study_groups")
+          .select("id, name, description, tags, max_members, is_public");
+        if (gErr) throw gErr;
+        const candidates = ((gs || []) as MatchGroup[]).filter(g => !ids.includes(g.id) && g.is_public !== false);
+
+        // Member profiles of candidate groups, used for the group's average compatibility
+        const membersByGroup = new Map<string, MatchProfile[]>();
+        if (candidates.length) {
+          const { data: rows } = await supabase
+            .from("group_members")
+            .select("group_id, user_id")
+            .in("group_id", candidates.map(g => g.id));
+          // We are not in these groups, so only the public fields are readable
+          const userIds = Array.from(new Set((rows || []).map((r: any) => r.user_id as string)));
+          const { data: profs } = userIds.length
+            ? await supabase.from("public_profiles").select(PROFILE_COLS).in("id", userIds)
+            : { data: [] };
+          const byId = new Map(((profs || []) as MatchProfile[]).map(p => [p.id, p]));
+          for (const r of (rows || []) as any[]) {
+            const p = byId.get(r.user_id);
+            if (!p) continue;
+            if (!membersByGroup.has(r.group_id)) membersByGroup.set(r.group_id, []);
+            membersByGroup.get(r.group_id)!.push(p);
+          }
+        }
+
+        const { data: peers, error: pErr } = await supabase.from("public_profiles").select(PROFILE_COLS).neq("id", user.id).limit(500);
+        if (pErr) throw pErr;
+        if (!alive) return;
+        setGroupMatches(rankGroups(me as MatchProfile, candidates, membersByGroup));
+        setPeerMatches(rankPeers(me as MatchProfile, (peers || []) as MatchProfile[]));
+        setNeedsProfile(!(me as MatchProfile).courses?.length && !(me as MatchProfile).study_style);
+      } catch (e) { toastError(e); }
+      if (alive) setLoading(false);
     })();
     return () => { alive = false; };
   }, []);
@@ -48,32 +90,76 @@ export default function Matches() {
     finally { setJoining(null); }
   }
 
-  const available = allGroups.filter(g => !myGroupIds.includes(g.id));
+  const available = groupMatches.filter(m => !myGroupIds.includes(m.group.id));
 
   return (
     <Card className="p-4">
-      <h2 className="mb-3 text-xl font-bold">Find study groups</h2>
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <h2 className="text-xl font-bold">Your matches</h2>
+        <Button size="sm" variant="outline" onClick={() => setCreateOpen(true)}>Create group</Button>
+      </div>
       {loading ? (
         <div>Loading…</div>
       ) : (
-        <>
-          {/* Create group button */}
-          <div className="mb-3 flex justify-end">
-            <Button size="sm" variant="outline" onClick={() => setCreateOpen(true)}>Create group</Button>
-          </div>
-          {available.length === 0 ? (
-            <div>No groups available to join right now. Check back later!</div>
-          ) : (
-            <ul className="grid gap-3 md:grid-cols-2">
-              {available.map(g => (
-                <li key={g.id} className="flex items-center justify-between rounded-xl border border-white/15 bg-white/5 p-3">
-                  <div className="text-[15px] font-semibold">{g.name}</div>
-                  <Button size="sm" onClick={() => join(g.id)} loading={joining === g.id}>Join</Button>
-                </li>
-              ))}
-            </ul>
-          )}
-        </>
+        <div className="space-y-6">
+          {needsProfile ? (
+            <div className="rounded-xl border border-white/15 bg-white/5 p-3 text-sm text-white/80">
+              Add your courses, study style and availability on your <Link to="/profile" className="text-primary hover:underline">profile</Link> to get better matches.
+            </div>
+          ) : null}
+          <section>
+            <h3 className="mb-2 text-lg font-semibold">Recommended groups</h3>
+            {available.length === 0 ? (
+              <div className="text-white/70">No groups available to join right now. Check back later!</div>
+            ) : (
+              <ul className="grid gap-3 md:grid-cols-2">
+                {available.map(({ group: g, score, reasons, memberCount }) => (
+                  <li key={g.id} className="flex flex-col gap-2 rounded-xl border border-white/15 bg-white/5 p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <div className="text-[15px] font-semibold">{g.name}</div>
+                        <div className="text-xs text-white/60">{memberCount} member{memberCount === 1 ? "" : "s"}{g.max_members ? ` / ${g.max_members}` : ""}</div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <ScoreBadge score={score} />
+                        <Button size="sm" onClick={() => join(g.id)} loading={joining === g.id}>Join</Button>
+                      </div>
+                    </div>
+                    {g.description ? <div className="text-sm text-white/70">{g.description}</div> : null}
+                    <Reasons reasons={reasons} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+          <section>
+            <h3 className="mb-2 text-lg font-semibold">Study partners</h3>
+            {peerMatches.length === 0 ? (
+              <div className="text-white/70">No compatible study partners found yet.</div>
+            ) : (
+              <ul className="grid gap-3 md:grid-cols-2">
+                {peerMatches.map(({ profile: p, score, reasons }) => (
+                  <li key={p.id} className="flex flex-col gap-2 rounded-xl border border-white/15 bg-white/5 p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <img className="h-8 w-8 rounded-full border border-white/20" src={p.avatar_url || logo} alt="" />
+                        <div>
+                          <div className="text-[15px] font-semibold">{p.full_name || "Anonymous student"}</div>
+                          <div className="text-xs text-white/60">{(p.courses || []).join(", ") || "No courses listed"}</div>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Link to={`/messages?to=${p.id}`}><Button size="sm" variant="outline">Message</Button></Link>
+                        <ScoreBadge score={score} />
+                      </div>
+                    </div>
+                    <Reasons reasons={reasons} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
       )}
       {/* Create group modal */}
       <Modal open={createOpen} onOpenChange={setCreateOpen} title="Create group">
@@ -94,7 +180,6 @@ export default function Matches() {
                 const { error: e2 } = await supabase.from("group_members").insert({ group_id: group.id, user_id: user.id });
                 if (e2) throw e2;
                 setMyGroupIds(ids => [...ids, group.id]);
-                setAllGroups(gs => [...gs, group]);
                 setCreateOpen(false);
                 setNewGroupName("");
                 (window as any).notify?.("Group created and joined");
@@ -106,4 +191,25 @@ export default function Matches() {
       </Modal>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+function ScoreBadge({ score }: { score: number }) {
+  const tone = score >= 70 ? "bg-emerald-500/20 text-emerald-300" : score >= 40 ? "bg-cyan-500/20 text-cyan-300" : "bg-white/10 text-white/70";
+  return <span className={"badge px-2 py-0.5 text-xs font-semibold " + tone} title="Compatibility score">{score}%</span>;
+}
+
+// "Why you matched": one line per factor that contributed points
+function Reasons({ reasons }: { reasons: MatchReason[] }) {
+  const hits = reasons.filter(r => r.points > 0);
+  if (!hits.length) return null;
+  return (
+    <ul className="space-y-0.5 text-xs text-white/70">
+      {hits.map(r => (
+        <li key={r.factor} className="flex items-center justify-between gap-2">
+          <span>{r.label}</span>
+          <span className="tabular-nums text-white/50">+{r.points}/{r.max}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,488 @@
+import { useEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { LogOut, Pencil, Plus, Trash2, X } from "lucide-react";
+import { supabase, toastError, getUserOrWarn } from "../lib/supabase";
+import { Card } from "../components/ui/Card";
+import { Button } from "../components/ui/Button";
+import { Modal } from "../components/ui/Dialog";
+import { VirtualList, type VirtualListHandle } from "../components/VirtualList";
+import { RichText } from "../components/RichText";
+import { EmojiPicker, ReactionChips, enterSends, formatTimestamp, rowsFor } from "../components/ChatParts";
+import {
+  MAX_OTHERS, conversationName, deleteDirectMessage, fetchConversation, fetchLatestDirect, fetchOlderDirect, findPeople, leaveConversation,
+  listConversations, renameConversation, sendDirectMessage, setConversationRead, startConversation, watchDmUnread,
+  type Conversation, type DirectMessage, type Participant, type Person,
+} from "../lib/dm";
+import { applyReactionChange, loadReactions, toggleReaction, type Reaction } from "../lib/reactions";
+import logo from "../assets/logo.svg";
+
+/**
+ * Direct messages page: 1:1 and small ad-hoc conversations outside study
+ * groups (lib/dm.ts). The list on the left is sorted by activity with
+ * unread counts; the conversation on the right works like group chat:
+ * paged history in a virtual list, Markdown and math (RichText), emoji
+ * reactions, realtime updates and a "Seen" receipt under your latest
+ * message. Authors can delete their own messages.
+ *
+ * `/messages?c=<id>` opens a conversation; `/messages?to=<user id>`
+ * (e.g. "Message" on Matches) opens or starts a 1:1 with that person.
+ */
+export default function Messages() {
+  const [params, setParams] = useSearchParams();
+  const [me, setMe] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [unread, setUnread] = useState<Map<string, number>>(new Map());
+  const [cid, setCid] = useState("");
+  const [msgs, setMsgs] = useState<DirectMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [reactions, setReactions] = useState<Map<number, Reaction[]>>(new Map());
+  const [pickerFor, setPickerFor] = useState<number | null>(null);
+  const [input, setInput] = useState("");
+  const [atBottom, setAtBottom] = useState(true);
+  const [newCount, setNewCount] = useState(0);
+  // "New message" dialog
+  const [newOpen, setNewOpen] = useState(false);
+  const [peopleQuery, setPeopleQuery] = useState("");
+  const [found, setFound] = useState<Person[]>([]);
+  const [picked, setPicked] = useState<Person[]>([]);
+  const [newTitle, setNewTitle] = useState("");
+  const [starting, setStarting] = useState(false);
+  const [renaming, setRenaming] = useState<string | null>(null);
+
+  const boxRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<VirtualListHandle | null>(null);
+  const atBottomRef = useRef(true);
+  const msgsRef = useRef(msgs);
+  msgsRef.current = msgs;
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+
+  const current = conversations.find(c => c.id === cid) || null;
+  const members = current?.members || [];
+  const myMarker = members.find(m => m.user_id === me)?.last_read_id ?? 0;
+
+  async function refreshList() {
+    try { setConversations(await listConversations()); } catch (e) { toastError(e); }
+  }
+
+  // Who I am, and my conversations
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      const u = await getUserOrWarn(); if (!u || !alive) return;
+      setMe(u.id);
+      await refreshList();
+    })();
+    return () => { alive = false; };
+  }, []);
+
+  // Unread badges; new activity also reorders the list
+  useEffect(() => watchDmUnread(counts => { setUnread(counts); refreshList(); }), []);
+
+  // Open a conversation from the URL, starting a 1:1 for `?to=`
+  useEffect(() => {
+    const to = params.get("to");
+    const c = params.get("c");
+    if (to) {
+      (async () => {
+        try {
+          const id = await startConversation([to]);
+          await refreshList();
+          setParams({ c: id }, { replace: true });
+        } catch (e) { toastError(e); }
+      })();
+      return;
+    }
+    if (c) setCid(c);
+  }, [params]);
+
+  function openConversation(id: string) {
+    setParams({ c: id });
+  }
+
+  // Move my read marker to `id` if it is newer (locally right away)
+  function markRead(id: number) {
+    if (!cid || !me || id <= myMarker) return;
+    setConversations(list => list.map(c => c.id !== cid ? c : {
+      ...c, members: c.members.map(m => m.user_id === me ? { ...m, last_read_id: Math.max(m.last_read_id, id) } : m),
+    }));
+    setConversationRead(cid, me, id).catch(console.error);
+  }
+
+  async function mergeReactions(list: DirectMessage[]) {
+    const loaded = await loadReactions(list.map(m => m.id), "direct_message_reactions");
+    setReactions(prev => {
+      const next = new Map(prev);
+      loaded.forEach((rs, id) => next.set(id, rs));
+      return next;
+    });
+  }
+
+  // Load the conversation and follow it in realtime
+  useEffect(() => {
+    if (!cid) return;
+    let alive = true;
+    setMsgs([]); setHasMore(false); setReactions(new Map()); setPickerFor(null); setNewCount(0); setRenaming(null);
+    (async () => {
+      try {
+        // Not in the list yet (just started, or added by someone else)
+        if (!conversations.some(c => c.id === cid)) {
+          const c = await fetchConversation(cid);
+          if (!c) { if (alive) (window as any).notify?.("That conversation isn't available", "error"); return; }
+          if (alive) setConversations(list => list.some(x => x.id === c.id) ? list : [c, ...list]);
+        }
+        const page = await fetchLatestDirect(cid);
+        if (!alive) return;
+        setMsgs(page.messages);
+        setHasMore(page.hasMore);
+        requestAnimationFrame(() => listRef.current?.scrollToBottom());
+        await mergeReactions(page.messages);
+      } catch (e) { toastError(e); }
+    })();
+
+    const channel = supabase
+      .channel(`dm:${cid}`)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "direct_messages", filter: `conversation_id=eq.${cid}` }, p => {
+        const m = p.new as DirectMessage;
+        // Realtime rows have no joins; reuse what we already have
+        const who = conversationsRef.current.find(c => c.id === cid)?.members.find(x => x.user_id === m.user_id);
+        setMsgs(x => x.some(y => y.id === m.id) ? x : [...x, { ...m, profiles: who?.profiles ?? null }]);
+        const mine = m.user_id === (window as any).__uid;
+        if (mine) listRef.current?.scrollToBottom();
+        if (!atBottomRef.current && !mine) setNewCount(n => n + 1);
+      })
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "direct_messages" }, p => {
+        const id = (p.old as { id: number }).id;
+        setMsgs(x => x.filter(m => m.id !== id));
+      })
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "conversation_members", filter: `conversation_id=eq.${cid}` }, p => {
+        const row = p.new as Participant & { conversation_id: string };
+        setConversations(list => list.map(c => c.id !== row.conversation_id ? c : {
+          ...c, members: c.members.map(m => m.user_id === row.user_id ? { ...m, last_read_id: row.last_read_id } : m),
+        }));
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "direct_message_reactions" }, p => {
+        const row = (p.eventType === "DELETE" ? p.old : p.new) as Reaction;
+        if (p.eventType === "UPDATE" || !msgsRef.current.some(m => m.id === row.message_id)) return;
+        const name = msgsRef.current.find(m => m.user_id === row.user_id)?.profiles?.full_name ?? null;
+        setReactions(prev => new Map(prev).set(
+          row.message_id,
+          applyReactionChange(prev.get(row.message_id) || [], p.eventType as "INSERT" | "DELETE", { ...row, profiles: { full_name: name } }),
+        ));
+      })
+      .subscribe();
+    return () => { alive = false; supabase.removeChannel(channel); };
+  }, [cid]);
+
+  // Reading the newest message while at the bottom
+  useEffect(() => {
+    if (atBottom && msgs.length) markRead(msgs[msgs.length - 1].id);
+  }, [msgs, atBottom, cid, me]);
+
+  async function loadOlder() {
+    if (!cid || !hasMore || loadingOlder || !msgs.length) return;
+    setLoadingOlder(true);
+    try {
+      const page = await fetchOlderDirect(cid, msgs[0]);
+      setMsgs(x => [...page.messages.filter(m => !x.some(y => y.id === m.id)), ...x]);
+      setHasMore(page.hasMore);
+      await mergeReactions(page.messages);
+    } catch (e) { toastError(e); }
+    finally { setLoadingOlder(false); }
+  }
+
+  function onScroll() {
+    const box = boxRef.current; if (!box) return;
+    const bottom = box.scrollHeight - box.scrollTop - box.clientHeight < 8;
+    atBottomRef.current = bottom;
+    setAtBottom(bottom);
+    if (bottom) setNewCount(0);
+    if (box.scrollTop < 200) loadOlder();
+  }
+
+  async function send() {
+    const text = input.trim();
+    if (!text || !cid) return;
+    const u = await getUserOrWarn(); if (!u) return;
+    setInput("");
+    try { await sendDirectMessage(cid, u.id, text); }
+    catch (e) { setInput(text); toastError(e); }
+  }
+
+  async function remove(m: DirectMessage) {
+    if (!confirm("Delete this message?")) return;
+    try {
+      await deleteDirectMessage(m.id);
+      setMsgs(x => x.filter(y => y.id !== m.id));
+    } catch (e) { toastError(e); }
+  }
+
+  // Same optimistic toggle as group chat
+  async function react(message_id: number, emoji: string) {
+    setPickerFor(null);
+    const u = await getUserOrWarn(); if (!u) return;
+    const has = (reactions.get(message_id) || []).some(r => r.user_id === u.id && r.emoji === emoji);
+    const row: Reaction = { message_id, user_id: u.id, emoji, profiles: null };
+    const apply = (event: "INSERT" | "DELETE") => setReactions(prev =>
+      new Map(prev).set(message_id, applyReactionChange(prev.get(message_id) || [], event, row)));
+    apply(has ? "DELETE" : "INSERT");
+    try {
+      await toggleReaction(message_id, u.id, emoji, has, "direct_message_reactions");
+    } catch (e) { apply(has ? "INSERT" : "DELETE"); toastError(e); }
+  }
+
+  // People search in the "New message" dialog
+  useEffect(() => {
+    if (!newOpen || !me || !peopleQuery.trim()) { setFound([]); return; }
+    let alive = true;
+    const t = setTimeout(async () => {
+      try { const list = await findPeople(peopleQuery, me); if (alive) setFound(list); }
+      catch (e) { toastError(e); }
+    }, 250);
+    return () => { alive = false; clearTimeout(t); };
+  }, [peopleQuery, newOpen, me]);
+
+  async function startNew() {
+    if (!picked.length) return (window as any).notify?.("Pick someone to message", "error");
+    setStarting(true);
+    try {
+      const id = await startConversation(picked.map(p => p.id), picked.length > 1 ? newTitle : undefined);
+      await refreshList();
+      setNewOpen(false); setPicked([]); setPeopleQuery(""); setNewTitle("");
+      openConversation(id);
+    } catch (e) { toastError(e); }
+    finally { setStarting(false); }
+  }
+
+  async function saveTitle() {
+    if (!current || renaming === null) return;
+    try {
+      await renameConversation(current.id, renaming);
+      setConversations(list => list.map(c => c.id === current.id ? { ...c, title: renaming.trim() || null } : c));
+      setRenaming(null);
+    } catch (e) { toastError(e); }
+  }
+
+  async function leave() {
+    if (!current || !me || !confirm("Leave this conversation? You won't see new messages in it.")) return;
+    try {
+      await leaveConversation(current.id, me);
+      setConversations(list => list.filter(c => c.id !== current.id));
+      setCid("");
+      setParams({}, { replace: true });
+    } catch (e) { toastError(e); }
+  }
+
+  // Others who have read up to my newest message
+  const lastMine = [...msgs].reverse().find(m => m.user_id === me) || null;
+  const seenBy = lastMine ? members.filter(m => m.user_id !== me && m.last_read_id >= lastMine.id) : [];
+
+  function renderMessage(m: DirectMessage) {
+    const mine = m.user_id === me;
+    return (
+      <div className={"chat-bubble " + (mine ? "chat-me" : "chat-them")}>
+        <div className="mb-1 flex items-center gap-2 text-sm text-white/80">
+          <img className="h-6 w-6 rounded-full border border-white/20" src={m.profiles?.avatar_url || logo} alt="" />
+          <span className="font-semibold">{m.profiles?.full_name || "Anon"}</span>
+          <span className="text-xs opacity-60">{formatTimestamp(m.created_at)}</span>
+        </div>
+        <RichText text={m.content} />
+        <div className="mt-1 flex flex-wrap items-center gap-1">
+          <ReactionChips
+            reactions={reactions.get(m.id) || []}
+            onReact={emoji => react(m.id, emoji)}
+            onPicker={() => setPickerFor(pickerFor === m.id ? null : m.id)}
+          />
+          {mine ? (
+            <button title="Delete" className="badge opacity-60 hover:bg-white/20 hover:opacity-100" onClick={() => remove(m)}>
+              <Trash2 size={14} />
+            </button>
+          ) : null}
+        </div>
+        {pickerFor === m.id ? <EmojiPicker onPick={emoji => react(m.id, emoji)} /> : null}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-[280px_1fr]">
+      <Card className="p-3">
+        <div className="mb-2 flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Messages</h2>
+          <Button size="sm" onClick={() => setNewOpen(true)} title="New message"><Plus size={14} /> New</Button>
+        </div>
+        <div className="grid gap-1">
+          {conversations.map(c => {
+            const count = unread.get(c.id) || 0;
+            const others = c.members.filter(m => m.user_id !== me);
+            return (
+              <button
+                key={c.id}
+                onClick={() => openConversation(c.id)}
+                className={"flex items-center gap-2 rounded-lg px-2 py-2 text-left transition " + (c.id === cid ? "bg-white/15" : "hover:bg-white/10")}
+              >
+                <img className="h-8 w-8 shrink-0 rounded-full border border-white/20" src={others[0]?.profiles?.avatar_url || logo} alt="" />
+                <div className="min-w-0 flex-1">
+                  <div className={"truncate text-sm " + (count ? "font-semibold text-white" : "text-white/85")}>{conversationName(c, me)}</div>
+                  <div className="text-xs text-white/50">{formatTimestamp(c.last_message_at)}</div>
+                </div>
+                {count ? (
+                  <span className="rounded-full bg-red-500 px-1.5 py-0.5 text-[10px] font-bold leading-none text-white">{count > 99 ? "99+" : count}</span>
+                ) : null}
+              </button>
+            );
+          })}
+          {!conversations.length ? (
+            <p className="px-2 py-4 text-sm text-white/60">No conversations yet. Start one with someone from your groups or Matches.</p>
+          ) : null}
+        </div>
+      </Card>
+
+      <Card className="p-4">
+        {!current ? (
+          <div className="py-16 text-center text-white/60">Pick a conversation or start a new one.</div>
+        ) : (
+          <>
+            <div className="mb-3 flex flex-wrap items-center gap-2">
+              {renaming !== null ? (
+                <>
+                  <input
+                    autoFocus
+                    className="input w-64 bg-white/10 text-white"
+                    placeholder="Conversation name"
+                    value={renaming}
+                    maxLength={80}
+                    onChange={e => setRenaming(e.target.value)}
+                    onKeyDown={e => { if (e.key === "Enter") saveTitle(); if (e.key === "Escape") setRenaming(null); }}
+                  />
+                  <Button size="sm" onClick={saveTitle}>Save</Button>
+                  <Button size="sm" variant="ghost" onClick={() => setRenaming(null)}>Cancel</Button>
+                </>
+              ) : (
+                <>
+                  <h2 className="text-lg font-semibold">{conversationName(current, me)}</h2>
+                  {!current.is_direct ? (
+                    <button title="Rename" className="rounded p-1 text-white/60 hover:bg-white/10 hover:text-white" onClick={() => setRenaming(current.title || "")}>
+                      <Pencil size={14} />
+                    </button>
+                  ) : null}
+                </>
+              )}
+              <div className="ml-auto flex items-center gap-2">
+                <div className="flex -space-x-2">
+                  {members.map(m => (
+                    <img
+                      key={m.user_id}
+                      className="h-6 w-6 rounded-full border border-white/30"
+                      src={m.profiles?.avatar_url || logo}
+                      alt=""
+                      title={m.user_id === me ? "You" : m.profiles?.full_name || "Someone"}
+                    />
+                  ))}
+                </div>
+                {!current.is_direct ? (
+                  <Button size="sm" variant="ghost" title="Leave conversation" onClick={leave}><LogOut size={14} /></Button>
+                ) : null}
+              </div>
+            </div>
+            <div className="relative mb-2">
+              <div ref={boxRef} onScroll={onScroll} className="h-96 overflow-auto rounded-xl border border-white/15 bg-white/10 p-2 text-white">
+                {hasMore ? (
+                  <div className="pb-2 text-center text-xs text-white/60">{loadingOlder ? "Loading older messages…" : "Scroll up for older messages"}</div>
+                ) : msgs.length ? (
+                  <div className="pb-2 text-center text-xs text-white/40">Start of the conversation</div>
+                ) : null}
+                <VirtualList
+                  items={msgs}
+                  itemKey={(m) => m.id}
+                  scrollRef={boxRef}
+                  followOutput
+                  handle={listRef}
+                  render={(m) => (
+                    <div className="pb-2">
+                      {renderMessage(m)}
+                      {m.id === lastMine?.id && seenBy.length ? (
+                        <div className="mt-1 text-right text-[11px] text-white/50" title={seenBy.map(r => r.profiles?.full_name || "Someone").join(", ")}>
+                          {current.is_direct ? "Seen" : `Seen by ${seenBy.map(r => r.profiles?.full_name || "Someone").join(", ")}`}
+                        </div>
+                      ) : null}
+                    </div>
+                  )}
+                />
+              </div>
+              {!atBottom ? (
+                <button
+                  onClick={() => { listRef.current?.scrollToBottom(); setNewCount(0); }}
+                  className="absolute bottom-3 right-4 rounded-full border border-white/20 bg-cyan-600/90 px-3 py-1 text-xs text-white shadow hover:bg-cyan-500"
+                >
+                  {newCount ? `${newCount} new message${newCount === 1 ? "" : "s"} ↓` : "Jump to latest ↓"}
+                </button>
+              ) : null}
+            </div>
+            <div className="flex items-center gap-2">
+              <textarea
+                className="input bg-white/10 text-white placeholder:text-white/60"
+                placeholder="Write a message… (Markdown, `code`, $math$)"
+                rows={rowsFor(input)}
+                value={input}
+                onChange={e => setInput(e.target.value)}
+                onKeyDown={(e) => { if (enterSends(e)) send(); }}
+              />
+              <Button onClick={send}>Send</Button>
+            </div>
+          </>
+        )}
+      </Card>
+
+      <Modal open={newOpen} onOpenChange={setNewOpen} title="New message">
+        <div className="grid gap-3">
+          {picked.length ? (
+            <div className="flex flex-wrap gap-1">
+              {picked.map(p => (
+                <span key={p.id} className="badge flex items-center gap-1">
+                  {p.full_name || "Someone"}
+                  <button title="Remove" onClick={() => setPicked(x => x.filter(y => y.id !== p.id))}><X size={12} /></button>
+                </span>
+              ))}
+            </div>
+          ) : null}
+          <input
+            autoFocus
+            className="input bg-white/10 text-white"
+            placeholder="Search people by name"
+            value={peopleQuery}
+            onChange={e => setPeopleQuery(e.target.value)}
+          />
+          <div className="grid max-h-60 gap-1 overflow-auto">
+            {found.filter(p => !picked.some(x => x.id === p.id)).map(p => (
+              <button
+                key={p.id}
+                disabled={picked.length >= MAX_OTHERS}
+                onClick={() => { setPicked(x => [...x, p]); setPeopleQuery(""); }}
+                className="flex items-center gap-2 rounded-lg px-2 py-1 text-left hover:bg-white/10 disabled:opacity-50"
+              >
+                <img className="h-6 w-6 rounded-full border border-white/20" src={p.avatar_url || logo} alt="" />
+                <span className="text-sm">{p.full_name || "Someone"}</span>
+              </button>
+            ))}
+          </div>
+          {picked.length > 1 ? (
+            <input
+              className="input bg-white/10 text-white"
+              placeholder="Name (optional)"
+              maxLength={80}
+              value={newTitle}
+              onChange={e => setNewTitle(e.target.value)}
+            />
+          ) : null}
+          <div className="text-xs text-white/60">Up to {MAX_OTHERS} people. Messaging one person reopens your existing conversation with them.</div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setNewOpen(false)}>Cancel</Button>
+            <Button loading={starting} disabled={!picked.length} onClick={startNew}>Start</Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -3,6 +3,9 @@ import { supabase, toastError, getUserOrWarn } from "../lib/supabase";
 import { Card } from "../components/ui/Card";
 import { Input } from "../components/ui/Input";
 import { Button } from "../components/ui/Button";
+import { DEFAULT_STREAK_OPTIONS, loadStreak, type StreakReport } from "../lib/streaks";
+import { AvailabilityEditor } from "../components/AvailabilityEditor";
+import type { WeeklySlot } from "../lib/availability";
 
 // Profile shape in the database. The courses array and study_style field
 // are optional and may be null when the profile is first created.
@@ -16,7 +19,10 @@ type Profile = {
   bio?: string | null;
   interests?: string[] | null;
   availability?: string | null;
+  weekly_availability?: WeeklySlot[] | null;
   major?: string | null;
+  streak_min_minutes?: number | null;
+  streak_freezes?: number | null;
 };
 
 // Attempt to detect the browser time zone. If not available, default to IST.
@@ -28,12 +34,14 @@ function detectTz() {
 
 /**
  * Profile page. Loads (or creates) the user's profile record on mount.
- * Provides inputs to edit full name, time zone, courses, and study style.
+ * Provides inputs to edit full name, time zone, courses, study style and
+ * weekly availability (used by the Calendar's group overlap finder).
  * Saves the profile back to Supabase when the user clicks save.
  */
 export default function ProfilePage() {
   const [p, setP] = useState<Profile | null>(null);
   const [saving, setSaving] = useState(false);
+  const [streak, setStreak] = useState<StreakReport | null>(null);
 
   useEffect(() => {
     (async () => {
@@ -52,6 +60,7 @@ export default function ProfilePage() {
         prof.time_zone = tz;
       }
       setP(prof);
+      try { setStreak(await loadStreak(u.id)); } catch (e) { console.error(e); }
     })();
   }, []);
 
@@ -67,7 +76,10 @@ export default function ProfilePage() {
         bio: p.bio || null,
         interests: p.interests || [],
         availability: p.availability || null,
+        weekly_availability: p.weekly_availability || [],
         major: p.major || null,
+        streak_min_minutes: p.streak_min_minutes ?? DEFAULT_STREAK_OPTIONS.minMinutes,
+        streak_freezes: p.streak_freezes ?? DEFAULT_STREAK_OPTIONS.freezes,
       }).eq("id", p.id);
       if (error) throw error;
       (window as any).notify?.("Profile saved");
@@ -153,6 +165,26 @@ export default function ProfilePage() {
             </select>
             <p className="text-xs text-white/60">Used for session scheduling and calendar display</p>
           </div>
+
+          {/* Weekly availability */}
+          <div className="grid gap-2">
+            <label className="text-sm text-white/80">Weekly availability</label>
+            <p className="text-xs text-white/60">When you are usually free to study, in {p.time_zone || detectTz()}. Your groups use this to find a time that suits everyone.</p>
+            <AvailabilityEditor value={p.weekly_availability || []} onChange={(slots) => setP({ ...p, weekly_availability: slots })} />
+          </div>
+
+          {/* Streak settings */}
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="grid gap-2">
+              <label className="text-sm text-white/80">Minimum minutes per streak day</label>
+              <Input type="number" min="1" max="600" value={p.streak_min_minutes ?? DEFAULT_STREAK_OPTIONS.minMinutes} onChange={(e) => setP({ ...p, streak_min_minutes: parseInt(e.target.value) || 1 })} />
+            </div>
+            <div className="grid gap-2">
+              <label className="text-sm text-white/80">Streak freezes per 30 days</label>
+              <Input type="number" min="0" max="10" value={p.streak_freezes ?? DEFAULT_STREAK_OPTIONS.freezes} onChange={(e) => setP({ ...p, streak_freezes: Math.max(0, parseInt(e.target.value) || 0) })} />
+              <p className="text-xs text-white/60">A freeze covers a missed day without breaking your streak</p>
+            </div>
+          </div>
         </div>
 
         <div className="mt-4 flex gap-2">
@@ -178,8 +210,8 @@ export default function ProfilePage() {
             <div className="text-xs text-white/60 mt-1">Active Groups</div>
           </div>
           <div className="rounded-lg bg-white/5 p-3 border border-white/10 text-center">
-            <div className="text-2xl font-bold text-cyan-400">—</div>
-            <div className="text-xs text-white/60 mt-1">Study Streak</div>
+            <div className="text-2xl font-bold text-cyan-400">{streak ? streak.current : "—"}</div>
+            <div className="text-xs text-white/60 mt-1">Study Streak{streak ? ` (best ${streak.best})` : ""}</div>
           </div>
         </div>
       </Card>
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { CalendarDays, MessageSquare, Search as SearchIcon, Users } from "lucide-react";
+import { supabase, getUserOrWarn, toastError } from "../lib/supabase";
+import { searchAll, hitLink, ALL_KINDS, KIND_NAMES, MIN_QUERY, type SearchHit, type SearchKind } from "../lib/search";
+import { Card } from "../components/ui/Card";
+import { SearchSnippet } from "../components/SearchSnippet";
+
+const KIND_ICONS: Record<SearchKind, typeof MessageSquare> = { message: MessageSquare, group: Users, session: CalendarDays };
+
+/**
+ * Search page: full-text search over chat messages, groups and sessions
+ * (see `lib/search.ts`). The query and filters live in the URL, so a
+ * search can be bookmarked and the command palette can link straight
+ * to it. The group and author filters offer the user's own groups and
+ * the people in them; the date range is inclusive of both days.
+ */
+export default function Search() {
+  const [params, setParams] = useSearchParams();
+  const q = params.get("q") || "";
+  const kinds = (params.get("kinds")?.split(",").filter(k => ALL_KINDS.includes(k as SearchKind)) || []) as SearchKind[];
+  const groupId = params.get("group") || "";
+  const authorId = params.get("author") || "";
+  const from = params.get("from") || "";
+  const to = params.get("to") || "";
+
+  const [text, setText] = useState(q);
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [groups, setGroups] = useState<{ id: string; name: string }[]>([]);
+  const [people, setPeople] = useState<{ id: string; name: string }[]>([]);
+
+  // Groups and fellow members for the filters
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      const u = await getUserOrWarn(); if (!u) return;
+      const { data: gm } = await supabase.from("group_members").select("group_id, study_groups(id, name)").eq("user_id", u.id);
+      const mine = (gm || []).map((r: any) => r.study_groups).filter(Boolean) as { id: string; name: string }[];
+      const { data: rows } = mine.length
+        ? await supabase.from("group_members").select("user_id, profiles(full_name)").in("group_id", mine.map(g => g.id))
+        : { data: [] };
+      const byId = new Map<string, string>();
+      for (const r of (rows || []) as any[]) byId.set(r.user_id, r.profiles?.full_name || "Anon");
+      if (!alive) return;
+      setGroups(mine.sort((a, b) => a.name.localeCompare(b.name)));
+      setPeople([...byId].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name)));
+    })();
+    return () => { alive = false; };
+  }, []);
+
+  useEffect(() => { setText(q); }, [q]);
+
+  // Run the search whenever the URL changes
+  useEffect(() => {
+    let alive = true;
+    if (q.trim().length < MIN_QUERY) { setHits([]); return; }
+    (async () => {
+      setLoading(true);
+      try {
+        const found = await searchAll(q, {
+          kinds,
+          groupId: groupId || null,
+          authorId: authorId || null,
+          since: from ? new Date(from + "T00:00").toISOString() : null,
+          until: to ? new Date(new Date(to + "T00:00").getTime() + 86400000).toISOString() : null,
+          limit: 50,
+        });
+        if (alive) setHits(found);
+      } catch (e) { toastError(e); }
+      finally { if (alive) setLoading(false); }
+    })();
+    return () => { alive = false; };
+  }, [params]);
+
+  function setParam(key: string, value: string) {
+    const next = new URLSearchParams(params);
+    if (value) next.set(key, value); else next.delete(key);
+    setParams(next, { replace: true });
+  }
+
+  function toggleKind(k: SearchKind) {
+    const on = kinds.length ? kinds : ALL_KINDS;
+    const next = on.includes(k) ? on.filter(x => x !== k) : [...on, k];
+    setParam("kinds", next.length === ALL_KINDS.length || !next.length ? "" : next.join(","));
+  }
+
+  const counts = new Map<SearchKind, number>();
+  for (const h of hits) counts.set(h.kind, (counts.get(h.kind) || 0) + 1);
+
+  return (
+    <div className="space-y-4">
+      <h1 className="text-2xl font-bold">Search</h1>
+      <Card className="space-y-3 p-4">
+        <form className="flex items-center gap-2" onSubmit={e => { e.preventDefault(); setParam("q", text.trim()); }}>
+          <SearchIcon className="h-5 w-5 text-white/60" />
+          <input
+            autoFocus
+            className="input flex-1 bg-white/10 text-white"
+            placeholder="Search messages, groups and sessions…"
+            value={text}
+            onChange={e => setText(e.target.value)}
+          />
+        </form>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {ALL_KINDS.map(k => {
+            const on = !kinds.length || kinds.includes(k);
+            return (
+              <button
+                key={k}
+                className={"badge " + (on ? "bg-white/20 text-white" : "text-white/50")}
+                onClick={() => toggleKind(k)}
+              >
+                {KIND_NAMES[k]}
+              </button>
+            );
+          })}
+          <select className="select bg-white/10 text-white" value={groupId} onChange={e => setParam("group", e.target.value)}>
+            <option value="">All groups</option>
+            {groups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+          </select>
+          <select className="select bg-white/10 text-white" value={authorId} onChange={e => setParam("author", e.target.value)}>
+            <option value="">Anyone</option>
+            {people.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <label className="flex items-center gap-1 text-white/70">
+            From <input type="date" className="input bg-white/10 text-white" value={from} onChange={e => setParam("from", e.target.value)} />
+          </label>
+          <label className="flex items-center gap-1 text-white/70">
+            To <input type="date" className="input bg-white/10 text-white" value={to} onChange={e => setParam("to", e.target.value)} />
+          </label>
+        </div>
+      </Card>
+
+      {q.trim().length < MIN_QUERY ? (
+        <p className="text-white/60">Type at least {MIN_QUERY} characters. Words match as prefixes; use quotes for a phrase, "or" for either word and a leading "-" to exclude one.</p>
+      ) : loading ? (
+        <p className="text-white/60">Searching…</p>
+      ) : !hits.length ? (
+        <p className="text-white/60">Nothing found for “{q}”.</p>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-white/60">
+            {ALL_KINDS.filter(k => counts.get(k)).map(k => `${counts.get(k)} ${KIND_NAMES[k].toLowerCase()}`).join(" · ")}
+          </p>
+          {hits.map(h => <HitRow key={h.kind + h.id} hit={h} />)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function HitRow({ hit }: { hit: SearchHit }) {
+  const Icon = KIND_ICONS[hit.kind];
+  return (
+    <Link to={hitLink(hit)} className="block">
+      <Card className="flex gap-3 p-3 hover:bg-white/10">
+        <Icon className="mt-0.5 h-5 w-5 shrink-0 text-white/60" />
+        <div className="min-w-0 flex-1">
+          <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+            {hit.title && <span className="font-semibold">{hit.title}</span>}
+            {hit.kind !== "group" && hit.group_name && <span className="text-white/70">{hit.group_name}</span>}
+            {hit.kind === "message" && <span className="text-white/70">{hit.author_name || "Anon"}{hit.parent_id ? " · in a thread" : ""}</span>}
+            {hit.kind === "group" && !hit.is_member && <span className="badge">Not a member</span>}
+            <span className="ml-auto text-xs text-white/50">{new Date(hit.at).toLocaleString()}</span>
+          </div>
+          <SearchSnippet text={hit.snippet} />
+        </div>
+      </Card>
+    </Link>
+  );
+}
@@ -1,35 +1,80 @@
 import { useEffect, useRef, useState, useMemo } from "react";
-import { Maximize2, Minimize2, Volume2, VolumeX } from "lucide-react";
+import { useSearchParams } from "react-router-dom";
+import { Maximize2, Minimize2, Pencil, Plus, Trash2, Volume2, VolumeX } from "lucide-react";
 import { supabase, getUserOrWarn, toastError } from "../lib/supabase";
+import * as pomo from "../lib/pomodoro";
+import type { CompletedFocus, TimerConfig, TimerResult, TimerState } from "../lib/pomodoro";
+import * as presets from "../lib/presets";
+import { registerCommands } from "../lib/commands";
+import type { Preset } from "../lib/presets";
 import { Card } from "../components/ui/Card";
 import { Button } from "../components/ui/Button";
-import { Input } from "../components/ui/Input";
+import { PresetEditor } from "../components/PresetEditor";
+import { FocusSessionEditor, type FocusTags } from "../components/FocusSessionEditor";
 
-// A more advanced Pomodoro timer. Users can configure focus and break
-// durations, automatically cycle through intervals, and record focus
+// A more advanced Pomodoro timer. Users pick a preset program (built-in
+// or their own custom sequence), automatically cycle through it, and record focus
 // sessions to the study_sessions table. Each focus period creates a
 // new row with user_id, start_at and end_at; breaks are not recorded.
-type Session = { id: string; start_at: string; end_at: string | null };
+// The timing itself lives in lib/pomodoro.ts: this page only renders
+// the state machine, feeds it the clock and performs its effects.
+// Focus rows are tagged (kind = 'focus') with a course, optional group
+// and goal chosen beforehand, plus a reflection written afterwards.
+type Session = FocusTags & { id: string; start_at: string; end_at: string | null; status?: 'completed' | 'abandoned' };
+
+const SESSION_COLS = 'id, start_at, end_at, status, course, group_id, goal, reflection';
+const TAGS_KEY = 'socialstudy.timer.tags';
+
+// Tags for the next focus phase survive reloads alongside the timer
+function loadTags(): FocusTags {
+  try { return { course: null, group_id: null, goal: null, reflection: null, ...JSON.parse(localStorage.getItem(TAGS_KEY) || '{}') }; }
+  catch { return { course: null, group_id: null, goal: null, reflection: null }; }
+}
 
 export default function Timer() {
-  // Configurable durations (minutes)
-  const [workMin, setWorkMin] = useState(25);
-  const [shortMin, setShortMin] = useState(5);
-  const [longMin, setLongMin] = useState(15);
-  const [intervalsBeforeLong, setIntervalsBeforeLong] = useState(4);
-
-  // Timer state
-  const [phase, setPhase] = useState<'idle' | 'focus' | 'short' | 'long'>('idle');
-  const [remaining, setRemaining] = useState(0); // seconds
-  const [intervalCount, setIntervalCount] = useState(0);
-  const [running, setRunning] = useState(false);
-
-  // History of recent focus sessions
+  // Preset programs: built-ins plus the user's own from timer_presets.
+  // A `?preset=` query (used by the command palette) selects one, and
+  // `&start=1` starts it.
+  const [params, setParams] = useSearchParams();
+  const [customPresets, setCustomPresets] = useState<Preset[]>([]);
+  const [presetId, setPresetId] = useState(() => params.get('preset') || presets.loadSelectedPreset());
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<Preset | null>(null);
+  const allPresets = useMemo(() => [...presets.BUILTIN_PRESETS, ...customPresets], [customPresets]);
+  const selected = allPresets.find(p => p.id === presetId) || presets.BUILTIN_PRESETS[0];
+
+  // Timer state machine, restored from localStorage so a reload resumes.
+  // `stateRef` mirrors it so clock callbacks never see a stale phase, and
+  // `runCfgRef` holds the program the current run was started with so
+  // switching presets never changes a run in flight.
+  const [saved] = useState(() => pomo.loadTimer());
+  const [timer, setTimer] = useState<TimerState>(saved.state);
+  const stateRef = useRef(timer);
+  const runCfgRef = useRef<TimerConfig | null>(saved.config);
+  const [now, setNow] = useState(() => Date.now());
+  const { phase, running } = timer;
+  const remaining = Math.ceil(pomo.remaining(timer, now) / 1000); // seconds
+  const cfgRef = useRef(pomo.DEFAULT_CONFIG);
+  cfgRef.current = runCfgRef.current ?? presets.presetConfig(selected);
+  const steps = cfgRef.current.steps;
+  const upNext = phase === 'idle' ? null : steps[pomo.nextStep(timer, cfgRef.current) ?? -1] ?? null;
+
+  // History of recent focus sessions, filterable by course and group
   const [history, setHistory] = useState<Session[]>([]);
   const [loading, setLoading] = useState(true);
+  const [filterCourse, setFilterCourse] = useState("");
+  const [filterGroup, setFilterGroup] = useState("");
+
+  // Tagging: the user's courses and groups, tags for the next focus
+  // phase, and the row being reflected on / edited
+  const [courses, setCourses] = useState<string[]>([]);
+  const [myGroups, setMyGroups] = useState<{ id: string; name: string }[]>([]);
+  const [tags, setTags] = useState<FocusTags>(() => loadTags());
+  const tagsRef = useRef(tags);
+  tagsRef.current = tags;
+  const [editingSession, setEditingSession] = useState<{ session: Session; reflectOnly: boolean } | null>(null);
 
   const timerRef = useRef<any>(null);
-  const focusStartRef = useRef<Date | null>(null);
 
   // Fullscreen state – helps reflect whether the document is currently fullscreen.
   const [fullscreen, setFullscreen] = useState(false);
@@ -39,6 +84,8 @@ export default function Timer() {
   // not require any external audio files. Users can disable sound if
   // they prefer silent transitions.
   const [soundOn, setSoundOn] = useState(true);
+  const soundRef = useRef(soundOn);
+  soundRef.current = soundOn;
   
   // Ambient sound state for continuous background audio during focus
   const [ambientOn, setAmbientOn] = useState(false);
@@ -81,12 +128,20 @@ export default function Timer() {
         toggle();
       } else if (e.key === 'n' || e.key === 'N') {
         e.preventDefault();
-        if (running) handlePhaseEnd();
+        if (stateRef.current.running) next();
       }
     }
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [running, phase]);
+  }, []);
+
+  // The same controls in the command palette
+  useEffect(() => registerCommands('timer', [
+    { id: 'timer-toggle', label: running ? 'Pause timer' : phase === 'idle' ? 'Start timer' : 'Resume timer', hint: 'Space', run: toggle },
+    ...(running ? [{ id: 'timer-next', label: 'Skip to next phase', hint: 'N', run: next }] : []),
+    { id: 'timer-reset', label: 'Reset timer', run: reset },
+    { id: 'timer-fullscreen', label: 'Toggle fullscreen', hint: 'F', run: toggleFullscreen },
+  ]), [running, phase]);
 
   // Listen for fullscreen changes to update local state. This ensures the
   // button label stays in sync if the user exits fullscreen via ESC.
@@ -147,108 +202,176 @@ export default function Timer() {
     }
   }
 
-  // Load past sessions on mount
+  // Load courses, groups and custom presets on mount
   useEffect(() => {
+    (async () => {
+      const user = await getUserOrWarn(); if (!user) return;
+      const { data: prof } = await supabase.from('profiles').select('courses').eq('id', user.id).maybeSingle();
+      setCourses(prof?.courses || []);
+      const { data: gm } = await supabase.from('group_members').select('study_groups(id, name)').eq('user_id', user.id);
+      setMyGroups((gm || []).map((m: any) => m.study_groups).filter(Boolean));
+      try { setCustomPresets(await presets.listCustomPresets(user.id)); } catch (e) { toastError(e); }
+    })();
+  }, []);
+
+  // Load past focus sessions whenever the filters change
+  useEffect(() => {
+    let alive = true;
     (async () => {
       const user = await getUserOrWarn(); if (!user) { setLoading(false); return; }
-      const { data } = await supabase.from('study_sessions').select('id, start_at, end_at').eq('user_id', user.id).order('start_at', { ascending: false }).limit(10);
-      setHistory((data || []) as any as Session[]);
+      let q = supabase.from('study_sessions').select(SESSION_COLS).eq('user_id', user.id).eq('kind', 'focus');
+      if (filterCourse) q = q.eq('course', filterCourse);
+      if (filterGroup) q = filterGroup === 'solo' ? q.is('group_id', null) : q.eq('group_id', filterGroup);
+      const { data, error } = await q.order('start_at', { ascending: false }).limit(20);
+      if (error) toastError(error);
+      if (!alive) return;
+      setHistory((data || []) as Session[]);
       setLoading(false);
     })();
-  }, []);
+    return () => { alive = false; };
+  }, [filterCourse, filterGroup]);
 
-  // Timer tick effect
+  function updateTags(patch: Partial<FocusTags>) {
+    setTags(t => {
+      const next = { ...t, ...patch };
+      try { localStorage.setItem(TAGS_KEY, JSON.stringify(next)); } catch { /* storage disabled */ }
+      return next;
+    });
+  }
+
+  // Save edited tags / reflection back to a recorded session
+  async function saveSessionTags(id: string, v: FocusTags) {
+    const { error } = await supabase.from('study_sessions').update(v).eq('id', id);
+    if (error) { toastError(error); throw error; }
+    setHistory(h => h.map(x => x.id === id ? { ...x, ...v } : x));
+  }
+
+  // Follow ?preset= (and &start=1) links while the page is open
   useEffect(() => {
-    if (!running) return;
-    timerRef.current = setInterval(() => {
-      setRemaining(prev => {
-        if (prev <= 1) {
-          handlePhaseEnd();
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-    return () => { if (timerRef.current) clearInterval(timerRef.current); };
-  }, [running, phase]);
-
-  // Handle end of a phase and transition to the next
-  async function handlePhaseEnd() {
-    // Record focus session when a focus period ends
-    if (phase === 'focus' && focusStartRef.current) {
-      const user = await getUserOrWarn(); if (user) {
-        const endAt = new Date();
-        const { error } = await supabase.from('study_sessions').insert({ user_id: user.id, start_at: focusStartRef.current.toISOString(), end_at: endAt.toISOString() });
-        if (error) toastError(error);
-        // prepend new session to history
-        setHistory(h => [{ id: String(Date.now()), start_at: focusStartRef.current!.toISOString(), end_at: endAt.toISOString() }, ...h].slice(0, 10));
+    const q = params.get('preset');
+    const start = params.get('start') === '1';
+    if (!q && !start) return;
+    if (q) choosePreset(q);
+    if (start) {
+      if (stateRef.current.phase !== 'idle') (window as any).notify?.("A timer is already in progress", "error");
+      else {
+        // The new selection only reaches cfgRef on the next render
+        const p = allPresets.find(x => x.id === q);
+        if (p) cfgRef.current = presets.presetConfig(p);
+        toggle();
       }
-      focusStartRef.current = null;
     }
-    setRunning(false);
-    // If sound is enabled, play a notification beep
-    if (soundOn) playBeep();
-    // Determine next phase
-    if (phase === 'focus') {
-      const nextInterval = intervalCount + 1;
-      setIntervalCount(nextInterval);
-      if (nextInterval % intervalsBeforeLong === 0) {
-        setPhase('long');
-        setRemaining(longMin * 60);
-      } else {
-        setPhase('short');
-        setRemaining(shortMin * 60);
-      }
-    } else if (phase === 'short' || phase === 'long') {
-      setPhase('focus');
-      setRemaining(workMin * 60);
-    } else {
-      setPhase('idle');
-      setRemaining(0);
+    params.delete('preset');
+    params.delete('start');
+    setParams(params, { replace: true });
+  }, [params]);
+
+  // Switch program. Only allowed between runs.
+  function choosePreset(id: string) {
+    if (stateRef.current.phase !== 'idle' && id !== presetId) {
+      (window as any).notify?.("Reset the timer to switch programs", "error");
+      return;
     }
-    // Automatically start the next phase after a 1 second delay
-    setTimeout(() => {
-      if (phase !== 'idle') startPhase();
-    }, 1000);
+    setPresetId(id);
+    presets.saveSelectedPreset(id);
   }
 
-  // Start the current phase timer
-  function startPhase() {
-    if (phase === 'idle') {
-      setPhase('focus');
-      setRemaining(workMin * 60);
-      focusStartRef.current = new Date();
-    } else if (phase === 'focus') {
-      focusStartRef.current = new Date();
-    }
-    setRunning(true);
+  async function savePreset(p: { id?: string; name: string; steps: pomo.Step[]; loop: boolean }) {
+    const user = await getUserOrWarn(); if (!user) return;
+    try {
+      const row = await presets.saveCustomPreset(user.id, p);
+      setCustomPresets(list => p.id ? list.map(x => x.id === row.id ? row : x) : [...list, row]);
+      if (stateRef.current.phase === 'idle') choosePreset(row.id);
+    } catch (e) { toastError(e); throw e; }
+  }
+
+  async function removePreset(p: Preset) {
+    if (!confirm(`Delete "${p.name}"?`)) return;
+    try {
+      await presets.deleteCustomPreset(p.id);
+      setCustomPresets(list => list.filter(x => x.id !== p.id));
+      if (presetId === p.id) choosePreset(presets.DEFAULT_PRESET_ID);
+    } catch (e) { toastError(e); }
+  }
+
+  // Commit a transition: store and persist the new state, then perform
+  // its effects exactly once (record finished focus phases, beep).
+  function apply(r: TimerResult) {
+    if (r.state === stateRef.current) return;
+    // Pin the program when a run starts; release it when the run ends
+    if (r.state.phase === 'idle') runCfgRef.current = null;
+    else if (!runCfgRef.current) runCfgRef.current = cfgRef.current;
+    stateRef.current = r.state;
+    setTimer(r.state);
+    pomo.saveTimer(r.state, runCfgRef.current);
+    setNow(Date.now());
+    if (r.completed.length) recordFocus(r.completed, 'completed');
+    if (r.abandoned) recordFocus([r.abandoned], 'abandoned');
+    if (r.phaseEnds && soundRef.current) playBeep();
+  }
+
+  // Bring the machine up to date with the wall clock
+  function sync() {
+    apply(pomo.tick(stateRef.current, config(), Date.now()));
+  }
+
+  // Clock effect: re-render a few times a second while running and catch
+  // up immediately when the tab becomes visible again. The interval only
+  // drives the display; time left is always derived from the deadline.
+  useEffect(() => {
+    sync();
+    if (!running) return;
+    timerRef.current = setInterval(() => { setNow(Date.now()); sync(); }, 250);
+    document.addEventListener('visibilitychange', sync);
+    return () => {
+      if (timerRef.current) clearInterval(timerRef.current);
+      document.removeEventListener('visibilitychange', sync);
+    };
+  }, [running]);
+
+  // Insert finished (or abandoned) focus phases into study_sessions with
+  // the current tags, then ask for a reflection on the latest completed
+  // one. The goal belongs to a single focus phase, so it is cleared once
+  // recorded.
+  async function recordFocus(done: CompletedFocus[], status: 'completed' | 'abandoned') {
+    const user = await getUserOrWarn(); if (!user) return;
+    const { course, group_id, goal } = tagsRef.current;
+    const rows = done.map(f => ({
+      user_id: user.id,
+      kind: 'focus',
+      status,
+      course,
+      group_id,
+      goal,
+      start_at: new Date(f.startAt).toISOString(),
+      end_at: new Date(f.endAt).toISOString(),
+    }));
+    const { data, error } = await supabase.from('study_sessions').insert(rows).select(SESSION_COLS);
+    if (error) { toastError(error); return; }
+    const inserted = ((data || []) as Session[]).reverse();
+    setHistory(h => [...inserted, ...h].slice(0, 20));
+    updateTags({ goal: null });
+    if (inserted[0] && status === 'completed') setEditingSession({ session: inserted[0], reflectOnly: true });
+  }
+
+  // Program of the current run, or of the selected preset between runs
+  // (read through a ref so the clock interval always sees the latest)
+  function config() {
+    return cfgRef.current;
   }
 
   // Start/pause functionality
   function toggle() {
-    if (running) {
-      // Pause timer
-      setRunning(false);
-    } else {
-      // Resume timer or start new cycle
-      if (phase === 'idle') {
-        setIntervalCount(0);
-        setPhase('focus');
-        setRemaining(workMin * 60);
-        focusStartRef.current = new Date();
-      } else if (phase === 'focus') {
-        focusStartRef.current = new Date();
-      }
-      setRunning(true);
-    }
+    apply(pomo.toggle(stateRef.current, config(), Date.now()));
+  }
+
+  // Skip to the next phase
+  function next() {
+    apply(pomo.skip(stateRef.current, config(), Date.now()));
   }
 
   function reset() {
-    setRunning(false);
-    setPhase('idle');
-    setRemaining(0);
-    setIntervalCount(0);
-    focusStartRef.current = null;
+    apply(pomo.reset(stateRef.current, Date.now()));
   }
 
   // Format seconds to HH:MM:SS
@@ -268,7 +391,7 @@ export default function Timer() {
     // Normalize to date string for comparison (yyyy-mm-dd)
     const todayStr = today.toISOString().split('T')[0];
     return history.filter(sess => {
-      if (!sess.end_at) return false;
+      if (!sess.end_at || sess.status === 'abandoned') return false;
       return sess.end_at.split('T')[0] === todayStr;
     }).length;
   }, [history]);
@@ -317,28 +440,47 @@ export default function Timer() {
       </div>
       {/* Content wrapper fills available space */}
       <div className="flex-1 overflow-y-auto">
-      {/* Config inputs */}
-      <div className="mb-4 grid grid-cols-2 gap-3 md:grid-cols-4">
-        <div>
-          <label className="text-sm text-white/80">Focus (min)</label>
-          <Input type="number" min="1" max="120" value={workMin} onChange={e => setWorkMin(parseInt(e.target.value) || 1)} />
-        </div>
-        <div>
-          <label className="text-sm text-white/80">Short break (min)</label>
-          <Input type="number" min="1" max="60" value={shortMin} onChange={e => setShortMin(parseInt(e.target.value) || 1)} />
+      {/* Preset picker */}
+      <div className="mb-4 grid gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="text-sm text-white/80" htmlFor="presetSel">Program</label>
+          <select id="presetSel" className="select w-60 bg-white/10 text-white" value={selected.id} disabled={phase !== 'idle'} onChange={e => choosePreset(e.target.value)}>
+            <optgroup label="Presets">
+              {presets.BUILTIN_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+            {customPresets.length ? (
+              <optgroup label="My programs">
+                {customPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </optgroup>
+            ) : null}
+          </select>
+          {selected.custom && phase === 'idle' ? (
+            <>
+              <Button size="sm" variant="ghost" onClick={() => { setEditing(selected); setEditorOpen(true); }} title="Edit program"><Pencil size={14} /></Button>
+              <Button size="sm" variant="ghost" onClick={() => removePreset(selected)} title="Delete program"><Trash2 size={14} /></Button>
+            </>
+          ) : null}
+          <Button size="sm" variant="outline" onClick={() => { setEditing(null); setEditorOpen(true); }}><Plus size={14} /> New program</Button>
         </div>
-        <div>
-          <label className="text-sm text-white/80">Long break (min)</label>
-          <Input type="number" min="1" max="60" value={longMin} onChange={e => setLongMin(parseInt(e.target.value) || 1)} />
+        <div className="text-xs text-white/60">
+          {selected.description || presets.describeSteps(selected.steps)}{selected.loop ? " · repeats" : ""}
+          {phase !== 'idle' ? " · reset to switch programs" : ""}
         </div>
-        <div>
-          <label className="text-sm text-white/80">Intervals before long break</label>
-          <Input type="number" min="1" max="10" value={intervalsBeforeLong} onChange={e => setIntervalsBeforeLong(parseInt(e.target.value) || 1)} />
+        <div className="grid gap-2 md:grid-cols-[10rem_10rem_1fr]">
+          <select className="select bg-white/10 text-white" value={tags.course || ""} onChange={e => updateTags({ course: e.target.value || null })} aria-label="Course">
+            <option value="">No course</option>
+            {courses.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <select className="select bg-white/10 text-white" value={tags.group_id || ""} onChange={e => updateTags({ group_id: e.target.value || null })} aria-label="Group">
+            <option value="">Solo</option>
+            {myGroups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+          </select>
+          <input className="input bg-white/10 text-white" value={tags.goal || ""} onChange={e => updateTags({ goal: e.target.value || null })} placeholder="Goal for this focus block…" />
         </div>
       </div>
       {/* Timer display with circular progress */}
       <div className="mb-4 flex flex-col items-center justify-center gap-4 rounded-xl border border-white/15 bg-white/10 p-6 text-center">
-        <div className="text-sm uppercase text-white/70">{phase === 'idle' ? 'Ready' : phase === 'focus' ? 'Focus' : phase === 'short' ? 'Short Break' : 'Long Break'}</div>
+        <div className="text-sm uppercase text-white/70">{phase === 'idle' ? 'Ready' : steps[timer.step]?.label || (phase === 'focus' ? 'Focus' : phase === 'short' ? 'Short Break' : 'Long Break')}</div>
         
         {/* Circular progress ring */}
         <div className="relative">
@@ -361,7 +503,7 @@ export default function Timer() {
               strokeWidth="8"
               fill="none"
               strokeDasharray={`${2 * Math.PI * 90}`}
-              strokeDashoffset={`${2 * Math.PI * 90 * (1 - (phase !== 'idle' ? remaining / (phase === 'focus' ? workMin * 60 : phase === 'short' ? shortMin * 60 : longMin * 60) : 0))}`}
+              strokeDashoffset={`${2 * Math.PI * 90 * (1 - pomo.progress(timer, now))}`}
               strokeLinecap="round"
               className="transition-all duration-1000"
             />
@@ -375,21 +517,43 @@ export default function Timer() {
         <div className="flex gap-2">
           <Button onClick={toggle}>{running ? 'Pause (Space)' : phase === 'idle' ? 'Start (Space)' : 'Resume (Space)'}</Button>
           <Button variant="outline" onClick={reset}>Reset</Button>
-          {running && <Button variant="ghost" onClick={handlePhaseEnd}>Next (N)</Button>}
+          {running && <Button variant="ghost" onClick={next}>Next (N)</Button>}
         </div>
       </div>
       {/* History */}
-      <h3 className="mt-4 mb-2 text-lg font-semibold">Recent focus sessions</h3>
+      <div className="mt-4 mb-2 flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold">Recent focus sessions</h3>
+        <div className="flex gap-2">
+          <select className="select w-36 bg-white/10 text-white" value={filterCourse} onChange={e => setFilterCourse(e.target.value)} aria-label="Filter by course">
+            <option value="">All courses</option>
+            {courses.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <select className="select w-36 bg-white/10 text-white" value={filterGroup} onChange={e => setFilterGroup(e.target.value)} aria-label="Filter by group">
+            <option value="">All groups</option>
+            <option value="solo">Solo</option>
+            {myGroups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+          </select>
+        </div>
+      </div>
       {loading ? <div>Loading…</div> : history.length === 0 ? <div>No sessions recorded yet.</div> : (
         <ul className="space-y-2">
           {history.map(sess => (
-            <li key={sess.id} className="flex items-center justify-between rounded-lg border border-white/15 bg-white/10 p-2 text-white/90">
-              <div>
-                <div className="text-sm text-white/70">{new Date(sess.start_at).toLocaleDateString()}</div>
-                <div className="text-[15px]">Start: {new Date(sess.start_at).toLocaleTimeString()}</div>
-                {sess.end_at ? <div className="text-[15px]">End: {new Date(sess.end_at).toLocaleTimeString()}</div> : <div className="text-[15px] text-white/60">In progress</div>}
+            <li key={sess.id} className="flex items-start justify-between gap-3 rounded-lg border border-white/15 bg-white/10 p-2 text-white/90">
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-1 text-sm text-white/70">
+                  <span>{new Date(sess.start_at).toLocaleDateString()}</span>
+                  {sess.status === 'abandoned' ? <span className="badge px-1.5 py-0 text-[11px] text-amber-300">Abandoned</span> : null}
+                  {sess.course ? <span className="badge px-1.5 py-0 text-[11px]">{sess.course}</span> : null}
+                  {sess.group_id ? <span className="badge px-1.5 py-0 text-[11px]">{myGroups.find(g => g.id === sess.group_id)?.name || "Group"}</span> : null}
+                </div>
+                <div className="text-[15px]">{new Date(sess.start_at).toLocaleTimeString()} – {sess.end_at ? new Date(sess.end_at).toLocaleTimeString() : <span className="text-white/60">in progress</span>}</div>
+                {sess.goal ? <div className="truncate text-sm text-white/80">🎯 {sess.goal}</div> : null}
+                {sess.reflection ? <div className="text-sm text-white/60 whitespace-pre-wrap">💭 {sess.reflection}</div> : null}
+              </div>
+              <div className="flex shrink-0 flex-col items-end gap-1">
+                {sess.end_at ? <div className="font-semibold">{fmt(Math.round((new Date(sess.end_at).getTime() - new Date(sess.start_at).getTime()) / 1000))}</div> : null}
+                <button type="button" className="rounded p-1 text-white/60 hover:bg-white/10" title="Edit tags" onClick={() => setEditingSession({ session: sess, reflectOnly: false })}><Pencil size={14} /></button>
               </div>
-              {sess.end_at ? <div className="font-semibold">{fmt((new Date(sess.end_at).getTime() - new Date(sess.start_at).getTime()) / 1000)}</div> : null}
             </li>
           ))}
         </ul>
@@ -402,16 +566,29 @@ export default function Timer() {
           <div className="text-xl font-bold text-primary">{todayCount}</div>
         </div>
         <div className="rounded-lg bg-white/5 p-3 border border-white/10">
-          <div className="text-white/60">Next Break</div>
+          <div className="text-white/60">Up Next</div>
           <div className="text-xl font-bold text-white/90">
-            {phase === 'idle' ? '—' : phase === 'focus' ? (intervalCount + 1) % intervalsBeforeLong === 0 ? 'Long' : 'Short' : '—'}
+            {upNext ? `${upNext.label || (upNext.phase === 'focus' ? 'Focus' : upNext.phase === 'short' ? 'Break' : 'Long')} ${upNext.minutes}m` : '—'}
           </div>
         </div>
         <div className="rounded-lg bg-white/5 p-3 border border-white/10">
-          <div className="text-white/60">Cycle</div>
-          <div className="text-xl font-bold text-white/90">{phase === 'idle' ? '0/4' : `${(intervalCount % intervalsBeforeLong) + (phase === 'focus' ? 1 : 0)}/${intervalsBeforeLong}`}</div>
+          <div className="text-white/60">Step</div>
+          <div className="text-xl font-bold text-white/90">{phase === 'idle' ? `0/${steps.length}` : `${timer.step + 1}/${steps.length}`}</div>
         </div>
       </div>
+      <PresetEditor open={editorOpen} onOpenChange={setEditorOpen} initial={editing} onSave={savePreset} />
+      {editingSession ? (
+        <FocusSessionEditor
+          open
+          onOpenChange={o => { if (!o) setEditingSession(null); }}
+          title={editingSession.reflectOnly ? "How did it go?" : "Edit focus session"}
+          value={editingSession.session}
+          courses={courses}
+          groups={myGroups}
+          reflectOnly={editingSession.reflectOnly}
+          onSave={v => saveSessionTags(editingSession.session.id, v)}
+        />
+      ) : null}
       {/* Keyboard shortcuts hint */}
       <div className="mt-3 text-center text-xs text-white/40">
         Shortcuts: F = Fullscreen • Space = Start/Pause • N = Next
@@ -51,7 +51,8 @@ create table if not exists public.video_rooms (
 alter table public.video_rooms enable row level security;
 
 -- Read: group members can see active rooms
-create policy if not exists video_rooms_read on public.video_rooms
+drop policy if exists video_rooms_read on public.video_rooms;
+create policy video_rooms_read on public.video_rooms
   for select using (
     exists (
       select 1 from public.group_members gm
@@ -60,7 +61,8 @@ create policy if not exists video_rooms_read on public.video_rooms
   );
 
 -- Insert: only admin of the group may start
-create policy if not exists video_rooms_insert on public.video_rooms
+drop policy if exists video_rooms_insert on public.video_rooms;
+create policy video_rooms_insert on public.video_rooms
   for insert with check (
     exists (
       select 1 from public.study_groups g
@@ -69,7 +71,8 @@ create policy if not exists video_rooms_insert on public.video_rooms
   );
 
 -- Update (close room): only admin
-create policy if not exists video_rooms_update on public.video_rooms
+drop policy if exists video_rooms_update on public.video_rooms;
+create policy video_rooms_update on public.video_rooms
   for update using (
     exists (
       select 1 from public.study_groups g
@@ -0,0 +1,13 @@
+-- Profile fields read by the matching engine (src/lib/matching.ts).
+-- Profile.tsx already writes these; make sure they exist.
+-- Run in Supabase SQL editor.
+
+alter table public.profiles
+  add column if not exists interests text[],
+  add column if not exists availability text,
+  add column if not exists bio text,
+  add column if not exists major text;
+
+-- Array overlap lookups on courses/tags
+create index if not exists idx_profiles_courses on public.profiles using gin (courses);
+create index if not exists idx_groups_tags on public.study_groups using gin (tags);
@@ -0,0 +1,31 @@
+-- Custom Pomodoro programs saved per user (see src/lib/presets.ts).
+-- `steps` is an ordered JSON array of { phase: 'focus'|'short'|'long', minutes, label? }.
+-- Run in Supabase SQL editor.
+
+create table if not exists public.timer_presets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null,
+  steps jsonb not null default '[]'::jsonb,
+  loop boolean not null default false,
+  created_at timestamptz default now(),
+  constraint timer_presets_steps_array check (jsonb_typeof(steps) = 'array')
+);
+
+create index if not exists idx_timer_presets_user on public.timer_presets(user_id);
+
+alter table public.timer_presets enable row level security;
+
+-- Presets are private to their owner
+drop policy if exists timer_presets_read_own on public.timer_presets;
+create policy timer_presets_read_own on public.timer_presets
+  for select using (auth.uid() = user_id);
+drop policy if exists timer_presets_insert_own on public.timer_presets;
+create policy timer_presets_insert_own on public.timer_presets
+  for insert with check (auth.uid() = user_id);
+drop policy if exists timer_presets_update_own on public.timer_presets;
+create policy timer_presets_update_own on public.timer_presets
+  for update using (auth.uid() = user_id);
+drop policy if exists timer_presets_delete_own on public.timer_presets;
+create policy timer_presets_delete_own on public.timer_presets
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,33 @@
+-- Tag Pomodoro focus sessions with a course, optional group, goal and
+-- reflection. `kind` separates timer focus rows ('focus') from sessions
+-- scheduled on the Calendar ('scheduled'), so a focus block tagged with a
+-- group does not show up on that group's calendar.
+-- Run in Supabase SQL editor.
+
+alter table public.study_sessions
+  add column if not exists kind text not null default 'scheduled',
+  add column if not exists course text,
+  add column if not exists goal text,
+  add column if not exists reflection text;
+
+-- Rows written by the timer before this migration had no group
+update public.study_sessions set kind = 'focus' where group_id is null and kind = 'scheduled';
+
+alter table public.study_sessions
+  drop constraint if exists study_sessions_kind_check;
+alter table public.study_sessions
+  add constraint study_sessions_kind_check check (kind in ('focus', 'scheduled'));
+
+create index if not exists idx_sessions_user_kind on public.study_sessions(user_id, kind, start_at desc);
+
+-- Focus rows belong to their author even when tagged with a group:
+-- other members must not be able to edit someone's reflection.
+drop policy if exists "sessions_update" on public.study_sessions;
+create policy "sessions_update" on public.study_sessions
+  for update using (
+    (kind = 'focus' and user_id = auth.uid())
+    or (kind = 'scheduled' and group_id is not null and exists (
+      select 1 from public.group_members gm where gm.group_id = study_sessions.group_id and gm.user_id = auth.uid()
+    ))
+    or (kind = 'scheduled' and group_id is null and user_id = auth.uid())
+  );
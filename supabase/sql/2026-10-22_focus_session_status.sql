@@ -0,0 +1,11 @@
+-- Record whether a focus session ran to the end or was abandoned (timer
+-- reset mid-focus), for the completion rate on the analytics page.
+-- Run in Supabase SQL editor.
+
+alter table public.study_sessions
+  add column if not exists status text not null default 'completed';
+
+alter table public.study_sessions
+  drop constraint if exists study_sessions_status_check;
+alter table public.study_sessions
+  add constraint study_sessions_status_check check (status in ('completed', 'abandoned'));
@@ -0,0 +1,14 @@
+-- Per-user streak settings read by src/lib/streaks.ts.
+-- Run in Supabase SQL editor.
+
+alter table public.profiles
+  add column if not exists streak_min_minutes int not null default 15,
+  add column if not exists streak_freezes int not null default 2;
+
+alter table public.profiles
+  drop constraint if exists profiles_streak_settings_check;
+alter table public.profiles
+  add constraint profiles_streak_settings_check check (streak_min_minutes >= 1 and streak_freezes between 0 and 10);
+
+-- Streaks scan all of a user's completed focus sessions
+create index if not exists idx_sessions_user_status on public.study_sessions(user_id, status) where kind = 'focus';
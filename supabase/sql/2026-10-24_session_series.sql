@@ -0,0 +1,67 @@
+-- Recurring group sessions (see src/lib/series.ts).
+-- A series stores the rule; every occurrence is still a row in
+-- study_sessions pointing back to it via series_id/occurrence_date.
+-- `rule` is { freq: 'daily'|'weekly', interval, byWeekday?, until?, count? },
+-- `exdates` are skipped local dates. Rows edited on their own are marked
+-- is_exception so editing the whole series leaves them alone.
+-- Run in Supabase SQL editor.
+
+create table if not exists public.session_series (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.study_groups(id) on delete cascade,
+  created_by uuid references public.profiles(id) on delete set null,
+  title text,
+  start_date date not null,
+  start_time time not null,
+  duration_min int not null check (duration_min > 0),
+  tz text not null default 'UTC',
+  rule jsonb not null,
+  exdates date[] not null default '{}',
+  created_at timestamptz default now(),
+  constraint session_series_rule_freq check (rule->>'freq' in ('daily', 'weekly'))
+);
+
+create index if not exists idx_session_series_group on public.session_series(group_id);
+
+alter table public.study_sessions
+  add column if not exists series_id uuid references public.session_series(id) on delete set null,
+  add column if not exists occurrence_date date,
+  add column if not exists is_exception boolean not null default false;
+
+create index if not exists idx_sessions_series on public.study_sessions(series_id, occurrence_date);
+
+alter table public.session_series enable row level security;
+
+-- Group members can see and manage their group's series
+drop policy if exists session_series_read on public.session_series;
+create policy session_series_read on public.session_series
+  for select using (exists (
+    select 1 from public.group_members gm where gm.group_id = session_series.group_id and gm.user_id = auth.uid()
+  ));
+drop policy if exists session_series_insert on public.session_series;
+create policy session_series_insert on public.session_series
+  for insert with check (created_by = auth.uid() and exists (
+    select 1 from public.group_members gm where gm.group_id = session_series.group_id and gm.user_id = auth.uid()
+  ));
+drop policy if exists session_series_update on public.session_series;
+create policy session_series_update on public.session_series
+  for update using (exists (
+    select 1 from public.group_members gm where gm.group_id = session_series.group_id and gm.user_id = auth.uid()
+  ));
+drop policy if exists session_series_delete on public.session_series;
+create policy session_series_delete on public.session_series
+  for delete using (exists (
+    select 1 from public.group_members gm where gm.group_id = session_series.group_id and gm.user_id = auth.uid()
+  ));
+
+-- Skipping a date or regenerating a series deletes occurrence rows.
+-- Same rule as sessions_update: members for group sessions, owners for the rest.
+drop policy if exists "sessions_delete" on public.study_sessions;
+create policy "sessions_delete" on public.study_sessions
+  for delete using (
+    (kind = 'focus' and user_id = auth.uid())
+    or (kind = 'scheduled' and group_id is not null and exists (
+      select 1 from public.group_members gm where gm.group_id = study_sessions.group_id and gm.user_id = auth.uid()
+    ))
+    or (kind = 'scheduled' and group_id is null and user_id = auth.uid())
+  );
@@ -0,0 +1,122 @@
+-- Calendar import/export and the subscribable feed (see src/lib/calendarSync.ts).
+-- `ics_uid` keeps the UID of imported events so re-importing a file is a no-op.
+-- calendar_feed(token) serves an .ics of the token owner's group sessions:
+--   GET <project>/rest/v1/rpc/calendar_feed?token=<token>&apikey=<anon key>
+-- It returns the "text/calendar" domain so PostgREST answers with that
+-- content type. Occurrences of a series are listed one by one (they are
+-- rows already), in UTC, so no VTIMEZONE is needed.
+-- Run in Supabase SQL editor.
+
+alter table public.study_sessions add column if not exists ics_uid text;
+alter table public.session_series add column if not exists ics_uid text;
+
+create unique index if not exists uq_sessions_group_ics_uid on public.study_sessions(group_id, ics_uid) where ics_uid is not null;
+create unique index if not exists uq_series_group_ics_uid on public.session_series(group_id, ics_uid) where ics_uid is not null;
+
+create table if not exists public.calendar_feeds (
+  user_id uuid primary key references public.profiles(id) on delete cascade,
+  token text not null unique default encode(gen_random_bytes(24), 'hex'),
+  created_at timestamptz default now()
+);
+
+alter table public.calendar_feeds enable row level security;
+
+-- Only the owner may see or rotate their token
+drop policy if exists calendar_feeds_read_own on public.calendar_feeds;
+create policy calendar_feeds_read_own on public.calendar_feeds
+  for select using (auth.uid() = user_id);
+drop policy if exists calendar_feeds_insert_own on public.calendar_feeds;
+create policy calendar_feeds_insert_own on public.calendar_feeds
+  for insert with check (auth.uid() = user_id);
+drop policy if exists calendar_feeds_update_own on public.calendar_feeds;
+create policy calendar_feeds_update_own on public.calendar_feeds
+  for update using (auth.uid() = user_id);
+drop policy if exists calendar_feeds_delete_own on public.calendar_feeds;
+create policy calendar_feeds_delete_own on public.calendar_feeds
+  for delete using (auth.uid() = user_id);
+
+do $$ begin
+  create domain "text/calendar" as text;
+exception when duplicate_object then null;
+end $$;
+
+-- RFC 5545 TEXT escaping
+create or replace function public.ics_escape(s text) returns text
+language sql immutable as $$
+  select replace(replace(replace(replace(replace(coalesce(s, ''), '\', '\\'), ';', '\;'), ',', '\,'), E'\r', ''), E'\n', '\n')
+$$;
+
+-- Fold a content line at 75 octets; continuation lines start with a space
+create or replace function public.ics_fold(line text) returns text
+language plpgsql immutable as $$
+declare
+  result text := '';
+  cur text := '';
+  ch text;
+  lim int := 75;
+begin
+  for i in 1..char_length(line) loop
+    ch := substr(line, i, 1);
+    if octet_length(cur || ch) > lim then
+      result := result || cur || E'\r\n ';
+      cur := ch;
+      lim := 74;
+    else
+      cur := cur || ch;
+    end if;
+  end loop;
+  return result || cur;
+end $$;
+
+create or replace function public.calendar_feed(token text) returns "text/calendar"
+language plpgsql stable security definer set search_path = public as $$
+declare
+  owner uuid;
+  crlf text := E'\r\n';
+  stamp text := to_char(now() at time zone 'utc', 'YYYYMMDD"T"HH24MISS"Z"');
+  body text;
+  ev record;
+begin
+  select f.user_id into owner from public.calendar_feeds f where f.token = calendar_feed.token;
+  if owner is null then
+    raise exception 'Unknown calendar feed' using errcode = '28000';
+  end if;
+
+  body := 'BEGIN:VCALENDAR' || crlf
+    || 'VERSION:2.0' || crlf
+    || 'PRODID:-//SocialStudy//Calendar//EN' || crlf
+    || 'CALSCALE:GREGORIAN' || crlf
+    || 'METHOD:PUBLISH' || crlf
+    || 'X-WR-CALNAME:SocialStudy' || crlf;
+
+  for ev in
+    select s.id, s.title, s.start_at, s.end_at, g.name as group_name
+    from public.study_sessions s
+    join public.study_groups g on g.id = s.group_id
+    where s.kind = 'scheduled'
+      and s.end_at is not null
+      and s.start_at > now() - interval '90 days'
+      and exists (select 1 from public.group_members gm where gm.group_id = s.group_id and gm.user_id = owner)
+    order by s.start_at
+  loop
+    body := body
+      || 'BEGIN:VEVENT' || crlf
+      || 'UID:session-' || ev.id || '@socialstudy' || crlf
+      || 'DTSTAMP:' || stamp || crlf
+      || 'DTSTART:' || to_char(ev.start_at at time zone 'utc', 'YYYYMMDD"T"HH24MISS"Z"') || crlf
+      || 'DTEND:' || to_char(ev.end_at at time zone 'utc', 'YYYYMMDD"T"HH24MISS"Z"') || crlf
+      || ics_fold('SUMMARY:' || ics_escape(coalesce(ev.title, 'Study: ' || ev.group_name))) || crlf
+      || ics_fold('DESCRIPTION:' || ics_escape('SocialStudy · ' || ev.group_name)) || crlf
+      || 'BEGIN:VALARM' || crlf
+      || 'ACTION:DISPLAY' || crlf
+      || 'DESCRIPTION:Study session' || crlf
+      || 'TRIGGER:-PT15M' || crlf
+      || 'END:VALARM' || crlf
+      || 'END:VEVENT' || crlf;
+  end loop;
+
+  return body || 'END:VCALENDAR' || crlf;
+end $$;
+
+revoke all on function public.calendar_feed(text) from public;
+grant execute on function public.calendar_feed(text) to anon, authenticated;
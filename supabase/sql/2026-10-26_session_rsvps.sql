@@ -0,0 +1,238 @@
+-- RSVPs for group sessions, system chat notices, and who may change a session.
+-- A scheduled group session (and its series) can now only be edited or
+-- cancelled by whoever created it or by the group's admin (study_groups.created_by).
+-- Moving or cancelling a session posts a `kind = 'system'` message in the group chat.
+-- The database writes those notices itself (triggers below); clients can only post
+-- ordinary `kind = 'user'` messages, so nobody can fake one.
+-- Run in Supabase SQL editor.
+
+create table if not exists public.session_rsvps (
+  session_id bigint not null references public.study_sessions(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  status text not null check (status in ('going', 'maybe', 'declined')),
+  updated_at timestamptz default now(),
+  primary key (session_id, user_id)
+);
+
+create index if not exists idx_session_rsvps_user on public.session_rsvps(user_id);
+
+alter table public.session_rsvps enable row level security;
+
+-- Members of the session's group see every answer; each user manages their own
+drop policy if exists session_rsvps_read on public.session_rsvps;
+create policy session_rsvps_read on public.session_rsvps
+  for select using (exists (
+    select 1 from public.study_sessions s
+    join public.group_members gm on gm.group_id = s.group_id
+    where s.id = session_rsvps.session_id and gm.user_id = auth.uid()
+  ));
+drop policy if exists session_rsvps_insert_own on public.session_rsvps;
+create policy session_rsvps_insert_own on public.session_rsvps
+  for insert with check (user_id = auth.uid() and exists (
+    select 1 from public.study_sessions s
+    join public.group_members gm on gm.group_id = s.group_id
+    where s.id = session_rsvps.session_id and gm.user_id = auth.uid()
+  ));
+drop policy if exists session_rsvps_update_own on public.session_rsvps;
+create policy session_rsvps_update_own on public.session_rsvps
+  for update using (user_id = auth.uid());
+drop policy if exists session_rsvps_delete_own on public.session_rsvps;
+create policy session_rsvps_delete_own on public.session_rsvps
+  for delete using (user_id = auth.uid());
+
+-- Live attendee lists
+do $$ begin
+  alter publication supabase_realtime add table public.session_rsvps;
+exception when duplicate_object then null;
+end $$;
+
+-- System notices in chat (session moved / cancelled)
+alter table public.messages add column if not exists kind text not null default 'user';
+alter table public.messages drop constraint if exists messages_kind_check;
+alter table public.messages add constraint messages_kind_check check (kind in ('user', 'system'));
+
+drop policy if exists "messages_insert_member" on public.messages;
+create policy "messages_insert_member" on public.messages
+  for insert with check (
+    user_id = auth.uid()
+    and kind = 'user'
+    and exists (
+      select 1 from public.group_members gm
+      where gm.group_id = messages.group_id and gm.user_id = auth.uid()
+    )
+  );
+
+-- "Tue, 20 Oct, 18:00–19:00" in `tz`, like formatWhen() in src/lib/sessions.ts
+create or replace function public.session_when(start_at timestamptz, end_at timestamptz, tz text)
+returns text
+language sql stable
+as $$
+  select to_char(start_at at time zone tz, 'Dy, FMDD Mon, HH24:MI')
+    || coalesce('–' || to_char(end_at at time zone tz, 'HH24:MI'), '');
+$$;
+
+-- The zone a session is shown in: its series', else its creator's
+create or replace function public.session_zone(series uuid, creator uuid)
+returns text
+language sql stable security definer set search_path = public
+as $$
+  select coalesce(
+    (select ss.tz from public.session_series ss where ss.id = series),
+    (select p.time_zone from public.profiles p where p.id = creator),
+    'UTC');
+$$;
+
+-- Post a notice as the user who made the change. Cascades (a group or an account
+-- being deleted) and changes made without a user post nothing.
+create or replace function public.post_session_notice(gid uuid, content text)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if auth.uid() is null
+    or not exists (select 1 from public.study_groups where id = gid)
+    or not exists (select 1 from public.profiles where id = auth.uid()) then
+    return;
+  end if;
+  insert into public.messages (group_id, user_id, content, kind) values (gid, auth.uid(), content, 'system');
+end $$;
+
+revoke all on function public.post_session_notice(uuid, text) from public, anon, authenticated;
+
+-- One session moved: a one-off session, or a single occurrence edited on its own.
+-- Occurrences following a series change are announced once, by the series trigger.
+create or replace function public.notice_session_moved()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  tz text := public.session_zone(new.series_id, new.user_id);
+  label text;
+begin
+  if new.kind <> 'scheduled' or new.group_id is null
+    or (new.start_at = old.start_at and new.end_at is not distinct from old.end_at)
+    or (new.series_id is not null and not new.is_exception) then
+    return null;
+  end if;
+  select coalesce(new.title, 'Study: ' || g.name) into label from public.study_groups g where g.id = new.group_id;
+  perform public.post_session_notice(new.group_id, format('📅 Moved “%s” from %s to %s (%s)',
+    label, public.session_when(old.start_at, old.end_at, tz), public.session_when(new.start_at, new.end_at, tz), tz));
+  return null;
+end $$;
+
+drop trigger if exists trg_sessions_notice_moved on public.study_sessions;
+create trigger trg_sessions_notice_moved after update of start_at, end_at on public.study_sessions
+  for each row execute function public.notice_session_moved();
+
+-- Sessions cancelled: one notice per session, or per series for the occurrences
+-- removed together. Sessions that are already over are not announced.
+create or replace function public.notice_sessions_cancelled()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  c record;
+  tz text;
+  label text;
+begin
+  for c in
+    select distinct on (d.group_id, coalesce(d.series_id::text, d.id::text))
+      d.group_id, d.series_id, d.user_id, d.title, d.start_at, d.end_at,
+      count(*) over (partition by d.group_id, coalesce(d.series_id::text, d.id::text)) as n
+    from gone d
+    where d.kind = 'scheduled' and d.group_id is not null and coalesce(d.end_at, d.start_at) > now()
+    order by d.group_id, coalesce(d.series_id::text, d.id::text), d.start_at
+  loop
+    tz := public.session_zone(c.series_id, c.user_id);
+    select coalesce(c.title, 'Study: ' || g.name) into label from public.study_groups g where g.id = c.group_id;
+    perform public.post_session_notice(c.group_id, case
+      when c.n = 1 then format('❌ Cancelled “%s” on %s', label, public.session_when(c.start_at, c.end_at, tz))
+      else format('❌ Cancelled %s “%s” sessions from %s on', c.n, label, public.session_when(c.start_at, null, tz))
+    end);
+  end loop;
+  return null;
+end $$;
+
+drop trigger if exists trg_sessions_notice_cancelled on public.study_sessions;
+create trigger trg_sessions_notice_cancelled after delete on public.study_sessions
+  referencing old table as gone
+  for each statement execute function public.notice_sessions_cancelled();
+
+-- A series moved or resized ("all", or "following" once its new series takes over)
+create or replace function public.notice_series_changed()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  label text;
+begin
+  if new.start_time = old.start_time and new.duration_min = old.duration_min then
+    return null;
+  end if;
+  select coalesce(new.title, 'Study: ' || g.name) into label from public.study_groups g where g.id = new.group_id;
+  perform public.post_session_notice(new.group_id, format('📅 “%s” now starts at %s for %s min%s (was %s, %s)',
+    label, to_char(new.start_time, 'HH24:MI'), new.duration_min,
+    case when new.start_date >= (now() at time zone new.tz)::date then format(' from %s on', new.start_date) else '' end,
+    to_char(old.start_time, 'HH24:MI'), new.tz));
+  return null;
+end $$;
+
+drop trigger if exists trg_session_series_notice on public.session_series;
+create trigger trg_session_series_notice after update of start_time, duration_min on public.session_series
+  for each row execute function public.notice_series_changed();
+
+-- Creator or group admin only. The new row must stay in a group the caller belongs to,
+-- and an occurrence must stay with a series of that group.
+drop policy if exists "sessions_update" on public.study_sessions;
+create policy "sessions_update" on public.study_sessions
+  for update using (
+    (kind = 'focus' and user_id = auth.uid())
+    or (kind = 'scheduled' and group_id is not null and (
+      user_id = auth.uid()
+      or exists (select 1 from public.study_groups g where g.id = study_sessions.group_id and g.created_by = auth.uid())
+    ))
+    or (kind = 'scheduled' and group_id is null and user_id = auth.uid())
+  ) with check (
+    (kind = 'focus' and user_id = auth.uid())
+    or (kind = 'scheduled' and group_id is not null
+      and exists (select 1 from public.group_members gm where gm.group_id = study_sessions.group_id and gm.user_id = auth.uid())
+      and (series_id is null or exists (
+        select 1 from public.session_series s where s.id = study_sessions.series_id and s.group_id = study_sessions.group_id
+      ))
+      and (
+        user_id = auth.uid()
+        or exists (select 1 from public.study_groups g where g.id = study_sessions.group_id and g.created_by = auth.uid())
+      ))
+    or (kind = 'scheduled' and group_id is null and series_id is null and user_id = auth.uid())
+  );
+
+drop policy if exists "sessions_delete" on public.study_sessions;
+create policy "sessions_delete" on public.study_sessions
+  for delete using (
+    (kind = 'focus' and user_id = auth.uid())
+    or (kind = 'scheduled' and group_id is not null and (
+      user_id = auth.uid()
+      or exists (select 1 from public.study_groups g where g.id = study_sessions.group_id and g.created_by = auth.uid())
+    ))
+    or (kind = 'scheduled' and group_id is null and user_id = auth.uid())
+  );
+
+drop policy if exists session_series_update on public.session_series;
+create policy session_series_update on public.session_series
+  for update using (
+    created_by = auth.uid()
+    or exists (select 1 from public.study_groups g where g.id = session_series.group_id and g.created_by = auth.uid())
+  ) with check (
+    exists (select 1 from public.group_members gm where gm.group_id = session_series.group_id and gm.user_id = auth.uid())
+    and (
+      created_by = auth.uid()
+      or exists (select 1 from public.study_groups g where g.id = session_series.group_id and g.created_by = auth.uid())
+    )
+  );
+
+drop policy if exists session_series_delete on public.session_series;
+create policy session_series_delete on public.session_series
+  for delete using (
+    created_by = auth.uid()
+    or exists (select 1 from public.study_groups g where g.id = session_series.group_id and g.created_by = auth.uid())
+  );
@@ -0,0 +1,18 @@
+-- Organizer's time zone on scheduled sessions.
+-- The Calendar now renders everything in the viewer's profile time zone and
+-- shows the organizer's zone alongside; `tz` is the IANA zone the session was
+-- created in (the series' zone for recurring occurrences).
+-- Run in Supabase SQL editor.
+
+alter table public.study_sessions add column if not exists tz text;
+
+-- Backfill: occurrences take their series' zone, other sessions their creator's profile zone
+update public.study_sessions s
+  set tz = ss.tz
+  from public.session_series ss
+  where s.series_id = ss.id and s.tz is null;
+
+update public.study_sessions s
+  set tz = p.time_zone
+  from public.profiles p
+  where s.user_id = p.id and s.kind = 'scheduled' and s.tz is null;
@@ -0,0 +1,11 @@
+-- Structured weekly availability for the group overlap finder.
+-- `weekly_availability` is a JSON array of {weekday, start, end} ranges
+-- (weekday 0 = Sunday, times "HH:MM") in the user's profile time_zone.
+-- Run in Supabase SQL editor.
+
+alter table public.profiles
+  add column if not exists weekly_availability jsonb not null default '[]'::jsonb;
+
+alter table public.profiles drop constraint if exists profiles_weekly_availability_array;
+alter table public.profiles
+  add constraint profiles_weekly_availability_array check (jsonb_typeof(weekly_availability) = 'array');
@@ -0,0 +1,201 @@
+-- In-app notifications: session reminders, chat mentions, RSVP changes and group joins.
+-- Rows are written by the triggers/functions below (SECURITY DEFINER), never by
+-- clients; each user reads and marks their own. Per-user switches and the reminder
+-- lead time live in notification_prefs (missing row = defaults).
+-- Reminders are queued by queue_session_reminders(): the app calls it while a tab
+-- is open (for the current user only); with pg_cron enabled, the job at the bottom
+-- queues them for everyone every minute.
+-- Run in Supabase SQL editor.
+
+create table if not exists public.notifications (
+  id bigserial primary key,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  kind text not null check (kind in ('session_reminder', 'mention', 'rsvp', 'group_join')),
+  title text not null,
+  body text,
+  link text,
+  group_id uuid references public.study_groups(id) on delete cascade,
+  session_id bigint references public.study_sessions(id) on delete cascade,
+  actor_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  read_at timestamptz
+);
+
+create index if not exists idx_notifications_user_created on public.notifications(user_id, created_at desc);
+create index if not exists idx_notifications_unread on public.notifications(user_id) where read_at is null;
+-- One reminder per member and session
+create unique index if not exists uq_notifications_reminder
+  on public.notifications(user_id, session_id) where kind = 'session_reminder';
+
+create table if not exists public.notification_prefs (
+  user_id uuid primary key references public.profiles(id) on delete cascade,
+  reminders boolean not null default true,
+  reminder_minutes int not null default 15 check (reminder_minutes between 1 and 1440),
+  mentions boolean not null default true,
+  rsvps boolean not null default true,
+  group_joins boolean not null default true,
+  browser boolean not null default true,
+  updated_at timestamptz default now()
+);
+
+alter table public.notifications enable row level security;
+alter table public.notification_prefs enable row level security;
+
+drop policy if exists notifications_read on public.notifications;
+create policy notifications_read on public.notifications
+  for select using (user_id = auth.uid());
+drop policy if exists notifications_update on public.notifications;
+create policy notifications_update on public.notifications
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+drop policy if exists notifications_delete on public.notifications;
+create policy notifications_delete on public.notifications
+  for delete using (user_id = auth.uid());
+
+drop policy if exists notification_prefs_rw on public.notification_prefs;
+create policy notification_prefs_rw on public.notification_prefs
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Is `kind` switched on for `uid`? (defaults to yes)
+create or replace function public.wants_notification(uid uuid, kind text)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select coalesce((
+    select case kind
+      when 'session_reminder' then np.reminders
+      when 'mention' then np.mentions
+      when 'rsvp' then np.rsvps
+      when 'group_join' then np.group_joins
+    end
+    from public.notification_prefs np where np.user_id = uid
+  ), true);
+$$;
+
+-- Chat mentions: "@Priya" or "@PriyaSharma" (first name or full name without spaces)
+create or replace function public.notify_mentions()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  sender text;
+  gname text;
+begin
+  if new.content is null or position('@' in new.content) = 0 or new.kind = 'system' then
+    return new;
+  end if;
+  select full_name into sender from public.profiles where id = new.user_id;
+  select name into gname from public.study_groups where id = new.group_id;
+  insert into public.notifications (user_id, kind, title, body, link, group_id, actor_id)
+  select gm.user_id, 'mention',
+         coalesce(sender, 'Someone') || ' mentioned you in ' || coalesce(gname, 'a group'),
+         left(new.content, 200), '/chat', new.group_id, new.user_id
+  from public.group_members gm
+  join public.profiles p on p.id = gm.user_id
+  where gm.group_id = new.group_id
+    and gm.user_id <> new.user_id
+    and p.full_name is not null
+    and (lower(new.content) ~ ('@' || lower(regexp_replace(split_part(p.full_name, ' ', 1), '\W', '', 'g')) || '\M')
+      or lower(new.content) ~ ('@' || lower(regexp_replace(p.full_name, '\W', '', 'g')) || '\M'))
+    and public.wants_notification(gm.user_id, 'mention');
+  return new;
+end $$;
+
+drop trigger if exists trg_messages_mentions on public.messages;
+create trigger trg_messages_mentions after insert on public.messages
+  for each row execute function public.notify_mentions();
+
+-- RSVP changes notify whoever scheduled the session
+create or replace function public.notify_rsvp()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  s record;
+  who text;
+begin
+  if tg_op = 'UPDATE' and new.status = old.status then return new; end if;
+  select id, user_id, group_id, title into s from public.study_sessions where id = new.session_id;
+  if s.user_id is null or s.user_id = new.user_id or not public.wants_notification(s.user_id, 'rsvp') then
+    return new;
+  end if;
+  select full_name into who from public.profiles where id = new.user_id;
+  insert into public.notifications (user_id, kind, title, body, link, group_id, session_id, actor_id)
+  values (s.user_id, 'rsvp',
+          coalesce(who, 'Someone') || case new.status when 'going' then ' is going to ' when 'maybe' then ' might join ' else ' can''t make ' end
+            || coalesce(s.title, 'your session'),
+          null, '/calendar', s.group_id, s.id, new.user_id);
+  return new;
+end $$;
+
+drop trigger if exists trg_session_rsvps_notify on public.session_rsvps;
+create trigger trg_session_rsvps_notify after insert or update on public.session_rsvps
+  for each row execute function public.notify_rsvp();
+
+-- New members notify the group admin
+create or replace function public.notify_group_join()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  g record;
+  who text;
+begin
+  select id, name, created_by into g from public.study_groups where id = new.group_id;
+  if g.created_by is null or g.created_by = new.user_id or not public.wants_notification(g.created_by, 'group_join') then
+    return new;
+  end if;
+  select full_name into who from public.profiles where id = new.user_id;
+  insert into public.notifications (user_id, kind, title, link, group_id, actor_id)
+  values (g.created_by, 'group_join', coalesce(who, 'Someone') || ' joined ' || g.name, '/groups', g.id, new.user_id);
+  return new;
+end $$;
+
+drop trigger if exists trg_group_members_notify on public.group_members;
+create trigger trg_group_members_notify after insert on public.group_members
+  for each row execute function public.notify_group_join();
+
+-- Queue reminders for sessions starting within each member's lead time.
+-- Called by a signed-in client it only handles that user; from pg_cron or with
+-- the service role (no user, and not an anon request) it handles everyone.
+-- Safe to call repeatedly.
+create or replace function public.queue_session_reminders()
+returns int
+language plpgsql security definer set search_path = public
+as $$
+declare
+  n int;
+begin
+  if auth.uid() is null and coalesce(auth.role(), '') in ('anon', 'authenticated') then
+    raise exception 'Not signed in';
+  end if;
+  insert into public.notifications (user_id, kind, title, body, link, group_id, session_id)
+  select gm.user_id, 'session_reminder',
+         coalesce(s.title, 'Study session') || ' starts soon',
+         g.name, '/calendar', s.group_id, s.id
+  from public.study_sessions s
+  join public.study_groups g on g.id = s.group_id
+  join public.group_members gm on gm.group_id = s.group_id
+  left join public.notification_prefs np on np.user_id = gm.user_id
+  left join public.session_rsvps r on r.session_id = s.id and r.user_id = gm.user_id
+  where s.kind = 'scheduled'
+    and s.start_at > now()
+    and s.start_at <= now() + make_interval(mins => coalesce(np.reminder_minutes, 15))
+    and coalesce(np.reminders, true)
+    and coalesce(r.status, 'going') <> 'declined'
+    and (auth.uid() is null or gm.user_id = auth.uid())
+  on conflict do nothing;
+  get diagnostics n = row_count;
+  return n;
+end $$;
+
+revoke all on function public.queue_session_reminders() from public, anon;
+grant execute on function public.queue_session_reminders() to authenticated;
+
+-- Live delivery to open tabs
+do $$ begin
+  alter publication supabase_realtime add table public.notifications;
+exception when duplicate_object then null;
+end $$;
+
+-- Optional: with the pg_cron extension enabled, queue reminders every minute.
+-- select cron.schedule('session-reminders', '* * * * *', 'select public.queue_session_reminders()');
@@ -0,0 +1,6 @@
+-- Keyset pagination of chat history (src/lib/chat.ts): newest first per group,
+-- with (created_at, id) as the cursor.
+-- Run in Supabase SQL editor.
+
+create index if not exists idx_messages_group_created_id
+  on public.messages(group_id, created_at desc, id desc);
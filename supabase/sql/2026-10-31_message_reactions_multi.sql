@@ -0,0 +1,33 @@
+-- Several distinct emoji per user and message, toggled on and off.
+-- The primary key becomes (message_id, user_id, emoji); users add and remove only
+-- their own reactions (there is nothing to update any more). Reactions are
+-- published to realtime with full row images so deletes carry message_id/emoji.
+-- Run in Supabase SQL editor.
+
+alter table public.message_reactions drop constraint if exists message_reactions_pkey;
+alter table public.message_reactions add primary key (message_id, user_id, emoji);
+
+create index if not exists idx_message_reactions_message on public.message_reactions(message_id);
+
+drop policy if exists "reactions_upsert_member" on public.message_reactions;
+drop policy if exists "reactions_update_member" on public.message_reactions;
+
+drop policy if exists reactions_insert_own on public.message_reactions;
+create policy reactions_insert_own on public.message_reactions
+  for insert with check (
+    user_id = auth.uid() and exists (
+      select 1 from public.group_members gm
+      join public.messages m on m.id = message_id and gm.group_id = m.group_id
+      where gm.user_id = auth.uid()
+    )
+  );
+drop policy if exists reactions_delete_own on public.message_reactions;
+create policy reactions_delete_own on public.message_reactions
+  for delete using (user_id = auth.uid());
+
+alter table public.message_reactions replica identity full;
+
+do $$ begin
+  alter publication supabase_realtime add table public.message_reactions;
+exception when duplicate_object then null;
+end $$;
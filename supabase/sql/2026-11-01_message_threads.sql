@@ -0,0 +1,110 @@
+-- Threaded replies and quotes in group chat.
+-- A reply has `parent_id` set to the thread's root message (threads are one level
+-- deep); the root keeps `reply_count` / `last_reply_at` up to date via trigger.
+-- Any message can quote another one through `quote_id`.
+-- Replies notify the root's author and everyone who already replied
+-- (notification kind 'thread_reply', switchable in notification_prefs).
+-- Run in Supabase SQL editor.
+
+alter table public.messages
+  add column if not exists parent_id bigint references public.messages(id) on delete cascade,
+  add column if not exists quote_id bigint references public.messages(id) on delete set null,
+  add column if not exists reply_count int not null default 0,
+  add column if not exists last_reply_at timestamptz;
+
+create index if not exists idx_messages_parent on public.messages(parent_id, created_at) where parent_id is not null;
+-- Main stream: roots only
+create index if not exists idx_messages_group_roots
+  on public.messages(group_id, created_at desc, id desc) where parent_id is null;
+
+-- Replies must point at a root of the same group
+create or replace function public.check_message_parent()
+returns trigger
+language plpgsql
+as $$
+declare
+  root record;
+begin
+  if new.parent_id is null then return new; end if;
+  select id, group_id, parent_id into root from public.messages where id = new.parent_id;
+  if root.id is null or root.group_id is distinct from new.group_id then
+    raise exception 'Reply must be in the same group as its thread';
+  end if;
+  if root.parent_id is not null then
+    new.parent_id := root.parent_id;
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_messages_check_parent on public.messages;
+create trigger trg_messages_check_parent before insert on public.messages
+  for each row execute function public.check_message_parent();
+
+create or replace function public.bump_thread()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' and new.parent_id is not null then
+    update public.messages set reply_count = reply_count + 1, last_reply_at = new.created_at where id = new.parent_id;
+  elsif tg_op = 'DELETE' and old.parent_id is not null then
+    update public.messages set reply_count = greatest(reply_count - 1, 0) where id = old.parent_id;
+  end if;
+  return null;
+end $$;
+
+drop trigger if exists trg_messages_bump_thread on public.messages;
+create trigger trg_messages_bump_thread after insert or delete on public.messages
+  for each row execute function public.bump_thread();
+
+-- Notifications for thread participants
+alter table public.notification_prefs add column if not exists thread_replies boolean not null default true;
+
+alter table public.notifications drop constraint if exists notifications_kind_check;
+alter table public.notifications add constraint notifications_kind_check
+  check (kind in ('session_reminder', 'mention', 'rsvp', 'group_join', 'thread_reply'));
+
+create or replace function public.wants_notification(uid uuid, kind text)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select coalesce((
+    select case kind
+      when 'session_reminder' then np.reminders
+      when 'mention' then np.mentions
+      when 'rsvp' then np.rsvps
+      when 'group_join' then np.group_joins
+      when 'thread_reply' then np.thread_replies
+    end
+    from public.notification_prefs np where np.user_id = uid
+  ), true);
+$$;
+
+create or replace function public.notify_thread_reply()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  sender text;
+begin
+  if new.parent_id is null then return new; end if;
+  select full_name into sender from public.profiles where id = new.user_id;
+  insert into public.notifications (user_id, kind, title, body, link, group_id, actor_id)
+  select p.user_id, 'thread_reply',
+         coalesce(sender, 'Someone') || ' replied in a thread',
+         left(new.content, 200), '/chat', new.group_id, new.user_id
+  from (
+    select user_id from public.messages where id = new.parent_id
+    union
+    select user_id from public.messages where parent_id = new.parent_id
+  ) p
+  -- Only people still in the group (a ban removes the membership too)
+  join public.group_members gm on gm.group_id = new.group_id and gm.user_id = p.user_id
+  where p.user_id <> new.user_id
+    and public.wants_notification(p.user_id, 'thread_reply');
+  return new;
+end $$;
+
+drop trigger if exists trg_messages_thread_reply on public.messages;
+create trigger trg_messages_thread_reply after insert on public.messages
+  for each row execute function public.notify_thread_reply();
@@ -0,0 +1,199 @@
+-- Editing, deleting, pinning and muting in group chat.
+-- Authors can edit their messages (previous versions go to message_edits) and
+-- soft-delete them. The group admin (study_groups.created_by) can soft-delete any
+-- message, pin/unpin messages and mute members until a given time. Muted members
+-- cannot post. RLS decides who may update a row; the guard trigger decides which
+-- columns each of them may touch, so the rules hold for any client.
+-- Run in Supabase SQL editor.
+
+alter table public.messages
+  add column if not exists edited_at timestamptz,
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references public.profiles(id) on delete set null,
+  add column if not exists pinned_at timestamptz,
+  add column if not exists pinned_by uuid references public.profiles(id) on delete set null;
+
+create index if not exists idx_messages_pinned on public.messages(group_id, pinned_at desc) where pinned_at is not null;
+
+create table if not exists public.message_edits (
+  id bigserial primary key,
+  message_id bigint not null references public.messages(id) on delete cascade,
+  content text not null,
+  edited_at timestamptz not null default now()
+);
+
+create index if not exists idx_message_edits_message on public.message_edits(message_id, edited_at);
+
+create table if not exists public.group_mutes (
+  group_id uuid not null references public.study_groups(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  muted_until timestamptz not null,
+  muted_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz default now(),
+  primary key (group_id, user_id)
+);
+
+create or replace function public.is_group_admin(gid uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select exists (select 1 from public.study_groups g where g.id = gid and g.created_by = auth.uid());
+$$;
+
+create or replace function public.is_muted(gid uuid, uid uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select exists (select 1 from public.group_mutes m where m.group_id = gid and m.user_id = uid and m.muted_until > now());
+$$;
+
+-- Posting: members only, as themselves, ordinary messages only (session notices
+-- come from the database), and not while muted
+drop policy if exists "messages_insert_member" on public.messages;
+create policy "messages_insert_member" on public.messages
+  for insert with check (
+    user_id = auth.uid()
+    and kind = 'user'
+    and exists (
+      select 1 from public.group_members gm
+      where gm.group_id = messages.group_id and gm.user_id = auth.uid()
+    )
+    and not public.is_muted(group_id, auth.uid())
+  );
+
+drop policy if exists messages_update_author_or_admin on public.messages;
+create policy messages_update_author_or_admin on public.messages
+  for update using (user_id = auth.uid() or public.is_group_admin(group_id));
+
+-- Which columns each role may change. Updates made by our own SECURITY DEFINER
+-- functions (reply counters) are not client updates and pass through.
+create or replace function public.guard_message_update()
+returns trigger
+language plpgsql
+as $$
+declare
+  author boolean := old.user_id = auth.uid();
+  admin boolean := public.is_group_admin(old.group_id);
+begin
+  if current_user not in ('authenticated', 'anon') then return new; end if;
+
+  if new.id is distinct from old.id or new.group_id is distinct from old.group_id
+    or new.user_id is distinct from old.user_id or new.created_at is distinct from old.created_at
+    or new.parent_id is distinct from old.parent_id or new.quote_id is distinct from old.quote_id
+    or new.kind is distinct from old.kind or new.reply_count is distinct from old.reply_count
+    or new.last_reply_at is distinct from old.last_reply_at or new.edited_at is distinct from old.edited_at then
+    raise exception 'These message fields cannot be changed';
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Deleted messages cannot be changed';
+  end if;
+
+  if new.content is distinct from old.content then
+    if not author or new.deleted_at is not null then raise exception 'Only the author can edit a message'; end if;
+    new.edited_at := now();
+  end if;
+
+  if new.deleted_at is not null then
+    if not (author or admin) then raise exception 'Not allowed to delete this message'; end if;
+    -- Soft delete: the row stays (threads, quotes) but its text and history go
+    new.deleted_at := now();
+    new.deleted_by := auth.uid();
+    new.content := '';
+    new.pinned_at := null;
+    new.pinned_by := null;
+  elsif new.deleted_by is distinct from old.deleted_by then
+    raise exception 'These message fields cannot be changed';
+  end if;
+
+  if new.deleted_at is null and (new.pinned_at is distinct from old.pinned_at or new.pinned_by is distinct from old.pinned_by) then
+    if not admin then raise exception 'Only the group admin can pin messages'; end if;
+    new.pinned_at := case when new.pinned_at is null then null else now() end;
+    new.pinned_by := case when new.pinned_at is null then null else auth.uid() end;
+  end if;
+
+  return new;
+end $$;
+
+drop trigger if exists trg_messages_guard_update on public.messages;
+create trigger trg_messages_guard_update before update on public.messages
+  for each row execute function public.guard_message_update();
+
+-- New messages start plain: pins, deletion, edit marks and reply counters are only
+-- ever set by the update guard and the thread trigger, never by the poster.
+create or replace function public.guard_message_insert()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('authenticated', 'anon') then return new; end if;
+  new.created_at := now();
+  new.edited_at := null;
+  new.deleted_at := null;
+  new.deleted_by := null;
+  new.pinned_at := null;
+  new.pinned_by := null;
+  new.reply_count := 0;
+  new.last_reply_at := null;
+  return new;
+end $$;
+
+drop trigger if exists trg_messages_guard_insert on public.messages;
+create trigger trg_messages_guard_insert before insert on public.messages
+  for each row execute function public.guard_message_insert();
+
+-- Edit history. The guard runs as the editing user, who cannot write message_edits;
+-- this one runs as its owner, after the guard has accepted the change.
+create or replace function public.record_message_edit()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if new.deleted_at is not null and old.deleted_at is null then
+    delete from public.message_edits where message_id = old.id;
+  elsif new.content is distinct from old.content then
+    insert into public.message_edits (message_id, content) values (old.id, old.content);
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_messages_record_edit on public.messages;
+create trigger trg_messages_record_edit after update of content, deleted_at on public.messages
+  for each row execute function public.record_message_edit();
+
+-- Edit history is visible to the group; rows are only written by record_message_edit()
+alter table public.message_edits enable row level security;
+drop policy if exists message_edits_read on public.message_edits;
+create policy message_edits_read on public.message_edits
+  for select using (exists (
+    select 1 from public.messages m
+    join public.group_members gm on gm.group_id = m.group_id and gm.user_id = auth.uid()
+    where m.id = message_edits.message_id
+  ));
+
+-- Mutes: the group sees them, only the admin manages them
+alter table public.group_mutes enable row level security;
+drop policy if exists group_mutes_read on public.group_mutes;
+create policy group_mutes_read on public.group_mutes
+  for select using (exists (
+    select 1 from public.group_members gm where gm.group_id = group_mutes.group_id and gm.user_id = auth.uid()
+  ));
+drop policy if exists group_mutes_admin_insert on public.group_mutes;
+create policy group_mutes_admin_insert on public.group_mutes
+  for insert with check (public.is_group_admin(group_id) and user_id <> auth.uid());
+drop policy if exists group_mutes_admin_update on public.group_mutes;
+create policy group_mutes_admin_update on public.group_mutes
+  for update using (public.is_group_admin(group_id));
+drop policy if exists group_mutes_admin_delete on public.group_mutes;
+create policy group_mutes_admin_delete on public.group_mutes
+  for delete using (public.is_group_admin(group_id));
+
+-- Edits, deletes and pins reach open chats as UPDATE events; mutes as their own rows
+do $$ begin
+  alter publication supabase_realtime add table public.messages;
+exception when duplicate_object then null;
+end $$;
+do $$ begin
+  alter publication supabase_realtime add table public.group_mutes;
+exception when duplicate_object then null;
+end $$;
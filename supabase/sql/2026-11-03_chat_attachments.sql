@@ -0,0 +1,114 @@
+-- File, image and PDF attachments in group chat.
+-- Files live in the private Storage bucket `chat-files` under `<group_id>/<user_id>/<random>/<name>`;
+-- the bucket itself enforces the size and type limits. Only members of the group
+-- in the first path segment can read or upload there, and only into their own
+-- folder; the uploader and the group admin can remove files.
+-- `message_attachments` links files to the message they were sent with and backs
+-- the chat's "Files" tab. Deleting a message drops its attachment rows (the client
+-- removes the stored objects, since Storage objects are only deleted through the API).
+-- Run in Supabase SQL editor.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'chat-files', 'chat-files', false, 20971520,
+  array[
+    'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+    'application/pdf', 'text/plain',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/zip'
+  ]
+)
+on conflict (id) do update
+  set public = excluded.public,
+      file_size_limit = excluded.file_size_limit,
+      allowed_mime_types = excluded.allowed_mime_types;
+
+create table if not exists public.message_attachments (
+  id bigserial primary key,
+  message_id bigint not null references public.messages(id) on delete cascade,
+  group_id uuid not null references public.study_groups(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  path text not null unique,
+  name text not null,
+  mime_type text not null,
+  size bigint not null check (size >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_message_attachments_message on public.message_attachments(message_id);
+create index if not exists idx_message_attachments_group on public.message_attachments(group_id, created_at desc);
+
+create or replace function public.is_group_member(gid uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select exists (select 1 from public.group_members gm where gm.group_id = gid and gm.user_id = auth.uid());
+$$;
+
+alter table public.message_attachments enable row level security;
+drop policy if exists message_attachments_read on public.message_attachments;
+create policy message_attachments_read on public.message_attachments
+  for select using (public.is_group_member(group_id));
+-- Attach only your own uploads to your own message in the same group
+drop policy if exists message_attachments_insert_own on public.message_attachments;
+create policy message_attachments_insert_own on public.message_attachments
+  for insert with check (
+    user_id = auth.uid()
+    and public.is_group_member(group_id)
+    and split_part(path, '/', 1) = group_id::text
+    and split_part(path, '/', 2) = auth.uid()::text
+    and exists (
+      select 1 from public.messages m
+      where m.id = message_attachments.message_id and m.user_id = auth.uid() and m.group_id = message_attachments.group_id
+    )
+  );
+
+-- Deleted messages lose their attachments
+create or replace function public.drop_deleted_attachments()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if new.deleted_at is not null and old.deleted_at is null then
+    delete from public.message_attachments where message_id = new.id;
+  end if;
+  return new;
+end $$;
+
+drop trigger if exists trg_messages_drop_attachments on public.messages;
+create trigger trg_messages_drop_attachments after update of deleted_at on public.messages
+  for each row execute function public.drop_deleted_attachments();
+
+-- Storage: the first folder is the group, the second the uploader
+drop policy if exists chat_files_read on storage.objects;
+create policy chat_files_read on storage.objects
+  for select to authenticated using (
+    bucket_id = 'chat-files'
+    and public.is_group_member(((storage.foldername(name))[1])::uuid)
+  );
+
+drop policy if exists chat_files_insert on storage.objects;
+create policy chat_files_insert on storage.objects
+  for insert to authenticated with check (
+    bucket_id = 'chat-files'
+    and public.is_group_member(((storage.foldername(name))[1])::uuid)
+    and (storage.foldername(name))[2] = auth.uid()::text
+    and not public.is_muted(((storage.foldername(name))[1])::uuid, auth.uid())
+  );
+
+drop policy if exists chat_files_delete on storage.objects;
+create policy chat_files_delete on storage.objects
+  for delete to authenticated using (
+    bucket_id = 'chat-files'
+    and (
+      (storage.foldername(name))[2] = auth.uid()::text
+      or public.is_group_admin(((storage.foldername(name))[1])::uuid)
+    )
+  );
+
+do $$ begin
+  alter publication supabase_realtime add table public.message_attachments;
+exception when duplicate_object then null;
+end $$;
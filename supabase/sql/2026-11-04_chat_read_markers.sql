@@ -0,0 +1,67 @@
+-- Per-member read markers in group chat.
+-- `group_reads.last_read_id` is the newest message a member has seen in a group. It
+-- only moves forward, is visible to the rest of the group (read receipts) and drives
+-- the unread badges: `unread_counts()` returns, for each of the caller's groups, the
+-- thread roots from other people after their marker (or after they joined, if they
+-- have never opened the chat). Presence and typing use Realtime presence only and
+-- need no tables.
+-- Run in Supabase SQL editor.
+
+create table if not exists public.group_reads (
+  group_id uuid not null references public.study_groups(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  last_read_id bigint not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (group_id, user_id)
+);
+
+alter table public.group_reads enable row level security;
+drop policy if exists group_reads_read on public.group_reads;
+create policy group_reads_read on public.group_reads
+  for select using (public.is_group_member(group_id));
+drop policy if exists group_reads_insert_own on public.group_reads;
+create policy group_reads_insert_own on public.group_reads
+  for insert with check (user_id = auth.uid() and public.is_group_member(group_id));
+drop policy if exists group_reads_update_own on public.group_reads;
+create policy group_reads_update_own on public.group_reads
+  for update using (user_id = auth.uid());
+
+create or replace function public.bump_group_read()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.last_read_id := greatest(old.last_read_id, new.last_read_id);
+  new.group_id := old.group_id;
+  new.user_id := old.user_id;
+  new.updated_at := now();
+  return new;
+end $$;
+
+drop trigger if exists trg_group_reads_forward on public.group_reads;
+create trigger trg_group_reads_forward before update on public.group_reads
+  for each row execute function public.bump_group_read();
+
+create or replace function public.unread_counts()
+returns table (group_id uuid, unread bigint)
+language sql stable
+as $$
+  select gm.group_id, count(m.id)
+  from public.group_members gm
+  left join public.group_reads r on r.group_id = gm.group_id and r.user_id = gm.user_id
+  left join public.messages m
+    on m.group_id = gm.group_id
+   and m.parent_id is null
+   and m.deleted_at is null
+   and m.user_id is distinct from gm.user_id
+   and (case when r.user_id is null then m.created_at > gm.joined_at else m.id > r.last_read_id end)
+  where gm.user_id = auth.uid()
+  group by gm.group_id;
+$$;
+
+grant execute on function public.unread_counts() to authenticated;
+
+do $$ begin
+  alter publication supabase_realtime add table public.group_reads;
+exception when duplicate_object then null;
+end $$;
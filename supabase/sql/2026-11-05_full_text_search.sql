@@ -0,0 +1,144 @@
+-- Full-text search over chat messages, groups and sessions.
+-- Each table gets a generated `search` tsvector with a GIN index. `search_all()` is
+-- the single entry point used by the search page and the command palette: it ranks
+-- hits across the three kinds and applies the filters (group, author, date range).
+-- Messages and scheduled sessions are limited to the caller's groups (sessions of
+-- other public groups are readable, but are not the caller's schedule); timer focus
+-- rows are left out. Groups are searchable like the group directory: public ones and
+-- the caller's own.
+-- Plain words match as prefixes ("integ" finds "integral"); quotes, "or" and "-"
+-- switch to web-search syntax.
+-- Run in Supabase SQL editor.
+
+-- array_to_string is only STABLE; generated columns need an immutable expression
+create or replace function public.tags_text(tags text[])
+returns text
+language sql immutable
+as $$
+  select coalesce(array_to_string(tags, ' '), '');
+$$;
+
+alter table public.messages
+  add column if not exists search tsvector
+  generated always as (to_tsvector('english'::regconfig, coalesce(content, ''))) stored;
+create index if not exists idx_messages_search on public.messages using gin (search);
+
+alter table public.study_groups
+  add column if not exists search tsvector
+  generated always as (
+    setweight(to_tsvector('english'::regconfig, coalesce(name, '')), 'A')
+    || setweight(to_tsvector('english'::regconfig, coalesce(description, '')), 'B')
+    || setweight(to_tsvector('english'::regconfig, public.tags_text(tags)), 'B')
+  ) stored;
+create index if not exists idx_study_groups_search on public.study_groups using gin (search);
+
+alter table public.study_sessions
+  add column if not exists search tsvector
+  generated always as (to_tsvector('english'::regconfig, coalesce(title, ''))) stored;
+create index if not exists idx_study_sessions_search on public.study_sessions using gin (search);
+
+create or replace function public.search_tsquery(q text)
+returns tsquery
+language sql stable
+as $$
+  select case
+    when q ~* '["-]|\sor\s' then websearch_to_tsquery('english', q)
+    else (
+      select to_tsquery('english', string_agg(quote_literal(w) || ':*', ' & '))
+      from regexp_split_to_table(trim(regexp_replace(q, '[^[:alnum:]]+', ' ', 'g')), '\s+') w
+      where w <> ''
+    )
+  end;
+$$;
+
+create or replace function public.search_all(
+  q text,
+  kinds text[] default array['message', 'group', 'session'],
+  in_group uuid default null,
+  by_author uuid default null,
+  since timestamptz default null,
+  until timestamptz default null,
+  max_results int default 30
+)
+returns table (
+  kind text,
+  id text,
+  group_id uuid,
+  group_name text,
+  title text,
+  snippet text,
+  author_id uuid,
+  author_name text,
+  at timestamptz,
+  parent_id bigint,
+  is_member boolean,
+  rank real
+)
+language sql stable
+as $$
+  with query as (select public.search_tsquery(q) as tsq),
+  mine as (select gm.group_id from public.group_members gm where gm.user_id = auth.uid()),
+  -- Highlighted fragments come back between \x01 and \x02 for the client to mark up
+  opts as (select 'StartSel=' || chr(1) || ', StopSel=' || chr(2) || ', MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "' as o),
+  -- Rank and cut first: ts_headline is slow, so only the rows returned get one
+  hits as (
+    select * from (
+      select 'message'::text as kind, m.id::text as id, m.group_id, g.name as group_name, null::text as title,
+             m.content as body,
+             m.user_id as author_id, p.full_name as author_name, m.created_at as at, m.parent_id,
+             true as is_member, ts_rank(m.search, query.tsq) as rank
+      from public.messages m
+      cross join query
+      join public.study_groups g on g.id = m.group_id
+      left join public.profiles p on p.id = m.user_id
+      where 'message' = any(kinds)
+        and m.search @@ query.tsq
+        and m.group_id in (select group_id from mine)
+        and m.deleted_at is null
+        and (in_group is null or m.group_id = in_group)
+        and (by_author is null or m.user_id = by_author)
+        and (since is null or m.created_at >= since)
+        and (until is null or m.created_at < until)
+
+      union all
+      select 'group', g.id::text, g.id, g.name, g.name,
+             coalesce(g.description, '') || ' ' || public.tags_text(g.tags),
+             g.created_by, p.full_name, g.created_at, null, g.id in (select group_id from mine), ts_rank(g.search, query.tsq)
+      from public.study_groups g
+      cross join query
+      left join public.profiles p on p.id = g.created_by
+      where 'group' = any(kinds)
+        and g.search @@ query.tsq
+        and (in_group is null or g.id = in_group)
+        and (by_author is null or g.created_by = by_author)
+        and (since is null or g.created_at >= since)
+        and (until is null or g.created_at < until)
+
+      union all
+      select 'session', s.id::text, s.group_id, g.name, s.title,
+             coalesce(s.title, ''),
+             s.user_id, p.full_name, s.start_at, null, true, ts_rank(s.search, query.tsq)
+      from public.study_sessions s
+      cross join query
+      join public.study_groups g on g.id = s.group_id
+      left join public.profiles p on p.id = s.user_id
+      where 'session' = any(kinds)
+        and s.search @@ query.tsq
+        and s.kind = 'scheduled'
+        and s.group_id in (select group_id from mine)
+        and (in_group is null or s.group_id = in_group)
+        and (by_author is null or s.user_id = by_author)
+        and (since is null or s.start_at >= since)
+        and (until is null or s.start_at < until)
+    ) found
+    order by found.rank desc, found.at desc
+    limit least(greatest(max_results, 1), 100)
+  )
+  select hits.kind, hits.id, hits.group_id, hits.group_name, hits.title,
+         ts_headline('english', hits.body, query.tsq, opts.o) as snippet,
+         hits.author_id, hits.author_name, hits.at, hits.parent_id, hits.is_member, hits.rank
+  from hits cross join query cross join opts
+  order by hits.rank desc, hits.at desc;
+$$;
+
+grant execute on function public.search_all(text, text[], uuid, uuid, timestamptz, timestamptz, int) to authenticated;
@@ -0,0 +1,200 @@
+-- Direct messages: 1:1 and small ad-hoc conversations outside study groups.
+-- Unlike group chat (`messages_read using (true)`), everything here is visible to the
+-- conversation's participants only. Conversations are created through
+-- start_conversation(), which reuses an existing 1:1 conversation instead of opening a
+-- second one. Each participant's read marker lives on their membership row and, like
+-- group_reads, only moves forward; dm_unread_counts() feeds the unread badges.
+-- Run in Supabase SQL editor.
+
+create table if not exists public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  created_by uuid references public.profiles(id) on delete set null,
+  -- Optional name for conversations with more than two people
+  title text check (title is null or char_length(title) <= 80),
+  is_direct boolean not null default true,
+  created_at timestamptz not null default now(),
+  last_message_at timestamptz not null default now()
+);
+
+create table if not exists public.conversation_members (
+  conversation_id uuid not null references public.conversations(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  last_read_id bigint not null default 0,
+  primary key (conversation_id, user_id)
+);
+create index if not exists idx_conversation_members_user on public.conversation_members(user_id);
+
+create table if not exists public.direct_messages (
+  id bigserial primary key,
+  conversation_id uuid not null references public.conversations(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  content text not null check (char_length(content) between 1 and 4000),
+  created_at timestamptz not null default now()
+);
+create index if not exists idx_direct_messages_conversation on public.direct_messages(conversation_id, created_at desc, id desc);
+
+create table if not exists public.direct_message_reactions (
+  message_id bigint not null references public.direct_messages(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  emoji text not null,
+  created_at timestamptz not null default now(),
+  primary key (message_id, user_id, emoji)
+);
+
+-- Security definer so policies on conversation_members can use it without recursing
+create or replace function public.is_conversation_member(cid uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select exists (select 1 from public.conversation_members where conversation_id = cid and user_id = auth.uid());
+$$;
+
+alter table public.conversations enable row level security;
+alter table public.conversation_members enable row level security;
+alter table public.direct_messages enable row level security;
+alter table public.direct_message_reactions enable row level security;
+
+-- Conversations and memberships are only created by start_conversation()
+drop policy if exists conversations_read on public.conversations;
+create policy conversations_read on public.conversations
+  for select using (public.is_conversation_member(id));
+drop policy if exists conversations_rename on public.conversations;
+create policy conversations_rename on public.conversations
+  for update using (public.is_conversation_member(id) and not is_direct)
+  with check (public.is_conversation_member(id) and not is_direct);
+
+drop policy if exists conversation_members_read on public.conversation_members;
+create policy conversation_members_read on public.conversation_members
+  for select using (public.is_conversation_member(conversation_id));
+drop policy if exists conversation_members_update_own on public.conversation_members;
+create policy conversation_members_update_own on public.conversation_members
+  for update using (user_id = auth.uid());
+drop policy if exists conversation_members_leave on public.conversation_members;
+create policy conversation_members_leave on public.conversation_members
+  for delete using (user_id = auth.uid());
+
+drop policy if exists direct_messages_read on public.direct_messages;
+create policy direct_messages_read on public.direct_messages
+  for select using (public.is_conversation_member(conversation_id));
+drop policy if exists direct_messages_insert on public.direct_messages;
+create policy direct_messages_insert on public.direct_messages
+  for insert with check (user_id = auth.uid() and public.is_conversation_member(conversation_id));
+drop policy if exists direct_messages_delete_own on public.direct_messages;
+create policy direct_messages_delete_own on public.direct_messages
+  for delete using (user_id = auth.uid());
+
+drop policy if exists direct_message_reactions_read on public.direct_message_reactions;
+create policy direct_message_reactions_read on public.direct_message_reactions
+  for select using (exists (
+    select 1 from public.direct_messages m
+    where m.id = message_id and public.is_conversation_member(m.conversation_id)
+  ));
+drop policy if exists direct_message_reactions_insert on public.direct_message_reactions;
+create policy direct_message_reactions_insert on public.direct_message_reactions
+  for insert with check (user_id = auth.uid() and exists (
+    select 1 from public.direct_messages m
+    where m.id = message_id and public.is_conversation_member(m.conversation_id)
+  ));
+drop policy if exists direct_message_reactions_delete_own on public.direct_message_reactions;
+create policy direct_message_reactions_delete_own on public.direct_message_reactions
+  for delete using (user_id = auth.uid());
+
+-- Read markers only move forward; nothing else on the membership row changes
+create or replace function public.bump_conversation_read()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.last_read_id := greatest(old.last_read_id, new.last_read_id);
+  new.conversation_id := old.conversation_id;
+  new.user_id := old.user_id;
+  new.joined_at := old.joined_at;
+  return new;
+end $$;
+
+drop trigger if exists trg_conversation_members_forward on public.conversation_members;
+create trigger trg_conversation_members_forward before update on public.conversation_members
+  for each row execute function public.bump_conversation_read();
+
+-- Keeps the conversation list sorted by activity
+create or replace function public.touch_conversation()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  update public.conversations set last_message_at = new.created_at where id = new.conversation_id;
+  return new;
+end $$;
+
+drop trigger if exists trg_direct_messages_touch on public.direct_messages;
+create trigger trg_direct_messages_touch after insert on public.direct_messages
+  for each row execute function public.touch_conversation();
+
+-- Open a conversation with `others` (1 to 7 people besides the caller). With one other
+-- person the existing 1:1 conversation is returned if there is one.
+create or replace function public.start_conversation(others uuid[], title text default null)
+returns uuid
+language plpgsql security definer set search_path = public
+as $$
+declare
+  me uuid := auth.uid();
+  people uuid[];
+  cid uuid;
+begin
+  if me is null then raise exception 'Not signed in'; end if;
+  select coalesce(array_agg(distinct p.id), '{}') into people
+  from public.profiles p
+  where p.id = any(others) and p.id <> me;
+  if cardinality(people) = 0 then raise exception 'Pick someone to message'; end if;
+  if cardinality(people) > 7 then raise exception 'Conversations are limited to 8 people'; end if;
+
+  if cardinality(people) = 1 then
+    select c.id into cid
+    from public.conversations c
+    join public.conversation_members a on a.conversation_id = c.id and a.user_id = me
+    join public.conversation_members b on b.conversation_id = c.id and b.user_id = people[1]
+    where c.is_direct
+    limit 1;
+    if cid is not null then return cid; end if;
+  end if;
+
+  insert into public.conversations (created_by, title, is_direct)
+  values (me, case when cardinality(people) > 1 then nullif(trim(title), '') end, cardinality(people) = 1)
+  returning id into cid;
+  insert into public.conversation_members (conversation_id, user_id)
+  select cid, u from unnest(people || me) u;
+  return cid;
+end $$;
+
+grant execute on function public.start_conversation(uuid[], text) to authenticated;
+
+-- Messages from others after the caller's read marker, per conversation
+create or replace function public.dm_unread_counts()
+returns table (conversation_id uuid, unread bigint)
+language sql stable
+as $$
+  select cm.conversation_id, count(m.id)
+  from public.conversation_members cm
+  left join public.direct_messages m
+    on m.conversation_id = cm.conversation_id
+   and m.id > cm.last_read_id
+   and m.user_id <> cm.user_id
+  where cm.user_id = auth.uid()
+  group by cm.conversation_id;
+$$;
+
+grant execute on function public.dm_unread_counts() to authenticated;
+
+do $$ begin
+  alter publication supabase_realtime add table public.direct_messages;
+exception when duplicate_object then null;
+end $$;
+do $$ begin
+  alter publication supabase_realtime add table public.direct_message_reactions;
+exception when duplicate_object then null;
+end $$;
+do $$ begin
+  alter publication supabase_realtime add table public.conversation_members;
+exception when duplicate_object then null;
+end $$;
@@ -0,0 +1,165 @@
+-- Row-level security lockdown.
+-- supabase_schema.sql let anyone (even with just the anon key) read every group's chat,
+-- sessions and member list, and every profile in full; `study_groups.is_public` was
+-- never enforced. From here on:
+--   * groups are visible to signed-in users if public (null counts as public), and
+--     otherwise only to their members and creator; the same goes for member lists;
+--   * chat messages and reactions are visible to members of the group only;
+--   * scheduled group sessions follow their group's visibility, focus and personal
+--     sessions are visible to their owner only;
+--   * full profile rows are visible to their owner and to people who share a group
+--     with them; everyone else, direct-message partners included, gets the public
+--     fields through the `public_profiles` view (no email, weekly availability or
+--     settings). A conversation does not count: anyone can open one with anybody;
+--   * joining is only possible for public groups, or by code through
+--     join_group_with_code(), which now accepts either code a group has.
+-- One write rule is fixed on the way: sessions_insert let a member of any group add
+-- sessions to every group.
+-- Nothing here is readable without signing in. supabase/tests/rls_test.sql checks
+-- every policy under each role.
+-- Run in Supabase SQL editor.
+
+create or replace function public.can_read_group(gid uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select auth.uid() is not null and exists (
+    select 1 from public.study_groups g
+    where g.id = gid
+      and (coalesce(g.is_public, true)
+        or g.created_by = auth.uid()
+        or exists (select 1 from public.group_members gm where gm.group_id = g.id and gm.user_id = auth.uid()))
+  );
+$$;
+
+-- Does the caller share a group with `uid`?
+create or replace function public.is_connected(uid uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select exists (
+    select 1 from public.group_members a
+    join public.group_members b on b.group_id = a.group_id
+    where a.user_id = auth.uid() and b.user_id = uid
+  );
+$$;
+
+-- Profiles. handle_new_user() fills email and display_name on sign-up, but
+-- supabase_schema.sql never created them, so signing up failed on a fresh database
+alter table public.profiles
+  add column if not exists email text,
+  add column if not exists display_name text;
+
+drop policy if exists "profiles_read" on public.profiles;
+create policy "profiles_read" on public.profiles
+  for select using (id = auth.uid() or public.is_connected(id));
+
+drop policy if exists "profiles_update_own" on public.profiles;
+create policy "profiles_update_own" on public.profiles
+  for update using (auth.uid() = id) with check (auth.uid() = id);
+
+-- Runs as its owner, so it bypasses profiles_read on purpose: these columns are the
+-- ones anybody signed in may see (matching and finding people to message)
+drop view if exists public.public_profiles;
+create view public.public_profiles as
+select id, full_name, avatar_url, courses, study_style, interests, availability, time_zone, major, bio
+from public.profiles
+where auth.uid() is not null;
+
+revoke all on public.public_profiles from anon, public;
+grant select on public.public_profiles to authenticated;
+
+-- Groups. Creators are always recorded (Matches creates groups without saying so)
+alter table public.study_groups alter column created_by set default auth.uid();
+
+drop policy if exists "groups_read" on public.study_groups;
+create policy "groups_read" on public.study_groups
+  for select using (public.can_read_group(id));
+
+drop policy if exists "groups_insert" on public.study_groups;
+create policy "groups_insert" on public.study_groups
+  for insert with check (auth.uid() is not null and created_by = auth.uid());
+
+-- The view runs as its owner too, so it has to apply the same rule itself
+drop view if exists public.study_groups_view;
+create view public.study_groups_view as
+select
+  g.*,
+  p.full_name as admin_name,
+  (select count(*)::int from public.group_members gm where gm.group_id = g.id) as member_count
+from public.study_groups g
+left join public.profiles p on p.id = g.created_by
+where public.can_read_group(g.id);
+
+revoke all on public.study_groups_view from anon, public;
+grant select on public.study_groups_view to authenticated;
+
+-- Membership: lists follow the group's visibility; users join public groups (or
+-- their own) directly and private ones by code
+drop policy if exists "members_read" on public.group_members;
+create policy "members_read" on public.group_members
+  for select using (public.can_read_group(group_id));
+
+drop policy if exists "members_insert_self" on public.group_members;
+create policy "members_insert_self" on public.group_members
+  for insert with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.study_groups g
+      where g.id = group_members.group_id and (coalesce(g.is_public, true) or g.created_by = auth.uid())
+    )
+  );
+
+create or replace function public.join_group_with_code(p_code text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g_id uuid;
+begin
+  if auth.uid() is null then raise exception 'Not signed in'; end if;
+  select id into g_id from public.study_groups
+  where upper(join_code) = upper(trim(p_code)) or lower(unique_key) = lower(trim(p_code))
+  limit 1;
+  if g_id is null then
+    raise exception 'Invalid or unknown group code';
+  end if;
+  insert into public.group_members(group_id, user_id)
+  values (g_id, auth.uid())
+  on conflict do nothing;
+  return g_id;
+end $$;
+
+revoke all on function public.join_group_with_code(text) from public;
+grant execute on function public.join_group_with_code(text) to authenticated;
+
+-- Chat
+drop policy if exists "messages_read" on public.messages;
+create policy "messages_read" on public.messages
+  for select using (public.is_group_member(group_id));
+
+drop policy if exists "reactions_read" on public.message_reactions;
+create policy "reactions_read" on public.message_reactions
+  for select using (exists (
+    select 1 from public.messages m
+    where m.id = message_reactions.message_id and public.is_group_member(m.group_id)
+  ));
+
+-- Sessions. The old insert rule compared gm.group_id with itself, so membership of
+-- any group was enough to add sessions to every group.
+drop policy if exists "sessions_read" on public.study_sessions;
+create policy "sessions_read" on public.study_sessions
+  for select using (
+    (kind = 'focus' and user_id = auth.uid())
+    or (kind = 'scheduled' and group_id is null and user_id = auth.uid())
+    or (kind = 'scheduled' and group_id is not null and public.can_read_group(group_id))
+  );
+
+drop policy if exists "sessions_insert" on public.study_sessions;
+create policy "sessions_insert" on public.study_sessions
+  for insert with check (
+    user_id = auth.uid()
+    and (group_id is null or public.is_group_member(group_id))
+  );
@@ -0,0 +1,346 @@
+-- Group roles, ownership transfer, removing and banning members, join requests and
+-- member limits.
+-- Every membership has a role: one 'owner' per group, any number of 'moderator's,
+-- and 'member' for everyone else. `study_groups.created_by` keeps pointing at the
+-- owner (transfer_group_ownership() moves both), so existing rules that name the
+-- creator now mean the owner. is_group_admin() now means owner or moderator, which
+-- hands chat moderation (delete, pin, mute) and managing group sessions and series
+-- to moderators as well.
+--   * the owner edits the group's details, promotes and demotes moderators, hands the
+--     group over and deletes it; the owner cannot leave without handing it over;
+--   * owners remove and ban anyone else, moderators only plain members; a ban also
+--     removes the membership and keeps the person out until the owner or whoever
+--     issued it lifts it;
+--   * non-public groups take join requests (join_group_with_code() files one) that
+--     admins approve or decline with answer_join_request();
+--   * `max_members` is enforced whenever someone is added, however they get in.
+-- Run in Supabase SQL editor.
+
+alter table public.group_members add column if not exists role text not null default 'member';
+alter table public.group_members drop constraint if exists group_members_role_check;
+alter table public.group_members add constraint group_members_role_check check (role in ('owner', 'moderator', 'member'));
+
+-- Creators become owners (and members again, if they had left)
+insert into public.group_members (group_id, user_id, role)
+select id, created_by, 'owner' from public.study_groups where created_by is not null
+on conflict (group_id, user_id) do update set role = 'owner';
+
+create unique index if not exists uq_group_members_owner on public.group_members(group_id) where role = 'owner';
+
+alter table public.study_groups drop constraint if exists study_groups_max_members_check;
+alter table public.study_groups add constraint study_groups_max_members_check check (max_members is null or max_members > 0);
+
+create table if not exists public.group_bans (
+  group_id uuid not null references public.study_groups(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  banned_by uuid references public.profiles(id) on delete set null,
+  reason text check (reason is null or char_length(reason) <= 200),
+  created_at timestamptz not null default now(),
+  primary key (group_id, user_id)
+);
+
+-- Approved requests are deleted (the person is a member then); declined ones stay
+-- so the requester can see the answer, and asking again reopens them
+create table if not exists public.group_join_requests (
+  group_id uuid not null references public.study_groups(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  status text not null default 'pending' check (status in ('pending', 'declined')),
+  created_at timestamptz not null default now(),
+  decided_by uuid references public.profiles(id) on delete set null,
+  decided_at timestamptz,
+  primary key (group_id, user_id)
+);
+create index if not exists idx_group_join_requests_pending on public.group_join_requests(group_id) where status = 'pending';
+
+create or replace function public.group_role(gid uuid, uid uuid)
+returns text
+language sql stable security definer set search_path = public
+as $$
+  select role from public.group_members where group_id = gid and user_id = uid;
+$$;
+
+create or replace function public.is_group_owner(gid uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select coalesce(public.group_role(gid, auth.uid()) = 'owner', false);
+$$;
+
+create or replace function public.is_group_admin(gid uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select coalesce(public.group_role(gid, auth.uid()) in ('owner', 'moderator'), false);
+$$;
+
+create or replace function public.is_banned(gid uuid, uid uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select exists (select 1 from public.group_bans b where b.group_id = gid and b.user_id = uid);
+$$;
+
+revoke all on function public.group_role(uuid, uuid) from public, anon;
+grant execute on function public.group_role(uuid, uuid) to authenticated;
+revoke all on function public.is_banned(uuid, uuid) from public, anon;
+grant execute on function public.is_banned(uuid, uuid) to authenticated;
+
+-- May the caller remove or ban `uid`? Owners: anyone else. Moderators: plain members
+-- (and people who are not in the group).
+create or replace function public.outranks(gid uuid, uid uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select uid <> auth.uid() and coalesce(case public.group_role(gid, auth.uid())
+    when 'owner' then true
+    when 'moderator' then coalesce(public.group_role(gid, uid), 'member') = 'member'
+    else false
+  end, false);
+$$;
+
+-- Every way into a group passes here: no banned people, no more than max_members,
+-- and the role is decided by the database (the creator's first membership is the
+-- owner's, everything else starts as a member)
+create or replace function public.check_group_join()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  g record;
+begin
+  select id, created_by, max_members into g from public.study_groups where id = new.group_id for update;
+  if public.is_banned(new.group_id, new.user_id) then
+    raise exception 'Banned from this group';
+  end if;
+  if g.max_members is not null
+    and (select count(*) from public.group_members where group_id = new.group_id) >= g.max_members then
+    raise exception 'This group is full';
+  end if;
+  new.role := case
+    when new.user_id = g.created_by and not exists (
+      select 1 from public.group_members where group_id = new.group_id and role = 'owner'
+    ) then 'owner'
+    else 'member'
+  end;
+  return new;
+end $$;
+
+drop trigger if exists trg_group_members_check_join on public.group_members;
+create trigger trg_group_members_check_join before insert on public.group_members
+  for each row execute function public.check_group_join();
+
+-- Membership. Clients may only change `role`; everything else is fixed.
+revoke update on public.group_members from anon, authenticated;
+grant update (role) on public.group_members to authenticated;
+
+drop policy if exists "members_insert_self" on public.group_members;
+create policy "members_insert_self" on public.group_members
+  for insert with check (
+    user_id = auth.uid()
+    and not public.is_banned(group_id, auth.uid())
+    and exists (
+      select 1 from public.study_groups g
+      where g.id = group_members.group_id and (coalesce(g.is_public, true) or g.created_by = auth.uid())
+    )
+  );
+
+drop policy if exists "members_delete_self" on public.group_members;
+create policy "members_delete_self" on public.group_members
+  for delete using (auth.uid() = user_id and role <> 'owner');
+
+drop policy if exists members_remove on public.group_members;
+create policy members_remove on public.group_members
+  for delete using (public.outranks(group_id, user_id));
+
+-- Promote/demote; ownership only moves through transfer_group_ownership()
+drop policy if exists members_set_role on public.group_members;
+create policy members_set_role on public.group_members
+  for update using (public.is_group_owner(group_id) and user_id <> auth.uid())
+  with check (public.is_group_owner(group_id) and user_id <> auth.uid() and role in ('moderator', 'member'));
+
+-- Group details: the owner edits them (not the owner or the ids) and may delete the group
+revoke update on public.study_groups from anon, authenticated;
+grant update (name, description, tags, is_public, max_members, unique_key) on public.study_groups to authenticated;
+
+drop policy if exists groups_update_owner on public.study_groups;
+create policy groups_update_owner on public.study_groups
+  for update using (public.is_group_owner(id)) with check (public.is_group_owner(id));
+
+drop policy if exists groups_delete_owner on public.study_groups;
+create policy groups_delete_owner on public.study_groups
+  for delete using (public.is_group_owner(id));
+
+create or replace function public.transfer_group_ownership(gid uuid, new_owner uuid)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if not public.is_group_owner(gid) then raise exception 'Only the owner can hand over the group'; end if;
+  if new_owner = auth.uid() then raise exception 'You already own this group'; end if;
+  if public.group_role(gid, new_owner) is null then raise exception 'The new owner must be a member of the group'; end if;
+  -- One owner at a time: step down first
+  update public.group_members set role = 'moderator' where group_id = gid and user_id = auth.uid();
+  update public.group_members set role = 'owner' where group_id = gid and user_id = new_owner;
+  update public.study_groups set created_by = new_owner where id = gid;
+end $$;
+
+revoke all on function public.transfer_group_ownership(uuid, uuid) from public;
+grant execute on function public.transfer_group_ownership(uuid, uuid) to authenticated;
+
+-- Bans: admins see and add them, the banned person sees their own. Only the owner,
+-- or whoever issued a ban, may lift it
+alter table public.group_bans enable row level security;
+drop policy if exists group_bans_read on public.group_bans;
+create policy group_bans_read on public.group_bans
+  for select using (public.is_group_admin(group_id) or user_id = auth.uid());
+drop policy if exists group_bans_insert on public.group_bans;
+create policy group_bans_insert on public.group_bans
+  for insert with check (banned_by = auth.uid() and public.outranks(group_id, user_id));
+drop policy if exists group_bans_delete on public.group_bans;
+create policy group_bans_delete on public.group_bans
+  for delete using (public.is_group_owner(group_id) or (banned_by = auth.uid() and public.is_group_admin(group_id)));
+
+create or replace function public.apply_group_ban()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  delete from public.group_members where group_id = new.group_id and user_id = new.user_id;
+  delete from public.group_join_requests where group_id = new.group_id and user_id = new.user_id;
+  return new;
+end $$;
+
+drop trigger if exists trg_group_bans_apply on public.group_bans;
+create trigger trg_group_bans_apply after insert on public.group_bans
+  for each row execute function public.apply_group_ban();
+
+-- Join requests: filed by join_group_with_code(), answered by answer_join_request();
+-- requesters may withdraw their own
+alter table public.group_join_requests enable row level security;
+drop policy if exists group_join_requests_read on public.group_join_requests;
+create policy group_join_requests_read on public.group_join_requests
+  for select using (user_id = auth.uid() or public.is_group_admin(group_id));
+drop policy if exists group_join_requests_withdraw on public.group_join_requests;
+create policy group_join_requests_withdraw on public.group_join_requests
+  for delete using (user_id = auth.uid());
+
+-- Join by either code. Public groups (and the caller's own) are joined right away;
+-- for the others a join request is filed and the owner notified.
+-- Returns { group_id, status } with status 'joined', 'requested' or 'member'.
+drop function if exists public.join_group_with_code(text);
+create function public.join_group_with_code(p_code text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g record;
+  who text;
+begin
+  if auth.uid() is null then raise exception 'Not signed in'; end if;
+  select id, name, is_public, created_by into g from public.study_groups
+  where upper(join_code) = upper(trim(p_code)) or lower(unique_key) = lower(trim(p_code))
+  limit 1;
+  if g.id is null then
+    raise exception 'Invalid or unknown group code';
+  end if;
+  if public.group_role(g.id, auth.uid()) is not null then
+    return jsonb_build_object('group_id', g.id, 'status', 'member');
+  end if;
+  if public.is_banned(g.id, auth.uid()) then
+    raise exception 'Banned from this group';
+  end if;
+
+  if coalesce(g.is_public, true) or g.created_by = auth.uid() then
+    insert into public.group_members(group_id, user_id) values (g.id, auth.uid());
+    return jsonb_build_object('group_id', g.id, 'status', 'joined');
+  end if;
+
+  insert into public.group_join_requests (group_id, user_id) values (g.id, auth.uid())
+  on conflict (group_id, user_id) do update
+    set status = 'pending', created_at = now(), decided_by = null, decided_at = null;
+  if g.created_by is not null and public.wants_notification(g.created_by, 'group_join') then
+    select full_name into who from public.profiles where id = auth.uid();
+    insert into public.notifications (user_id, kind, title, link, group_id, actor_id)
+    values (g.created_by, 'group_join', coalesce(who, 'Someone') || ' asked to join ' || g.name,
+            '/groups/' || g.id || '/settings', g.id, auth.uid());
+  end if;
+  return jsonb_build_object('group_id', g.id, 'status', 'requested');
+end $$;
+
+revoke all on function public.join_group_with_code(text) from public;
+grant execute on function public.join_group_with_code(text) to authenticated;
+
+create or replace function public.answer_join_request(gid uuid, uid uuid, approve boolean)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if not public.is_group_admin(gid) then raise exception 'Only group admins can answer join requests'; end if;
+  if not exists (select 1 from public.group_join_requests where group_id = gid and user_id = uid and status = 'pending') then
+    raise exception 'No pending request from this person';
+  end if;
+  if approve then
+    insert into public.group_members (group_id, user_id) values (gid, uid);
+    delete from public.group_join_requests where group_id = gid and user_id = uid;
+  else
+    update public.group_join_requests
+    set status = 'declined', decided_by = auth.uid(), decided_at = now()
+    where group_id = gid and user_id = uid;
+  end if;
+end $$;
+
+revoke all on function public.answer_join_request(uuid, uuid, boolean) from public;
+grant execute on function public.answer_join_request(uuid, uuid, boolean) to authenticated;
+
+-- Mutes: moderators may not mute the owner or each other
+drop policy if exists group_mutes_admin_insert on public.group_mutes;
+create policy group_mutes_admin_insert on public.group_mutes
+  for insert with check (public.is_group_admin(group_id) and public.outranks(group_id, user_id));
+drop policy if exists group_mutes_admin_update on public.group_mutes;
+create policy group_mutes_admin_update on public.group_mutes
+  for update using (public.is_group_admin(group_id) and public.outranks(group_id, user_id));
+
+-- Group sessions and series: owners and moderators manage them alongside their creator
+drop policy if exists "sessions_update" on public.study_sessions;
+create policy "sessions_update" on public.study_sessions
+  for update using (
+    (kind = 'focus' and user_id = auth.uid())
+    or (kind = 'scheduled' and group_id is not null and (user_id = auth.uid() or public.is_group_admin(group_id)))
+    or (kind = 'scheduled' and group_id is null and user_id = auth.uid())
+  ) with check (
+    (kind = 'focus' and user_id = auth.uid())
+    or (kind = 'scheduled' and group_id is not null
+      and public.is_group_member(group_id)
+      and (series_id is null or exists (
+        select 1 from public.session_series s where s.id = study_sessions.series_id and s.group_id = study_sessions.group_id
+      ))
+      and (user_id = auth.uid() or public.is_group_admin(group_id)))
+    or (kind = 'scheduled' and group_id is null and series_id is null and user_id = auth.uid())
+  );
+
+drop policy if exists "sessions_delete" on public.study_sessions;
+create policy "sessions_delete" on public.study_sessions
+  for delete using (
+    (kind = 'focus' and user_id = auth.uid())
+    or (kind = 'scheduled' and group_id is not null and (user_id = auth.uid() or public.is_group_admin(group_id)))
+    or (kind = 'scheduled' and group_id is null and user_id = auth.uid())
+  );
+
+drop policy if exists session_series_update on public.session_series;
+create policy session_series_update on public.session_series
+  for update using (created_by = auth.uid() or public.is_group_admin(group_id))
+  with check (public.is_group_member(group_id) and (created_by = auth.uid() or public.is_group_admin(group_id)));
+
+drop policy if exists session_series_delete on public.session_series;
+create policy session_series_delete on public.session_series
+  for delete using (created_by = auth.uid() or public.is_group_admin(group_id));
+
+-- Roles and removals reach open screens; removals carry the group for client-side checks
+alter table public.group_members replica identity full;
+
+do $$ begin
+  alter publication supabase_realtime add table public.group_members;
+exception when duplicate_object then null;
+end $$;
@@ -27,13 +27,16 @@ create table if not exists public.profiles (
 
 alter table public.profiles enable row level security;
 -- Allow everyone to read profiles
-create policy if not exists "profiles_read" on public.profiles
+drop policy if exists "profiles_read" on public.profiles;
+create policy "profiles_read" on public.profiles
   for select using (true);
 -- Allow a user to insert their own profile row
-create policy if not exists "profiles_insert_own" on public.profiles
+drop policy if exists "profiles_insert_own" on public.profiles;
+create policy "profiles_insert_own" on public.profiles
   for insert with check (auth.uid() = id);
 -- Allow a user to update their own profile
-create policy if not exists "profiles_update_own" on public.profiles
+drop policy if exists "profiles_update_own" on public.profiles;
+create policy "profiles_update_own" on public.profiles
   for update using (auth.uid() = id);
 
 -- ------------------------------------------------------------------
@@ -50,10 +53,12 @@ create table if not exists public.study_groups (
 
 alter table public.study_groups enable row level security;
 -- Anyone can read groups
-create policy if not exists "groups_read" on public.study_groups
+drop policy if exists "groups_read" on public.study_groups;
+create policy "groups_read" on public.study_groups
   for select using (true);
 -- Any logged in user can create a group
-create policy if not exists "groups_insert" on public.study_groups
+drop policy if exists "groups_insert" on public.study_groups;
+create policy "groups_insert" on public.study_groups
   for insert with check (auth.uid() is not null);
 
 -- ------------------------------------------------------------------
@@ -69,13 +74,16 @@ create table if not exists public.group_members (
 
 alter table public.group_members enable row level security;
 -- Allow everyone to read membership lists
-create policy if not exists "members_read" on public.group_members
+drop policy if exists "members_read" on public.group_members;
+create policy "members_read" on public.group_members
   for select using (true);
 -- Allow a user to join a group themselves
-create policy if not exists "members_insert_self" on public.group_members
+drop policy if exists "members_insert_self" on public.group_members;
+create policy "members_insert_self" on public.group_members
   for insert with check (auth.uid() = user_id);
 -- Allow a user to leave a group themselves
-create policy if not exists "members_delete_self" on public.group_members
+drop policy if exists "members_delete_self" on public.group_members;
+create policy "members_delete_self" on public.group_members
   for delete using (auth.uid() = user_id);
 
 -- ------------------------------------------------------------------
@@ -92,10 +100,12 @@ create table if not exists public.messages (
 
 alter table public.messages enable row level security;
 -- Anyone can read messages
-create policy if not exists "messages_read" on public.messages
+drop policy if exists "messages_read" on public.messages;
+create policy "messages_read" on public.messages
   for select using (true);
 -- Only group members can insert messages
-create policy if not exists "messages_insert_member" on public.messages
+drop policy if exists "messages_insert_member" on public.messages;
+create policy "messages_insert_member" on public.messages
   for insert with check (
     exists (
       select 1 from public.group_members gm
@@ -117,10 +127,12 @@ create table if not exists public.message_reactions (
 
 alter table public.message_reactions enable row level security;
 -- Anyone can read reactions
-create policy if not exists "reactions_read" on public.message_reactions
+drop policy if exists "reactions_read" on public.message_reactions;
+create policy "reactions_read" on public.message_reactions
   for select using (true);
 -- Users can insert or update their own reaction if they are group members
-create policy if not exists "reactions_upsert_member" on public.message_reactions
+drop policy if exists "reactions_upsert_member" on public.message_reactions;
+create policy "reactions_upsert_member" on public.message_reactions
   for insert with check (
     exists (
       select 1 from public.group_members gm
@@ -128,7 +140,8 @@ create policy if not exists "reactions_upsert_member" on public.message_reaction
       where gm.user_id = auth.uid()
     )
   );
-create policy if not exists "reactions_update_member" on public.message_reactions
+drop policy if exists "reactions_update_member" on public.message_reactions;
+create policy "reactions_update_member" on public.message_reactions
   for update using (
     exists (
       select 1 from public.group_members gm
@@ -156,10 +169,12 @@ create index if not exists study_sessions_start_idx on public.study_sessions(sta
 
 alter table public.study_sessions enable row level security;
 -- Anyone can read sessions
-create policy if not exists "sessions_read" on public.study_sessions
+drop policy if exists "sessions_read" on public.study_sessions;
+create policy "sessions_read" on public.study_sessions
   for select using (true);
 -- Users can insert a session if they are a group member or the owner
-create policy if not exists "sessions_insert" on public.study_sessions
+drop policy if exists "sessions_insert" on public.study_sessions;
+create policy "sessions_insert" on public.study_sessions
   for insert with check (
     (group_id is not null and exists (
       select 1 from public.group_members gm where gm.group_id = group_id and gm.user_id = auth.uid()
@@ -167,7 +182,8 @@ create policy if not exists "sessions_insert" on public.study_sessions
     or (group_id is null and user_id = auth.uid())
   );
 -- Users can update their own sessions (personal or group) as members
-create policy if not exists "sessions_update" on public.study_sessions
+drop policy if exists "sessions_update" on public.study_sessions;
+create policy "sessions_update" on public.study_sessions
   for update using (
     (group_id is not null and exists (
       select 1 from public.group_members gm where gm.group_id = group_id and gm.user_id = auth.uid()